@@ -0,0 +1,31 @@
+import { ApiVersioning } from '@/shared/http'
+import { MountedRoute } from '@/shared/mediator'
+import { generateOpenApiDocument, OpenApiDocument } from '@/shared/openapi'
+
+/**
+ * API versions served, oldest first
+ * Unversioned paths are served by the version asked for in `Accept-Version` or
+ * `Accept: application/vnd.vertical-slice.v2+json`, and by the default version otherwise
+ * Deprecate a version with `deprecatedAt`, `sunsetAt` and a migration `link`
+ */
+export const apiVersioning: ApiVersioning = {
+  versions: [{ name: 'v1' }, { name: 'v2' }],
+  defaultVersion: 'v1',
+  vendor: 'vertical-slice',
+}
+
+/**
+ * OpenAPI document of the routes of every feature module
+ * The committed `openapi.json` must match it: regenerate it with `pnpm openapi:generate`
+ */
+export function createOpenApiDocument(mounted: MountedRoute[]): OpenApiDocument {
+  return generateOpenApiDocument(mounted, {
+    title: 'Vertical Slice API',
+    version: '1.0.0',
+    description:
+      'Every path is also served without its version prefix, by the version asked for in the ' +
+      '`Accept-Version` header or the `application/vnd.vertical-slice.<version>+json` media type, ' +
+      `and by ${apiVersioning.defaultVersion} otherwise.`,
+    versioning: apiVersioning,
+  })
+}
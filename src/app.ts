@@ -2,15 +2,28 @@ import express from 'express'
 
 import { Startup } from './startup'
 
+import { Tokens } from '@/infrastructure/container/tokens'
+import { healthRouter } from '@/shared/health'
+import { errorHandler, requestId } from '@/shared/http'
+import { httpMetrics, metricsRouter } from '@/shared/metrics'
+
+Startup.initialize()
+
 const app = express()
+const metrics = Startup.getContainer().resolve(Tokens.Metrics)
 
+// First, so everything logged while handling a request carries its ID
+app.use(requestId())
+// Before any route, so every request is counted, including rejected ones
+app.use(httpMetrics(metrics))
 app.use(express.json())
 
-Startup.initialize()
+// Probes and metrics are unversioned, so they come before the version negotiation of the feature routes
+app.use(healthRouter(Startup.getHealthRegistry()))
+app.use(metricsRouter(metrics))
 Startup.registerRoutes(app)
 
-app.get('/health', (req, res) => {
-  res.status(200).json({ status: 'ok' })
-})
+// Must come after every route
+app.use(errorHandler)
 
 export { app }
@@ -0,0 +1,102 @@
+import { z } from 'zod'
+
+import { commaSeparated, json, loadConfig, secret } from '@/shared/config'
+
+const seconds = () => z.coerce.number().int().positive()
+
+/**
+ * Signing and verification keys of the access tokens, see `JWT_KEYS`
+ */
+const jwtKeysSchema = z
+  .array(
+    z.discriminatedUnion('alg', [
+      z.object({ kid: z.string().min(1), alg: z.literal('HS256'), secret: z.string().min(32) }),
+      z.object({
+        kid: z.string().min(1),
+        alg: z.literal('RS256'),
+        publicKey: z.string().min(1),
+        privateKey: z.string().min(1).optional(),
+      }),
+    ]),
+  )
+  .min(1)
+
+/**
+ * Settings of the application, one per environment variable (see `.env_example`)
+ * Values are read from `.env`, `.env.<NODE_ENV>` and the environment, later sources winning
+ */
+export const configSchema = z
+  .object({
+    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+    PORT: z.coerce.number().int().min(1).max(65535).default(3000),
+    DATABASE_URL: z.string().default('file:./prisma/dev.db'),
+    APP_URL: z.url().default('http://localhost:3000'),
+    FEATURES_DISABLED: commaSeparated(),
+    SHUTDOWN_DRAIN_DELAY: z.coerce.number().int().min(0).default(5),
+    SHUTDOWN_TIMEOUT: seconds().default(10),
+    LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error', 'silent']).default('info'),
+    LOG_REDACT: commaSeparated(),
+
+    JWT_SECRET: secret(z.string().min(32).optional()),
+    JWT_KEYS: secret(json(jwtKeysSchema).optional()),
+    JWT_ACTIVE_KID: z.string().optional(),
+    JWT_ACCESS_TOKEN_TTL: seconds().optional(),
+    JWT_ISSUER: z.string().optional(),
+    JWT_AUDIENCE: z.string().optional(),
+    TOKEN_SIGNING_SECRET: secret(z.string().optional()),
+    PASSWORD_RESET_TTL: seconds().default(60 * 60),
+
+    EMAIL_TRANSPORT: z.enum(['console', 'outbox', 'smtp']).default('console'),
+    EMAIL_FROM: z.string().default('no-reply@localhost'),
+    EMAIL_LOCALE: z.string().default('en'),
+    EMAIL_OUTBOX_DIR: z.string().default('./outbox'),
+    SMTP_HOST: z.string().optional(),
+    SMTP_PORT: z.coerce.number().int().min(1).max(65535).optional(),
+    SMTP_SECURE: z.stringbool().default(false),
+    SMTP_REQUIRE_TLS: z.stringbool().default(false),
+    SMTP_ALLOW_INSECURE_AUTH: z.stringbool().default(false),
+    SMTP_USER: z.string().optional(),
+    SMTP_PASSWORD: secret(z.string().optional()),
+  })
+  .superRefine((config, ctx) => {
+    if (config.EMAIL_TRANSPORT === 'smtp' && !config.SMTP_HOST) {
+      ctx.addIssue({ code: 'custom', path: ['SMTP_HOST'], message: 'Required when EMAIL_TRANSPORT is smtp' })
+    }
+
+    if (config.JWT_KEYS && config.JWT_ACTIVE_KID && !config.JWT_KEYS.some((key) => key.kid === config.JWT_ACTIVE_KID)) {
+      ctx.addIssue({ code: 'custom', path: ['JWT_ACTIVE_KID'], message: 'Must be the kid of one of JWT_KEYS' })
+    }
+
+    // Outside production, missing secrets are replaced by random per-process ones
+    if (config.NODE_ENV === 'production') {
+      if (!config.JWT_SECRET && !config.JWT_KEYS) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['JWT_SECRET'],
+          message: 'JWT_SECRET or JWT_KEYS is required in production',
+        })
+      }
+      if (!config.TOKEN_SIGNING_SECRET) {
+        ctx.addIssue({ code: 'custom', path: ['TOKEN_SIGNING_SECRET'], message: 'Required in production' })
+      }
+      // The console transport logs the verification and reset tokens, which are live credentials
+      if (config.EMAIL_TRANSPORT === 'console') {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['EMAIL_TRANSPORT'],
+          message: 'console only logs emails, use outbox or smtp in production',
+        })
+      }
+    }
+  })
+
+/**
+ * Validated settings of the application
+ */
+export type AppConfig = z.output<typeof configSchema>
+
+/**
+ * Settings of the application, loaded once by whichever module needs them first
+ * Fails the process on import when a setting is invalid, before anything is built from it
+ */
+export const config: AppConfig = loadConfig(configSchema)
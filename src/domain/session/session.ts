@@ -0,0 +1,61 @@
+/**
+ * A signed-in device
+ * Every refresh token issued for the device belongs to the session, so revoking it ends the whole token family
+ */
+export class Session {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly createdAt: Date,
+    public readonly revokedAt: Date | null = null,
+  ) {}
+
+  public static start(userId: string): Session {
+    return new Session('', userId, new Date())
+  }
+
+  public get isRevoked(): boolean {
+    return this.revokedAt !== null
+  }
+}
+
+/**
+ * Single-use refresh token of a session, stored as a hash of the value handed to the client
+ */
+export class RefreshToken {
+  constructor(
+    public readonly id: string,
+    public readonly sessionId: string,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly rotatedAt: Date | null = null,
+  ) {}
+
+  public static issue(sessionId: string, tokenHash: string, ttlSeconds: number): RefreshToken {
+    const now = new Date()
+    return new RefreshToken('', sessionId, tokenHash, new Date(now.getTime() + ttlSeconds * 1000), now)
+  }
+
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime()
+  }
+}
+
+export interface SessionRepository {
+  save(session: Session): Promise<Session>
+  findById(id: string): Promise<Session | null>
+  revoke(id: string): Promise<void>
+  /**
+   * Revokes every active session of a user
+   * @returns Number of sessions revoked
+   */
+  revokeAllForUser(userId: string): Promise<number>
+  saveRefreshToken(token: RefreshToken): Promise<RefreshToken>
+  findRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null>
+  /**
+   * Marks a refresh token as used, unless another request already did
+   * @returns Whether this call rotated the token
+   */
+  markRotated(tokenId: string): Promise<boolean>
+}
@@ -0,0 +1,49 @@
+/**
+ * Password strength requirements
+ */
+export interface PasswordPolicy {
+  minLength: number
+  maxLength: number
+  requireLowercase: boolean
+  requireUppercase: boolean
+  requireDigit: boolean
+  requireSymbol: boolean
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  maxLength: 128,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireDigit: true,
+  requireSymbol: false,
+}
+
+/**
+ * Checks a password against a policy
+ * @returns One message per violated rule (empty when the password is acceptable)
+ */
+export function checkPasswordStrength(password: string, policy: PasswordPolicy): string[] {
+  const violations: string[] = []
+
+  if (password.length < policy.minLength) {
+    violations.push(`Password must be at least ${policy.minLength} characters long`)
+  }
+  if (password.length > policy.maxLength) {
+    violations.push(`Password must be at most ${policy.maxLength} characters long`)
+  }
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
+    violations.push('Password must contain a lowercase letter')
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+    violations.push('Password must contain an uppercase letter')
+  }
+  if (policy.requireDigit && !/\d/.test(password)) {
+    violations.push('Password must contain a digit')
+  }
+  if (policy.requireSymbol && !/[^a-zA-Z\d]/.test(password)) {
+    violations.push('Password must contain a symbol')
+  }
+
+  return violations
+}
@@ -0,0 +1,36 @@
+/**
+ * Single-use password reset token, stored as a hash of the value emailed to the user
+ */
+export class PasswordResetToken {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly usedAt: Date | null = null,
+  ) {}
+
+  public static issue(userId: string, tokenHash: string, ttlSeconds: number): PasswordResetToken {
+    const now = new Date()
+    return new PasswordResetToken('', userId, tokenHash, new Date(now.getTime() + ttlSeconds * 1000), now)
+  }
+
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime()
+  }
+}
+
+export interface PasswordResetTokenRepository {
+  save(token: PasswordResetToken): Promise<PasswordResetToken>
+  findByHash(tokenHash: string): Promise<PasswordResetToken | null>
+  /**
+   * Marks a token as used, unless another request already did
+   * @returns Whether this call used the token
+   */
+  markUsed(id: string): Promise<boolean>
+  /**
+   * Removes every token of a user, used or not
+   */
+  deleteForUser(userId: string): Promise<void>
+}
@@ -0,0 +1,16 @@
+/**
+ * Permissions guarding the user management slices
+ */
+export const UserPermissions = {
+  Read: 'users:read',
+  List: 'users:list',
+  Update: 'users:update',
+  Delete: 'users:delete',
+} as const
+
+/**
+ * Roles seeded by the migrations
+ */
+export const Roles = {
+  Admin: 'admin',
+} as const
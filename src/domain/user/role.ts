@@ -0,0 +1,9 @@
+/**
+ * Named set of permissions granted to users
+ */
+export class Role {
+  constructor(
+    public readonly name: string,
+    public readonly permissions: string[],
+  ) {}
+}
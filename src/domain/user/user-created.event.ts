@@ -0,0 +1,34 @@
+import { User } from './user'
+
+/**
+ * Domain event raised after a new user has been persisted
+ * Published as a Notification so other slices (email, audit, analytics) can react to it
+ */
+export class UserCreated {
+  static readonly eventType = 'user.created'
+
+  readonly _tag = 'Notification' as const
+
+  constructor(
+    public readonly userId: string,
+    public readonly email: string,
+    public readonly name: string | null,
+    public readonly occurredAt: Date,
+  ) {}
+
+  public static fromUser(user: User): UserCreated {
+    return new UserCreated(user.id, user.email, user.name, new Date())
+  }
+
+  /**
+   * Rebuilds the event read back from the outbox
+   */
+  public static fromPayload(payload: {
+    userId: string
+    email: string
+    name: string | null
+    occurredAt: string
+  }): UserCreated {
+    return new UserCreated(payload.userId, payload.email, payload.name, new Date(payload.occurredAt))
+  }
+}
@@ -1,3 +1,7 @@
+import { Role } from './role'
+
+import { Notification } from '@/shared/cqs'
+
 export class User {
   constructor(
     public readonly id: string,
@@ -5,17 +9,123 @@ export class User {
     public readonly name: string | null,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
+    public readonly passwordHash: string | null = null,
+    public readonly emailVerifiedAt: Date | null = null,
+    /**
+     * Bumped whenever the password is reset; access tokens issued for an older version are rejected
+     */
+    public readonly credentialVersion: number = 0,
+    public readonly roles: Role[] = [],
   ) {}
 
-  public static create(email: string, name: string | null): User {
+  public static create(email: string, name: string | null, passwordHash: string | null = null): User {
     // Domain logic: validation, defaults, etc.
     // Note: ID is usually assigned by persistence or via UUID generation here if we want to decouple completely from DB ID generation.
     // For this example, we'll let the persistence layer handle ID or assume it's passed in after creation.
-    return new User('', email, name, new Date(), new Date())
+    return new User('', email, name, new Date(), new Date(), passwordHash)
+  }
+
+  /**
+   * Returns a copy of the user with the given profile changes applied
+   * A new email address has to be verified again
+   */
+  public update(changes: { email?: string; name?: string | null }): User {
+    const emailChanged = changes.email !== undefined && changes.email !== this.email
+
+    return new User(
+      this.id,
+      changes.email ?? this.email,
+      changes.name === undefined ? this.name : changes.name,
+      this.createdAt,
+      new Date(),
+      this.passwordHash,
+      emailChanged ? null : this.emailVerifiedAt,
+      this.credentialVersion,
+      this.roles,
+    )
+  }
+
+  /**
+   * Returns a copy of the user with a new hash of the same password (e.g. upgraded hashing parameters)
+   */
+  public withPasswordHash(passwordHash: string): User {
+    return new User(
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
+      new Date(),
+      passwordHash,
+      this.emailVerifiedAt,
+      this.credentialVersion,
+      this.roles,
+    )
+  }
+
+  /**
+   * Returns a copy of the user with a new password, invalidating credentials issued for the old one
+   */
+  public resetPassword(passwordHash: string): User {
+    return new User(
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
+      new Date(),
+      passwordHash,
+      this.emailVerifiedAt,
+      this.credentialVersion + 1,
+      this.roles,
+    )
   }
+
+  /**
+   * Returns a copy of the user with the email address marked as verified
+   */
+  public verifyEmail(): User {
+    const now = new Date()
+    return new User(
+      this.id,
+      this.email,
+      this.name,
+      this.createdAt,
+      now,
+      this.passwordHash,
+      now,
+      this.credentialVersion,
+      this.roles,
+    )
+  }
+
+  public get isEmailVerified(): boolean {
+    return this.emailVerifiedAt !== null
+  }
+
+  /**
+   * Every permission granted through the user's roles
+   */
+  public get permissions(): string[] {
+    return [...new Set(this.roles.flatMap((role) => role.permissions))]
+  }
+}
+
+/**
+ * Paging options for listing users
+ */
+export interface UserPage {
+  skip: number
+  take: number
 }
 
 export interface UserRepository {
-  save(user: User): Promise<User>
+  /**
+   * Persists a new user
+   * @param events - Notifications raised by the creation, written to the outbox in the same transaction
+   */
+  save(user: User, events?: (saved: User) => Notification[]): Promise<User>
+  findById(id: string): Promise<User | null>
   findByEmail(email: string): Promise<User | null>
+  findAll(page: UserPage): Promise<{ users: User[]; total: number }>
+  update(user: User): Promise<User>
+  delete(id: string): Promise<void>
 }
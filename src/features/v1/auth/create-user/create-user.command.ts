@@ -1,6 +1,8 @@
 import { z } from 'zod'
 
 import { Command } from '@/shared/cqs'
+import { ConflictError, map, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
 
 /**
  * Validation schema for CreateUser command
@@ -8,25 +10,32 @@ import { Command } from '@/shared/cqs'
 export const createUserSchema = z.object({
   email: z.string().email(),
   name: z.string().optional(),
+  password: z.string().min(1),
 })
 
 /**
- * Command to create a new user
+ * Command to register a new user with a password
+ * Password strength is checked by the handler against the configured policy
  */
-export class CreateUserCommand implements Command {
-  readonly _tag = 'Command' as const
+export class CreateUserCommand extends Command<CreateUserResult, ConflictError | ValidationError> {
+  static readonly schema = createUserSchema
 
   constructor(
     public readonly email: string,
+    public readonly password: string,
     public readonly name?: string,
-  ) {}
+  ) {
+    super()
+  }
 
   /**
    * Factory method with validation
    */
-  static fromInput(input: unknown): CreateUserCommand {
-    const validated = createUserSchema.parse(input)
-    return new CreateUserCommand(validated.email, validated.name)
+  static fromInput(input: unknown): Result<CreateUserCommand, ValidationError> {
+    return map(
+      validate(createUserSchema, input),
+      (validated) => new CreateUserCommand(validated.email, validated.password, validated.name),
+    )
   }
 }
 
@@ -39,3 +48,13 @@ export interface CreateUserResult {
   name: string | null
   createdAt: Date
 }
+
+/**
+ * Response schema for CreateUser command, documents CreateUserResult in the OpenAPI spec
+ */
+export const createUserResultSchema: z.ZodType<CreateUserResult> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  createdAt: z.date(),
+})
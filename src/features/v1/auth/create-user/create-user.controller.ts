@@ -1,13 +1,14 @@
-import { Request, Response } from 'express'
+import { Request } from 'express'
 
 import { CreateUserCommand, CreateUserResult } from './create-user.command'
 
+import { requestContext } from '@/shared/http'
 import { Mediator } from '@/shared/mediator'
-import { DomainError, errorToResponse, match } from '@/shared/result'
+import { DomainError, isFailure, Result } from '@/shared/result'
 
 /**
  * Controller for user creation endpoint
- * Handles HTTP request/response and delegates to Mediator
+ * Maps the HTTP request to a command and delegates to Mediator
  */
 export class CreateUserController {
   constructor(private readonly mediator: Mediator) {}
@@ -15,22 +16,14 @@ export class CreateUserController {
   /**
    * Handle POST /users request
    */
-  async handle(req: Request, res: Response): Promise<void> {
+  async handle(req: Request): Promise<Result<CreateUserResult, DomainError>> {
     // Validate and create command from request body
     const command = CreateUserCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
 
     // Send command through mediator
-    const result = await this.mediator.send<CreateUserResult, DomainError>(command)
-
-    // Handle Result using pattern matching
-    match(result, {
-      onSuccess: (data) => {
-        res.status(201).json(data)
-      },
-      onFailure: (error) => {
-        const { status, body } = errorToResponse(error)
-        res.status(status).json(body)
-      },
-    })
+    return this.mediator.send(command.value, requestContext(req))
   }
 }
@@ -1,37 +1,46 @@
 import { CreateUserCommand, CreateUserResult } from './create-user.command'
 
+import { checkPasswordStrength, DEFAULT_PASSWORD_POLICY, PasswordPolicy } from '@/domain/user/password-policy'
 import { User, UserRepository } from '@/domain/user/user'
-import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { PasswordHasher } from '@/infrastructure/security/interfaces/password-hasher'
 import { CommandHandler } from '@/shared/cqs'
-import { DomainError, Errors, failure, Result, success } from '@/shared/result'
+import { Counter } from '@/shared/metrics'
+import { ConflictError, Errors, failure, Result, success, ValidationError } from '@/shared/result'
 
 /**
  * Handler for CreateUserCommand
  * Orchestrates user creation with domain logic and infrastructure
  */
-export class CreateUserCommandHandler implements CommandHandler<CreateUserCommand, CreateUserResult, DomainError> {
+export class CreateUserCommandHandler implements CommandHandler<CreateUserCommand> {
   constructor(
     private readonly userRepository: UserRepository,
-    private readonly emailService: EmailService,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly passwordPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+    private readonly usersCreated?: Counter,
   ) {}
 
-  async execute(command: CreateUserCommand): Promise<Result<CreateUserResult, DomainError>> {
+  async execute(command: CreateUserCommand): Promise<Result<CreateUserResult, ConflictError | ValidationError>> {
+    // Enforce password strength
+    const violations = checkPasswordStrength(command.password, this.passwordPolicy)
+    if (violations.length > 0) {
+      return failure(Errors.validation('Password does not meet the password policy', { password: violations }))
+    }
+
     // Check if user already exists
     const existing = await this.userRepository.findByEmail(command.email)
     if (existing) {
       return failure(Errors.conflict('User', 'User with this email already exists'))
     }
 
-    // Create domain entity
-    const newUser = User.create(command.email, command.name || null)
+    // Create domain entity with a salted hash, never the plain password
+    const passwordHash = await this.passwordHasher.hash(command.password)
+    const newUser = User.create(command.email, command.name || null, passwordHash)
 
-    // Persist to repository
-    const savedUser = await this.userRepository.save(newUser)
-
-    // Send welcome email (integration)
-    if (savedUser.name) {
-      await this.emailService.sendWelcomeEmail(savedUser.email, savedUser.name)
-    }
+    // Persist together with the UserCreated event; the outbox dispatcher lets other slices
+    // react (welcome email, audit, ...) once the user is committed, retrying when they fail
+    const savedUser = await this.userRepository.save(newUser, (saved) => [UserCreated.fromUser(saved)])
+    this.usersCreated?.inc()
 
     return success({
       id: savedUser.id,
@@ -1,11 +1,23 @@
 import { Router } from 'express'
 
-import { CreateUserCommand } from './create-user.command'
+import { CreateUserCommand, createUserResultSchema } from './create-user.command'
 import { CreateUserController } from './create-user.controller'
 import { CreateUserCommandHandler } from './create-user.handler'
+import { SendVerificationEmailHandler } from './send-verification-email.handler'
+import { SendWelcomeEmailHandler } from './send-welcome-email.handler'
+import { SendWelcomeEmailJob, SendWelcomeEmailJobHandler } from './send-welcome-email.job'
 
-import { ConsoleEmailService } from '@/infrastructure/messaging/email-service/console-email-service'
-import { PrismaUserRepository } from '@/infrastructure/persistence/prisma/user-repository'
+import { DEFAULT_PASSWORD_POLICY } from '@/domain/user/password-policy'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { EmailVerificationTokens } from '@/features/v1/auth/email-verification-tokens'
+import {
+  SendVerificationEmailJob,
+  SendVerificationEmailJobHandler,
+} from '@/features/v1/auth/send-verification-email.job'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { JobRegistry } from '@/shared/jobs'
 import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
 
 /**
@@ -13,17 +25,47 @@ import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
  * Handles user creation command and route registration
  */
 export class CreateUserModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [
+    Tokens.UserRepository,
+    Tokens.PasswordHasher,
+    Tokens.TokenSigner,
+    Tokens.EmailService,
+    Tokens.Metrics,
+  ]
+
   /**
-   * Register command handlers with the mediator
+   * Register command and notification handlers with the mediator
    */
-  registerHandlers(mediator: InMemoryMediator): void {
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
     // Infrastructure dependencies
-    const userRepository = new PrismaUserRepository()
-    const emailService = new ConsoleEmailService()
+    const userRepository = container.resolve(Tokens.UserRepository)
+    const passwordHasher = container.resolve(Tokens.PasswordHasher)
+
+    // Feature metrics, exposed at /metrics with the HTTP and mediator ones
+    const usersCreated = container.resolve(Tokens.Metrics).counter({
+      name: 'users_created_total',
+      help: 'Users registered with a password',
+    })
 
     // Register command handler
-    const handler = new CreateUserCommandHandler(userRepository, emailService)
-    mediator.register(CreateUserCommand.name, handler)
+    const handler = new CreateUserCommandHandler(userRepository, passwordHasher, DEFAULT_PASSWORD_POLICY, usersCreated)
+    mediator.register(CreateUserCommand, handler)
+
+    // React to our own domain event
+    mediator.subscribe(UserCreated, new SendWelcomeEmailHandler(mediator))
+    mediator.subscribe(UserCreated, new SendVerificationEmailHandler(mediator))
+  }
+
+  /**
+   * Register the background jobs run for this feature
+   */
+  registerJobs(jobs: JobRegistry, container: Resolver): void {
+    const emailService = container.resolve(Tokens.EmailService)
+    const verificationTokens = new EmailVerificationTokens(container.resolve(Tokens.TokenSigner))
+
+    jobs.register(SendWelcomeEmailJob, new SendWelcomeEmailJobHandler(emailService))
+    jobs.register(SendVerificationEmailJob, new SendVerificationEmailJobHandler(emailService, verificationTokens))
   }
 
   /**
@@ -34,11 +76,25 @@ export class CreateUserModule implements FeatureModule {
     const controller = new CreateUserController(mediator)
 
     // Define routes
-    router.post('/', (req, res) => controller.handle(req, res))
+    router.post(
+      '/',
+      asRoute((req) => controller.handle(req), { status: 201 }),
+    )
 
     return {
       basePath: '/users',
       router,
+      operations: [
+        {
+          method: 'post',
+          path: '/',
+          summary: 'Register a user with a password',
+          request: CreateUserCommand,
+          response: createUserResultSchema,
+          status: 201,
+          errors: ['CONFLICT'],
+        },
+      ],
     }
   }
 }
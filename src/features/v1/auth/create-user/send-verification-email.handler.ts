@@ -0,0 +1,24 @@
+import { UserCreated } from '@/domain/user/user-created.event'
+import { SendVerificationEmailJob } from '@/features/v1/auth/send-verification-email.job'
+import { NotificationHandler } from '@/shared/cqs'
+import { EnqueueJobCommand } from '@/shared/jobs'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, Result } from '@/shared/result'
+
+/**
+ * Handler for the UserCreated notification
+ * Enqueues a verification link so the user can prove the email address is theirs;
+ * a failing mail server is retried by the job worker instead of redelivering the notification
+ */
+export class SendVerificationEmailHandler implements NotificationHandler<UserCreated, DomainError> {
+  constructor(private readonly mediator: Mediator) {}
+
+  async execute(notification: UserCreated): Promise<Result<void, DomainError>> {
+    // Keyed by user, so a redelivered notification doesn't send the email twice
+    return this.mediator.send(
+      new EnqueueJobCommand(new SendVerificationEmailJob(notification.userId, notification.email), {
+        uniqueKey: `${SendVerificationEmailJob.jobName}:${notification.userId}`,
+      }),
+    )
+  }
+}
@@ -0,0 +1,29 @@
+import { SendWelcomeEmailJob } from './send-welcome-email.job'
+
+import { UserCreated } from '@/domain/user/user-created.event'
+import { NotificationHandler } from '@/shared/cqs'
+import { EnqueueJobCommand } from '@/shared/jobs'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for the UserCreated notification
+ * Enqueues the welcome email as a background job, so a slow or failing mail server
+ * is retried by the job worker instead of holding up the notification
+ */
+export class SendWelcomeEmailHandler implements NotificationHandler<UserCreated, DomainError> {
+  constructor(private readonly mediator: Mediator) {}
+
+  async execute(notification: UserCreated): Promise<Result<void, DomainError>> {
+    if (!notification.name) {
+      return success(undefined)
+    }
+
+    // Keyed by user, so a redelivered notification doesn't send the email twice
+    return this.mediator.send(
+      new EnqueueJobCommand(new SendWelcomeEmailJob(notification.email, notification.name), {
+        uniqueKey: `${SendWelcomeEmailJob.jobName}:${notification.userId}`,
+      }),
+    )
+  }
+}
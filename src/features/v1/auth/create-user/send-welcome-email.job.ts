@@ -0,0 +1,33 @@
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { Job, JobHandler } from '@/shared/jobs'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Background job sending the welcome email to a new user
+ */
+export class SendWelcomeEmailJob extends Job {
+  static readonly jobName = 'send-welcome-email'
+
+  constructor(
+    public readonly email: string,
+    public readonly name: string,
+  ) {
+    super()
+  }
+
+  static fromPayload(payload: { email: string; name: string }): SendWelcomeEmailJob {
+    return new SendWelcomeEmailJob(payload.email, payload.name)
+  }
+}
+
+/**
+ * Sends the welcome email; a throwing email service makes the worker retry the job
+ */
+export class SendWelcomeEmailJobHandler implements JobHandler<SendWelcomeEmailJob> {
+  constructor(private readonly emailService: EmailService) {}
+
+  async execute(job: SendWelcomeEmailJob): Promise<Result<void, DomainError>> {
+    await this.emailService.sendWelcomeEmail(job.email, job.name)
+    return success(undefined)
+  }
+}
@@ -0,0 +1,52 @@
+import { TokenSigner } from '@/infrastructure/security/interfaces/token-signer'
+import { Errors, failure, isFailure, Result, success, ValidationError } from '@/shared/result'
+
+const EMAIL_VERIFICATION_PURPOSE = 'email-verification'
+
+/**
+ * Verification links stay valid for a day
+ */
+export const DEFAULT_EMAIL_VERIFICATION_TTL_SECONDS = 24 * 60 * 60
+
+/**
+ * Claims of a verification token: which user asked to verify which address
+ */
+export interface EmailVerificationClaims {
+  userId: string
+  email: string
+}
+
+/**
+ * Signed, expiring email verification tokens
+ * Nothing is stored: a token is spent once its user is verified, and dead once the user's email changes.
+ * Shared by the create-user, verify-email and resend-verification slices
+ */
+export class EmailVerificationTokens {
+  constructor(
+    private readonly signer: TokenSigner,
+    private readonly ttlSeconds: number = DEFAULT_EMAIL_VERIFICATION_TTL_SECONDS,
+  ) {}
+
+  issue(claims: EmailVerificationClaims): string {
+    return this.signer.sign(EMAIL_VERIFICATION_PURPOSE, { sub: claims.userId, email: claims.email }, this.ttlSeconds)
+  }
+
+  verify(token: string): Result<EmailVerificationClaims, ValidationError> {
+    const payload = this.signer.verify(EMAIL_VERIFICATION_PURPOSE, token)
+
+    if (isFailure(payload)) {
+      return failure(
+        Errors.validation(
+          payload.error === 'expired' ? 'Verification token has expired' : 'Verification token is invalid',
+        ),
+      )
+    }
+
+    const { sub, email } = payload.value
+    if (typeof sub !== 'string' || typeof email !== 'string') {
+      return failure(Errors.validation('Verification token is invalid'))
+    }
+
+    return success({ userId: sub, email })
+  }
+}
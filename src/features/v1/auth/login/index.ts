@@ -0,0 +1,62 @@
+import { Router } from 'express'
+
+import { LoginCommand, loginResultSchema } from './login.command'
+import { LoginController } from './login.controller'
+import { LoginCommandHandler } from './login.handler'
+
+import { SessionTokenIssuer } from '@/features/v1/auth/session-tokens'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Login Feature Module
+ * Handles the credential check command, which starts a session, and route registration
+ */
+export class LoginModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.UserRepository, Tokens.SessionRepository, Tokens.PasswordHasher, Tokens.TokenService]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+    const passwordHasher = container.resolve(Tokens.PasswordHasher)
+    const sessionTokens = new SessionTokenIssuer(
+      container.resolve(Tokens.SessionRepository),
+      container.resolve(Tokens.TokenService),
+    )
+
+    mediator.register(LoginCommand, new LoginCommandHandler(userRepository, passwordHasher, sessionTokens))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new LoginController(mediator)
+
+    router.post(
+      '/login',
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/login',
+          summary: 'Start a session with email and password',
+          request: LoginCommand,
+          response: loginResultSchema,
+          errors: ['UNAUTHORIZED'],
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { z } from 'zod'
+
+import { SessionTokens, sessionTokensSchema } from '@/features/v1/auth/session-tokens'
+import { Command } from '@/shared/cqs'
+import { map, Result, UnauthorizedError, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for Login command
+ */
+export const loginSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+})
+
+/**
+ * Command to authenticate a user with email and password
+ */
+export class LoginCommand extends Command<LoginResult, UnauthorizedError> {
+  static readonly schema = loginSchema
+
+  constructor(
+    public readonly email: string,
+    public readonly password: string,
+  ) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<LoginCommand, ValidationError> {
+    return map(validate(loginSchema, input), (validated) => new LoginCommand(validated.email, validated.password))
+  }
+}
+
+/**
+ * Result type for Login command
+ */
+export interface LoginResult extends SessionTokens {
+  user: {
+    id: string
+    email: string
+    name: string | null
+  }
+}
+
+/**
+ * Response schema for Login command, documents LoginResult in the OpenAPI spec
+ */
+export const loginResultSchema: z.ZodType<LoginResult> = sessionTokensSchema.extend({
+  user: z.object({
+    id: z.string(),
+    email: z.string(),
+    name: z.string().nullable(),
+  }),
+})
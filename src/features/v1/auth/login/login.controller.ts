@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { LoginCommand, LoginResult } from './login.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for the login endpoint
+ */
+export class LoginController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/login request
+   */
+  async handle(req: Request): Promise<Result<LoginResult, DomainError>> {
+    const command = LoginCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,63 @@
+import { randomBytes } from 'node:crypto'
+
+import { LoginCommand, LoginResult } from './login.command'
+
+import { UserRepository } from '@/domain/user/user'
+import { SessionTokenIssuer } from '@/features/v1/auth/session-tokens'
+import { PasswordHasher } from '@/infrastructure/security/interfaces/password-hasher'
+import { CommandHandler } from '@/shared/cqs'
+import { Errors, failure, Result, success, UnauthorizedError } from '@/shared/result'
+
+/**
+ * Handler for LoginCommand
+ * Verifies credentials, upgrades outdated password hashes and starts a session
+ */
+export class LoginCommandHandler implements CommandHandler<LoginCommand> {
+  private dummyHash: Promise<string> | null = null
+
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly sessionTokens: SessionTokenIssuer,
+  ) {}
+
+  async execute(command: LoginCommand): Promise<Result<LoginResult, UnauthorizedError>> {
+    const user = await this.userRepository.findByEmail(command.email)
+
+    // Always run a verification, even for unknown users, so timing doesn't reveal which emails exist
+    const passwordHash = user?.passwordHash ?? (await this.getDummyHash())
+    const valid = await this.passwordHasher.verify(command.password, passwordHash)
+
+    if (!user || !user.passwordHash || !valid) {
+      return failure(Errors.unauthorized('Invalid email or password'))
+    }
+
+    // Upgrade hashes created with outdated parameters while we know the plain password
+    if (this.passwordHasher.needsRehash(user.passwordHash)) {
+      await this.userRepository.update(user.withPasswordHash(await this.passwordHasher.hash(command.password)))
+    }
+
+    const tokens = await this.sessionTokens.start({
+      userId: user.id,
+      email: user.email,
+      credentialVersion: user.credentialVersion,
+    })
+
+    return success({
+      ...tokens,
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+      },
+    })
+  }
+
+  private getDummyHash(): Promise<string> {
+    if (!this.dummyHash) {
+      this.dummyHash = this.passwordHasher.hash(randomBytes(16).toString('hex'))
+    }
+
+    return this.dummyHash
+  }
+}
@@ -0,0 +1,58 @@
+import { Router } from 'express'
+
+import { LogoutAllCommand, logoutAllResultSchema } from './logout-all.command'
+import { LogoutAllController } from './logout-all.controller'
+import { LogoutAllCommandHandler } from './logout-all.handler'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { authenticate } from '@/shared/auth'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Logout All Feature Module
+ * Handles the command revoking every session of the caller and route registration
+ */
+export class LogoutAllModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.SessionRepository, Tokens.AccessTokenVerifier]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const sessionRepository = container.resolve(Tokens.SessionRepository)
+
+    mediator.register(LogoutAllCommand, new LogoutAllCommandHandler(sessionRepository))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig {
+    const router = Router()
+    const controller = new LogoutAllController(mediator)
+
+    router.post(
+      '/logout-all',
+      authenticate(container.resolve(Tokens.AccessTokenVerifier)),
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/logout-all',
+          summary: 'End every session of the caller',
+          request: LogoutAllCommand,
+          response: logoutAllResultSchema,
+          authenticated: true,
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { z } from 'zod'
+
+import { authenticated } from '@/shared/auth'
+import { Command } from '@/shared/cqs'
+import { UnauthorizedError } from '@/shared/result'
+
+/**
+ * Command to end every session of the calling user ("log out all devices")
+ * The user is taken from the authenticated principal
+ */
+export class LogoutAllCommand extends Command<LogoutAllResult, UnauthorizedError> {
+  static readonly policy = authenticated()
+}
+
+/**
+ * Result type for LogoutAll command
+ */
+export interface LogoutAllResult {
+  revokedSessions: number
+}
+
+/**
+ * Response schema for LogoutAll command, documents LogoutAllResult in the OpenAPI spec
+ */
+export const logoutAllResultSchema: z.ZodType<LogoutAllResult> = z.object({
+  revokedSessions: z.number().int(),
+})
@@ -0,0 +1,21 @@
+import { Request } from 'express'
+
+import { LogoutAllCommand, LogoutAllResult } from './logout-all.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, Result } from '@/shared/result'
+
+/**
+ * Controller for the "log out all devices" endpoint
+ */
+export class LogoutAllController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/logout-all request
+   */
+  async handle(req: Request): Promise<Result<LogoutAllResult, DomainError>> {
+    return this.mediator.send(new LogoutAllCommand(), requestContext(req))
+  }
+}
@@ -0,0 +1,26 @@
+import { LogoutAllCommand, LogoutAllResult } from './logout-all.command'
+
+import { SessionRepository } from '@/domain/session/session'
+import { CommandHandler, RequestContext } from '@/shared/cqs'
+import { Errors, failure, Result, success, UnauthorizedError } from '@/shared/result'
+
+/**
+ * Handler for LogoutAllCommand
+ * Revokes all sessions of the authenticated user; access tokens already issued run out on their own
+ */
+export class LogoutAllCommandHandler implements CommandHandler<LogoutAllCommand> {
+  constructor(private readonly sessionRepository: SessionRepository) {}
+
+  async execute(
+    _command: LogoutAllCommand,
+    context: RequestContext,
+  ): Promise<Result<LogoutAllResult, UnauthorizedError>> {
+    if (!context.principal) {
+      return failure(Errors.unauthorized())
+    }
+
+    const revokedSessions = await this.sessionRepository.revokeAllForUser(context.principal.userId)
+
+    return success({ revokedSessions })
+  }
+}
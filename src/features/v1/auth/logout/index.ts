@@ -0,0 +1,54 @@
+import { Router } from 'express'
+
+import { LogoutCommand } from './logout.command'
+import { LogoutController } from './logout.controller'
+import { LogoutCommandHandler } from './logout.handler'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Logout Feature Module
+ * Handles the session revocation command and route registration
+ */
+export class LogoutModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.SessionRepository]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const sessionRepository = container.resolve(Tokens.SessionRepository)
+
+    mediator.register(LogoutCommand, new LogoutCommandHandler(sessionRepository))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new LogoutController(mediator)
+
+    router.post(
+      '/logout',
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/logout',
+          summary: 'End the session of a refresh token',
+          request: LogoutCommand,
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod'
+
+import { Command } from '@/shared/cqs'
+import { map, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for Logout command
+ */
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1),
+})
+
+/**
+ * Command to end the session a refresh token belongs to
+ */
+export class LogoutCommand extends Command<void> {
+  static readonly schema = logoutSchema
+
+  constructor(public readonly refreshToken: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<LogoutCommand, ValidationError> {
+    return map(validate(logoutSchema, input), (validated) => new LogoutCommand(validated.refreshToken))
+  }
+}
@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { LogoutCommand } from './logout.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for the logout endpoint
+ */
+export class LogoutController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/logout request
+   */
+  async handle(req: Request): Promise<Result<void, DomainError>> {
+    const command = LogoutCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,24 @@
+import { LogoutCommand } from './logout.command'
+
+import { SessionRepository } from '@/domain/session/session'
+import { hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+import { CommandHandler } from '@/shared/cqs'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for LogoutCommand
+ * Revokes the session of the refresh token; unknown or already revoked tokens succeed as well
+ */
+export class LogoutCommandHandler implements CommandHandler<LogoutCommand> {
+  constructor(private readonly sessionRepository: SessionRepository) {}
+
+  async execute(command: LogoutCommand): Promise<Result<void, DomainError>> {
+    const token = await this.sessionRepository.findRefreshTokenByHash(hashOpaqueToken(command.refreshToken))
+
+    if (token) {
+      await this.sessionRepository.revoke(token.sessionId)
+    }
+
+    return success(undefined)
+  }
+}
@@ -0,0 +1,75 @@
+import { Router } from 'express'
+
+import { RefreshTokenCommand } from './refresh-token.command'
+import { RefreshTokenController } from './refresh-token.controller'
+import { RefreshTokenCommandHandler } from './refresh-token.handler'
+
+import { SessionTokenIssuer } from '@/features/v1/auth/session-tokens'
+import { sessionTokensSchema } from '@/features/v1/auth/session-tokens'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Refresh Token Feature Module
+ * Handles the refresh token rotation command and route registration
+ */
+export class RefreshTokenModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [
+    Tokens.UserRepository,
+    Tokens.SessionRepository,
+    Tokens.TokenService,
+    Tokens.UnitOfWork,
+    Tokens.Logger,
+  ]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const sessionRepository = container.resolve(Tokens.SessionRepository)
+    const userRepository = container.resolve(Tokens.UserRepository)
+    const sessionTokens = new SessionTokenIssuer(sessionRepository, container.resolve(Tokens.TokenService))
+
+    mediator.register(
+      RefreshTokenCommand,
+      new RefreshTokenCommandHandler(
+        sessionRepository,
+        userRepository,
+        sessionTokens,
+        container.resolve(Tokens.UnitOfWork),
+        container.resolve(Tokens.Logger).child({ component: 'Auth' }),
+      ),
+    )
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new RefreshTokenController(mediator)
+
+    router.post(
+      '/refresh',
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/refresh',
+          summary: 'Exchange a refresh token for a new token pair',
+          request: RefreshTokenCommand,
+          response: sessionTokensSchema,
+          errors: ['UNAUTHORIZED'],
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod'
+
+import { SessionTokens } from '@/features/v1/auth/session-tokens'
+import { Command } from '@/shared/cqs'
+import { map, Result, UnauthorizedError, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for RefreshToken command
+ */
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+})
+
+/**
+ * Command to exchange a refresh token for a new token pair
+ */
+export class RefreshTokenCommand extends Command<SessionTokens, UnauthorizedError> {
+  static readonly schema = refreshTokenSchema
+  // A reused token fails the command but must still revoke its session, so the handler runs its own unit of work
+  static readonly transactional = false
+
+  constructor(public readonly refreshToken: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<RefreshTokenCommand, ValidationError> {
+    return map(validate(refreshTokenSchema, input), (validated) => new RefreshTokenCommand(validated.refreshToken))
+  }
+}
@@ -0,0 +1,27 @@
+import { Request } from 'express'
+
+import { RefreshTokenCommand } from './refresh-token.command'
+
+import { SessionTokens } from '@/features/v1/auth/session-tokens'
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for the token refresh endpoint
+ */
+export class RefreshTokenController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/refresh request
+   */
+  async handle(req: Request): Promise<Result<SessionTokens, DomainError>> {
+    const command = RefreshTokenCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,77 @@
+import { RefreshTokenCommand } from './refresh-token.command'
+
+import { SessionRepository } from '@/domain/session/session'
+import { UserRepository } from '@/domain/user/user'
+import { SessionTokenIssuer, SessionTokens } from '@/features/v1/auth/session-tokens'
+import { hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+import { CommandHandler } from '@/shared/cqs'
+import { Logger, logger } from '@/shared/logging'
+import { Errors, failure, isFailure, Result, success, UnauthorizedError } from '@/shared/result'
+import { UnitOfWork } from '@/shared/unit-of-work'
+
+/**
+ * Handler for RefreshTokenCommand
+ * Rotates the refresh token: the presented token is spent and replaced by a new one in the same session.
+ * Presenting a spent token again means it leaked, so the whole session (token family) is revoked
+ */
+export class RefreshTokenCommandHandler implements CommandHandler<RefreshTokenCommand> {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly userRepository: UserRepository,
+    private readonly sessionTokens: SessionTokenIssuer,
+    private readonly unitOfWork: UnitOfWork,
+    private readonly log: Logger = logger,
+  ) {}
+
+  async execute(command: RefreshTokenCommand): Promise<Result<SessionTokens, UnauthorizedError>> {
+    const invalid = failure(Errors.unauthorized('Invalid refresh token'))
+
+    const token = await this.sessionRepository.findRefreshTokenByHash(hashOpaqueToken(command.refreshToken))
+    if (!token) {
+      return invalid
+    }
+
+    const session = await this.sessionRepository.findById(token.sessionId)
+    if (!session || session.isRevoked) {
+      return invalid
+    }
+
+    if (token.rotatedAt) {
+      return this.revokeOnReuse(session.id)
+    }
+
+    if (token.isExpired()) {
+      return failure(Errors.unauthorized('Refresh token expired'))
+    }
+
+    const user = await this.userRepository.findById(session.userId)
+    if (!user) {
+      await this.sessionRepository.revoke(session.id)
+      return invalid
+    }
+
+    // Spending the token and issuing its replacement commit together, so a crash can't strand the session
+    const rotated = await this.unitOfWork.run(async () => {
+      if (!(await this.sessionRepository.markRotated(token.id))) {
+        return invalid
+      }
+      return success(
+        await this.sessionTokens.issue(session, {
+          userId: user.id,
+          email: user.email,
+          credentialVersion: user.credentialVersion,
+        }),
+      )
+    })
+
+    // Losing the race against a concurrent refresh with the same token is reuse as well.
+    // The revocation runs after the unit of work, which rolled back, so it is kept
+    return isFailure(rotated) ? this.revokeOnReuse(session.id) : rotated
+  }
+
+  private async revokeOnReuse(sessionId: string): Promise<Result<SessionTokens, UnauthorizedError>> {
+    this.log.warn('Refresh token reuse detected, revoking the session', { sessionId })
+    await this.sessionRepository.revoke(sessionId)
+    return failure(Errors.unauthorized('Invalid refresh token'))
+  }
+}
@@ -0,0 +1,86 @@
+import { Router } from 'express'
+
+import { RequestPasswordResetCommand } from './request-password-reset.command'
+import { RequestPasswordResetController } from './request-password-reset.controller'
+import { RequestPasswordResetCommandHandler } from './request-password-reset.handler'
+import { SendPasswordResetEmailJob, SendPasswordResetEmailJobHandler } from './send-password-reset-email.job'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { JobRegistry } from '@/shared/jobs'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Request Password Reset Feature Module
+ * Handles the "forgot password" command and route registration
+ */
+export class RequestPasswordResetModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [
+    Tokens.UserRepository,
+    Tokens.PasswordResetTokenRepository,
+    Tokens.EmailService,
+    Tokens.RateLimiterFactory,
+    Tokens.Config,
+  ]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+    // At most 3 emails per address and hour
+    const rateLimiter = container.resolve(Tokens.RateLimiterFactory)({ limit: 3, windowSeconds: 60 * 60 })
+
+    mediator.register(
+      RequestPasswordResetCommand,
+      new RequestPasswordResetCommandHandler(userRepository, mediator, rateLimiter),
+    )
+  }
+
+  /**
+   * Register the background jobs run for this feature
+   */
+  registerJobs(jobs: JobRegistry, container: Resolver): void {
+    const { PASSWORD_RESET_TTL } = container.resolve(Tokens.Config)
+
+    jobs.register(
+      SendPasswordResetEmailJob,
+      new SendPasswordResetEmailJobHandler(
+        container.resolve(Tokens.PasswordResetTokenRepository),
+        container.resolve(Tokens.EmailService),
+        PASSWORD_RESET_TTL,
+      ),
+    )
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new RequestPasswordResetController(mediator)
+
+    router.post(
+      '/password-reset',
+      asRoute((req) => controller.handle(req), { status: 202 }),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/password-reset',
+          summary: 'Email a password reset link',
+          description: 'Answers 202 whether or not the address belongs to a user',
+          request: RequestPasswordResetCommand,
+          status: 202,
+          errors: ['RATE_LIMITED'],
+        },
+      ],
+    }
+  }
+}
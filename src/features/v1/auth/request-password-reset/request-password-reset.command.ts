@@ -0,0 +1,33 @@
+import { z } from 'zod'
+
+import { Command } from '@/shared/cqs'
+import { map, RateLimitedError, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for RequestPasswordReset command
+ */
+export const requestPasswordResetSchema = z.object({
+  email: z.string().email(),
+})
+
+/**
+ * Command to email a password reset link ("forgot password")
+ */
+export class RequestPasswordResetCommand extends Command<void, RateLimitedError> {
+  static readonly schema = requestPasswordResetSchema
+
+  constructor(public readonly email: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<RequestPasswordResetCommand, ValidationError> {
+    return map(
+      validate(requestPasswordResetSchema, input),
+      (validated) => new RequestPasswordResetCommand(validated.email),
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { RequestPasswordResetCommand } from './request-password-reset.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for requesting a password reset
+ */
+export class RequestPasswordResetController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/password-reset request
+   */
+  async handle(req: Request): Promise<Result<void, DomainError>> {
+    const command = RequestPasswordResetCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
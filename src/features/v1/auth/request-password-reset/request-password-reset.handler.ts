@@ -0,0 +1,38 @@
+import { RequestPasswordResetCommand } from './request-password-reset.command'
+import { SendPasswordResetEmailJob } from './send-password-reset-email.job'
+
+import { UserRepository } from '@/domain/user/user'
+import { RateLimiter } from '@/infrastructure/security/interfaces/rate-limiter'
+import { CommandHandler } from '@/shared/cqs'
+import { EnqueueJobCommand } from '@/shared/jobs'
+import { Mediator } from '@/shared/mediator'
+import { Errors, failure, RateLimitedError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for RequestPasswordResetCommand
+ * Emails a reset token to known addresses. The outcome is the same for unknown addresses,
+ * so the endpoint can't be used to find out which emails have an account: the email is
+ * a background job, so neither a slow nor a failing mail server shows in the response
+ */
+export class RequestPasswordResetCommandHandler implements CommandHandler<RequestPasswordResetCommand> {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly mediator: Mediator,
+    private readonly rateLimiter: RateLimiter,
+  ) {}
+
+  async execute(command: RequestPasswordResetCommand): Promise<Result<void, RateLimitedError>> {
+    const decision = await this.rateLimiter.consume(`password-reset:${command.email.toLowerCase()}`)
+    if (!decision.allowed) {
+      return failure(Errors.rateLimited(decision.retryAfterSeconds))
+    }
+
+    const user = await this.userRepository.findByEmail(command.email)
+    if (user) {
+      // Enqueueing only fails by throwing, which both branches would answer the same way
+      await this.mediator.send(new EnqueueJobCommand(new SendPasswordResetEmailJob(user.id, user.email)))
+    }
+
+    return success(undefined)
+  }
+}
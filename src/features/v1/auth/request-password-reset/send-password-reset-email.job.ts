@@ -0,0 +1,47 @@
+import { PasswordResetToken, PasswordResetTokenRepository } from '@/domain/user/password-reset-token'
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { generateOpaqueToken, hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+import { Job, JobHandler } from '@/shared/jobs'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Reset links stay valid for an hour
+ */
+export const DEFAULT_PASSWORD_RESET_TTL_SECONDS = 60 * 60
+
+/**
+ * Background job emailing a password reset link
+ */
+export class SendPasswordResetEmailJob extends Job {
+  static readonly jobName = 'send-password-reset-email'
+
+  constructor(
+    public readonly userId: string,
+    public readonly email: string,
+  ) {
+    super()
+  }
+
+  static fromPayload(payload: { userId: string; email: string }): SendPasswordResetEmailJob {
+    return new SendPasswordResetEmailJob(payload.userId, payload.email)
+  }
+}
+
+/**
+ * Issues the token when the job runs, so the queue never holds it and only its hash is stored;
+ * a throwing email service makes the worker retry the job with a fresh token
+ */
+export class SendPasswordResetEmailJobHandler implements JobHandler<SendPasswordResetEmailJob> {
+  constructor(
+    private readonly resetTokenRepository: PasswordResetTokenRepository,
+    private readonly emailService: EmailService,
+    private readonly ttlSeconds: number = DEFAULT_PASSWORD_RESET_TTL_SECONDS,
+  ) {}
+
+  async execute(job: SendPasswordResetEmailJob): Promise<Result<void, DomainError>> {
+    const token = generateOpaqueToken()
+    await this.resetTokenRepository.save(PasswordResetToken.issue(job.userId, hashOpaqueToken(token), this.ttlSeconds))
+    await this.emailService.sendPasswordResetEmail(job.email, token)
+    return success(undefined)
+  }
+}
@@ -0,0 +1,63 @@
+import { Router } from 'express'
+
+import { ResendVerificationCommand } from './resend-verification.command'
+import { ResendVerificationController } from './resend-verification.controller'
+import { ResendVerificationCommandHandler } from './resend-verification.handler'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Resend Verification Feature Module
+ * Handles the verification email resend command and route registration
+ */
+export class ResendVerificationModule implements FeatureModule {
+  readonly version = 'v1'
+  // Registers the verification email job
+  readonly requires = ['CreateUserModule']
+  readonly dependencies = [Tokens.UserRepository, Tokens.RateLimiterFactory]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+    // At most 3 emails per address and hour
+    const rateLimiter = container.resolve(Tokens.RateLimiterFactory)({ limit: 3, windowSeconds: 60 * 60 })
+
+    mediator.register(
+      ResendVerificationCommand,
+      new ResendVerificationCommandHandler(userRepository, mediator, rateLimiter),
+    )
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new ResendVerificationController(mediator)
+
+    router.post(
+      '/resend-verification',
+      asRoute((req) => controller.handle(req), { status: 202 }),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/resend-verification',
+          summary: 'Send a new email verification link',
+          request: ResendVerificationCommand,
+          status: 202,
+          errors: ['RATE_LIMITED'],
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod'
+
+import { Command } from '@/shared/cqs'
+import { map, RateLimitedError, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for ResendVerification command
+ */
+export const resendVerificationSchema = z.object({
+  email: z.string().email(),
+})
+
+/**
+ * Command to send a new verification link to an unverified address
+ */
+export class ResendVerificationCommand extends Command<void, RateLimitedError> {
+  static readonly schema = resendVerificationSchema
+
+  constructor(public readonly email: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<ResendVerificationCommand, ValidationError> {
+    return map(validate(resendVerificationSchema, input), (validated) => new ResendVerificationCommand(validated.email))
+  }
+}
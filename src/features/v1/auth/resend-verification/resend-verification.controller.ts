@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { ResendVerificationCommand } from './resend-verification.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for resending the verification email
+ */
+export class ResendVerificationController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/resend-verification request
+   */
+  async handle(req: Request): Promise<Result<void, DomainError>> {
+    const command = ResendVerificationCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,38 @@
+import { ResendVerificationCommand } from './resend-verification.command'
+
+import { UserRepository } from '@/domain/user/user'
+import { SendVerificationEmailJob } from '@/features/v1/auth/send-verification-email.job'
+import { RateLimiter } from '@/infrastructure/security/interfaces/rate-limiter'
+import { CommandHandler } from '@/shared/cqs'
+import { EnqueueJobCommand } from '@/shared/jobs'
+import { Mediator } from '@/shared/mediator'
+import { Errors, failure, RateLimitedError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for ResendVerificationCommand
+ * Attempts are rate-limited per address. The outcome is the same for unknown and already verified
+ * addresses, so the endpoint can't be used to find out which emails have an account: the email is
+ * a background job, so neither a slow nor a failing mail server shows in the response
+ */
+export class ResendVerificationCommandHandler implements CommandHandler<ResendVerificationCommand> {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly mediator: Mediator,
+    private readonly rateLimiter: RateLimiter,
+  ) {}
+
+  async execute(command: ResendVerificationCommand): Promise<Result<void, RateLimitedError>> {
+    const decision = await this.rateLimiter.consume(`resend-verification:${command.email.toLowerCase()}`)
+    if (!decision.allowed) {
+      return failure(Errors.rateLimited(decision.retryAfterSeconds))
+    }
+
+    const user = await this.userRepository.findByEmail(command.email)
+    if (user && !user.isEmailVerified) {
+      // Enqueueing only fails by throwing, which both branches would answer the same way
+      await this.mediator.send(new EnqueueJobCommand(new SendVerificationEmailJob(user.id, user.email)))
+    }
+
+    return success(undefined)
+  }
+}
@@ -0,0 +1,65 @@
+import { Router } from 'express'
+
+import { ResetPasswordCommand } from './reset-password.command'
+import { ResetPasswordController } from './reset-password.controller'
+import { ResetPasswordCommandHandler } from './reset-password.handler'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Reset Password Feature Module
+ * Handles the password reset command and route registration
+ */
+export class ResetPasswordModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [
+    Tokens.UserRepository,
+    Tokens.SessionRepository,
+    Tokens.PasswordResetTokenRepository,
+    Tokens.PasswordHasher,
+  ]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+    const resetTokenRepository = container.resolve(Tokens.PasswordResetTokenRepository)
+    const sessionRepository = container.resolve(Tokens.SessionRepository)
+    const passwordHasher = container.resolve(Tokens.PasswordHasher)
+
+    mediator.register(
+      ResetPasswordCommand,
+      new ResetPasswordCommandHandler(userRepository, resetTokenRepository, sessionRepository, passwordHasher),
+    )
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new ResetPasswordController(mediator)
+
+    router.post(
+      '/reset-password',
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/reset-password',
+          summary: 'Set a new password with an emailed reset token',
+          request: ResetPasswordCommand,
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+import { Command } from '@/shared/cqs'
+import { map, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for ResetPassword command
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1),
+})
+
+/**
+ * Command to set a new password with an emailed reset token
+ */
+export class ResetPasswordCommand extends Command<void, ValidationError> {
+  static readonly schema = resetPasswordSchema
+
+  constructor(
+    public readonly token: string,
+    public readonly password: string,
+  ) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<ResetPasswordCommand, ValidationError> {
+    return map(
+      validate(resetPasswordSchema, input),
+      (validated) => new ResetPasswordCommand(validated.token, validated.password),
+    )
+  }
+}
@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { ResetPasswordCommand } from './reset-password.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for resetting a password
+ */
+export class ResetPasswordController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/reset-password request
+   */
+  async handle(req: Request): Promise<Result<void, DomainError>> {
+    const command = ResetPasswordCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,56 @@
+import { ResetPasswordCommand } from './reset-password.command'
+
+import { SessionRepository } from '@/domain/session/session'
+import { PasswordResetTokenRepository } from '@/domain/user/password-reset-token'
+import { checkPasswordStrength, DEFAULT_PASSWORD_POLICY, PasswordPolicy } from '@/domain/user/password-policy'
+import { UserRepository } from '@/domain/user/user'
+import { PasswordHasher } from '@/infrastructure/security/interfaces/password-hasher'
+import { hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+import { CommandHandler } from '@/shared/cqs'
+import { Errors, failure, Result, success, ValidationError } from '@/shared/result'
+
+/**
+ * Handler for ResetPasswordCommand
+ * Sets the new password and bumps the user's credential version, so access tokens issued for the old
+ * password stop working; all sessions (refresh tokens) are revoked as well
+ */
+export class ResetPasswordCommandHandler implements CommandHandler<ResetPasswordCommand> {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly resetTokenRepository: PasswordResetTokenRepository,
+    private readonly sessionRepository: SessionRepository,
+    private readonly passwordHasher: PasswordHasher,
+    private readonly passwordPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY,
+  ) {}
+
+  async execute(command: ResetPasswordCommand): Promise<Result<void, ValidationError>> {
+    const invalid = failure(Errors.validation('Password reset token is invalid or has expired'))
+
+    const violations = checkPasswordStrength(command.password, this.passwordPolicy)
+    if (violations.length > 0) {
+      return failure(Errors.validation('Password does not meet the password policy', { password: violations }))
+    }
+
+    const token = await this.resetTokenRepository.findByHash(hashOpaqueToken(command.token))
+    if (!token || token.usedAt || token.isExpired()) {
+      return invalid
+    }
+
+    if (!(await this.resetTokenRepository.markUsed(token.id))) {
+      return invalid
+    }
+
+    const user = await this.userRepository.findById(token.userId)
+    if (!user) {
+      return invalid
+    }
+
+    await this.userRepository.update(user.resetPassword(await this.passwordHasher.hash(command.password)))
+
+    // Other reset links still in flight must not be usable with the new password in place
+    await this.resetTokenRepository.deleteForUser(user.id)
+    await this.sessionRepository.revokeAllForUser(user.id)
+
+    return success(undefined)
+  }
+}
@@ -0,0 +1,40 @@
+import { EmailVerificationTokens } from '@/features/v1/auth/email-verification-tokens'
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { Job, JobHandler } from '@/shared/jobs'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Background job sending an email verification link
+ * Registered and enqueued on sign-up by the create-user slice, enqueued by the resend-verification one as well
+ */
+export class SendVerificationEmailJob extends Job {
+  static readonly jobName = 'send-verification-email'
+
+  constructor(
+    public readonly userId: string,
+    public readonly email: string,
+  ) {
+    super()
+  }
+
+  static fromPayload(payload: { userId: string; email: string }): SendVerificationEmailJob {
+    return new SendVerificationEmailJob(payload.userId, payload.email)
+  }
+}
+
+/**
+ * Issues the token when the job runs, so no token is stored in the queue;
+ * a throwing email service makes the worker retry the job
+ */
+export class SendVerificationEmailJobHandler implements JobHandler<SendVerificationEmailJob> {
+  constructor(
+    private readonly emailService: EmailService,
+    private readonly verificationTokens: EmailVerificationTokens,
+  ) {}
+
+  async execute(job: SendVerificationEmailJob): Promise<Result<void, DomainError>> {
+    const token = this.verificationTokens.issue({ userId: job.userId, email: job.email })
+    await this.emailService.sendVerificationEmail(job.email, token)
+    return success(undefined)
+  }
+}
@@ -0,0 +1,78 @@
+import { z } from 'zod'
+
+import { RefreshToken, Session, SessionRepository } from '@/domain/session/session'
+import { AccessTokenSubject, TokenService } from '@/infrastructure/security/interfaces/token-service'
+import { generateOpaqueToken, hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+
+/**
+ * Refresh tokens live 30 days; each refresh replaces the token with a fresh one
+ */
+export const DEFAULT_REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60
+
+/**
+ * Tokens handed to a client when a session starts or is refreshed
+ */
+export interface SessionTokens {
+  accessToken: string
+  tokenType: 'Bearer'
+  /**
+   * Access token lifetime in seconds
+   */
+  expiresIn: number
+  refreshToken: string
+  /**
+   * Refresh token lifetime in seconds
+   */
+  refreshTokenExpiresIn: number
+}
+
+/**
+ * Schema of SessionTokens, documents it in the OpenAPI spec
+ */
+export const sessionTokensSchema = z.object({
+  accessToken: z.string(),
+  tokenType: z.literal('Bearer'),
+  expiresIn: z.number().int(),
+  refreshToken: z.string(),
+  refreshTokenExpiresIn: z.number().int(),
+}) satisfies z.ZodType<SessionTokens>
+
+/**
+ * Issues access/refresh token pairs for sessions
+ * Shared by the login and refresh slices
+ */
+export class SessionTokenIssuer {
+  constructor(
+    private readonly sessionRepository: SessionRepository,
+    private readonly tokenService: TokenService,
+    private readonly refreshTokenTtlSeconds: number = DEFAULT_REFRESH_TOKEN_TTL_SECONDS,
+  ) {}
+
+  /**
+   * Starts a new session for a user and issues its first token pair
+   */
+  async start(subject: AccessTokenSubject): Promise<SessionTokens> {
+    const session = await this.sessionRepository.save(Session.start(subject.userId))
+    return this.issue(session, subject)
+  }
+
+  /**
+   * Issues a new token pair within an existing session
+   */
+  async issue(session: Session, subject: AccessTokenSubject): Promise<SessionTokens> {
+    const refreshToken = generateOpaqueToken()
+    await this.sessionRepository.saveRefreshToken(
+      RefreshToken.issue(session.id, hashOpaqueToken(refreshToken), this.refreshTokenTtlSeconds),
+    )
+
+    const accessToken = this.tokenService.issue(subject)
+
+    return {
+      accessToken: accessToken.token,
+      tokenType: 'Bearer',
+      expiresIn: accessToken.expiresIn,
+      refreshToken,
+      refreshTokenExpiresIn: this.refreshTokenTtlSeconds,
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { Router } from 'express'
+
+import { VerifyEmailCommand } from './verify-email.command'
+import { VerifyEmailController } from './verify-email.controller'
+import { VerifyEmailCommandHandler } from './verify-email.handler'
+
+import { EmailVerificationTokens } from '@/features/v1/auth/email-verification-tokens'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Verify Email Feature Module
+ * Handles the email verification command and route registration
+ */
+export class VerifyEmailModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.UserRepository, Tokens.TokenSigner]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+    const verificationTokens = new EmailVerificationTokens(container.resolve(Tokens.TokenSigner))
+
+    mediator.register(VerifyEmailCommand, new VerifyEmailCommandHandler(userRepository, verificationTokens))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator): RouteConfig {
+    const router = Router()
+    const controller = new VerifyEmailController(mediator)
+
+    router.post(
+      '/verify-email',
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/auth',
+      router,
+      operations: [
+        {
+          method: 'post',
+          path: '/verify-email',
+          summary: 'Confirm an email address with an emailed token',
+          request: VerifyEmailCommand,
+        },
+      ],
+    }
+  }
+}
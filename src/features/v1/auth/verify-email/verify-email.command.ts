@@ -0,0 +1,30 @@
+import { z } from 'zod'
+
+import { Command } from '@/shared/cqs'
+import { map, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for VerifyEmail command
+ */
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+})
+
+/**
+ * Command to confirm an email address with the token sent to it
+ */
+export class VerifyEmailCommand extends Command<void, ValidationError> {
+  static readonly schema = verifyEmailSchema
+
+  constructor(public readonly token: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<VerifyEmailCommand, ValidationError> {
+    return map(validate(verifyEmailSchema, input), (validated) => new VerifyEmailCommand(validated.token))
+  }
+}
@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { VerifyEmailCommand } from './verify-email.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for the email verification endpoint
+ */
+export class VerifyEmailController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle POST /auth/verify-email request
+   */
+  async handle(req: Request): Promise<Result<void, DomainError>> {
+    const command = VerifyEmailCommand.fromInput(req.body)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,37 @@
+import { VerifyEmailCommand } from './verify-email.command'
+
+import { UserRepository } from '@/domain/user/user'
+import { EmailVerificationTokens } from '@/features/v1/auth/email-verification-tokens'
+import { CommandHandler } from '@/shared/cqs'
+import { Errors, failure, isFailure, Result, success, ValidationError } from '@/shared/result'
+
+/**
+ * Handler for VerifyEmailCommand
+ * Marks the email address as verified; a token only works once and only for the address it was sent to
+ */
+export class VerifyEmailCommandHandler implements CommandHandler<VerifyEmailCommand> {
+  constructor(
+    private readonly userRepository: UserRepository,
+    private readonly verificationTokens: EmailVerificationTokens,
+  ) {}
+
+  async execute(command: VerifyEmailCommand): Promise<Result<void, ValidationError>> {
+    const claims = this.verificationTokens.verify(command.token)
+    if (isFailure(claims)) {
+      return claims
+    }
+
+    const user = await this.userRepository.findById(claims.value.userId)
+    if (!user || user.email !== claims.value.email) {
+      return failure(Errors.validation('Verification token is invalid'))
+    }
+
+    if (user.isEmailVerified) {
+      return failure(Errors.validation('Verification token has already been used'))
+    }
+
+    await this.userRepository.update(user.verifyEmail())
+
+    return success(undefined)
+  }
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod'
+
+import { UserPermissions } from '@/domain/user/permissions'
+import { hasPermission } from '@/shared/auth'
+import { Command } from '@/shared/cqs'
+import { ForbiddenError, map, NotFoundError, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for DeleteUser command
+ */
+export const deleteUserSchema = z.object({
+  id: z.string().min(1),
+})
+
+/**
+ * Command to delete a user
+ */
+export class DeleteUserCommand extends Command<void, NotFoundError | ForbiddenError> {
+  static readonly schema = deleteUserSchema
+  static readonly policy = hasPermission(UserPermissions.Delete)
+
+  constructor(public readonly id: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<DeleteUserCommand, ValidationError> {
+    return map(validate(deleteUserSchema, input), (validated) => new DeleteUserCommand(validated.id))
+  }
+}
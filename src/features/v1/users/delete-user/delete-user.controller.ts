@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { DeleteUserCommand } from './delete-user.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for deleting a user
+ */
+export class DeleteUserController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle DELETE /users/:id request
+   */
+  async handle(req: Request): Promise<Result<void, DomainError>> {
+    const command = DeleteUserCommand.fromInput(req.params)
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,23 @@
+import { DeleteUserCommand } from './delete-user.command'
+
+import { UserRepository } from '@/domain/user/user'
+import { CommandHandler } from '@/shared/cqs'
+import { Errors, failure, NotFoundError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for DeleteUserCommand
+ */
+export class DeleteUserCommandHandler implements CommandHandler<DeleteUserCommand> {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(command: DeleteUserCommand): Promise<Result<void, NotFoundError>> {
+    const user = await this.userRepository.findById(command.id)
+    if (!user) {
+      return failure(Errors.notFound('User', `User with ID ${command.id} not found`))
+    }
+
+    await this.userRepository.delete(user.id)
+
+    return success(undefined)
+  }
+}
@@ -0,0 +1,58 @@
+import { Router } from 'express'
+
+import { DeleteUserCommand } from './delete-user.command'
+import { DeleteUserController } from './delete-user.controller'
+import { DeleteUserCommandHandler } from './delete-user.handler'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { authenticate } from '@/shared/auth'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Delete User Feature Module
+ * Handles the user deletion command and route registration
+ */
+export class DeleteUserModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.UserRepository, Tokens.AccessTokenVerifier]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+
+    mediator.register(DeleteUserCommand, new DeleteUserCommandHandler(userRepository))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig {
+    const router = Router()
+    const controller = new DeleteUserController(mediator)
+
+    router.delete(
+      '/:id',
+      authenticate(container.resolve(Tokens.AccessTokenVerifier)),
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/users',
+      router,
+      operations: [
+        {
+          method: 'delete',
+          path: '/:id',
+          summary: 'Delete a user',
+          request: DeleteUserCommand,
+          authenticated: true,
+          errors: ['FORBIDDEN', 'NOT_FOUND'],
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { GetUserByIdQuery, GetUserByIdResult } from './get-user-by-id.query'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for fetching a single user
+ */
+export class GetUserByIdController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle GET /users/:id request
+   */
+  async handle(req: Request): Promise<Result<GetUserByIdResult, DomainError>> {
+    const query = GetUserByIdQuery.fromInput(req.params)
+    if (isFailure(query)) {
+      return query
+    }
+
+    return this.mediator.send(query.value, requestContext(req))
+  }
+}
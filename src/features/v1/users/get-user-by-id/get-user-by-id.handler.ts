@@ -0,0 +1,28 @@
+import { GetUserByIdQuery, GetUserByIdResult } from './get-user-by-id.query'
+
+import { UserRepository } from '@/domain/user/user'
+import { QueryHandler } from '@/shared/cqs'
+import { Errors, failure, NotFoundError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for GetUserByIdQuery
+ */
+export class GetUserByIdQueryHandler implements QueryHandler<GetUserByIdQuery> {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(query: GetUserByIdQuery): Promise<Result<GetUserByIdResult, NotFoundError>> {
+    const user = await this.userRepository.findById(query.id)
+    if (!user) {
+      return failure(Errors.notFound('User', `User with ID ${query.id} not found`))
+    }
+
+    return success({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+      emailVerifiedAt: user.emailVerifiedAt,
+    })
+  }
+}
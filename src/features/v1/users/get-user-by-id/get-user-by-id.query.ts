@@ -0,0 +1,61 @@
+import { z } from 'zod'
+
+import { UserPermissions } from '@/domain/user/permissions'
+import { anyOf, hasPermission, isOwner, Policy } from '@/shared/auth'
+import { Query } from '@/shared/cqs'
+import { ForbiddenError, map, NotFoundError, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for GetUserById query
+ */
+export const getUserByIdSchema = z.object({
+  id: z.string().min(1),
+})
+
+/**
+ * Query to fetch a single user by its ID
+ * Users may read their own profile; reading anyone else's requires the users:read permission
+ */
+export class GetUserByIdQuery extends Query<GetUserByIdResult, NotFoundError | ForbiddenError> {
+  static readonly schema = getUserByIdSchema
+  static readonly policy: Policy<GetUserByIdQuery> = anyOf(
+    hasPermission(UserPermissions.Read),
+    isOwner((query: GetUserByIdQuery) => query.id),
+  )
+
+  constructor(public readonly id: string) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<GetUserByIdQuery, ValidationError> {
+    return map(validate(getUserByIdSchema, input), (validated) => new GetUserByIdQuery(validated.id))
+  }
+}
+
+/**
+ * Result type for GetUserById query
+ */
+export interface GetUserByIdResult {
+  id: string
+  email: string
+  name: string | null
+  createdAt: Date
+  updatedAt: Date
+  emailVerifiedAt: Date | null
+}
+
+/**
+ * Response schema for GetUserById query, documents GetUserByIdResult in the OpenAPI spec
+ */
+export const getUserByIdResultSchema: z.ZodType<GetUserByIdResult> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+  emailVerifiedAt: z.date().nullable(),
+})
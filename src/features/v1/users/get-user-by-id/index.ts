@@ -0,0 +1,59 @@
+import { Router } from 'express'
+
+import { GetUserByIdController } from './get-user-by-id.controller'
+import { GetUserByIdQueryHandler } from './get-user-by-id.handler'
+import { GetUserByIdQuery, getUserByIdResultSchema } from './get-user-by-id.query'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { authenticate } from '@/shared/auth'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Get User By Id Feature Module
+ * Handles the single user lookup query and route registration
+ */
+export class GetUserByIdModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.UserRepository, Tokens.AccessTokenVerifier]
+
+  /**
+   * Register query handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+
+    mediator.register(GetUserByIdQuery, new GetUserByIdQueryHandler(userRepository))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig {
+    const router = Router()
+    const controller = new GetUserByIdController(mediator)
+
+    router.get(
+      '/:id',
+      authenticate(container.resolve(Tokens.AccessTokenVerifier)),
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/users',
+      router,
+      operations: [
+        {
+          method: 'get',
+          path: '/:id',
+          summary: 'Get a user',
+          request: GetUserByIdQuery,
+          response: getUserByIdResultSchema,
+          authenticated: true,
+          errors: ['FORBIDDEN', 'NOT_FOUND'],
+        },
+      ],
+    }
+  }
+}
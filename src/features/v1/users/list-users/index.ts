@@ -0,0 +1,59 @@
+import { Router } from 'express'
+
+import { ListUsersController } from './list-users.controller'
+import { ListUsersQueryHandler } from './list-users.handler'
+import { ListUsersQuery, listUsersResultSchema } from './list-users.query'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { authenticate } from '@/shared/auth'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * List Users Feature Module
+ * Handles the paginated user listing query and route registration
+ */
+export class ListUsersModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.UserRepository, Tokens.AccessTokenVerifier]
+
+  /**
+   * Register query handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+
+    mediator.register(ListUsersQuery, new ListUsersQueryHandler(userRepository))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig {
+    const router = Router()
+    const controller = new ListUsersController(mediator)
+
+    router.get(
+      '/',
+      authenticate(container.resolve(Tokens.AccessTokenVerifier)),
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/users',
+      router,
+      operations: [
+        {
+          method: 'get',
+          path: '/',
+          summary: 'List users, one page at a time',
+          request: ListUsersQuery,
+          response: listUsersResultSchema,
+          authenticated: true,
+          errors: ['FORBIDDEN'],
+        },
+      ],
+    }
+  }
+}
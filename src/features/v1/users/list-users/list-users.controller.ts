@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { ListUsersQuery, ListUsersResult } from './list-users.query'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for listing users
+ */
+export class ListUsersController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle GET /users request
+   */
+  async handle(req: Request): Promise<Result<ListUsersResult, DomainError>> {
+    const query = ListUsersQuery.fromInput(req.query)
+    if (isFailure(query)) {
+      return query
+    }
+
+    return this.mediator.send(query.value, requestContext(req))
+  }
+}
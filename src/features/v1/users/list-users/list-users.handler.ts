@@ -0,0 +1,31 @@
+import { ListUsersQuery, ListUsersResult } from './list-users.query'
+
+import { UserRepository } from '@/domain/user/user'
+import { QueryHandler } from '@/shared/cqs'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for ListUsersQuery
+ */
+export class ListUsersQueryHandler implements QueryHandler<ListUsersQuery> {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(query: ListUsersQuery): Promise<Result<ListUsersResult, DomainError>> {
+    const { users, total } = await this.userRepository.findAll({
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    })
+
+    return success({
+      items: users.map((user) => ({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        createdAt: user.createdAt,
+      })),
+      page: query.page,
+      pageSize: query.pageSize,
+      total,
+    })
+  }
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+import { UserPermissions } from '@/domain/user/permissions'
+import { hasPermission } from '@/shared/auth'
+import { Query } from '@/shared/cqs'
+import { map, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for ListUsers query
+ * Values usually come from the query string, hence the coercion
+ */
+export const listUsersSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+})
+
+/**
+ * Query to list users, one page at a time
+ */
+export class ListUsersQuery extends Query<ListUsersResult> {
+  static readonly schema = listUsersSchema
+  static readonly policy = hasPermission(UserPermissions.List)
+
+  constructor(
+    public readonly page: number,
+    public readonly pageSize: number,
+  ) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<ListUsersQuery, ValidationError> {
+    return map(validate(listUsersSchema, input), (validated) => new ListUsersQuery(validated.page, validated.pageSize))
+  }
+}
+
+/**
+ * Result type for ListUsers query
+ */
+export interface ListUsersResult {
+  items: {
+    id: string
+    email: string
+    name: string | null
+    createdAt: Date
+  }[]
+  page: number
+  pageSize: number
+  total: number
+}
+
+/**
+ * Response schema for ListUsers query, documents ListUsersResult in the OpenAPI spec
+ */
+export const listUsersResultSchema: z.ZodType<ListUsersResult> = z.object({
+  items: z.array(
+    z.object({
+      id: z.string(),
+      email: z.string(),
+      name: z.string().nullable(),
+      createdAt: z.date(),
+    }),
+  ),
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  total: z.number().int(),
+})
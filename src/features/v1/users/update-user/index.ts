@@ -0,0 +1,60 @@
+import { Router } from 'express'
+
+import { UpdateUserCommand, updateUserResultSchema } from './update-user.command'
+import { UpdateUserController } from './update-user.controller'
+import { UpdateUserCommandHandler } from './update-user.handler'
+
+import { Tokens } from '@/infrastructure/container/tokens'
+import { authenticate } from '@/shared/auth'
+import { Resolver } from '@/shared/container'
+import { asRoute } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Update User Feature Module
+ * Handles the user update command and route registration
+ */
+export class UpdateUserModule implements FeatureModule {
+  readonly version = 'v1'
+  readonly dependencies = [Tokens.UserRepository, Tokens.AccessTokenVerifier]
+
+  /**
+   * Register command handlers with the mediator
+   */
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void {
+    const userRepository = container.resolve(Tokens.UserRepository)
+
+    mediator.register(UpdateUserCommand, new UpdateUserCommandHandler(userRepository))
+  }
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig {
+    const router = Router()
+    const controller = new UpdateUserController(mediator)
+
+    router.patch(
+      '/:id',
+      authenticate(container.resolve(Tokens.AccessTokenVerifier)),
+      asRoute((req) => controller.handle(req)),
+    )
+
+    return {
+      basePath: '/users',
+      router,
+      operations: [
+        {
+          method: 'patch',
+          path: '/:id',
+          summary: 'Update the profile of a user',
+          description: 'Omitted fields are left unchanged, a null name clears it; at least one field is required',
+          request: UpdateUserCommand,
+          response: updateUserResultSchema,
+          authenticated: true,
+          errors: ['FORBIDDEN', 'NOT_FOUND', 'CONFLICT'],
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod'
+
+import { UserPermissions } from '@/domain/user/permissions'
+import { anyOf, hasPermission, isOwner, Policy } from '@/shared/auth'
+import { Command } from '@/shared/cqs'
+import { ConflictError, ForbiddenError, map, NotFoundError, Result, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Validation schema for UpdateUser command
+ */
+export const updateUserSchema = z
+  .object({
+    id: z.string().min(1),
+    email: z.string().email().optional(),
+    name: z.string().nullable().optional(),
+  })
+  .refine((input) => input.email !== undefined || input.name !== undefined, {
+    message: 'At least one of email or name must be provided',
+  })
+
+/**
+ * Command to update the profile of an existing user
+ * Omitted fields are left unchanged; a null name clears it
+ * Users may update their own profile; updating anyone else's requires the users:update permission
+ */
+export class UpdateUserCommand extends Command<UpdateUserResult, NotFoundError | ConflictError | ForbiddenError> {
+  static readonly schema = updateUserSchema
+  static readonly policy: Policy<UpdateUserCommand> = anyOf(
+    hasPermission(UserPermissions.Update),
+    isOwner((command: UpdateUserCommand) => command.id),
+  )
+
+  constructor(
+    public readonly id: string,
+    public readonly email?: string,
+    public readonly name?: string | null,
+  ) {
+    super()
+  }
+
+  /**
+   * Factory method with validation
+   */
+  static fromInput(input: unknown): Result<UpdateUserCommand, ValidationError> {
+    return map(
+      validate(updateUserSchema, input),
+      (validated) => new UpdateUserCommand(validated.id, validated.email, validated.name),
+    )
+  }
+}
+
+/**
+ * Result type for UpdateUser command
+ */
+export interface UpdateUserResult {
+  id: string
+  email: string
+  name: string | null
+  updatedAt: Date
+}
+
+/**
+ * Response schema for UpdateUser command, documents UpdateUserResult in the OpenAPI spec
+ */
+export const updateUserResultSchema: z.ZodType<UpdateUserResult> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  updatedAt: z.date(),
+})
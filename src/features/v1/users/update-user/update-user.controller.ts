@@ -0,0 +1,26 @@
+import { Request } from 'express'
+
+import { UpdateUserCommand, UpdateUserResult } from './update-user.command'
+
+import { requestContext } from '@/shared/http'
+import { Mediator } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Controller for updating a user
+ */
+export class UpdateUserController {
+  constructor(private readonly mediator: Mediator) {}
+
+  /**
+   * Handle PATCH /users/:id request
+   */
+  async handle(req: Request): Promise<Result<UpdateUserResult, DomainError>> {
+    const command = UpdateUserCommand.fromInput({ ...req.body, id: req.params.id })
+    if (isFailure(command)) {
+      return command
+    }
+
+    return this.mediator.send(command.value, requestContext(req))
+  }
+}
@@ -0,0 +1,36 @@
+import { UpdateUserCommand, UpdateUserResult } from './update-user.command'
+
+import { UserRepository } from '@/domain/user/user'
+import { CommandHandler } from '@/shared/cqs'
+import { ConflictError, Errors, failure, NotFoundError, Result, success } from '@/shared/result'
+
+/**
+ * Handler for UpdateUserCommand
+ */
+export class UpdateUserCommandHandler implements CommandHandler<UpdateUserCommand> {
+  constructor(private readonly userRepository: UserRepository) {}
+
+  async execute(command: UpdateUserCommand): Promise<Result<UpdateUserResult, NotFoundError | ConflictError>> {
+    const user = await this.userRepository.findById(command.id)
+    if (!user) {
+      return failure(Errors.notFound('User', `User with ID ${command.id} not found`))
+    }
+
+    // Email must stay unique across users
+    if (command.email && command.email !== user.email) {
+      const existing = await this.userRepository.findByEmail(command.email)
+      if (existing) {
+        return failure(Errors.conflict('User', 'User with this email already exists'))
+      }
+    }
+
+    const updated = await this.userRepository.update(user.update({ email: command.email, name: command.name }))
+
+    return success({
+      id: updated.id,
+      email: updated.email,
+      name: updated.name,
+      updatedAt: updated.updatedAt,
+    })
+  }
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod'
+
+import { GetUserByIdResult } from '@/features/v1/users/get-user-by-id/get-user-by-id.query'
+
+/**
+ * Response body of GET /v2/users/:id
+ * v2 reports email verification as a flag instead of exposing the verification timestamp
+ */
+export interface GetUserByIdResponse {
+  id: string
+  email: string
+  name: string | null
+  emailVerified: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * Maps the result of the v1 query to the v2 response
+ */
+export function toGetUserByIdResponse(result: GetUserByIdResult): GetUserByIdResponse {
+  return {
+    id: result.id,
+    email: result.email,
+    name: result.name,
+    emailVerified: result.emailVerifiedAt !== null,
+    createdAt: result.createdAt,
+    updatedAt: result.updatedAt,
+  }
+}
+
+/**
+ * Schema of GetUserByIdResponse, documents it in the OpenAPI spec
+ */
+export const getUserByIdResponseSchema: z.ZodType<GetUserByIdResponse> = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  emailVerified: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+})
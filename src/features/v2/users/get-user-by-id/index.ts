@@ -0,0 +1,56 @@
+import { Router } from 'express'
+
+import { getUserByIdResponseSchema, toGetUserByIdResponse } from './get-user-by-id.response'
+
+import { GetUserByIdController } from '@/features/v1/users/get-user-by-id/get-user-by-id.controller'
+import { GetUserByIdQuery } from '@/features/v1/users/get-user-by-id/get-user-by-id.query'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { authenticate } from '@/shared/auth'
+import { Resolver } from '@/shared/container'
+import { asRoute, mapResponse } from '@/shared/http'
+import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
+
+/**
+ * Get User By Id Feature Module, v2
+ * Reuses the v1 query and handler, only the response body changes
+ */
+export class GetUserByIdV2Module implements FeatureModule {
+  readonly version = 'v2'
+  readonly requires = ['GetUserByIdModule']
+  readonly dependencies = [Tokens.AccessTokenVerifier]
+
+  /**
+   * The v1 module registers the query handler
+   */
+  registerHandlers(): void {}
+
+  /**
+   * Register routes for this feature
+   */
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig {
+    const router = Router()
+    const controller = new GetUserByIdController(mediator)
+
+    router.get(
+      '/:id',
+      authenticate(container.resolve(Tokens.AccessTokenVerifier)),
+      asRoute(mapResponse((req) => controller.handle(req), toGetUserByIdResponse)),
+    )
+
+    return {
+      basePath: '/users',
+      router,
+      operations: [
+        {
+          method: 'get',
+          path: '/:id',
+          summary: 'Get a user',
+          request: GetUserByIdQuery,
+          response: getUserByIdResponseSchema,
+          authenticated: true,
+          errors: ['FORBIDDEN', 'NOT_FOUND'],
+        },
+      ],
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { Startup } from './startup'
+
+/**
+ * Writes the OpenAPI document of the feature modules to `openapi.json`, checked in for client generation
+ * Run with `pnpm openapi:generate` after changing a route, its schemas or its metadata
+ */
+const output = path.join(__dirname, '..', 'openapi.json')
+
+Startup.initialize()
+fs.writeFileSync(output, `${JSON.stringify(Startup.openApiDocument(), null, 2)}\n`)
+console.log(`OpenAPI document written to ${output}`)
@@ -0,0 +1,121 @@
+import { randomBytes } from 'node:crypto'
+
+import { RateLimiterFactory, Tokens } from './tokens'
+
+import { AppConfig, config } from '@/config'
+import { createEmailService } from '@/infrastructure/messaging/email-service/default-email-service'
+import { emailOptionsFromConfig } from '@/infrastructure/messaging/email-service/email-options'
+import { InMemoryEmailService } from '@/infrastructure/messaging/email-service/in-memory-email-service'
+import { InMemoryDatabase } from '@/infrastructure/persistence/in-memory/database'
+import { InMemoryJobRepository } from '@/infrastructure/persistence/in-memory/job-repository'
+import { InMemoryOutboxRepository } from '@/infrastructure/persistence/in-memory/outbox-repository'
+import { InMemoryPasswordResetTokenRepository } from '@/infrastructure/persistence/in-memory/password-reset-token-repository'
+import { InMemorySessionRepository } from '@/infrastructure/persistence/in-memory/session-repository'
+import { InMemoryUnitOfWork } from '@/infrastructure/persistence/in-memory/unit-of-work'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { PrismaDatabase } from '@/infrastructure/persistence/prisma/database'
+import { PrismaJobRepository } from '@/infrastructure/persistence/prisma/job-repository'
+import { PrismaOutboxRepository } from '@/infrastructure/persistence/prisma/outbox-repository'
+import { PrismaPasswordResetTokenRepository } from '@/infrastructure/persistence/prisma/password-reset-token-repository'
+import { PrismaSessionRepository } from '@/infrastructure/persistence/prisma/session-repository'
+import { PrismaUnitOfWork } from '@/infrastructure/persistence/prisma/unit-of-work'
+import { PrismaUserRepository } from '@/infrastructure/persistence/prisma/user-repository'
+import { ScryptPasswordHasher } from '@/infrastructure/security/password-hasher/scrypt-password-hasher'
+import { InMemoryRateLimiter } from '@/infrastructure/security/rate-limiter/in-memory-rate-limiter'
+import { CredentialCheckingVerifier } from '@/infrastructure/security/token-service/access-token-verifier'
+import { HmacTokenSigner, signingSecretFromConfig } from '@/infrastructure/security/token-service/hmac-token-signer'
+import { jwtOptionsFromConfig } from '@/infrastructure/security/token-service/jwt-options'
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { Container } from '@/shared/container'
+import { JobQueue } from '@/shared/jobs'
+import { logger } from '@/shared/logging'
+import { MetricsRegistry } from '@/shared/metrics'
+
+/**
+ * Environment selecting which implementations get bound, NODE_ENV by default
+ */
+export type Profile = AppConfig['NODE_ENV']
+
+/**
+ * SQLite through Prisma, secrets and email transport from the configuration
+ */
+function bindInfrastructure(container: Container, settings: AppConfig): void {
+  container
+    .singleton(Tokens.Database, () => new PrismaDatabase())
+    .singleton(Tokens.UserRepository, () => new PrismaUserRepository())
+    .singleton(Tokens.SessionRepository, () => new PrismaSessionRepository())
+    .singleton(Tokens.PasswordResetTokenRepository, () => new PrismaPasswordResetTokenRepository())
+    .singleton(Tokens.OutboxRepository, () => new PrismaOutboxRepository())
+    .singleton(Tokens.JobRepository, () => new PrismaJobRepository())
+    .singleton(Tokens.JobQueue, (c) => new JobQueue(c.resolve(Tokens.JobRepository)))
+    .singleton(Tokens.UnitOfWork, () => new PrismaUnitOfWork())
+    .singleton(Tokens.PasswordHasher, () => new ScryptPasswordHasher())
+    // One token service and signer for every feature, so tokens issued by one slice verify in all others
+    .singleton(Tokens.TokenService, () => new JwtTokenService(jwtOptionsFromConfig(settings)))
+    .singleton(
+      Tokens.AccessTokenVerifier,
+      (c) => new CredentialCheckingVerifier(c.resolve(Tokens.TokenService), c.resolve(Tokens.UserRepository)),
+    )
+    .singleton(Tokens.TokenSigner, () => new HmacTokenSigner(signingSecretFromConfig(settings)))
+    .singleton(Tokens.EmailService, (c) =>
+      createEmailService(emailOptionsFromConfig(settings), c.resolve(Tokens.Logger)),
+    )
+    .value<RateLimiterFactory>(Tokens.RateLimiterFactory, (options) => new InMemoryRateLimiter(options))
+}
+
+/**
+ * Everything in memory: no database, no email, random secrets and cheap password hashing
+ */
+function bindInMemory(container: Container): void {
+  const outbox = new InMemoryOutboxRepository()
+  const users = new InMemoryUserRepository(outbox)
+  const sessions = new InMemorySessionRepository()
+  const resetTokens = new InMemoryPasswordResetTokenRepository()
+  const jobs = new InMemoryJobRepository()
+
+  container
+    .value(Tokens.Database, new InMemoryDatabase())
+    .value(Tokens.UserRepository, users)
+    .value(Tokens.SessionRepository, sessions)
+    .value(Tokens.PasswordResetTokenRepository, resetTokens)
+    .value(Tokens.OutboxRepository, outbox)
+    .value(Tokens.JobRepository, jobs)
+    .value(Tokens.UnitOfWork, new InMemoryUnitOfWork([outbox, users, sessions, resetTokens, jobs]))
+    .singleton(Tokens.PasswordHasher, () => new ScryptPasswordHasher({ logN: 10, blockSize: 8, parallelization: 1 }))
+    .singleton(
+      Tokens.TokenService,
+      () =>
+        new JwtTokenService({
+          keys: [{ kid: 'test', alg: 'HS256', secret: randomBytes(32).toString('hex') }],
+          activeKid: 'test',
+        }),
+    )
+    .singleton(Tokens.TokenSigner, () => new HmacTokenSigner(randomBytes(32)))
+    .singleton(Tokens.EmailService, () => new InMemoryEmailService())
+}
+
+/**
+ * Bindings applied in order for each profile, later ones overriding earlier ones
+ * Development runs the production bindings: the configuration already falls back to
+ * development defaults (console email, per-process secrets) when variables are missing
+ */
+const profiles: Record<Profile, ((container: Container, settings: AppConfig) => void)[]> = {
+  production: [bindInfrastructure],
+  development: [bindInfrastructure],
+  test: [bindInfrastructure, bindInMemory],
+}
+
+/**
+ * Builds the container for a profile, with the configuration, the application logger and a metrics registry
+ * injectable as `Tokens.Config`, `Tokens.Logger` and `Tokens.Metrics`
+ * @param profile - Bindings to apply
+ * @param settings - Configuration to build the services from and to inject into feature modules
+ */
+export function createContainer(profile: Profile = config.NODE_ENV, settings: AppConfig = config): Container {
+  const container = Container.create()
+    .value(Tokens.Config, settings)
+    .value(Tokens.Logger, logger)
+    .value(Tokens.Metrics, new MetricsRegistry())
+  profiles[profile].forEach((bind) => bind(container, settings))
+  return container
+}
@@ -0,0 +1,47 @@
+import { AppConfig } from '@/config'
+import { SessionRepository } from '@/domain/session/session'
+import { PasswordResetTokenRepository } from '@/domain/user/password-reset-token'
+import { UserRepository } from '@/domain/user/user'
+import { Database } from '@/infrastructure/persistence/interfaces/database'
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { PasswordHasher } from '@/infrastructure/security/interfaces/password-hasher'
+import { RateLimiter } from '@/infrastructure/security/interfaces/rate-limiter'
+import { TokenService } from '@/infrastructure/security/interfaces/token-service'
+import { TokenSigner } from '@/infrastructure/security/interfaces/token-signer'
+import { RateLimitOptions } from '@/infrastructure/security/rate-limiter/in-memory-rate-limiter'
+import { AccessTokenVerifier } from '@/shared/auth'
+import { Token } from '@/shared/container'
+import { Logger } from '@/shared/logging'
+import { MetricsRegistry } from '@/shared/metrics'
+import { JobQueue, JobRepository } from '@/shared/jobs'
+import { OutboxRepository } from '@/shared/outbox'
+import { UnitOfWork } from '@/shared/unit-of-work'
+
+/**
+ * Builds a rate limiter; each feature picks its own limits
+ */
+export type RateLimiterFactory = (options: RateLimitOptions) => RateLimiter
+
+/**
+ * Tokens of every service a feature module may depend on
+ * Implementations are bound per environment in `profiles.ts`
+ */
+export const Tokens = {
+  Config: new Token<AppConfig>('Config'),
+  Logger: new Token<Logger>('Logger'),
+  Metrics: new Token<MetricsRegistry>('Metrics'),
+  Database: new Token<Database>('Database'),
+  UserRepository: new Token<UserRepository>('UserRepository'),
+  SessionRepository: new Token<SessionRepository>('SessionRepository'),
+  PasswordResetTokenRepository: new Token<PasswordResetTokenRepository>('PasswordResetTokenRepository'),
+  OutboxRepository: new Token<OutboxRepository>('OutboxRepository'),
+  JobRepository: new Token<JobRepository>('JobRepository'),
+  JobQueue: new Token<JobQueue>('JobQueue'),
+  UnitOfWork: new Token<UnitOfWork>('UnitOfWork'),
+  PasswordHasher: new Token<PasswordHasher>('PasswordHasher'),
+  TokenService: new Token<TokenService>('TokenService'),
+  AccessTokenVerifier: new Token<AccessTokenVerifier>('AccessTokenVerifier'),
+  TokenSigner: new Token<TokenSigner>('TokenSigner'),
+  EmailService: new Token<EmailService>('EmailService'),
+  RateLimiterFactory: new Token<RateLimiterFactory>('RateLimiterFactory'),
+} as const
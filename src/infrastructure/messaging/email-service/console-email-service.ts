@@ -1,8 +1,34 @@
+import { emailLinks } from './email-links'
+
 import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { Logger, logger } from '@/shared/logging'
 
+/**
+ * Development email service logging the emails, with their links, instead of sending them
+ */
 export class ConsoleEmailService implements EmailService {
+  private readonly log: Logger
+
+  /**
+   * @param appUrl - Origin of the web app the links lead to, e.g. `http://localhost:5173`
+   * @param parentLogger - Logger to write the emails to
+   */
+  constructor(
+    private readonly appUrl: string,
+    parentLogger: Logger = logger,
+  ) {
+    this.log = parentLogger.child({ component: 'EmailService' })
+  }
+
   async sendWelcomeEmail(email: string, name: string): Promise<void> {
-    console.log(`[EmailService] Sending welcome email to ${name} <${email}>`)
-    return Promise.resolve()
+    this.log.info('Sending welcome email', { to: email, name })
+  }
+
+  async sendVerificationEmail(email: string, token: string): Promise<void> {
+    this.log.info('Sending verification email', { to: email, link: emailLinks.verifyEmail(this.appUrl, token) })
+  }
+
+  async sendPasswordResetEmail(email: string, token: string): Promise<void> {
+    this.log.info('Sending password reset email', { to: email, link: emailLinks.resetPassword(this.appUrl, token) })
   }
 }
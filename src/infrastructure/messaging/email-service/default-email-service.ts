@@ -0,0 +1,28 @@
+import { ConsoleEmailService } from './console-email-service'
+import { EmailOptions, EmailTransportOptions } from './email-options'
+import { TemplatedEmailService } from './templated-email-service'
+
+import { FileOutboxTransport } from '@/infrastructure/messaging/email-transport/file-outbox-transport'
+import { SmtpClient } from '@/infrastructure/messaging/email-transport/smtp-client'
+import { SmtpEmailTransport } from '@/infrastructure/messaging/email-transport/smtp-email-transport'
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { EmailTransport } from '@/infrastructure/messaging/interfaces/email-transport'
+import { Logger } from '@/shared/logging'
+
+function createTransport(options: Exclude<EmailTransportOptions, { kind: 'console' }>, logger: Logger): EmailTransport {
+  return options.kind === 'outbox'
+    ? new FileOutboxTransport(options.directory, logger)
+    : new SmtpEmailTransport(new SmtpClient(options.smtp))
+}
+
+/**
+ * Builds the email service matching the configured transport
+ * @param logger - Logger of the development transports, which log emails instead of sending them
+ */
+export function createEmailService(options: EmailOptions, logger: Logger): EmailService {
+  if (options.transport.kind === 'console') {
+    return new ConsoleEmailService(options.appUrl, logger)
+  }
+
+  return new TemplatedEmailService(createTransport(options.transport, logger), options)
+}
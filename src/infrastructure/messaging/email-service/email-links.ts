@@ -0,0 +1,17 @@
+/**
+ * Links of the emails, to the pages of the web app at `appUrl` (APP_URL)
+ * The pages read the token from the query string and post it to `/v1/auth/verify-email` or `/v1/auth/reset-password`
+ */
+export const emailLinks = {
+  verifyEmail(appUrl: string, token: string): string {
+    return link(appUrl, '/verify-email', token)
+  },
+
+  resetPassword(appUrl: string, token: string): string {
+    return link(appUrl, '/reset-password', token)
+  },
+}
+
+function link(appUrl: string, path: string, token: string): string {
+  return `${appUrl.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}`
+}
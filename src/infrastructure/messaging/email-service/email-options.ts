@@ -0,0 +1,57 @@
+import { AppConfig } from '@/config'
+import { SmtpOptions } from '@/infrastructure/messaging/email-transport/smtp-client'
+
+/**
+ * How emails leave the application
+ * - console: log a line with the link (default)
+ * - outbox: write .eml files to a directory
+ * - smtp: deliver through an SMTP server
+ */
+export type EmailTransportOptions =
+  { kind: 'console' } | { kind: 'outbox'; directory: string } | { kind: 'smtp'; smtp: SmtpOptions }
+
+export interface EmailOptions {
+  from: string
+  appUrl: string
+  defaultLocale: string
+  transport: EmailTransportOptions
+}
+
+/**
+ * Email settings of the application configuration
+ * - EMAIL_TRANSPORT: console (default), outbox or smtp
+ * - EMAIL_FROM, EMAIL_LOCALE, APP_URL: sender, default locale and base URL of links
+ * - EMAIL_OUTBOX_DIR: directory of the outbox transport
+ * - SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_REQUIRE_TLS, SMTP_ALLOW_INSECURE_AUTH, SMTP_USER, SMTP_PASSWORD: SMTP server
+ */
+export function emailOptionsFromConfig(config: AppConfig): EmailOptions {
+  const settings = {
+    from: config.EMAIL_FROM,
+    appUrl: config.APP_URL,
+    defaultLocale: config.EMAIL_LOCALE,
+  }
+
+  switch (config.EMAIL_TRANSPORT) {
+    case 'console':
+      return { ...settings, transport: { kind: 'console' } }
+    case 'outbox':
+      return { ...settings, transport: { kind: 'outbox', directory: config.EMAIL_OUTBOX_DIR } }
+    case 'smtp':
+      return { ...settings, transport: { kind: 'smtp', smtp: smtpOptionsFromConfig(config) } }
+  }
+}
+
+function smtpOptionsFromConfig(config: AppConfig): SmtpOptions {
+  if (!config.SMTP_HOST) {
+    throw new Error('SMTP_HOST must be set when EMAIL_TRANSPORT is smtp')
+  }
+
+  return {
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT ?? (config.SMTP_SECURE ? 465 : 587),
+    secure: config.SMTP_SECURE,
+    requireTls: config.SMTP_REQUIRE_TLS,
+    allowInsecureAuth: config.SMTP_ALLOW_INSECURE_AUTH,
+    auth: config.SMTP_USER ? { user: config.SMTP_USER, password: config.SMTP_PASSWORD ?? '' } : undefined,
+  }
+}
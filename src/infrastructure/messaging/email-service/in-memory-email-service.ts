@@ -0,0 +1,34 @@
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+
+export type SentEmail =
+  | { type: 'welcome'; to: string; name: string }
+  | { type: 'verification'; to: string; token: string }
+  | { type: 'password-reset'; to: string; token: string }
+
+/**
+ * Email service that keeps sent emails in memory instead of delivering them
+ * Lets tests read the tokens a real user would get by email
+ */
+export class InMemoryEmailService implements EmailService {
+  readonly sent: SentEmail[] = []
+
+  async sendWelcomeEmail(email: string, name: string): Promise<void> {
+    this.sent.push({ type: 'welcome', to: email, name })
+  }
+
+  async sendVerificationEmail(email: string, token: string): Promise<void> {
+    this.sent.push({ type: 'verification', to: email, token })
+  }
+
+  async sendPasswordResetEmail(email: string, token: string): Promise<void> {
+    this.sent.push({ type: 'password-reset', to: email, token })
+  }
+
+  /**
+   * Token of the latest email of a type sent to an address
+   */
+  lastToken(to: string, type: Extract<SentEmail, { token: string }>['type']): string | undefined {
+    const email = [...this.sent].reverse().find((sent) => sent.to === to && sent.type === type)
+    return email && 'token' in email ? email.token : undefined
+  }
+}
@@ -0,0 +1,60 @@
+import { emailLinks } from './email-links'
+
+import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
+import { EmailTransport } from '@/infrastructure/messaging/interfaces/email-transport'
+import { passwordResetTemplate } from '@/infrastructure/messaging/templates/password-reset.template'
+import { EmailTemplate } from '@/infrastructure/messaging/templates/template'
+import { verificationTemplate } from '@/infrastructure/messaging/templates/verification.template'
+import { welcomeTemplate } from '@/infrastructure/messaging/templates/welcome.template'
+
+export interface TemplatedEmailOptions {
+  /**
+   * Sender of every email, e.g. `Acme <no-reply@acme.test>`
+   */
+  from: string
+  /**
+   * Origin of the web app the links in the emails lead to (APP_URL)
+   */
+  appUrl: string
+  /**
+   * Locale used when the caller doesn't ask for one
+   */
+  defaultLocale?: string
+}
+
+/**
+ * Email service rendering the named templates and handing the result to a transport
+ */
+export class TemplatedEmailService implements EmailService {
+  constructor(
+    private readonly transport: EmailTransport,
+    private readonly options: TemplatedEmailOptions,
+  ) {}
+
+  async sendWelcomeEmail(email: string, name: string, locale?: string): Promise<void> {
+    await this.send(email, welcomeTemplate, { name, appUrl: this.options.appUrl }, locale)
+  }
+
+  async sendVerificationEmail(email: string, token: string, locale?: string): Promise<void> {
+    await this.send(email, verificationTemplate, { link: emailLinks.verifyEmail(this.options.appUrl, token) }, locale)
+  }
+
+  async sendPasswordResetEmail(email: string, token: string, locale?: string): Promise<void> {
+    await this.send(
+      email,
+      passwordResetTemplate,
+      { link: emailLinks.resetPassword(this.options.appUrl, token) },
+      locale,
+    )
+  }
+
+  private async send<TVariables>(
+    to: string,
+    template: EmailTemplate<TVariables>,
+    variables: TVariables,
+    locale?: string,
+  ): Promise<void> {
+    const rendered = template.render(variables, locale ?? this.options.defaultLocale)
+    await this.transport.send({ from: this.options.from, to, ...rendered })
+  }
+}
@@ -0,0 +1,37 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+
+import { buildMimeMessage } from './mime-message'
+
+import { EmailMessage, EmailTransport } from '@/infrastructure/messaging/interfaces/email-transport'
+import { Logger, logger } from '@/shared/logging'
+
+/**
+ * Development transport writing every email as an .eml file instead of delivering it
+ * Open the files with any mail client to check how they render
+ */
+export class FileOutboxTransport implements EmailTransport {
+  private readonly log: Logger
+
+  /**
+   * @param directory - Directory the .eml files are written to, created when missing
+   * @param parentLogger - Logger noting every file written
+   */
+  constructor(
+    private readonly directory: string,
+    parentLogger: Logger = logger,
+  ) {
+    this.log = parentLogger.child({ component: 'EmailService' })
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`
+    const filePath = path.join(this.directory, fileName)
+    await writeFile(filePath, buildMimeMessage(message), 'utf8')
+
+    this.log.info('Wrote email', { to: message.to, subject: message.subject, file: filePath })
+  }
+}
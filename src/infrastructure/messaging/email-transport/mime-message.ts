@@ -0,0 +1,85 @@
+import { randomUUID } from 'node:crypto'
+
+import { EmailMessage } from '@/infrastructure/messaging/interfaces/email-transport'
+
+const CRLF = '\r\n'
+
+/**
+ * Extracts the bare address from `Name <address>` or `address`
+ */
+export function addressOf(mailbox: string): string {
+  const match = /<([^<>]+)>\s*$/.exec(mailbox)
+  return (match ? match[1] : mailbox).trim()
+}
+
+function assertHeaderValue(name: string, value: string): void {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`Email header ${name} must not contain line breaks`)
+  }
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded word when it is not plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function encodeMailbox(mailbox: string): string {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^<>]+)>\s*$/.exec(mailbox)
+  if (!match || !match[1]) {
+    return addressOf(mailbox)
+  }
+  const name = /^[\x20-\x7e]*$/.test(match[1]) ? `"${match[1].replace(/["\\]/g, '\\$&')}"` : encodeHeader(match[1])
+  return `${name} <${match[2]}>`
+}
+
+function base64Lines(content: string): string {
+  return (
+    Buffer.from(content, 'utf8')
+      .toString('base64')
+      .match(/.{1,76}/g)
+      ?.join(CRLF) ?? ''
+  )
+}
+
+function part(contentType: string, content: string): string[] {
+  return [`Content-Type: ${contentType}; charset=utf-8`, 'Content-Transfer-Encoding: base64', '', base64Lines(content)]
+}
+
+export interface MimeOptions {
+  messageId?: string
+  date?: Date
+}
+
+/**
+ * Builds an RFC 5322 message with text and HTML alternatives, using CRLF line endings
+ * The result is what SMTP DATA carries and what an .eml file contains
+ */
+export function buildMimeMessage(message: EmailMessage, options: MimeOptions = {}): string {
+  const from = addressOf(message.from)
+  const domain = from.includes('@') ? from.split('@').pop() : 'localhost'
+  const messageId = options.messageId ?? `<${randomUUID()}@${domain}>`
+  const boundary = `alt-${randomUUID()}`
+
+  assertHeaderValue('From', message.from)
+  assertHeaderValue('To', message.to)
+  assertHeaderValue('Subject', message.subject)
+
+  return [
+    `From: ${encodeMailbox(message.from)}`,
+    `To: ${encodeMailbox(message.to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...part('text/plain', message.text),
+    `--${boundary}`,
+    ...part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF)
+}
@@ -0,0 +1,313 @@
+import net from 'node:net'
+import os from 'node:os'
+import tls from 'node:tls'
+
+import { addressOf } from './mime-message'
+
+const CRLF = '\r\n'
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  /**
+   * Use TLS from the first byte (usually port 465); otherwise STARTTLS is used whenever the server offers it
+   */
+  secure?: boolean
+  /**
+   * Refuse to send over a connection that could not be encrypted
+   */
+  requireTls?: boolean
+  /**
+   * Credentials; they are only sent over an encrypted connection unless `allowInsecureAuth` is set
+   */
+  auth?: { user: string; password: string }
+  /**
+   * Send the credentials even when the connection could not be encrypted, e.g. to a relay on a trusted network
+   * Anyone able to strip STARTTLS from the server's reply would otherwise read the password
+   */
+  allowInsecureAuth?: boolean
+  /**
+   * Name announced with EHLO (defaults to the host name of this machine)
+   */
+  clientName?: string
+  /**
+   * Idle timeout in milliseconds (default: 30 seconds)
+   */
+  timeoutMs?: number
+  /**
+   * Extra TLS settings, e.g. a custom CA
+   */
+  tls?: tls.ConnectionOptions
+}
+
+export interface SmtpEnvelope {
+  from: string
+  to: string[]
+}
+
+export interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Connection failure or unexpected reply from the SMTP server
+ */
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly reply?: SmtpReply,
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+/**
+ * One SMTP conversation: writes commands and reads (possibly multi-line) replies
+ */
+class SmtpConnection {
+  private buffer = ''
+  private pendingLines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiter?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }
+  private failure?: Error
+
+  private readonly onData = (chunk: Buffer) => this.receive(chunk.toString('utf8'))
+  private readonly onError = (error: Error) => this.fail(error)
+  private readonly onClose = () => this.fail(new SmtpError('SMTP connection closed unexpectedly'))
+
+  constructor(
+    private socket: net.Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket)
+  }
+
+  static open(options: SmtpOptions): SmtpConnection {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host, ...options.tls })
+      : net.connect({ host: options.host, port: options.port })
+    return new SmtpConnection(socket, options.timeoutMs ?? 30_000)
+  }
+
+  /**
+   * Switches the conversation to TLS after a successful STARTTLS
+   * Anything the server sent after its 220 reply came in clear text, possibly from a man in the middle,
+   * so it is refused instead of being read as if it came over TLS
+   */
+  async upgrade(options: tls.ConnectionOptions): Promise<void> {
+    this.detach(this.socket)
+    const injected = this.buffer.length > 0 || this.pendingLines.length > 0 || this.replies.length > 0
+    this.buffer = ''
+    this.pendingLines = []
+    this.replies = []
+    if (injected) {
+      throw new SmtpError('SMTP server sent data after STARTTLS before the TLS handshake')
+    }
+
+    const secureSocket = tls.connect({ ...options, socket: this.socket })
+    this.socket = secureSocket
+    this.attach(secureSocket)
+
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve)
+      secureSocket.once('error', reject)
+    })
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift()
+    if (reply) {
+      return Promise.resolve(reply)
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject }
+    })
+  }
+
+  async expect(codes: number[], step = 'greeting'): Promise<SmtpReply> {
+    const reply = await this.read()
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`Unexpected SMTP reply to ${step}: ${reply.code} ${reply.lines.join(' ')}`, reply)
+    }
+    return reply
+  }
+
+  /**
+   * Sends one command line and checks the reply code
+   * @param step - Name used in errors, so that credentials sent as commands never end up in logs
+   */
+  async command(line: string, codes: number[], step = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(line + CRLF)
+    return this.expect(codes, step)
+  }
+
+  close(): void {
+    this.detach(this.socket)
+    this.socket.destroy()
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new SmtpError('SMTP server timed out')))
+    socket.on('data', this.onData)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.setTimeout(0)
+    socket.off('data', this.onData)
+    socket.off('error', this.onError)
+    socket.off('close', this.onClose)
+  }
+
+  private receive(data: string): void {
+    this.buffer += data
+
+    let newline = this.buffer.indexOf('\n')
+    while (newline >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(newline + 1)
+      this.pendingLines.push(line)
+
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.deliver({ code: Number(line.slice(0, 3)), lines: this.pendingLines.map((pending) => pending.slice(4)) })
+        this.pendingLines = []
+      }
+
+      newline = this.buffer.indexOf('\n')
+    }
+  }
+
+  private deliver(reply: SmtpReply): void {
+    if (this.waiter) {
+      this.waiter.resolve(reply)
+      this.waiter = undefined
+    } else {
+      this.replies.push(reply)
+    }
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error
+    if (this.waiter) {
+      this.waiter.reject(this.failure)
+      this.waiter = undefined
+    }
+  }
+}
+
+function envelopeAddress(mailbox: string): string {
+  const address = addressOf(mailbox)
+  if (/[\s<>]/.test(address)) {
+    throw new SmtpError(`Invalid email address: ${JSON.stringify(mailbox)}`)
+  }
+  return address
+}
+
+/**
+ * Escapes lines starting with a dot and normalizes line endings for the DATA command
+ */
+export function dotStuff(message: string): string {
+  const normalized = message.replace(/\r?\n/g, CRLF).replace(/^\./gm, '..')
+  return normalized.endsWith(CRLF) ? normalized : normalized + CRLF
+}
+
+/**
+ * Minimal SMTP client (RFC 5321) on node:net/node:tls
+ * Supports implicit TLS and STARTTLS, AUTH PLAIN/LOGIN and one connection per message
+ */
+export class SmtpClient {
+  constructor(private readonly options: SmtpOptions) {}
+
+  /**
+   * Delivers a MIME message to the envelope recipients
+   * @throws SmtpError when the connection fails or the server rejects a step
+   */
+  async send(envelope: SmtpEnvelope, message: string): Promise<void> {
+    const from = envelopeAddress(envelope.from)
+    const recipients = envelope.to.map(envelopeAddress)
+    const connection = SmtpConnection.open(this.options)
+
+    try {
+      await connection.expect([220])
+      let extensions = await this.hello(connection)
+      let encrypted = this.options.secure ?? false
+
+      if (!encrypted) {
+        if (extensions.has('STARTTLS')) {
+          await connection.command('STARTTLS', [220])
+          await connection.upgrade({ servername: this.options.host, ...this.options.tls })
+          extensions = await this.hello(connection)
+          encrypted = true
+        } else if (this.options.requireTls) {
+          throw new SmtpError('SMTP server does not offer STARTTLS')
+        }
+      }
+
+      if (this.options.auth) {
+        if (!encrypted && !this.options.allowInsecureAuth) {
+          throw new SmtpError('SMTP server does not offer STARTTLS, refusing to send credentials in clear text')
+        }
+        await this.authenticate(connection, this.options.auth, extensions.get('AUTH') ?? [])
+      }
+
+      await connection.command(`MAIL FROM:<${from}>`, [250])
+      for (const recipient of recipients) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251])
+      }
+      await connection.command('DATA', [354])
+      await connection.command(`${dotStuff(message)}.`, [250], 'message data')
+      await connection.command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+  }
+
+  /**
+   * Greets the server and returns the ESMTP extensions it announced, keyed by keyword
+   */
+  private async hello(connection: SmtpConnection): Promise<Map<string, string[]>> {
+    const clientName = this.options.clientName ?? os.hostname()
+
+    try {
+      const reply = await connection.command(`EHLO ${clientName}`, [250])
+      return new Map(
+        reply.lines.slice(1).map((line) => {
+          const [keyword, ...params] = line.trim().split(/\s+/)
+          return [keyword.toUpperCase(), params.map((param) => param.toUpperCase())]
+        }),
+      )
+    } catch (error) {
+      // Servers predating ESMTP only understand HELO
+      if (error instanceof SmtpError && error.reply && [500, 502].includes(error.reply.code)) {
+        await connection.command(`HELO ${clientName}`, [250])
+        return new Map()
+      }
+      throw error
+    }
+  }
+
+  private async authenticate(
+    connection: SmtpConnection,
+    { user, password }: NonNullable<SmtpOptions['auth']>,
+    mechanisms: string[],
+  ): Promise<void> {
+    const base64 = (value: string) => Buffer.from(value, 'utf8').toString('base64')
+
+    if (mechanisms.includes('PLAIN')) {
+      await connection.command(`AUTH PLAIN ${base64(`\0${user}\0${password}`)}`, [235], 'AUTH PLAIN')
+    } else if (mechanisms.includes('LOGIN')) {
+      await connection.command('AUTH LOGIN', [334])
+      await connection.command(base64(user), [334], 'AUTH LOGIN')
+      await connection.command(base64(password), [235], 'AUTH LOGIN')
+    } else {
+      throw new SmtpError('SMTP server offers no supported AUTH mechanism (PLAIN or LOGIN)')
+    }
+  }
+}
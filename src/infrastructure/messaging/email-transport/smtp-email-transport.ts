@@ -0,0 +1,15 @@
+import { buildMimeMessage } from './mime-message'
+import { SmtpClient } from './smtp-client'
+
+import { EmailMessage, EmailTransport } from '@/infrastructure/messaging/interfaces/email-transport'
+
+/**
+ * Transport delivering emails through an SMTP server
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  constructor(private readonly client: SmtpClient) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.client.send({ from: message.from, to: [message.to] }, buildMimeMessage(message))
+  }
+}
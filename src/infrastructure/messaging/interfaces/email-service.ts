@@ -1,3 +1,9 @@
+/**
+ * Sends the application's emails
+ * `locale` selects the language of the email; implementations fall back to their default locale
+ */
 export interface EmailService {
-  sendWelcomeEmail(email: string, name: string): Promise<void>
+  sendWelcomeEmail(email: string, name: string, locale?: string): Promise<void>
+  sendVerificationEmail(email: string, token: string, locale?: string): Promise<void>
+  sendPasswordResetEmail(email: string, token: string, locale?: string): Promise<void>
 }
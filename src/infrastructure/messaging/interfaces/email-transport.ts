@@ -0,0 +1,20 @@
+/**
+ * Fully rendered email ready to be delivered
+ */
+export interface EmailMessage {
+  /**
+   * Sender, either `address@example.com` or `Name <address@example.com>`
+   */
+  from: string
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Delivers rendered emails (SMTP, an outbox directory, ...)
+ */
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>
+}
@@ -0,0 +1,31 @@
+import { html, SafeHtml } from './template'
+
+/**
+ * Shared HTML document every email body is wrapped in
+ */
+export function layout(lang: string, title: string, body: SafeHtml): string {
+  return html`<!doctype html>
+    <html lang="${lang}">
+      <head>
+        <meta charset="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>${title}</title>
+      </head>
+      <body style="font-family: Arial, Helvetica, sans-serif; line-height: 1.5; color: #1f2937">
+        ${body}
+      </body>
+    </html> `.value
+}
+
+/**
+ * Call-to-action link styled as a button
+ */
+export function button(href: string, label: string): SafeHtml {
+  return html`<p>
+    <a
+      href="${href}"
+      style="display: inline-block; padding: 10px 16px; background: #2563eb; color: #ffffff; text-decoration: none; border-radius: 4px"
+      >${label}</a
+    >
+  </p>`
+}
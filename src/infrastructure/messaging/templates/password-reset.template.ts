@@ -0,0 +1,35 @@
+import { button, layout } from './layout'
+import { defineTemplate, html } from './template'
+
+export interface PasswordResetEmailVariables {
+  link: string
+}
+
+export const passwordResetTemplate = defineTemplate<PasswordResetEmailVariables>('password-reset', {
+  en: ({ link }) => ({
+    subject: 'Reset your password',
+    text: `Someone asked to reset the password of your account. If it was you, open the link below; otherwise ignore this email.\n\n${link}\n`,
+    html: layout(
+      'en',
+      'Reset your password',
+      html`<p>
+          Someone asked to reset the password of your account. If it was you, click the button below; otherwise ignore
+          this email.
+        </p>
+        ${button(link, 'Reset password')}`,
+    ),
+  }),
+  'pt-BR': ({ link }) => ({
+    subject: 'Redefina sua senha',
+    text: `Alguém pediu para redefinir a senha da sua conta. Se foi você, abra o link abaixo; caso contrário, ignore este email.\n\n${link}\n`,
+    html: layout(
+      'pt-BR',
+      'Redefina sua senha',
+      html`<p>
+          Alguém pediu para redefinir a senha da sua conta. Se foi você, clique no botão abaixo; caso contrário, ignore
+          este email.
+        </p>
+        ${button(link, 'Redefinir senha')}`,
+    ),
+  }),
+})
@@ -0,0 +1,108 @@
+/**
+ * Locales the email templates are written in
+ */
+export type Locale = 'en' | 'pt-BR'
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/**
+ * Email content rendered for one recipient
+ */
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Renders the content of a template in one locale
+ */
+export type LocalizedTemplate<TVariables> = (variables: TVariables) => RenderedEmail
+
+/**
+ * Named email template rendering HTML and text from typed variables
+ * @template TVariables - Variables the template expects
+ */
+export interface EmailTemplate<TVariables> {
+  readonly name: string
+  readonly locales: Locale[]
+  render(variables: TVariables, locale?: string): RenderedEmail
+}
+
+/**
+ * HTML that must not be escaped again when interpolated into another `html` template
+ */
+export class SafeHtml {
+  constructor(public readonly value: string) {}
+
+  toString(): string {
+    return this.value
+  }
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+}
+
+function interpolate(value: unknown): string {
+  if (value instanceof SafeHtml) {
+    return value.value
+  }
+  if (Array.isArray(value)) {
+    return value.map(interpolate).join('')
+  }
+  if (value === null || value === undefined || value === false) {
+    return ''
+  }
+  return escapeHtml(String(value))
+}
+
+/**
+ * Tagged template escaping every interpolated value unless it is already SafeHtml
+ * @example html`<p>Hi ${name}</p>`
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  return new SafeHtml(strings.reduce((result, string, index) => result + interpolate(values[index - 1]) + string))
+}
+
+/**
+ * Picks the best available locale: an exact match, then the same language, then the default
+ */
+export function resolveLocale(requested: string | undefined, available: Locale[]): Locale {
+  if (!requested) {
+    return DEFAULT_LOCALE
+  }
+
+  const exact = available.find((locale) => locale.toLowerCase() === requested.toLowerCase())
+  if (exact) {
+    return exact
+  }
+
+  const language = requested.split('-')[0].toLowerCase()
+  return available.find((locale) => locale.split('-')[0].toLowerCase() === language) ?? DEFAULT_LOCALE
+}
+
+/**
+ * Defines a named template; the default locale is mandatory and used when the requested one is missing
+ */
+export function defineTemplate<TVariables>(
+  name: string,
+  locales: Record<typeof DEFAULT_LOCALE, LocalizedTemplate<TVariables>> &
+    Partial<Record<Locale, LocalizedTemplate<TVariables>>>,
+): EmailTemplate<TVariables> {
+  const available = Object.keys(locales) as Locale[]
+
+  return {
+    name,
+    locales: available,
+    render: (variables, locale) => (locales[resolveLocale(locale, available)] ?? locales[DEFAULT_LOCALE])(variables),
+  }
+}
@@ -0,0 +1,29 @@
+import { button, layout } from './layout'
+import { defineTemplate, html } from './template'
+
+export interface VerificationEmailVariables {
+  link: string
+}
+
+export const verificationTemplate = defineTemplate<VerificationEmailVariables>('verification', {
+  en: ({ link }) => ({
+    subject: 'Verify your email address',
+    text: `Confirm your email address by opening the link below.\n\n${link}\n`,
+    html: layout(
+      'en',
+      'Verify your email address',
+      html`<p>Confirm your email address by clicking the button below.</p>
+        ${button(link, 'Verify email')}`,
+    ),
+  }),
+  'pt-BR': ({ link }) => ({
+    subject: 'Confirme seu endereço de email',
+    text: `Confirme seu endereço de email abrindo o link abaixo.\n\n${link}\n`,
+    html: layout(
+      'pt-BR',
+      'Confirme seu endereço de email',
+      html`<p>Confirme seu endereço de email clicando no botão abaixo.</p>
+        ${button(link, 'Confirmar email')}`,
+    ),
+  }),
+})
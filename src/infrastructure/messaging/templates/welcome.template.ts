@@ -0,0 +1,32 @@
+import { button, layout } from './layout'
+import { defineTemplate, html } from './template'
+
+export interface WelcomeEmailVariables {
+  name: string
+  appUrl: string
+}
+
+export const welcomeTemplate = defineTemplate<WelcomeEmailVariables>('welcome', {
+  en: ({ name, appUrl }) => ({
+    subject: `Welcome, ${name}!`,
+    text: `Hi ${name},\n\nYour account is ready. Sign in at ${appUrl}\n`,
+    html: layout(
+      'en',
+      'Welcome',
+      html`<p>Hi ${name},</p>
+        <p>Your account is ready.</p>
+        ${button(appUrl, 'Sign in')}`,
+    ),
+  }),
+  'pt-BR': ({ name, appUrl }) => ({
+    subject: `Bem-vindo(a), ${name}!`,
+    text: `Olá ${name},\n\nSua conta está pronta. Entre em ${appUrl}\n`,
+    html: layout(
+      'pt-BR',
+      'Bem-vindo(a)',
+      html`<p>Olá ${name},</p>
+        <p>Sua conta está pronta.</p>
+        ${button(appUrl, 'Entrar')}`,
+    ),
+  }),
+})
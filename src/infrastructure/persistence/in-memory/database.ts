@@ -0,0 +1,10 @@
+import { Database } from '@/infrastructure/persistence/interfaces/database'
+
+/**
+ * Nothing to connect to: the in-memory repositories are always available
+ */
+export class InMemoryDatabase implements Database {
+  async ping(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+}
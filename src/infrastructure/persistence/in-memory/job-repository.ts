@@ -0,0 +1,86 @@
+import { Snapshottable } from './unit-of-work'
+
+import { JobRepository, NewJob, QueuedJob } from '@/shared/jobs'
+
+export class InMemoryJobRepository implements JobRepository, Snapshottable {
+  jobs: QueuedJob[] = []
+  private nextId = 1
+
+  async add(job: NewJob): Promise<boolean> {
+    if (job.uniqueKey !== null && this.jobs.some((j) => j.uniqueKey === job.uniqueKey)) {
+      return false
+    }
+
+    this.jobs.push(
+      new QueuedJob(
+        (this.nextId++).toString(),
+        job.name,
+        job.payload,
+        'pending',
+        0,
+        job.maxAttempts,
+        job.runAt,
+        new Date(),
+        job.uniqueKey,
+      ),
+    )
+    return true
+  }
+
+  async findDue(now: Date, limit: number): Promise<QueuedJob[]> {
+    return this.jobs
+      .filter((job) => job.status === 'pending' && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit)
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const job = this.jobs.find((j) => j.id === id)
+    if (!job || job.status !== 'pending' || job.runAt > now) {
+      return false
+    }
+    this.replace(id, { runAt: leaseUntil })
+    return true
+  }
+
+  async complete(id: string, completedAt: Date): Promise<void> {
+    this.replace(id, { status: 'completed', completedAt })
+  }
+
+  async reschedule(id: string, attempts: number, lastError: string, runAt: Date): Promise<void> {
+    this.replace(id, { attempts, lastError, runAt })
+  }
+
+  async markDead(id: string, attempts: number, lastError: string): Promise<void> {
+    this.replace(id, { status: 'dead', attempts, lastError })
+  }
+
+  private replace(id: string, changes: Partial<QueuedJob>): void {
+    this.jobs = this.jobs.map((j) => {
+      if (j.id !== id) return j
+      const next = { ...j, ...changes }
+      return new QueuedJob(
+        next.id,
+        next.name,
+        next.payload,
+        next.status,
+        next.attempts,
+        next.maxAttempts,
+        next.runAt,
+        next.createdAt,
+        next.uniqueKey,
+        next.lastError,
+        next.completedAt,
+      )
+    })
+  }
+
+  snapshot(): () => void {
+    const jobs = [...this.jobs]
+    const nextId = this.nextId
+    return () => {
+      this.jobs = jobs
+      this.nextId = nextId
+    }
+  }
+}
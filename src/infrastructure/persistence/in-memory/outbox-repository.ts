@@ -0,0 +1,71 @@
+import { Snapshottable } from './unit-of-work'
+
+import { Notification } from '@/shared/cqs'
+import { OutboxMessage, OutboxRepository, toOutboxEntry } from '@/shared/outbox'
+
+export class InMemoryOutboxRepository implements OutboxRepository, Snapshottable {
+  messages: OutboxMessage[] = []
+  private nextId = 1
+
+  async add(notifications: Notification[]): Promise<void> {
+    const now = new Date()
+    notifications.map(toOutboxEntry).forEach(({ type, payload }) => {
+      this.messages.push(new OutboxMessage((this.nextId++).toString(), type, payload, 'pending', 0, now, now))
+    })
+  }
+
+  async findDue(now: Date, limit: number): Promise<OutboxMessage[]> {
+    return this.messages
+      .filter((message) => message.status === 'pending' && message.availableAt <= now)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit)
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const message = this.messages.find((m) => m.id === id)
+    if (!message || message.status !== 'pending' || message.availableAt > now) {
+      return false
+    }
+    this.replace(id, { availableAt: leaseUntil })
+    return true
+  }
+
+  async markDispatched(id: string, dispatchedAt: Date): Promise<void> {
+    this.replace(id, { status: 'dispatched', dispatchedAt })
+  }
+
+  async reschedule(id: string, attempts: number, lastError: string, availableAt: Date): Promise<void> {
+    this.replace(id, { attempts, lastError, availableAt })
+  }
+
+  async markDead(id: string, attempts: number, lastError: string): Promise<void> {
+    this.replace(id, { status: 'dead', attempts, lastError })
+  }
+
+  private replace(id: string, changes: Partial<OutboxMessage>): void {
+    this.messages = this.messages.map((m) => {
+      if (m.id !== id) return m
+      const next = { ...m, ...changes }
+      return new OutboxMessage(
+        next.id,
+        next.type,
+        next.payload,
+        next.status,
+        next.attempts,
+        next.availableAt,
+        next.createdAt,
+        next.lastError,
+        next.dispatchedAt,
+      )
+    })
+  }
+
+  snapshot(): () => void {
+    const messages = [...this.messages]
+    const nextId = this.nextId
+    return () => {
+      this.messages = messages
+      this.nextId = nextId
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { Snapshottable } from './unit-of-work'
+
+import { PasswordResetToken, PasswordResetTokenRepository } from '@/domain/user/password-reset-token'
+
+export class InMemoryPasswordResetTokenRepository implements PasswordResetTokenRepository, Snapshottable {
+  private tokens: PasswordResetToken[] = []
+  private nextId = 1
+
+  async save(token: PasswordResetToken): Promise<PasswordResetToken> {
+    const newToken = new PasswordResetToken(
+      (this.nextId++).toString(),
+      token.userId,
+      token.tokenHash,
+      token.expiresAt,
+      new Date(),
+      token.usedAt,
+    )
+    this.tokens.push(newToken)
+    return newToken
+  }
+
+  async findByHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    return this.tokens.find((t) => t.tokenHash === tokenHash) || null
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    const token = this.tokens.find((t) => t.id === id)
+    if (!token || token.usedAt) return false
+
+    const used = new PasswordResetToken(
+      token.id,
+      token.userId,
+      token.tokenHash,
+      token.expiresAt,
+      token.createdAt,
+      new Date(),
+    )
+    this.tokens = this.tokens.map((t) => (t.id === id ? used : t))
+    return true
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    this.tokens = this.tokens.filter((t) => t.userId !== userId)
+  }
+
+  snapshot(): () => void {
+    const tokens = [...this.tokens]
+    const nextId = this.nextId
+    return () => {
+      this.tokens = tokens
+      this.nextId = nextId
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Snapshottable } from './unit-of-work'
+
+import { RefreshToken, Session, SessionRepository } from '@/domain/session/session'
+
+export class InMemorySessionRepository implements SessionRepository, Snapshottable {
+  private sessions: Session[] = []
+  private refreshTokens: RefreshToken[] = []
+  private nextId = 1
+
+  async save(session: Session): Promise<Session> {
+    const newSession = new Session((this.nextId++).toString(), session.userId, new Date(), session.revokedAt)
+    this.sessions.push(newSession)
+    return newSession
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    return this.sessions.find((s) => s.id === id) || null
+  }
+
+  async revoke(id: string): Promise<void> {
+    this.sessions = this.sessions.map((s) =>
+      s.id === id && !s.isRevoked ? new Session(s.id, s.userId, s.createdAt, new Date()) : s,
+    )
+  }
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    const active = this.sessions.filter((s) => s.userId === userId && !s.isRevoked)
+    await Promise.all(active.map((s) => this.revoke(s.id)))
+    return active.length
+  }
+
+  async saveRefreshToken(token: RefreshToken): Promise<RefreshToken> {
+    const newToken = new RefreshToken(
+      (this.nextId++).toString(),
+      token.sessionId,
+      token.tokenHash,
+      token.expiresAt,
+      new Date(),
+      token.rotatedAt,
+    )
+    this.refreshTokens.push(newToken)
+    return newToken
+  }
+
+  async findRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null> {
+    return this.refreshTokens.find((t) => t.tokenHash === tokenHash) || null
+  }
+
+  async markRotated(tokenId: string): Promise<boolean> {
+    const token = this.refreshTokens.find((t) => t.id === tokenId)
+    if (!token || token.rotatedAt) return false
+
+    const rotated = new RefreshToken(
+      token.id,
+      token.sessionId,
+      token.tokenHash,
+      token.expiresAt,
+      token.createdAt,
+      new Date(),
+    )
+    this.refreshTokens = this.refreshTokens.map((t) => (t.id === tokenId ? rotated : t))
+    return true
+  }
+
+  snapshot(): () => void {
+    const sessions = [...this.sessions]
+    const refreshTokens = [...this.refreshTokens]
+    const nextId = this.nextId
+    return () => {
+      this.sessions = sessions
+      this.refreshTokens = refreshTokens
+      this.nextId = nextId
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+import { isFailure, Result } from '@/shared/result'
+import { UnitOfWork } from '@/shared/unit-of-work'
+
+/**
+ * In-memory repository that can take part in an InMemoryUnitOfWork
+ */
+export interface Snapshottable {
+  /**
+   * Captures the current state and returns a function restoring it
+   */
+  snapshot(): () => void
+}
+
+/**
+ * Unit of work over in-memory repositories: snapshots them up front and restores the snapshots on rollback
+ * Concurrent units of work are not isolated from each other, which is fine for tests
+ */
+export class InMemoryUnitOfWork implements UnitOfWork {
+  private readonly scope = new AsyncLocalStorage<true>()
+
+  constructor(private readonly repositories: Snapshottable[]) {}
+
+  async run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>> {
+    if (this.scope.getStore()) {
+      return work()
+    }
+
+    const restores = this.repositories.map((repository) => repository.snapshot())
+    const rollback = () => restores.forEach((restore) => restore())
+
+    try {
+      const result = await this.scope.run(true, work)
+      if (isFailure(result)) {
+        rollback()
+      }
+      return result
+    } catch (error) {
+      rollback()
+      throw error
+    }
+  }
+}
@@ -1,15 +1,63 @@
-import { UserRepository, User } from '@/domain/user/user'
+import { InMemoryOutboxRepository } from './outbox-repository'
+import { Snapshottable } from './unit-of-work'
 
-export class InMemoryUserRepository implements UserRepository {
+import { UserRepository, User, UserPage } from '@/domain/user/user'
+import { Notification } from '@/shared/cqs'
+
+export class InMemoryUserRepository implements UserRepository, Snapshottable {
   private users: User[] = []
+  private nextId = 1
+
+  /**
+   * @param outbox - Receives the events passed to `save`; they are dropped when omitted
+   */
+  constructor(private readonly outbox?: InMemoryOutboxRepository) {}
 
-  async save(user: User): Promise<User> {
-    const newUser = new User((this.users.length + 1).toString(), user.email, user.name, new Date(), new Date())
+  async save(user: User, events: (saved: User) => Notification[] = () => []): Promise<User> {
+    const newUser = new User(
+      (this.nextId++).toString(),
+      user.email,
+      user.name,
+      new Date(),
+      new Date(),
+      user.passwordHash,
+      user.emailVerifiedAt,
+      user.credentialVersion,
+      user.roles,
+    )
     this.users.push(newUser)
+    await this.outbox?.add(events(newUser))
     return newUser
   }
 
+  async findById(id: string): Promise<User | null> {
+    return this.users.find((u) => u.id === id) || null
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     return this.users.find((u) => u.email === email) || null
   }
+
+  async findAll(page: UserPage): Promise<{ users: User[]; total: number }> {
+    const sorted = [...this.users].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    return { users: sorted.slice(page.skip, page.skip + page.take), total: this.users.length }
+  }
+
+  async update(user: User): Promise<User> {
+    this.users = this.users.map((u) => (u.id === user.id ? user : u))
+    return user
+  }
+
+  async delete(id: string): Promise<void> {
+    this.users = this.users.filter((u) => u.id !== id)
+  }
+
+  snapshot(): () => void {
+    const users = [...this.users]
+    const nextId = this.nextId
+    return () => {
+      this.users = users
+      this.nextId = nextId
+    }
+  }
 }
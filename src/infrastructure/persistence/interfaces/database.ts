@@ -0,0 +1,13 @@
+/**
+ * Connection to the database, as seen by health checks and shutdown
+ */
+export interface Database {
+  /**
+   * Resolves when the database answers a trivial query
+   */
+  ping(): Promise<void>
+  /**
+   * Closes the connection, once nothing uses it anymore
+   */
+  disconnect(): Promise<void>
+}
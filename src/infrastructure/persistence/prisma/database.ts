@@ -0,0 +1,13 @@
+import { Database } from '@/infrastructure/persistence/interfaces/database'
+import { prisma } from '@/shared/db/client'
+import { db } from '@/shared/db/transaction'
+
+export class PrismaDatabase implements Database {
+  async ping(): Promise<void> {
+    await db().$queryRaw`SELECT 1`
+  }
+
+  async disconnect(): Promise<void> {
+    await prisma.$disconnect()
+  }
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from 'node:crypto'
+
+import { db } from '@/shared/db/transaction'
+import { Job as JobRecord } from '@/shared/db/generated/client/client'
+import { JobRepository, JobStatus, NewJob, QueuedJob } from '@/shared/jobs'
+
+function toDomain(record: JobRecord): QueuedJob {
+  return new QueuedJob(
+    record.id,
+    record.name,
+    record.payload,
+    record.status as JobStatus,
+    record.attempts,
+    record.maxAttempts,
+    record.runAt,
+    record.createdAt,
+    record.uniqueKey,
+    record.lastError,
+    record.completedAt,
+  )
+}
+
+export class PrismaJobRepository implements JobRepository {
+  async add(job: NewJob): Promise<boolean> {
+    if (job.uniqueKey === null) {
+      await db().job.create({ data: job })
+      return true
+    }
+
+    // Upsert rather than catching a unique violation; a fresh id tells whether this call created the row
+    const id = randomUUID()
+    const stored = await db().job.upsert({
+      where: { uniqueKey: job.uniqueKey },
+      create: { ...job, id },
+      update: {},
+    })
+    return stored.id === id
+  }
+
+  async findDue(now: Date, limit: number): Promise<QueuedJob[]> {
+    const found = await db().job.findMany({
+      where: { status: 'pending', runAt: { lte: now } },
+      orderBy: { runAt: 'asc' },
+      take: limit,
+    })
+    return found.map(toDomain)
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    // Conditional update: of two workers polling the same job only one can win
+    const { count } = await db().job.updateMany({
+      where: { id, status: 'pending', runAt: { lte: now } },
+      data: { runAt: leaseUntil },
+    })
+    return count === 1
+  }
+
+  async complete(id: string, completedAt: Date): Promise<void> {
+    await db().job.update({
+      where: { id },
+      data: { status: 'completed', completedAt },
+    })
+  }
+
+  async reschedule(id: string, attempts: number, lastError: string, runAt: Date): Promise<void> {
+    await db().job.update({
+      where: { id },
+      data: { attempts, lastError, runAt },
+    })
+  }
+
+  async markDead(id: string, attempts: number, lastError: string): Promise<void> {
+    await db().job.update({
+      where: { id },
+      data: { status: 'dead', attempts, lastError },
+    })
+  }
+}
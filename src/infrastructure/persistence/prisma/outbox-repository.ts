@@ -0,0 +1,65 @@
+import { Notification } from '@/shared/cqs'
+import { db } from '@/shared/db/transaction'
+import { OutboxMessage as OutboxMessageRecord } from '@/shared/db/generated/client/client'
+import { OutboxMessage, OutboxRepository, OutboxStatus, toOutboxEntry } from '@/shared/outbox'
+
+function toDomain(record: OutboxMessageRecord): OutboxMessage {
+  return new OutboxMessage(
+    record.id,
+    record.type,
+    record.payload,
+    record.status as OutboxStatus,
+    record.attempts,
+    record.availableAt,
+    record.createdAt,
+    record.lastError,
+    record.dispatchedAt,
+  )
+}
+
+export class PrismaOutboxRepository implements OutboxRepository {
+  async add(notifications: Notification[]): Promise<void> {
+    await db().outboxMessage.createMany({
+      data: notifications.map(toOutboxEntry),
+    })
+  }
+
+  async findDue(now: Date, limit: number): Promise<OutboxMessage[]> {
+    const found = await db().outboxMessage.findMany({
+      where: { status: 'pending', availableAt: { lte: now } },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    })
+    return found.map(toDomain)
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    // Conditional update: of two dispatchers polling the same message only one can win
+    const { count } = await db().outboxMessage.updateMany({
+      where: { id, status: 'pending', availableAt: { lte: now } },
+      data: { availableAt: leaseUntil },
+    })
+    return count === 1
+  }
+
+  async markDispatched(id: string, dispatchedAt: Date): Promise<void> {
+    await db().outboxMessage.update({
+      where: { id },
+      data: { status: 'dispatched', dispatchedAt },
+    })
+  }
+
+  async reschedule(id: string, attempts: number, lastError: string, availableAt: Date): Promise<void> {
+    await db().outboxMessage.update({
+      where: { id },
+      data: { attempts, lastError, availableAt },
+    })
+  }
+
+  async markDead(id: string, attempts: number, lastError: string): Promise<void> {
+    await db().outboxMessage.update({
+      where: { id },
+      data: { status: 'dead', attempts, lastError },
+    })
+  }
+}
@@ -0,0 +1,51 @@
+import { PasswordResetToken, PasswordResetTokenRepository } from '@/domain/user/password-reset-token'
+import { db } from '@/shared/db/transaction'
+import { PasswordResetToken as PasswordResetTokenRecord } from '@/shared/db/generated/client/client'
+
+function toDomain(record: PasswordResetTokenRecord): PasswordResetToken {
+  return new PasswordResetToken(
+    record.id,
+    record.userId,
+    record.tokenHash,
+    record.expiresAt,
+    record.createdAt,
+    record.usedAt,
+  )
+}
+
+export class PrismaPasswordResetTokenRepository implements PasswordResetTokenRepository {
+  async save(token: PasswordResetToken): Promise<PasswordResetToken> {
+    const saved = await db().passwordResetToken.create({
+      data: {
+        userId: token.userId,
+        tokenHash: token.tokenHash,
+        expiresAt: token.expiresAt,
+        usedAt: token.usedAt,
+      },
+    })
+    return toDomain(saved)
+  }
+
+  async findByHash(tokenHash: string): Promise<PasswordResetToken | null> {
+    const found = await db().passwordResetToken.findUnique({
+      where: { tokenHash },
+    })
+    if (!found) return null
+    return toDomain(found)
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    // Conditional update: of two concurrent resets with the same token only one can win
+    const { count } = await db().passwordResetToken.updateMany({
+      where: { id, usedAt: null },
+      data: { usedAt: new Date() },
+    })
+    return count === 1
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    await db().passwordResetToken.deleteMany({
+      where: { userId },
+    })
+  }
+}
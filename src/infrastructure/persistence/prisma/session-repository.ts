@@ -0,0 +1,82 @@
+import { RefreshToken, Session, SessionRepository } from '@/domain/session/session'
+import { db } from '@/shared/db/transaction'
+import { RefreshToken as RefreshTokenRecord, Session as SessionRecord } from '@/shared/db/generated/client/client'
+
+function toSession(record: SessionRecord): Session {
+  return new Session(record.id, record.userId, record.createdAt, record.revokedAt)
+}
+
+function toRefreshToken(record: RefreshTokenRecord): RefreshToken {
+  return new RefreshToken(
+    record.id,
+    record.sessionId,
+    record.tokenHash,
+    record.expiresAt,
+    record.createdAt,
+    record.rotatedAt,
+  )
+}
+
+export class PrismaSessionRepository implements SessionRepository {
+  async save(session: Session): Promise<Session> {
+    const saved = await db().session.create({
+      data: {
+        userId: session.userId,
+        revokedAt: session.revokedAt,
+      },
+    })
+    return toSession(saved)
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    const found = await db().session.findUnique({
+      where: { id },
+    })
+    if (!found) return null
+    return toSession(found)
+  }
+
+  async revoke(id: string): Promise<void> {
+    await db().session.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+  }
+
+  async revokeAllForUser(userId: string): Promise<number> {
+    const { count } = await db().session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+    return count
+  }
+
+  async saveRefreshToken(token: RefreshToken): Promise<RefreshToken> {
+    const saved = await db().refreshToken.create({
+      data: {
+        sessionId: token.sessionId,
+        tokenHash: token.tokenHash,
+        expiresAt: token.expiresAt,
+        rotatedAt: token.rotatedAt,
+      },
+    })
+    return toRefreshToken(saved)
+  }
+
+  async findRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const found = await db().refreshToken.findUnique({
+      where: { tokenHash },
+    })
+    if (!found) return null
+    return toRefreshToken(found)
+  }
+
+  async markRotated(tokenId: string): Promise<boolean> {
+    // Conditional update: of two concurrent refreshes with the same token only one can win
+    const { count } = await db().refreshToken.updateMany({
+      where: { id: tokenId, rotatedAt: null },
+      data: { rotatedAt: new Date() },
+    })
+    return count === 1
+  }
+}
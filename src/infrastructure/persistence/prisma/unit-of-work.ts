@@ -0,0 +1,50 @@
+import { transaction, transactionStorage } from '@/shared/db/transaction'
+import { Failure, isFailure, Result } from '@/shared/result'
+import { UnitOfWork } from '@/shared/unit-of-work'
+
+/**
+ * Thrown inside the transaction callback to make Prisma roll back a Failure
+ */
+class Rollback<E> {
+  constructor(public readonly result: Failure<E>) {}
+}
+
+export interface PrismaUnitOfWorkOptions {
+  /**
+   * Milliseconds to wait for the database to start the transaction (default: 5 seconds)
+   */
+  maxWait?: number
+  /**
+   * Milliseconds the whole unit of work may take (default: 15 seconds)
+   */
+  timeout?: number
+}
+
+/**
+ * Unit of work over an interactive `prisma.$transaction`
+ * Repositories querying through `db()` pick the transaction up from the async context; other queries wait for it
+ */
+export class PrismaUnitOfWork implements UnitOfWork {
+  constructor(private readonly options: PrismaUnitOfWorkOptions = { maxWait: 5_000, timeout: 15_000 }) {}
+
+  async run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>> {
+    if (transactionStorage.getStore()) {
+      return work()
+    }
+
+    try {
+      return await transaction(async () => {
+        const result = await work()
+        if (isFailure(result)) {
+          throw new Rollback(result)
+        }
+        return result
+      }, this.options)
+    } catch (error) {
+      if (error instanceof Rollback) {
+        return error.result
+      }
+      throw error
+    }
+  }
+}
@@ -1,22 +1,120 @@
-import { UserRepository, User } from '@/domain/user/user'
-import { prisma } from '@/shared/db/client'
+import { Role } from '@/domain/user/role'
+import { UserRepository, User, UserPage } from '@/domain/user/user'
+import { Notification } from '@/shared/cqs'
+import { db, transaction } from '@/shared/db/transaction'
+import { User as UserRecord } from '@/shared/db/generated/client/client'
+import { toOutboxEntry } from '@/shared/outbox'
+
+/**
+ * Loads the user's roles together with their permissions
+ */
+const withRoles = {
+  roles: { include: { role: { include: { permissions: true } } } },
+}
+
+interface UserRoleRecord {
+  role: { name: string; permissions: { permission: string }[] }
+}
+
+function toRole({ role }: UserRoleRecord): Role {
+  return new Role(
+    role.name,
+    role.permissions.map(({ permission }) => permission),
+  )
+}
+
+function toDomain(record: UserRecord & { roles: UserRoleRecord[] }): User {
+  return new User(
+    record.id,
+    record.email,
+    record.name,
+    record.createdAt,
+    record.updatedAt,
+    record.passwordHash,
+    record.emailVerifiedAt,
+    record.credentialVersion,
+    record.roles.map(toRole),
+  )
+}
 
 export class PrismaUserRepository implements UserRepository {
-  async save(user: User): Promise<User> {
-    const saved = await prisma.user.create({
+  async save(user: User, events: (saved: User) => Notification[] = () => []): Promise<User> {
+    return transaction(async (tx) => {
+      const saved = await tx.user.create({
+        data: {
+          email: user.email,
+          name: user.name,
+          passwordHash: user.passwordHash,
+          emailVerifiedAt: user.emailVerifiedAt,
+          credentialVersion: user.credentialVersion,
+          roles: { create: user.roles.map((role) => ({ role: { connect: { name: role.name } } })) },
+        },
+        include: withRoles,
+      })
+      const savedUser = toDomain(saved)
+
+      // Written in the same transaction, so the events exist if and only if the user does
+      const notifications = events(savedUser)
+      if (notifications.length > 0) {
+        await tx.outboxMessage.createMany({ data: notifications.map(toOutboxEntry) })
+      }
+
+      return savedUser
+    })
+  }
+
+  async findById(id: string): Promise<User | null> {
+    const found = await db().user.findUnique({
+      where: { id },
+      include: withRoles,
+    })
+    if (!found) return null
+    return toDomain(found)
+  }
+
+  async findByEmail(email: string): Promise<User | null> {
+    const found = await db().user.findUnique({
+      where: { email },
+      include: withRoles,
+    })
+    if (!found) return null
+    return toDomain(found)
+  }
+
+  async findAll(page: UserPage): Promise<{ users: User[]; total: number }> {
+    const [found, total] = await Promise.all([
+      db().user.findMany({
+        orderBy: { createdAt: 'asc' },
+        skip: page.skip,
+        take: page.take,
+        include: withRoles,
+      }),
+      db().user.count(),
+    ])
+    return {
+      users: found.map(toDomain),
+      total,
+    }
+  }
+
+  async update(user: User): Promise<User> {
+    const updated = await db().user.update({
+      where: { id: user.id },
       data: {
         email: user.email,
         name: user.name,
+        passwordHash: user.passwordHash,
+        emailVerifiedAt: user.emailVerifiedAt,
+        credentialVersion: user.credentialVersion,
       },
+      include: withRoles,
     })
-    return new User(saved.id, saved.email, saved.name, saved.createdAt, saved.updatedAt)
+    return toDomain(updated)
   }
 
-  async findByEmail(email: string): Promise<User | null> {
-    const found = await prisma.user.findUnique({
-      where: { email },
+  async delete(id: string): Promise<void> {
+    await db().user.delete({
+      where: { id },
     })
-    if (!found) return null
-    return new User(found.id, found.email, found.name, found.createdAt, found.updatedAt)
   }
 }
@@ -0,0 +1,5 @@
+export interface PasswordHasher {
+  hash(password: string): Promise<string>
+  verify(password: string, passwordHash: string): Promise<boolean>
+  needsRehash(passwordHash: string): boolean
+}
@@ -0,0 +1,14 @@
+export interface RateLimitDecision {
+  allowed: boolean
+  /**
+   * Seconds until the next attempt is allowed, 0 when allowed
+   */
+  retryAfterSeconds: number
+}
+
+export interface RateLimiter {
+  /**
+   * Records an attempt for the key and tells whether it is within the limit
+   */
+  consume(key: string): Promise<RateLimitDecision>
+}
@@ -0,0 +1,26 @@
+import { Principal } from '@/shared/auth'
+import { Result, UnauthorizedError } from '@/shared/result'
+
+/**
+ * Who an access token is issued to, including the user's credential version at issue time
+ * Roles and permissions are not embedded in the token; they are read from the user on every request
+ */
+export interface AccessTokenSubject extends Pick<Principal, 'userId' | 'email'> {
+  credentialVersion: number
+}
+
+export interface AccessToken {
+  token: string
+  /**
+   * Lifetime in seconds
+   */
+  expiresIn: number
+}
+
+export interface TokenService {
+  issue(subject: AccessTokenSubject): AccessToken
+  /**
+   * Checks signature and lifetime of a token; whether the credentials behind it are still current is up to the caller
+   */
+  verify(token: string): Result<AccessTokenSubject, UnauthorizedError>
+}
@@ -0,0 +1,16 @@
+import { Result } from '@/shared/result'
+
+export type SignedTokenPayload = Record<string, string | number | boolean | null>
+
+/**
+ * Why a signed token was rejected
+ */
+export type SignedTokenError = 'invalid' | 'expired'
+
+export interface TokenSigner {
+  /**
+   * Signs a payload for one purpose (e.g. email verification); tokens of one purpose never verify as another
+   */
+  sign(purpose: string, payload: SignedTokenPayload, ttlSeconds: number): string
+  verify(purpose: string, token: string): Result<SignedTokenPayload, SignedTokenError>
+}
@@ -0,0 +1,102 @@
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'node:crypto'
+
+import { PasswordHasher } from '@/infrastructure/security/interfaces/password-hasher'
+
+/**
+ * Cost parameters of a scrypt hash
+ */
+export interface ScryptParams {
+  /**
+   * log2 of the CPU/memory cost (N = 2^logN)
+   */
+  logN: number
+  blockSize: number
+  parallelization: number
+}
+
+/**
+ * Current parameters: raise them over time, existing hashes get upgraded on login via needsRehash
+ */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { logN: 15, blockSize: 8, parallelization: 1 }
+
+/**
+ * Version of the encoded hash format
+ */
+const FORMAT_VERSION = 1
+const SALT_BYTES = 16
+const KEY_BYTES = 64
+
+interface DecodedHash {
+  version: number
+  params: ScryptParams
+  salt: Buffer
+  key: Buffer
+}
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+  const options: ScryptOptions = {
+    N: 2 ** params.logN,
+    r: params.blockSize,
+    p: params.parallelization,
+    maxmem: 256 * 2 ** params.logN * params.blockSize,
+  }
+
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+}
+
+/**
+ * Encodes a hash as `$scrypt$v=1$ln=15,r=8,p=1$<salt>$<key>` (PHC string format, base64 without padding)
+ */
+function encode(params: ScryptParams, salt: Buffer, key: Buffer): string {
+  const paramString = `ln=${params.logN},r=${params.blockSize},p=${params.parallelization}`
+  return `$scrypt$v=${FORMAT_VERSION}$${paramString}$${salt.toString('base64url')}$${key.toString('base64url')}`
+}
+
+function decode(passwordHash: string): DecodedHash | null {
+  const match = /^\$scrypt\$v=(\d+)\$ln=(\d+),r=(\d+),p=(\d+)\$([\w-]+)\$([\w-]+)$/.exec(passwordHash)
+  if (!match) return null
+
+  const [, version, logN, blockSize, parallelization, salt, key] = match
+  return {
+    version: Number(version),
+    params: { logN: Number(logN), blockSize: Number(blockSize), parallelization: Number(parallelization) },
+    salt: Buffer.from(salt, 'base64url'),
+    key: Buffer.from(key, 'base64url'),
+  }
+}
+
+/**
+ * Password hasher built on Node's scrypt
+ * Parameters are stored with each hash so they can be raised without invalidating existing passwords
+ */
+export class ScryptPasswordHasher implements PasswordHasher {
+  constructor(private readonly params: ScryptParams = DEFAULT_SCRYPT_PARAMS) {}
+
+  async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES)
+    const key = await deriveKey(password, salt, this.params, KEY_BYTES)
+    return encode(this.params, salt, key)
+  }
+
+  async verify(password: string, passwordHash: string): Promise<boolean> {
+    const decoded = decode(passwordHash)
+    if (!decoded) return false
+
+    const key = await deriveKey(password, decoded.salt, decoded.params, decoded.key.length)
+    return timingSafeEqual(key, decoded.key)
+  }
+
+  needsRehash(passwordHash: string): boolean {
+    const decoded = decode(passwordHash)
+    if (!decoded) return true
+
+    return (
+      decoded.version !== FORMAT_VERSION ||
+      decoded.params.logN !== this.params.logN ||
+      decoded.params.blockSize !== this.params.blockSize ||
+      decoded.params.parallelization !== this.params.parallelization
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { RateLimitDecision, RateLimiter } from '@/infrastructure/security/interfaces/rate-limiter'
+
+export interface RateLimitOptions {
+  /**
+   * Attempts allowed per key within the window
+   */
+  limit: number
+  windowSeconds: number
+}
+
+/**
+ * Sliding window rate limiter keeping attempt timestamps in process memory
+ * Limits are per process: behind several instances each one counts on its own
+ * Keys without attempts in the window are swept at most once per window, so the map doesn't grow
+ * with every key ever seen
+ */
+export class InMemoryRateLimiter implements RateLimiter {
+  private attempts = new Map<string, number[]>()
+  private lastSweep = Date.now()
+
+  constructor(private readonly options: RateLimitOptions) {}
+
+  async consume(key: string): Promise<RateLimitDecision> {
+    const now = Date.now()
+    const windowMs = this.options.windowSeconds * 1000
+    this.sweep(now, windowMs)
+
+    const recent = (this.attempts.get(key) ?? []).filter((timestamp) => timestamp > now - windowMs)
+
+    if (recent.length >= this.options.limit) {
+      this.attempts.set(key, recent)
+      return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000) }
+    }
+
+    this.attempts.set(key, [...recent, now])
+    return { allowed: true, retryAfterSeconds: 0 }
+  }
+
+  /**
+   * Number of keys with attempts kept in memory
+   */
+  get size(): number {
+    return this.attempts.size
+  }
+
+  private sweep(now: number, windowMs: number): void {
+    if (now - this.lastSweep < windowMs) {
+      return
+    }
+
+    this.lastSweep = now
+    for (const [key, timestamps] of this.attempts) {
+      if (timestamps.every((timestamp) => timestamp <= now - windowMs)) {
+        this.attempts.delete(key)
+      }
+    }
+  }
+}
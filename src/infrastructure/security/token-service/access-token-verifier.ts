@@ -0,0 +1,35 @@
+import { UserRepository } from '@/domain/user/user'
+import { TokenService } from '@/infrastructure/security/interfaces/token-service'
+import { AccessTokenVerifier, Principal } from '@/shared/auth'
+import { Errors, failure, isFailure, Result, success, UnauthorizedError } from '@/shared/result'
+
+/**
+ * Access token verifier that also checks the token against the user's current credentials
+ * Roles and permissions are read from the user as well, so changes apply without issuing new tokens
+ * Resetting a password bumps the user's credential version, which turns every token issued before into a rejected one
+ */
+export class CredentialCheckingVerifier implements AccessTokenVerifier {
+  constructor(
+    private readonly tokenService: TokenService,
+    private readonly userRepository: UserRepository,
+  ) {}
+
+  async verify(token: string): Promise<Result<Principal, UnauthorizedError>> {
+    const subject = this.tokenService.verify(token)
+    if (isFailure(subject)) {
+      return subject
+    }
+
+    const user = await this.userRepository.findById(subject.value.userId)
+    if (!user || user.credentialVersion !== subject.value.credentialVersion) {
+      return failure(Errors.unauthorized('Access token has been revoked'))
+    }
+
+    return success({
+      userId: user.id,
+      email: user.email,
+      roles: user.roles.map((role) => role.name),
+      permissions: user.permissions,
+    })
+  }
+}
@@ -0,0 +1,67 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+
+import { AppConfig } from '@/config'
+import { SignedTokenError, SignedTokenPayload, TokenSigner } from '@/infrastructure/security/interfaces/token-signer'
+import { logger } from '@/shared/logging'
+import { failure, Result, success } from '@/shared/result'
+
+/**
+ * Stateless tokens of the form `<base64url payload>.<HMAC-SHA256 signature>`
+ * Used for links sent by email; the payload is signed, not encrypted, so it must not hold secrets
+ */
+export class HmacTokenSigner implements TokenSigner {
+  constructor(private readonly secret: string | Buffer) {}
+
+  sign(purpose: string, payload: SignedTokenPayload, ttlSeconds: number): string {
+    const exp = Math.floor(Date.now() / 1000) + ttlSeconds
+    const encoded = Buffer.from(JSON.stringify({ ...payload, purpose, exp })).toString('base64url')
+    return `${encoded}.${this.signature(encoded).toString('base64url')}`
+  }
+
+  verify(purpose: string, token: string): Result<SignedTokenPayload, SignedTokenError> {
+    const [encoded, signature, ...rest] = token.split('.')
+    if (!encoded || !signature || rest.length > 0) {
+      return failure('invalid')
+    }
+
+    const actual = Buffer.from(signature, 'base64url')
+    const expected = this.signature(encoded)
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return failure('invalid')
+    }
+
+    const { purpose: tokenPurpose, exp, ...payload } = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'))
+    if (tokenPurpose !== purpose || typeof exp !== 'number') {
+      return failure('invalid')
+    }
+
+    if (exp <= Math.floor(Date.now() / 1000)) {
+      return failure('expired')
+    }
+
+    return success(payload)
+  }
+
+  private signature(encodedPayload: string): Buffer {
+    return createHmac('sha256', this.secret).update(encodedPayload).digest()
+  }
+}
+
+/**
+ * Signing secret of the application configuration (TOKEN_SIGNING_SECRET)
+ * Outside production a random secret is generated when it is missing, so links don't survive restarts
+ */
+export function signingSecretFromConfig(config: AppConfig): string | Buffer {
+  if (config.TOKEN_SIGNING_SECRET) {
+    return config.TOKEN_SIGNING_SECRET
+  }
+
+  if (config.NODE_ENV === 'production') {
+    throw new Error('TOKEN_SIGNING_SECRET must be set in production')
+  }
+
+  logger.warn('TOKEN_SIGNING_SECRET is not set, signing email links with a random per-process secret', {
+    component: 'Auth',
+  })
+  return randomBytes(32)
+}
@@ -0,0 +1,37 @@
+import { randomBytes } from 'node:crypto'
+
+import { JwtOptions } from './jwt-token-service'
+
+import { AppConfig } from '@/config'
+import { logger } from '@/shared/logging'
+
+/**
+ * JWT settings of the application configuration
+ * - JWT_KEYS: JSON array of keys (`{ kid, alg: 'HS256', secret }` or `{ kid, alg: 'RS256', publicKey, privateKey? }`)
+ *   with JWT_ACTIVE_KID naming the signing key (defaults to the first one)
+ * - JWT_SECRET: shorthand for a single HS256 key
+ * - JWT_ACCESS_TOKEN_TTL, JWT_ISSUER, JWT_AUDIENCE: optional token settings
+ * Outside production a random secret is generated when nothing is configured, so tokens don't survive restarts
+ */
+export function jwtOptionsFromConfig(config: AppConfig): JwtOptions {
+  const settings = {
+    ttlSeconds: config.JWT_ACCESS_TOKEN_TTL,
+    issuer: config.JWT_ISSUER,
+    audience: config.JWT_AUDIENCE,
+  }
+
+  if (config.JWT_KEYS) {
+    return { ...settings, keys: config.JWT_KEYS, activeKid: config.JWT_ACTIVE_KID || config.JWT_KEYS[0].kid }
+  }
+
+  if (config.JWT_SECRET) {
+    return { ...settings, keys: [{ kid: 'default', alg: 'HS256', secret: config.JWT_SECRET }], activeKid: 'default' }
+  }
+
+  if (config.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET or JWT_KEYS must be set in production')
+  }
+
+  logger.warn('JWT_SECRET is not set, signing access tokens with a random per-process secret', { component: 'Auth' })
+  return { ...settings, keys: [{ kid: 'ephemeral', alg: 'HS256', secret: randomBytes(32) }], activeKid: 'ephemeral' }
+}
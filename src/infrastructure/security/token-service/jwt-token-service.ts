@@ -0,0 +1,191 @@
+import { createHmac, KeyObject, randomUUID, sign, timingSafeEqual, verify } from 'node:crypto'
+
+import { AccessToken, AccessTokenSubject, TokenService } from '@/infrastructure/security/interfaces/token-service'
+import { Errors, failure, Result, success, UnauthorizedError } from '@/shared/result'
+
+/**
+ * Signing key identified by `kid`
+ * HS256 keys share one secret; RS256 keys only need the private key on the side that issues tokens
+ */
+export type JwtKey =
+  | { kid: string; alg: 'HS256'; secret: string | Buffer }
+  | { kid: string; alg: 'RS256'; publicKey: string | KeyObject; privateKey?: string | KeyObject }
+
+export interface JwtOptions {
+  /**
+   * Every key tokens may be verified with; keep retired keys here until their tokens expire
+   */
+  keys: JwtKey[]
+  /**
+   * Key new tokens are signed with
+   */
+  activeKid: string
+  /**
+   * Access token lifetime in seconds (defaults to 15 minutes)
+   */
+  ttlSeconds?: number
+  issuer?: string
+  audience?: string
+  /**
+   * Accepted clock drift between issuer and verifier in seconds (defaults to 30)
+   */
+  clockToleranceSeconds?: number
+}
+
+interface JwtHeader {
+  alg: JwtKey['alg']
+  typ: 'JWT'
+  kid: string
+}
+
+interface AccessTokenClaims {
+  sub: string
+  email: string
+  /**
+   * Credential version of the user when the token was issued
+   */
+  cv: number
+  iat: number
+  exp: number
+  jti: string
+  iss?: string
+  aud?: string
+}
+
+const DEFAULT_TTL_SECONDS = 15 * 60
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 30
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null
+  } catch {
+    return null
+  }
+}
+
+function createSignature(key: JwtKey, signingInput: string): string {
+  if (key.alg === 'HS256') {
+    return createHmac('sha256', key.secret).update(signingInput).digest('base64url')
+  }
+
+  if (!key.privateKey) {
+    throw new Error(`JWT key ${key.kid} has no private key and cannot sign tokens`)
+  }
+
+  return sign('sha256', Buffer.from(signingInput), key.privateKey).toString('base64url')
+}
+
+function verifySignature(key: JwtKey, signingInput: string, signature: string): boolean {
+  const actual = Buffer.from(signature, 'base64url')
+
+  if (key.alg === 'HS256') {
+    const expected = createHmac('sha256', key.secret).update(signingInput).digest()
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+  }
+
+  return verify('sha256', Buffer.from(signingInput), key.publicKey, actual)
+}
+
+/**
+ * JSON Web Token access tokens (RFC 7519) signed with HS256 or RS256 using node:crypto
+ * Tokens carry the signing key id in their `kid` header, so keys can be rotated without invalidating live tokens
+ */
+export class JwtTokenService implements TokenService {
+  private readonly keys: Map<string, JwtKey>
+  private readonly activeKey: JwtKey
+
+  constructor(private readonly options: JwtOptions) {
+    this.keys = new Map(options.keys.map((key) => [key.kid, key]))
+
+    const activeKey = this.keys.get(options.activeKid)
+    if (!activeKey) {
+      throw new Error(`Active JWT key ${options.activeKid} is not among the configured keys`)
+    }
+    if (activeKey.alg === 'RS256' && !activeKey.privateKey) {
+      throw new Error(`Active JWT key ${options.activeKid} has no private key`)
+    }
+    this.activeKey = activeKey
+  }
+
+  issue(subject: AccessTokenSubject): AccessToken {
+    const ttlSeconds = this.options.ttlSeconds ?? DEFAULT_TTL_SECONDS
+    const issuedAt = Math.floor(Date.now() / 1000)
+
+    const header: JwtHeader = { alg: this.activeKey.alg, typ: 'JWT', kid: this.activeKey.kid }
+    const claims: AccessTokenClaims = {
+      sub: subject.userId,
+      email: subject.email,
+      cv: subject.credentialVersion,
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds,
+      jti: randomUUID(),
+      ...(this.options.issuer && { iss: this.options.issuer }),
+      ...(this.options.audience && { aud: this.options.audience }),
+    }
+
+    const signingInput = `${encodeSegment(header)}.${encodeSegment(claims)}`
+
+    return {
+      token: `${signingInput}.${createSignature(this.activeKey, signingInput)}`,
+      expiresIn: ttlSeconds,
+    }
+  }
+
+  verify(token: string): Result<AccessTokenSubject, UnauthorizedError> {
+    const invalid = failure(Errors.unauthorized('Invalid access token'))
+
+    const [encodedHeader, encodedClaims, signature, ...rest] = token.split('.')
+    if (!encodedHeader || !encodedClaims || !signature || rest.length > 0) {
+      return invalid
+    }
+
+    const header = decodeSegment(encodedHeader)
+    const claims = decodeSegment(encodedClaims)
+    if (!header || !claims || typeof header.kid !== 'string') {
+      return invalid
+    }
+
+    // The algorithm is pinned by the key, never taken from the token
+    const key = this.keys.get(header.kid)
+    if (!key || header.alg !== key.alg || !verifySignature(key, `${encodedHeader}.${encodedClaims}`, signature)) {
+      return invalid
+    }
+
+    if (
+      typeof claims.sub !== 'string' ||
+      typeof claims.email !== 'string' ||
+      typeof claims.cv !== 'number' ||
+      typeof claims.exp !== 'number'
+    ) {
+      return invalid
+    }
+
+    if (this.options.issuer && claims.iss !== this.options.issuer) {
+      return invalid
+    }
+
+    if (this.options.audience && claims.aud !== this.options.audience) {
+      return invalid
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const tolerance = this.options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS
+
+    if (claims.exp + tolerance <= now) {
+      return failure(Errors.unauthorized('Access token expired'))
+    }
+
+    if (typeof claims.nbf === 'number' && claims.nbf - tolerance > now) {
+      return invalid
+    }
+
+    return success({ userId: claims.sub, email: claims.email, credentialVersion: claims.cv })
+  }
+}
@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from 'node:crypto'
+
+const OPAQUE_TOKEN_BYTES = 32
+
+/**
+ * Generates an opaque token value for the client (refresh tokens, password reset tokens)
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(OPAQUE_TOKEN_BYTES).toString('base64url')
+}
+
+/**
+ * Hash under which an opaque token is stored, so a database leak doesn't hand out live tokens
+ * The token has 256 bits of entropy, a fast unsalted hash is enough
+ */
+export function hashOpaqueToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
@@ -1,11 +1,68 @@
-import dotenv from 'dotenv'
+import { setTimeout as sleep } from 'node:timers/promises'
 
 import { app } from './app'
+import { config, configSchema } from './config'
+import { Startup } from './startup'
 
-dotenv.config()
+import { redactConfig } from '@/shared/config'
+import { closeServer } from '@/shared/http'
+import { logger } from '@/shared/logging'
 
-const PORT = process.env.PORT || 3000
+const log = logger.child({ component: 'Startup' })
 
-app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`)
+/**
+ * Initialize the feature modules, then accept connections and start the background work
+ */
+const main = async () => {
+  log.info('Configuration loaded', { config: redactConfig(configSchema, config) })
+  await Startup.start()
+
+  const server = app.listen(config.PORT, () => {
+    log.info(`Server is running on port ${config.PORT}`)
+    Startup.ready().catch((error) => log.error('A module failed to get ready', { error }))
+  })
+
+  Startup.startOutboxDispatcher()
+  Startup.startJobWorker()
+
+  /**
+   * Report the server as unavailable and keep serving until load balancers notice, stop accepting connections
+   * and let the requests in flight finish, then stop the background work and the modules and disconnect from
+   * the database
+   * A second signal ends the process right away
+   */
+  let stopping = false
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (stopping) {
+      log.warn(`${signal} received again, exiting without waiting`)
+      process.exit(1)
+    }
+    stopping = true
+    log.info(`${signal} received, shutting down`)
+    Startup.getHealthRegistry().markShuttingDown()
+    await sleep(config.SHUTDOWN_DRAIN_DELAY * 1000)
+
+    const drained = await closeServer(server, config.SHUTDOWN_TIMEOUT * 1000)
+    if (!drained) {
+      log.warn(`Requests still running after ${config.SHUTDOWN_TIMEOUT}s were cut`)
+    }
+
+    await Startup.shutdown()
+    process.exit(0)
+  }
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    shutdown(signal).catch((error) => {
+      log.error('Failed to shut down', { error })
+      process.exit(1)
+    })
+  }
+
+  process.on('SIGTERM', onSignal)
+  process.on('SIGINT', onSignal)
+}
+
+main().catch((error) => {
+  log.error('Failed to start', { error })
+  process.exit(1)
 })
@@ -0,0 +1,59 @@
+import { RequestHandler } from 'express'
+
+import { Principal } from './principal'
+
+import { sendError } from '@/shared/http'
+import { Errors, isFailure, Result, UnauthorizedError } from '@/shared/result'
+
+/**
+ * Verifies access tokens presented by clients
+ */
+export interface AccessTokenVerifier {
+  verify(token: string): Promise<Result<Principal, UnauthorizedError>>
+}
+
+/**
+ * Options for the authentication middleware
+ */
+export interface AuthenticateOptions {
+  /**
+   * Let anonymous requests through without a principal (a token, when present, must still be valid)
+   */
+  optional?: boolean
+}
+
+const BEARER_PATTERN = /^Bearer ([\w-]+\.[\w-]+\.[\w-]+)$/i
+
+/**
+ * Express middleware authenticating requests with a `Authorization: Bearer <token>` header
+ * On success the principal is set on `req.principal`; missing or invalid tokens are answered with an UnauthorizedError
+ * @param verifier - Access token verifier
+ * @param options - Authentication options
+ */
+export function authenticate(verifier: AccessTokenVerifier, options: AuthenticateOptions = {}): RequestHandler {
+  return async (req, res, next) => {
+    const header = req.get('Authorization')
+
+    if (!header) {
+      if (options.optional) {
+        next()
+        return
+      }
+      res.set('WWW-Authenticate', 'Bearer')
+      sendError(req, res, Errors.unauthorized('Missing access token'))
+      return
+    }
+
+    const match = BEARER_PATTERN.exec(header)
+    const principal = match ? await verifier.verify(match[1]) : null
+
+    if (!principal || isFailure(principal)) {
+      res.set('WWW-Authenticate', 'Bearer error="invalid_token"')
+      sendError(req, res, principal ? principal.error : Errors.unauthorized('Malformed Authorization header'))
+      return
+    }
+
+    req.principal = principal.value
+    next()
+  }
+}
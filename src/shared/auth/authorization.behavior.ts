@@ -0,0 +1,32 @@
+import { requestPolicy } from './request-policy'
+
+import { RequestContext } from '@/shared/cqs'
+import { NextHandler, PipelineBehavior, Request } from '@/shared/mediator'
+import { DomainError, Errors, failure, Result } from '@/shared/result'
+
+/**
+ * Pipeline behavior enforcing the policy attached to the class of a request
+ * Short-circuits with an UnauthorizedError when there is no principal and a ForbiddenError when the policy denies;
+ * requests without a policy pass through
+ */
+export class AuthorizationBehavior implements PipelineBehavior<Request, unknown, DomainError> {
+  async handle(
+    request: Request,
+    next: NextHandler<unknown, DomainError>,
+    context: RequestContext,
+  ): Promise<Result<unknown, DomainError>> {
+    const policy = requestPolicy(request)
+
+    if (policy) {
+      if (!context.principal) {
+        return failure(Errors.unauthorized())
+      }
+
+      if (!policy(context.principal, request)) {
+        return failure(Errors.forbidden())
+      }
+    }
+
+    return next()
+  }
+}
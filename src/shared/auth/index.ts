@@ -0,0 +1,5 @@
+export { Principal } from './principal'
+export { AccessTokenVerifier, AuthenticateOptions, authenticate } from './authenticate'
+export { Policy, allOf, anyOf, authenticated, hasPermission, hasRole, isOwner } from './policy'
+export { PolicyCarrier, requestPolicy } from './request-policy'
+export { AuthorizationBehavior } from './authorization.behavior'
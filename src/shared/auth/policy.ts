@@ -0,0 +1,50 @@
+import { Principal } from './principal'
+
+/**
+ * Authorization rule deciding whether a principal may send a request
+ * @template TRequest - The request the rule inspects, for resource-based checks
+ */
+export type Policy<TRequest = unknown> = (principal: Principal, request: TRequest) => boolean
+
+/**
+ * Allows any authenticated caller
+ */
+export function authenticated(): Policy {
+  return () => true
+}
+
+/**
+ * Allows callers holding the given permission
+ */
+export function hasPermission(permission: string): Policy {
+  return (principal) => principal.permissions.includes(permission)
+}
+
+/**
+ * Allows callers holding the given role
+ */
+export function hasRole(role: string): Policy {
+  return (principal) => principal.roles.includes(role)
+}
+
+/**
+ * Allows callers that own the resource targeted by the request
+ * @param ownerId - Extracts the ID of the owning user from the request
+ */
+export function isOwner<TRequest>(ownerId: (request: TRequest) => string): Policy<TRequest> {
+  return (principal, request) => principal.userId === ownerId(request)
+}
+
+/**
+ * Allows the request when at least one of the policies does
+ */
+export function anyOf<TRequest>(...policies: Policy<TRequest>[]): Policy<TRequest> {
+  return (principal, request) => policies.some((policy) => policy(principal, request))
+}
+
+/**
+ * Allows the request only when every policy does
+ */
+export function allOf<TRequest>(...policies: Policy<TRequest>[]): Policy<TRequest> {
+  return (principal, request) => policies.every((policy) => policy(principal, request))
+}
@@ -0,0 +1,28 @@
+/**
+ * Authenticated caller of a request
+ * Built from a verified access token and handed to handlers through the mediator
+ */
+export interface Principal {
+  userId: string
+  email: string
+  /**
+   * Names of the roles held by the caller
+   */
+  roles: string[]
+  /**
+   * Every permission granted through those roles
+   */
+  permissions: string[]
+}
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      /**
+       * Caller authenticated by the `authenticate` middleware
+       */
+      principal?: Principal
+    }
+  }
+}
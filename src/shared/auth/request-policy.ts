@@ -0,0 +1,20 @@
+import { Policy } from './policy'
+
+import { Request } from '@/shared/mediator'
+
+/**
+ * Command/Query class carrying the policy a caller must satisfy to send it
+ * Attach it as a static member: `static readonly policy = hasPermission(UserPermissions.Delete)`
+ */
+export interface PolicyCarrier {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  readonly policy?: Policy<any>
+}
+
+/**
+ * Returns the policy attached to the class of a request, if any
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function requestPolicy(request: Request): Policy<any> | undefined {
+  return (request.constructor as PolicyCarrier).policy
+}
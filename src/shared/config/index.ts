@@ -0,0 +1,11 @@
+export {
+  commaSeparated,
+  ConfigError,
+  ConfigSources,
+  json,
+  loadConfig,
+  readConfigSources,
+  REDACTED,
+  redactConfig,
+  secret,
+} from './load-config'
@@ -0,0 +1,172 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import dotenv from 'dotenv'
+import { z } from 'zod'
+
+/**
+ * Shown instead of the value of a secret setting
+ */
+export const REDACTED = '[redacted]'
+
+/**
+ * Settings whose value must never be logged
+ */
+const secrets = z.registry<{ secret: true }>()
+
+/**
+ * Where to read the configuration from
+ */
+export interface ConfigSources {
+  /**
+   * Directory holding the `.env` files (default: the working directory)
+   */
+  dir?: string
+  /**
+   * Environment variables, overriding every file (default: process.env)
+   */
+  env?: NodeJS.ProcessEnv
+}
+
+/**
+ * Thrown when the configuration doesn't match its schema
+ * The message lists every invalid setting with the source it was read from, never its value
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`)
+    this.name = 'ConfigError'
+  }
+}
+
+/**
+ * Marks a setting as secret, so `redactConfig` hides its value
+ * Wrap the outermost schema of the setting: `secret(z.string().optional())`
+ */
+export function secret<T extends z.ZodType>(schema: T): T {
+  secrets.add(schema, { secret: true })
+  return schema
+}
+
+/**
+ * JSON setting, parsed then validated by the schema, e.g. `JWT_KEYS=[{"kid":"2026-01","alg":"HS256",...}]`
+ * Malformed JSON is reported without the value, like every other invalid setting
+ */
+export function json<T extends z.ZodType>(schema: T) {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value) as unknown
+      } catch {
+        ctx.addIssue({ code: 'custom', message: 'Invalid JSON' })
+        return z.NEVER
+      }
+    })
+    .pipe(schema)
+}
+
+/**
+ * Comma-separated list setting, e.g. `FEATURES_DISABLED=LoginModule, LogoutModule`
+ * Blank entries are dropped, and a missing setting is an empty list
+ */
+export function commaSeparated() {
+  return z
+    .string()
+    .default('')
+    .transform((value) =>
+      value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0),
+    )
+}
+
+/**
+ * Variables of every source, each one overriding the previous: `.env`, `.env.<NODE_ENV>`, then the environment
+ * NODE_ENV itself comes from the environment, or from `.env` when the environment doesn't set it
+ * Empty values count as unset, so blank lines copied from `.env_example` fall back to the defaults
+ * @returns Every variable with its value and the source it was read from
+ */
+export function readConfigSources({ dir = process.cwd(), env = process.env }: ConfigSources = {}): Map<
+  string,
+  { value: string; source: string }
+> {
+  const readFile = (name: string): Record<string, string> => {
+    const file = path.join(dir, name)
+    return fs.existsSync(file) ? dotenv.parse(fs.readFileSync(file)) : {}
+  }
+
+  const base = readFile('.env')
+  const nodeEnv = env.NODE_ENV || base.NODE_ENV || 'development'
+  const layers: [string, Record<string, string | undefined>][] = [
+    ['.env', base],
+    [`.env.${nodeEnv}`, readFile(`.env.${nodeEnv}`)],
+    ['environment', env],
+  ]
+
+  const variables = new Map<string, { value: string; source: string }>()
+  for (const [source, values] of layers) {
+    for (const [name, value] of Object.entries(values)) {
+      if (value) {
+        variables.set(name, { value, source })
+      }
+    }
+  }
+
+  return variables
+}
+
+/**
+ * Read the layered sources and validate them against a schema keyed by variable name
+ * Settings missing from every source take the defaults of the schema
+ * @param schema - One property per variable, coercing the string values to their types
+ * @param sources - Directory of the `.env` files and environment variables
+ * @throws ConfigError listing every invalid setting
+ */
+export function loadConfig<T extends z.ZodObject>(schema: T, sources: ConfigSources = {}): z.output<T> {
+  const variables = readConfigSources(sources)
+  const input = Object.fromEntries(Object.keys(schema.shape).map((name) => [name, variables.get(name)?.value]))
+  const parsed = schema.safeParse(input)
+
+  if (!parsed.success) {
+    throw new ConfigError(
+      parsed.error.issues.map((issue) => {
+        const name = issue.path.join('.')
+        const source = variables.get(String(issue.path[0]))?.source
+        return `${name || 'configuration'}: ${issue.message}${source ? ` (from ${source})` : ''}`
+      }),
+    )
+  }
+
+  return parsed.data
+}
+
+/**
+ * Copy of a configuration safe to log, with the values of secret settings replaced
+ * Unset secrets stay undefined, so the log still tells whether they are configured
+ */
+export function redactConfig<T extends z.ZodObject>(schema: T, config: z.output<T>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(config as Record<string, unknown>).map(([name, value]) => [
+      name,
+      value !== undefined && isSecret(schema.shape[name]) ? REDACTED : value,
+    ]),
+  )
+}
+
+/**
+ * Whether a setting, or a schema it wraps (optional, default...), is marked as secret
+ */
+function isSecret(schema: z.ZodType | undefined): boolean {
+  let current: z.ZodType | undefined = schema
+
+  while (current) {
+    if (secrets.has(current)) {
+      return true
+    }
+    current = (current._zod.def as { innerType?: z.ZodType }).innerType
+  }
+
+  return false
+}
@@ -0,0 +1,128 @@
+import { Token } from './token'
+
+/**
+ * How long a resolved instance lives
+ * - singleton: one instance per container
+ * - scoped: one instance per scope, i.e. per mediator request (see ScopeBehavior)
+ * - transient: a new instance on every resolve
+ */
+export type Lifetime = 'singleton' | 'scoped' | 'transient'
+
+/**
+ * Builds an instance, resolving its own dependencies from the given resolver
+ */
+export type Factory<T> = (resolver: Resolver) => T
+
+export interface Resolver {
+  resolve<T>(token: Token<T>): T
+}
+
+interface Binding<T = unknown> {
+  factory: Factory<T>
+  lifetime: Lifetime
+}
+
+/**
+ * Minimal dependency injection container with typed tokens
+ * Binding a token again replaces the previous binding, which is how environment profiles override defaults
+ */
+export class Container implements Resolver {
+  private readonly bindings: Map<Token<unknown>, Binding>
+  private readonly instances = new Map<Token<unknown>, unknown>()
+  private readonly resolving: Token<unknown>[] = []
+
+  /**
+   * @param parent - Container this scope was created from; scopes share its bindings and singletons
+   */
+  private constructor(private readonly parent?: Container) {
+    this.bindings = parent ? parent.bindings : new Map()
+  }
+
+  static create(): Container {
+    return new Container()
+  }
+
+  singleton<T>(token: Token<T>, factory: Factory<T>): this {
+    return this.bind(token, factory, 'singleton')
+  }
+
+  scoped<T>(token: Token<T>, factory: Factory<T>): this {
+    return this.bind(token, factory, 'scoped')
+  }
+
+  transient<T>(token: Token<T>, factory: Factory<T>): this {
+    return this.bind(token, factory, 'transient')
+  }
+
+  /**
+   * Bind an already built instance as a singleton
+   */
+  value<T>(token: Token<T>, instance: T): this {
+    return this.bind(token, () => instance, 'singleton')
+  }
+
+  has(token: Token<unknown>): boolean {
+    return this.bindings.has(token)
+  }
+
+  /**
+   * @throws Error when the token is not bound, a scoped token is resolved outside a scope,
+   * or the dependencies are circular
+   */
+  resolve<T>(token: Token<T>): T {
+    const binding = this.bindings.get(token) as Binding<T> | undefined
+    if (!binding) {
+      throw new Error(`No binding for ${token.name}`)
+    }
+
+    switch (binding.lifetime) {
+      case 'transient':
+        return this.build(token, binding)
+      case 'singleton':
+        return this.parent ? this.parent.resolve(token) : this.cached(token, binding)
+      case 'scoped':
+        if (!this.parent) {
+          throw new Error(`${token.name} is scoped and can only be resolved inside a scope`)
+        }
+        return this.cached(token, binding)
+    }
+  }
+
+  /**
+   * Child container caching its own scoped instances
+   */
+  createScope(): Container {
+    return new Container(this.parent ?? this)
+  }
+
+  private bind<T>(token: Token<T>, factory: Factory<T>, lifetime: Lifetime): this {
+    if (this.parent) {
+      throw new Error(`Cannot bind ${token.name} on a scope, bind it on the root container`)
+    }
+
+    this.bindings.set(token, { factory, lifetime } as Binding)
+    this.instances.delete(token)
+    return this
+  }
+
+  private cached<T>(token: Token<T>, binding: Binding<T>): T {
+    if (!this.instances.has(token)) {
+      this.instances.set(token, this.build(token, binding))
+    }
+    return this.instances.get(token) as T
+  }
+
+  private build<T>(token: Token<T>, binding: Binding<T>): T {
+    if (this.resolving.includes(token)) {
+      const cycle = [...this.resolving.slice(this.resolving.indexOf(token)), token].join(' -> ')
+      throw new Error(`Circular dependency: ${cycle}`)
+    }
+
+    this.resolving.push(token)
+    try {
+      return binding.factory(this)
+    } finally {
+      this.resolving.pop()
+    }
+  }
+}
@@ -0,0 +1,3 @@
+export { Token } from './token'
+export { Container, Factory, Lifetime, Resolver } from './container'
+export { currentScope, ScopeBehavior, scopedHandler } from './scope'
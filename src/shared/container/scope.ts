@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+import { Container, Resolver } from './container'
+
+import { RequestContext } from '@/shared/cqs'
+import { Handler, NextHandler, PipelineBehavior, Request } from '@/shared/mediator'
+import { DomainError, Result } from '@/shared/result'
+
+const scopeStorage = new AsyncLocalStorage<Container>()
+
+/**
+ * Container scope of the request being handled, if any
+ */
+export function currentScope(): Container | undefined {
+  return scopeStorage.getStore()
+}
+
+/**
+ * Opens a container scope around each request, so scoped bindings live as long as the request
+ * Requests sent from inside a handler join the scope of the outer request
+ */
+export class ScopeBehavior implements PipelineBehavior<Request, unknown, DomainError> {
+  constructor(private readonly container: Container) {}
+
+  async handle(_request: Request, next: NextHandler<unknown, DomainError>): Promise<Result<unknown, DomainError>> {
+    if (currentScope()) {
+      return next()
+    }
+
+    return scopeStorage.run(this.container.createScope(), next)
+  }
+}
+
+/**
+ * Handler built anew for every request from the request's scope
+ * Use it when a handler depends on scoped bindings; other handlers are built once at registration
+ * @param factory - Builds the handler, resolving its dependencies from the scope
+ */
+export function scopedHandler<TRequest extends Request>(
+  factory: (scope: Resolver) => Handler<TRequest>,
+): Handler<TRequest> {
+  return {
+    execute: (request: TRequest, context: RequestContext) => {
+      const scope = currentScope()
+      if (!scope) {
+        throw new Error('scopedHandler requires the ScopeBehavior in the pipeline')
+      }
+      // Handler<TRequest> is a conditional type, so TS cannot match `request` to either branch
+      const handler = factory(scope) as { execute(request: TRequest, context: RequestContext): unknown }
+      return handler.execute(request, context)
+    },
+  } as Handler<TRequest>
+}
@@ -0,0 +1,17 @@
+/**
+ * Typed key of a container binding
+ * Interfaces don't exist at runtime, so each one gets a token carrying its type:
+ * `new Token<UserRepository>('UserRepository')` resolves to a `UserRepository`
+ */
+export class Token<T> {
+  /**
+   * Never set, only keeps T from being erased so tokens of different types aren't interchangeable
+   */
+  declare readonly type?: T
+
+  constructor(public readonly name: string) {}
+
+  toString(): string {
+    return this.name
+  }
+}
@@ -1,20 +1,32 @@
+import { RequestContext } from './request-context'
+import { ErrorOf, ResponseTypes, responseTypes, ResultOf } from './response'
+
 import { DomainError, Result } from '@/shared/result'
 
 /**
- * Base interface for Commands (write operations that mutate state)
+ * Base class for Commands (write operations that mutate state)
  * Commands should be named in imperative form: CreateUser, DeleteOrder, etc.
+ * The class itself is the token handlers are registered under
+ * @template TResult - The success result type of the command
+ * @template TError - The error type of the command (defaults to DomainError)
  */
-export interface Command {
-  readonly _tag: 'Command'
+export abstract class Command<TResult = void, TError = DomainError> {
+  readonly _tag = 'Command' as const
+  declare readonly [responseTypes]?: ResponseTypes<TResult, TError>
 }
 
 /**
  * Handler for processing a specific Command type
- * Returns a Result type for functional error handling
+ * Returns a Result type for functional error handling; the context carries the authenticated principal, if any
  * @template TCommand - The command type this handler processes
- * @template TResult - The success result type
- * @template TError - The error type (defaults to DomainError)
+ * @template TResult - The success result type (defaults to the one declared by the command)
+ * @template TError - The error type (defaults to the one declared by the command)
  */
-export interface CommandHandler<TCommand extends Command, TResult = void, TError = DomainError> {
-  execute(command: TCommand): Promise<Result<TResult, TError>>
+export interface CommandHandler<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  TCommand extends Command<any, any>,
+  TResult = ResultOf<TCommand>,
+  TError = ErrorOf<TCommand>,
+> {
+  execute(command: TCommand, context: RequestContext): Promise<Result<TResult, TError>>
 }
@@ -1,2 +1,5 @@
 export { Command, CommandHandler } from './command'
 export { Query, QueryHandler } from './query'
+export { Notification, NotificationHandler } from './notification'
+export { ResultOf, ErrorOf } from './response'
+export { RequestContext } from './request-context'
@@ -0,0 +1,19 @@
+import { DomainError, Result } from '@/shared/result'
+
+/**
+ * Base interface for Notifications (events broadcast to zero or more handlers)
+ * Notifications should be named in past tense: UserCreated, OrderShipped, etc.
+ */
+export interface Notification {
+  readonly _tag: 'Notification'
+}
+
+/**
+ * Handler reacting to a specific Notification type
+ * Returns a Result type for functional error handling
+ * @template TNotification - The notification type this handler reacts to
+ * @template TError - The error type (defaults to DomainError)
+ */
+export interface NotificationHandler<TNotification extends Notification, TError = DomainError> {
+  execute(notification: TNotification): Promise<Result<void, TError>>
+}
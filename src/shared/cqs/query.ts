@@ -1,20 +1,28 @@
+import { RequestContext } from './request-context'
+import { ErrorOf, ResponseTypes, responseTypes, ResultOf } from './response'
+
 import { DomainError, Result } from '@/shared/result'
 
 /**
- * Base interface for Queries (read operations that don't mutate state)
+ * Base class for Queries (read operations that don't mutate state)
  * Queries should be named as questions: GetUserById, ListOrders, etc.
+ * The class itself is the token handlers are registered under
+ * @template TResult - The success result type of the query
+ * @template TError - The error type of the query (defaults to DomainError)
  */
-export interface Query {
-  readonly _tag: 'Query'
+export abstract class Query<TResult = unknown, TError = DomainError> {
+  readonly _tag = 'Query' as const
+  declare readonly [responseTypes]?: ResponseTypes<TResult, TError>
 }
 
 /**
  * Handler for processing a specific Query type
- * Returns a Result type for functional error handling
+ * Returns a Result type for functional error handling; the context carries the authenticated principal, if any
  * @template TQuery - The query type this handler processes
- * @template TResult - The success result type
- * @template TError - The error type (defaults to DomainError)
+ * @template TResult - The success result type (defaults to the one declared by the query)
+ * @template TError - The error type (defaults to the one declared by the query)
  */
-export interface QueryHandler<TQuery extends Query, TResult, TError = DomainError> {
-  execute(query: TQuery): Promise<Result<TResult, TError>>
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface QueryHandler<TQuery extends Query<any, any>, TResult = ResultOf<TQuery>, TError = ErrorOf<TQuery>> {
+  execute(query: TQuery, context: RequestContext): Promise<Result<TResult, TError>>
 }
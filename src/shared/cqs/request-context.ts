@@ -0,0 +1,12 @@
+import { Principal } from '@/shared/auth/principal'
+
+/**
+ * Ambient data travelling with a request through the mediator
+ * Passed to every pipeline behavior and to the handler alongside the request itself
+ */
+export interface RequestContext {
+  /**
+   * Authenticated caller, absent for anonymous requests
+   */
+  principal?: Principal
+}
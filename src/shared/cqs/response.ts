@@ -0,0 +1,27 @@
+/**
+ * Phantom key carrying the response types of a Command or Query
+ * Only exists at the type level: nothing is ever stored under it at runtime
+ */
+export declare const responseTypes: unique symbol
+
+/**
+ * Shape of the phantom response carried by a request
+ */
+export interface ResponseTypes<TResult, TError> {
+  result: TResult
+  error: TError
+}
+
+/**
+ * Extracts the success result type declared by a request
+ */
+export type ResultOf<TRequest> = TRequest extends { readonly [responseTypes]?: ResponseTypes<infer TResult, unknown> }
+  ? TResult
+  : never
+
+/**
+ * Extracts the error type declared by a request
+ */
+export type ErrorOf<TRequest> = TRequest extends { readonly [responseTypes]?: ResponseTypes<unknown, infer TError> }
+  ? TError
+  : never
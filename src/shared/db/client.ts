@@ -2,8 +2,10 @@ import { PrismaBetterSqlite3 } from '@prisma/adapter-better-sqlite3'
 
 import { PrismaClient } from './generated/client/client'
 
+import { config } from '@/config'
+
 const adapter = new PrismaBetterSqlite3({
-  url: process.env.DATABASE_URL || 'file:./prisma/dev.db',
+  url: config.DATABASE_URL,
 })
 
 const prismaClientSingleton = () => {
@@ -20,6 +22,6 @@ const prisma = globalForPrisma.prisma ?? prismaClientSingleton()
 
 export { prisma }
 
-if (process.env.NODE_ENV !== 'production') {
+if (config.NODE_ENV !== 'production') {
   globalForPrisma.prisma = prisma
 }
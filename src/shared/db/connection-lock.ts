@@ -0,0 +1,55 @@
+/**
+ * Keeps the queries sharing the single SQLite connection out of each other's transactions
+ * A transaction is BEGIN on that connection, so any query running meanwhile would become part of it,
+ * see its uncommitted writes and be rolled back with it
+ * Queries run side by side; a transaction waits for the running ones, then has the connection to itself
+ */
+export class ConnectionLock {
+  private running = 0
+  private drained: (() => void)[] = []
+  private transactions: Promise<void> = Promise.resolve()
+  private activeTransaction: Promise<void> | null = null
+
+  /**
+   * Run a query outside of any transaction, once the current transaction is over
+   */
+  async query<T>(run: () => Promise<T>): Promise<T> {
+    while (this.activeTransaction) {
+      await this.activeTransaction
+    }
+
+    this.running++
+    try {
+      return await run()
+    } finally {
+      this.running--
+      if (this.running === 0) {
+        this.drained.splice(0).forEach((resolve) => resolve())
+      }
+    }
+  }
+
+  /**
+   * Run a transaction alone on the connection: after the previous transactions and the running queries,
+   * holding back the queries started meanwhile
+   * Everything `run` queries must go through the transaction itself, or it waits for itself
+   */
+  async transaction<T>(run: () => Promise<T>): Promise<T> {
+    let release!: () => void
+    const done = new Promise<void>((resolve) => (release = resolve))
+    const previous = this.transactions
+    this.transactions = previous.then(() => done)
+
+    await previous
+    this.activeTransaction = done
+    try {
+      if (this.running > 0) {
+        await new Promise<void>((resolve) => this.drained.push(resolve))
+      }
+      return await run()
+    } finally {
+      this.activeTransaction = null
+      release()
+    }
+  }
+}
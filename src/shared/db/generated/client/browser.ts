@@ -21,3 +21,43 @@ export * from './enums'
  *
  */
 export type User = Prisma.UserModel
+/**
+ * Model Session
+ * A signed-in device: one refresh token family
+ */
+export type Session = Prisma.SessionModel
+/**
+ * Model RefreshToken
+ * Refresh tokens are stored as SHA-256 hashes and rotated on every use
+ */
+export type RefreshToken = Prisma.RefreshTokenModel
+/**
+ * Model PasswordResetToken
+ * Password reset tokens are stored as SHA-256 hashes and can be used once
+ */
+export type PasswordResetToken = Prisma.PasswordResetTokenModel
+/**
+ * Model Role
+ * Named set of permissions, assigned to users through UserRole
+ */
+export type Role = Prisma.RoleModel
+/**
+ * Model RolePermission
+ *
+ */
+export type RolePermission = Prisma.RolePermissionModel
+/**
+ * Model UserRole
+ *
+ */
+export type UserRole = Prisma.UserRoleModel
+/**
+ * Model OutboxMessage
+ * Notifications written in the same transaction as the aggregate that raised them, published by the outbox dispatcher
+ */
+export type OutboxMessage = Prisma.OutboxMessageModel
+/**
+ * Model Job
+ * Background job waiting for, or done with, the job worker
+ */
+export type Job = Prisma.JobModel
@@ -15,21 +15,32 @@ import type * as Prisma from './prismaNamespace'
 
 const config: runtime.GetPrismaClientConfig = {
   previewFeatures: [],
-  clientVersion: '7.1.0',
-  engineVersion: 'ab635e6b9d606fa5c8fb8b1a7f909c3c3c1c98ba',
+  clientVersion: '7.10.0',
+  engineVersion: '0edf323efd1d98336f3f0a68684b56f689b900d3',
   activeProvider: 'sqlite',
   inlineSchema:
-    '// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = "prisma-client"\n  output   = "../src/shared/db/generated/client"\n}\n\ndatasource db {\n  provider = "sqlite"\n}\n\nmodel User {\n  id        String   @id @default(uuid())\n  email     String   @unique\n  name      String?\n  createdAt DateTime @default(now())\n  updatedAt DateTime @updatedAt\n}\n',
+    '// This is your Prisma schema file,\n// learn more about it in the docs: https://pris.ly/d/prisma-schema\n\n// Looking for ways to speed up your queries, or scale easily with your serverless or edge functions?\n// Try Prisma Accelerate: https://pris.ly/cli/accelerate-init\n\ngenerator client {\n  provider = "prisma-client"\n  output   = "../src/shared/db/generated/client"\n}\n\ndatasource db {\n  provider = "sqlite"\n}\n\nmodel User {\n  id                  String               @id @default(uuid())\n  email               String               @unique\n  name                String?\n  passwordHash        String?\n  emailVerifiedAt     DateTime?\n  credentialVersion   Int                  @default(0)\n  createdAt           DateTime             @default(now())\n  updatedAt           DateTime             @updatedAt\n  sessions            Session[]\n  passwordResetTokens PasswordResetToken[]\n  roles               UserRole[]\n}\n\n/// A signed-in device: one refresh token family\nmodel Session {\n  id            String         @id @default(uuid())\n  userId        String\n  user          User           @relation(fields: [userId], references: [id], onDelete: Cascade)\n  createdAt     DateTime       @default(now())\n  revokedAt     DateTime?\n  refreshTokens RefreshToken[]\n\n  @@index([userId])\n}\n\n/// Refresh tokens are stored as SHA-256 hashes and rotated on every use\nmodel RefreshToken {\n  id        String    @id @default(uuid())\n  sessionId String\n  session   Session   @relation(fields: [sessionId], references: [id], onDelete: Cascade)\n  tokenHash String    @unique\n  expiresAt DateTime\n  rotatedAt DateTime?\n  createdAt DateTime  @default(now())\n\n  @@index([sessionId])\n}\n\n/// Password reset tokens are stored as SHA-256 hashes and can be used once\nmodel PasswordResetToken {\n  id        String    @id @default(uuid())\n  userId    String\n  user      User      @relation(fields: [userId], references: [id], onDelete: Cascade)\n  tokenHash String    @unique\n  expiresAt DateTime\n  usedAt    DateTime?\n  createdAt DateTime  @default(now())\n\n  @@index([userId])\n}\n\n/// Named set of permissions, assigned to users through UserRole\nmodel Role {\n  id          String           @id @default(uuid())\n  name        String           @unique\n  permissions RolePermission[]\n  users       UserRole[]\n}\n\nmodel RolePermission {\n  roleId     String\n  role       Role   @relation(fields: [roleId], references: [id], onDelete: Cascade)\n  permission String\n\n  @@id([roleId, permission])\n}\n\nmodel UserRole {\n  userId String\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n  roleId String\n  role   Role   @relation(fields: [roleId], references: [id], onDelete: Cascade)\n\n  @@id([userId, roleId])\n  @@index([roleId])\n}\n\n/// Notifications written in the same transaction as the aggregate that raised them, published by the outbox dispatcher\nmodel OutboxMessage {\n  id           String    @id @default(uuid())\n  type         String\n  payload      String\n  status       String    @default("pending")\n  attempts     Int       @default(0)\n  availableAt  DateTime  @default(now())\n  lastError    String?\n  createdAt    DateTime  @default(now())\n  dispatchedAt DateTime?\n\n  @@index([status, availableAt])\n}\n\n/// Background job waiting for, or done with, the job worker\nmodel Job {\n  id          String    @id @default(uuid())\n  name        String\n  payload     String\n  status      String    @default("pending")\n  attempts    Int       @default(0)\n  maxAttempts Int\n  runAt       DateTime  @default(now())\n  uniqueKey   String?   @unique\n  lastError   String?\n  createdAt   DateTime  @default(now())\n  completedAt DateTime?\n\n  @@index([status, runAt])\n}\n',
   runtimeDataModel: {
     models: {},
     enums: {},
     types: {},
   },
+  parameterizationSchema: {
+    strings: [],
+    graph: '',
+  },
 }
 
 config.runtimeDataModel = JSON.parse(
-  '{"models":{"User":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"}],"dbName":null}},"enums":{},"types":{}}',
+  '{"models":{"User":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"passwordHash","kind":"scalar","type":"String"},{"name":"emailVerifiedAt","kind":"scalar","type":"DateTime"},{"name":"credentialVersion","kind":"scalar","type":"Int"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"updatedAt","kind":"scalar","type":"DateTime"},{"name":"sessions","kind":"object","type":"Session","relationName":"SessionToUser"},{"name":"passwordResetTokens","kind":"object","type":"PasswordResetToken","relationName":"PasswordResetTokenToUser"},{"name":"roles","kind":"object","type":"UserRole","relationName":"UserToUserRole"}],"dbName":null,"schema":null},"Session":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"SessionToUser"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"revokedAt","kind":"scalar","type":"DateTime"},{"name":"refreshTokens","kind":"object","type":"RefreshToken","relationName":"RefreshTokenToSession"}],"dbName":null,"schema":null},"RefreshToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"sessionId","kind":"scalar","type":"String"},{"name":"session","kind":"object","type":"Session","relationName":"RefreshTokenToSession"},{"name":"tokenHash","kind":"scalar","type":"String"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"rotatedAt","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime"}],"dbName":null,"schema":null},"PasswordResetToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"PasswordResetTokenToUser"},{"name":"tokenHash","kind":"scalar","type":"String"},{"name":"expiresAt","kind":"scalar","type":"DateTime"},{"name":"usedAt","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime"}],"dbName":null,"schema":null},"Role":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"permissions","kind":"object","type":"RolePermission","relationName":"RoleToRolePermission"},{"name":"users","kind":"object","type":"UserRole","relationName":"RoleToUserRole"}],"dbName":null,"schema":null},"RolePermission":{"fields":[{"name":"roleId","kind":"scalar","type":"String"},{"name":"role","kind":"object","type":"Role","relationName":"RoleToRolePermission"},{"name":"permission","kind":"scalar","type":"String"}],"dbName":null,"schema":null},"UserRole":{"fields":[{"name":"userId","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"UserToUserRole"},{"name":"roleId","kind":"scalar","type":"String"},{"name":"role","kind":"object","type":"Role","relationName":"RoleToUserRole"}],"dbName":null,"schema":null},"OutboxMessage":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"type","kind":"scalar","type":"String"},{"name":"payload","kind":"scalar","type":"String"},{"name":"status","kind":"scalar","type":"String"},{"name":"attempts","kind":"scalar","type":"Int"},{"name":"availableAt","kind":"scalar","type":"DateTime"},{"name":"lastError","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"dispatchedAt","kind":"scalar","type":"DateTime"}],"dbName":null,"schema":null},"Job":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"payload","kind":"scalar","type":"String"},{"name":"status","kind":"scalar","type":"String"},{"name":"attempts","kind":"scalar","type":"Int"},{"name":"maxAttempts","kind":"scalar","type":"Int"},{"name":"runAt","kind":"scalar","type":"DateTime"},{"name":"uniqueKey","kind":"scalar","type":"String"},{"name":"lastError","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime"},{"name":"completedAt","kind":"scalar","type":"DateTime"}],"dbName":null,"schema":null}},"enums":{},"types":{}}',
 )
+config.parameterizationSchema = {
+  strings: JSON.parse(
+    '["where","orderBy","cursor","user","session","refreshTokens","_count","sessions","passwordResetTokens","role","permissions","users","roles","User.findUnique","User.findUniqueOrThrow","User.findFirst","User.findFirstOrThrow","User.findMany","data","User.createOne","User.createMany","User.createManyAndReturn","User.updateOne","User.updateMany","User.updateManyAndReturn","create","update","User.upsertOne","User.deleteOne","User.deleteMany","having","_avg","_sum","_min","_max","User.groupBy","User.aggregate","Session.findUnique","Session.findUniqueOrThrow","Session.findFirst","Session.findFirstOrThrow","Session.findMany","Session.createOne","Session.createMany","Session.createManyAndReturn","Session.updateOne","Session.updateMany","Session.updateManyAndReturn","Session.upsertOne","Session.deleteOne","Session.deleteMany","Session.groupBy","Session.aggregate","RefreshToken.findUnique","RefreshToken.findUniqueOrThrow","RefreshToken.findFirst","RefreshToken.findFirstOrThrow","RefreshToken.findMany","RefreshToken.createOne","RefreshToken.createMany","RefreshToken.createManyAndReturn","RefreshToken.updateOne","RefreshToken.updateMany","RefreshToken.updateManyAndReturn","RefreshToken.upsertOne","RefreshToken.deleteOne","RefreshToken.deleteMany","RefreshToken.groupBy","RefreshToken.aggregate","PasswordResetToken.findUnique","PasswordResetToken.findUniqueOrThrow","PasswordResetToken.findFirst","PasswordResetToken.findFirstOrThrow","PasswordResetToken.findMany","PasswordResetToken.createOne","PasswordResetToken.createMany","PasswordResetToken.createManyAndReturn","PasswordResetToken.updateOne","PasswordResetToken.updateMany","PasswordResetToken.updateManyAndReturn","PasswordResetToken.upsertOne","PasswordResetToken.deleteOne","PasswordResetToken.deleteMany","PasswordResetToken.groupBy","PasswordResetToken.aggregate","Role.findUnique","Role.findUniqueOrThrow","Role.findFirst","Role.findFirstOrThrow","Role.findMany","Role.createOne","Role.createMany","Role.createManyAndReturn","Role.updateOne","Role.updateMany","Role.updateManyAndReturn","Role.upsertOne","Role.deleteOne","Role.deleteMany","Role.groupBy","Role.aggregate","RolePermission.findUnique","RolePermission.findUniqueOrThrow","RolePermission.findFirst","RolePermission.findFirstOrThrow","RolePermission.findMany","RolePermission.createOne","RolePermission.createMany","RolePermission.createManyAndReturn","RolePermission.updateOne","RolePermission.updateMany","RolePermission.updateManyAndReturn","RolePermission.upsertOne","RolePermission.deleteOne","RolePermission.deleteMany","RolePermission.groupBy","RolePermission.aggregate","UserRole.findUnique","UserRole.findUniqueOrThrow","UserRole.findFirst","UserRole.findFirstOrThrow","UserRole.findMany","UserRole.createOne","UserRole.createMany","UserRole.createManyAndReturn","UserRole.updateOne","UserRole.updateMany","UserRole.updateManyAndReturn","UserRole.upsertOne","UserRole.deleteOne","UserRole.deleteMany","UserRole.groupBy","UserRole.aggregate","OutboxMessage.findUnique","OutboxMessage.findUniqueOrThrow","OutboxMessage.findFirst","OutboxMessage.findFirstOrThrow","OutboxMessage.findMany","OutboxMessage.createOne","OutboxMessage.createMany","OutboxMessage.createManyAndReturn","OutboxMessage.updateOne","OutboxMessage.updateMany","OutboxMessage.updateManyAndReturn","OutboxMessage.upsertOne","OutboxMessage.deleteOne","OutboxMessage.deleteMany","OutboxMessage.groupBy","OutboxMessage.aggregate","Job.findUnique","Job.findUniqueOrThrow","Job.findFirst","Job.findFirstOrThrow","Job.findMany","Job.createOne","Job.createMany","Job.createManyAndReturn","Job.updateOne","Job.updateMany","Job.updateManyAndReturn","Job.upsertOne","Job.deleteOne","Job.deleteMany","Job.groupBy","Job.aggregate","AND","OR","NOT","id","name","payload","status","attempts","maxAttempts","runAt","uniqueKey","lastError","createdAt","completedAt","equals","in","notIn","lt","lte","gt","gte","not","contains","startsWith","endsWith","type","availableAt","dispatchedAt","userId","roleId","permission","every","some","none","tokenHash","expiresAt","usedAt","sessionId","rotatedAt","revokedAt","email","passwordHash","emailVerifiedAt","credentialVersion","updatedAt","roleId_permission","userId_roleId","is","isNot","connectOrCreate","upsert","createMany","set","disconnect","delete","connect","updateMany","deleteMany","increment","decrement","multiply","divide"]',
+  ),
+  graph:
+    'zwNSkAEOBwAAkwIAIAgAAJQCACAMAACNAgAgpQEAAJICADCmAQAAHwAQpwEAAJICADCoAQEAAAABqQEBAIQCACGxAUAAgwIAIc0BAQAAAAHOAQEAhAIAIc8BQACFAgAh0AECAIICACHRAUAAgwIAIQEAAAABACAJAwAAmgIAIAUAAJ8CACClAQAAngIAMKYBAAADABCnAQAAngIAMKgBAQCBAgAhsQFAAIMCACHBAQEAgQIAIcwBQACFAgAhAwMAAKkDACAFAACrAwAgzAEAAKACACAJAwAAmgIAIAUAAJ8CACClAQAAngIAMKYBAAADABCnAQAAngIAMKgBAQAAAAGxAUAAgwIAIcEBAQCBAgAhzAFAAIUCACEDAAAAAwAgAQAABAAwAgAABQAgCgQAAJ0CACClAQAAnAIAMKYBAAAHABCnAQAAnAIAMKgBAQCBAgAhsQFAAIMCACHHAQEAgQIAIcgBQACDAgAhygEBAIECACHLAUAAhQIAIQIEAACqAwAgywEAAKACACAKBAAAnQIAIKUBAACcAgAwpgEAAAcAEKcBAACcAgAwqAEBAAAAAbEBQACDAgAhxwEBAAAAAcgBQACDAgAhygEBAIECACHLAUAAhQIAIQMAAAAHACABAAAIADACAAAJACABAAAABwAgCgMAAJoCACClAQAAmwIAMKYBAAAMABCnAQAAmwIAMKgBAQCBAgAhsQFAAIMCACHBAQEAgQIAIccBAQCBAgAhyAFAAIMCACHJAUAAhQIAIQIDAACpAwAgyQEAAKACACAKAwAAmgIAIKUBAACbAgAwpgEAAAwAEKcBAACbAgAwqAEBAAAAAbEBQACDAgAhwQEBAIECACHHAQEAAAAByAFAAIMCACHJAUAAhQIAIQMAAAAMACABAAANADACAAAOACAHAwAAmgIAIAkAAJcCACClAQAAmQIAMKYBAAAQABCnAQAAmQIAMMEBAQCBAgAhwgEBAIECACECAwAAqQMAIAkAAKgDACAIAwAAmgIAIAkAAJcCACClAQAAmQIAMKYBAAAQABCnAQAAmQIAMMEBAQCBAgAhwgEBAIECACHTAQAAmAIAIAMAAAAQACABAAARADACAAASACAGCQAAlwIAIKUBAACWAgAwpgEAABQAEKcBAACWAgAwwgEBAIECACHDAQEAgQIAIQEJAACoAwAgBwkAAJcCACClAQAAlgIAMKYBAAAUABCnAQAAlgIAMMIBAQCBAgAhwwEBAIECACHSAQAAlQIAIAMAAAAUACABAAAVADACAAAWACADAAAAEAAgAQAAEQAwAgAAEgAgAQAAABQAIAEAAAAQACABAAAAAwAgAQAAAAwAIAEAAAAQACABAAAAAQAgDgcAAJMCACAIAACUAgAgDAAAjQIAIKUBAACSAgAwpgEAAB8AEKcBAACSAgAwqAEBAIECACGpAQEAhAIAIbEBQACDAgAhzQEBAIECACHOAQEAhAIAIc8BQACFAgAh0AECAIICACHRAUAAgwIAIQYHAACmAwAgCAAApwMAIAwAANwCACCpAQAAoAIAIM4BAACgAgAgzwEAAKACACADAAAAHwAgAQAAIAAwAgAAAQAgAwAAAB8AIAEAACAAMAIAAAEAIAMAAAAfACABAAAgADACAAABACALBwAAowMAIAgAAKQDACAMAAClAwAgqAEBAAAAAakBAQAAAAGxAUAAAAABzQEBAAAAAc4BAQAAAAHPAUAAAAAB0AECAAAAAdEBQAAAAAEBEgAAJAAgCKgBAQAAAAGpAQEAAAABsQFAAAAAAc0BAQAAAAHOAQEAAAABzwFAAAAAAdABAgAAAAHRAUAAAAABARIAACYAMAESAAAmADALBwAA_wIAIAgAAIADACAMAACBAwAgqAEBAKYCACGpAQEAqQIAIbEBQACoAgAhzQEBAKYCACHOAQEAqQIAIc8BQACqAgAh0AECAKcCACHRAUAAqAIAIQIAAAABACASAAApACAIqAEBAKYCACGpAQEAqQIAIbEBQACoAgAhzQEBAKYCACHOAQEAqQIAIc8BQACqAgAh0AECAKcCACHRAUAAqAIAIQIAAAAfACASAAArACACAAAAHwAgEgAAKwAgAwAAAAEAIBkAACQAIBoAACkAIAEAAAABACABAAAAHwAgCAYAAPoCACAfAAD7AgAgIAAA_gIAICEAAP0CACAiAAD8AgAgqQEAAKACACDOAQAAoAIAIM8BAACgAgAgC6UBAACRAgAwpgEAADIAEKcBAACRAgAwqAEBAO8BACGpAQEA8gEAIbEBQADxAQAhzQEBAO8BACHOAQEA8gEAIc8BQADzAQAh0AECAPABACHRAUAA8QEAIQMAAAAfACABAAAxADAeAAAyACADAAAAHwAgAQAAIAAwAgAAAQAgAQAAAAUAIAEAAAAFACADAAAAAwAgAQAABAAwAgAABQAgAwAAAAMAIAEAAAQAMAIAAAUAIAMAAAADACABAAAEADACAAAFACAGAwAA-AIAIAUAAPkCACCoAQEAAAABsQFAAAAAAcEBAQAAAAHMAUAAAAABARIAADoAIASoAQEAAAABsQFAAAAAAcEBAQAAAAHMAUAAAAABARIAADwAMAESAAA8ADAGAwAA6gIAIAUAAOsCACCoAQEApgIAIbEBQACoAgAhwQEBAKYCACHMAUAAqgIAIQIAAAAFACASAAA_ACAEqAEBAKYCACGxAUAAqAIAIcEBAQCmAgAhzAFAAKoCACECAAAAAwAgEgAAQQAgAgAAAAMAIBIAAEEAIAMAAAAFACAZAAA6ACAaAAA_ACABAAAABQAgAQAAAAMAIAQGAADnAgAgIQAA6QIAICIAAOgCACDMAQAAoAIAIAelAQAAkAIAMKYBAABIABCnAQAAkAIAMKgBAQDvAQAhsQFAAPEBACHBAQEA7wEAIcwBQADzAQAhAwAAAAMAIAEAAEcAMB4AAEgAIAMAAAADACABAAAEADACAAAFACABAAAACQAgAQAAAAkAIAMAAAAHACABAAAIADACAAAJACADAAAABwAgAQAACAAwAgAACQAgAwAAAAcAIAEAAAgAMAIAAAkAIAcEAADmAgAgqAEBAAAAAbEBQAAAAAHHAQEAAAAByAFAAAAAAcoBAQAAAAHLAUAAAAABARIAAFAAIAaoAQEAAAABsQFAAAAAAccBAQAAAAHIAUAAAAABygEBAAAAAcsBQAAAAAEBEgAAUgAwARIAAFIAMAcEAADlAgAgqAEBAKYCACGxAUAAqAIAIccBAQCmAgAhyAFAAKgCACHKAQEApgIAIcsBQACqAgAhAgAAAAkAIBIAAFUAIAaoAQEApgIAIbEBQACoAgAhxwEBAKYCACHIAUAAqAIAIcoBAQCmAgAhywFAAKoCACECAAAABwAgEgAAVwAgAgAAAAcAIBIAAFcAIAMAAAAJACAZAABQACAaAABVACABAAAACQAgAQAAAAcAIAQGAADiAgAgIQAA5AIAICIAAOMCACDLAQAAoAIAIAmlAQAAjwIAMKYBAABeABCnAQAAjwIAMKgBAQDvAQAhsQFAAPEBACHHAQEA7wEAIcgBQADxAQAhygEBAO8BACHLAUAA8wEAIQMAAAAHACABAABdADAeAABeACADAAAABwAgAQAACAAwAgAACQAgAQAAAA4AIAEAAAAOACADAAAADAAgAQAADQAwAgAADgAgAwAAAAwAIAEAAA0AMAIAAA4AIAMAAAAMACABAAANADACAAAOACAHAwAA4QIAIKgBAQAAAAGxAUAAAAABwQEBAAAAAccBAQAAAAHIAUAAAAAByQFAAAAAAQESAABmACAGqAEBAAAAAbEBQAAAAAHBAQEAAAABxwEBAAAAAcgBQAAAAAHJAUAAAAABARIAAGgAMAESAABoADAHAwAA4AIAIKgBAQCmAgAhsQFAAKgCACHBAQEApgIAIccBAQCmAgAhyAFAAKgCACHJAUAAqgIAIQIAAAAOACASAABrACAGqAEBAKYCACGxAUAAqAIAIcEBAQCmAgAhxwEBAKYCACHIAUAAqAIAIckBQACqAgAhAgAAAAwAIBIAAG0AIAIAAAAMACASAABtACADAAAADgAgGQAAZgAgGgAAawAgAQAAAA4AIAEAAAAMACAEBgAA3QIAICEAAN8CACAiAADeAgAgyQEAAKACACAJpQEAAI4CADCmAQAAdAAQpwEAAI4CADCoAQEA7wEAIbEBQADxAQAhwQEBAO8BACHHAQEA7wEAIcgBQADxAQAhyQFAAPMBACEDAAAADAAgAQAAcwAwHgAAdAAgAwAAAAwAIAEAAA0AMAIAAA4AIAcKAACMAgAgCwAAjQIAIKUBAACLAgAwpgEAAHoAEKcBAACLAgAwqAEBAAAAAakBAQAAAAEBAAAAdwAgAQAAAHcAIAcKAACMAgAgCwAAjQIAIKUBAACLAgAwpgEAAHoAEKcBAACLAgAwqAEBAIECACGpAQEAgQIAIQIKAADbAgAgCwAA3AIAIAMAAAB6ACABAAB7ADACAAB3ACADAAAAegAgAQAAewAwAgAAdwAgAwAAAHoAIAEAAHsAMAIAAHcAIAQKAADZAgAgCwAA2gIAIKgBAQAAAAGpAQEAAAABARIAAH8AIAKoAQEAAAABqQEBAAAAAQESAACBAQAwARIAAIEBADAECgAAvwIAIAsAAMACACCoAQEApgIAIakBAQCmAgAhAgAAAHcAIBIAAIQBACACqAEBAKYCACGpAQEApgIAIQIAAAB6ACASAACGAQAgAgAAAHoAIBIAAIYBACADAAAAdwAgGQAAfwAgGgAAhAEAIAEAAAB3ACABAAAAegAgAwYAALwCACAhAAC-AgAgIgAAvQIAIAWlAQAAigIAMKYBAACNAQAQpwEAAIoCADCoAQEA7wEAIakBAQDvAQAhAwAAAHoAIAEAAIwBADAeAACNAQAgAwAAAHoAIAEAAHsAMAIAAHcAIAEAAAAWACABAAAAFgAgAwAAABQAIAEAABUAMAIAABYAIAMAAAAUACABAAAVADACAAAWACADAAAAFAAgAQAAFQAwAgAAFgAgAwkAALsCACDCAQEAAAABwwEBAAAAAQESAACVAQAgAsIBAQAAAAHDAQEAAAABARIAAJcBADABEgAAlwEAMAMJAAC6AgAgwgEBAKYCACHDAQEApgIAIQIAAAAWACASAACaAQAgAsIBAQCmAgAhwwEBAKYCACECAAAAFAAgEgAAnAEAIAIAAAAUACASAACcAQAgAwAAABYAIBkAAJUBACAaAACaAQAgAQAAABYAIAEAAAAUACADBgAAtwIAICEAALkCACAiAAC4AgAgBaUBAACJAgAwpgEAAKMBABCnAQAAiQIAMMIBAQDvAQAhwwEBAO8BACEDAAAAFAAgAQAAogEAMB4AAKMBACADAAAAFAAgAQAAFQAwAgAAFgAgAQAAABIAIAEAAAASACADAAAAEAAgAQAAEQAwAgAAEgAgAwAAABAAIAEAABEAMAIAABIAIAMAAAAQACABAAARADACAAASACAEAwAAtQIAIAkAALYCACDBAQEAAAABwgEBAAAAAQESAACrAQAgAsEBAQAAAAHCAQEAAAABARIAAK0BADABEgAArQEAMAQDAACzAgAgCQAAtAIAIMEBAQCmAgAhwgEBAKYCACECAAAAEgAgEgAAsAEAIALBAQEApgIAIcIBAQCmAgAhAgAAABAAIBIAALIBACACAAAAEAAgEgAAsgEAIAMAAAASACAZAACrAQAgGgAAsAEAIAEAAAASACABAAAAEAAgAwYAALACACAhAACyAgAgIgAAsQIAIAWlAQAAiAIAMKYBAAC5AQAQpwEAAIgCADDBAQEA7wEAIcIBAQDvAQAhAwAAABAAIAEAALgBADAeAAC5AQAgAwAAABAAIAEAABEAMAIAABIAIAylAQAAhwIAMKYBAAC_AQAQpwEAAIcCADCoAQEAAAABqgEBAIECACGrAQEAgQIAIawBAgCCAgAhsAEBAIQCACGxAUAAgwIAIb4BAQCBAgAhvwFAAIMCACHAAUAAhQIAIQEAAAC8AQAgAQAAALwBACAMpQEAAIcCADCmAQAAvwEAEKcBAACHAgAwqAEBAIECACGqAQEAgQIAIasBAQCBAgAhrAECAIICACGwAQEAhAIAIbEBQACDAgAhvgEBAIECACG_AUAAgwIAIcABQACFAgAhArABAACgAgAgwAEAAKACACADAAAAvwEAIAEAAMABADACAAC8AQAgAwAAAL8BACABAADAAQAwAgAAvAEAIAMAAAC_AQAgAQAAwAEAMAIAALwBACAJqAEBAAAAAaoBAQAAAAGrAQEAAAABrAECAAAAAbABAQAAAAGxAUAAAAABvgEBAAAAAb8BQAAAAAHAAUAAAAABARIAAMQBACAJqAEBAAAAAaoBAQAAAAGrAQEAAAABrAECAAAAAbABAQAAAAGxAUAAAAABvgEBAAAAAb8BQAAAAAHAAUAAAAABARIAAMYBADABEgAAxgEAMAmoAQEApgIAIaoBAQCmAgAhqwEBAKYCACGsAQIApwIAIbABAQCpAgAhsQFAAKgCACG-AQEApgIAIb8BQACoAgAhwAFAAKoCACECAAAAvAEAIBIAAMkBACAJqAEBAKYCACGqAQEApgIAIasBAQCmAgAhrAECAKcCACGwAQEAqQIAIbEBQACoAgAhvgEBAKYCACG_AUAAqAIAIcABQACqAgAhAgAAAL8BACASAADLAQAgAgAAAL8BACASAADLAQAgAwAAALwBACAZAADEAQAgGgAAyQEAIAEAAAC8AQAgAQAAAL8BACAHBgAAqwIAIB8AAKwCACAgAACvAgAgIQAArgIAICIAAK0CACCwAQAAoAIAIMABAACgAgAgDKUBAACGAgAwpgEAANIBABCnAQAAhgIAMKgBAQDvAQAhqgEBAO8BACGrAQEA7wEAIawBAgDwAQAhsAEBAPIBACGxAUAA8QEAIb4BAQDvAQAhvwFAAPEBACHAAUAA8wEAIQMAAAC_AQAgAQAA0QEAMB4AANIBACADAAAAvwEAIAEAAMABADACAAC8AQAgDqUBAACAAgAwpgEAANgBABCnAQAAgAIAMKgBAQAAAAGpAQEAgQIAIaoBAQCBAgAhqwEBAIECACGsAQIAggIAIa0BAgCCAgAhrgFAAIMCACGvAQEAAAABsAEBAIQCACGxAUAAgwIAIbIBQACFAgAhAQAAANUBACABAAAA1QEAIA6lAQAAgAIAMKYBAADYAQAQpwEAAIACADCoAQEAgQIAIakBAQCBAgAhqgEBAIECACGrAQEAgQIAIawBAgCCAgAhrQECAIICACGuAUAAgwIAIa8BAQCEAgAhsAEBAIQCACGxAUAAgwIAIbIBQACFAgAhA68BAACgAgAgsAEAAKACACCyAQAAoAIAIAMAAADYAQAgAQAA2QEAMAIAANUBACADAAAA2AEAIAEAANkBADACAADVAQAgAwAAANgBACABAADZAQAwAgAA1QEAIAuoAQEAAAABqQEBAAAAAaoBAQAAAAGrAQEAAAABrAECAAAAAa0BAgAAAAGuAUAAAAABrwEBAAAAAbABAQAAAAGxAUAAAAABsgFAAAAAAQESAADdAQAgC6gBAQAAAAGpAQEAAAABqgEBAAAAAasBAQAAAAGsAQIAAAABrQECAAAAAa4BQAAAAAGvAQEAAAABsAEBAAAAAbEBQAAAAAGyAUAAAAABARIAAN8BADABEgAA3wEAMAuoAQEApgIAIakBAQCmAgAhqgEBAKYCACGrAQEApgIAIawBAgCnAgAhrQECAKcCACGuAUAAqAIAIa8BAQCpAgAhsAEBAKkCACGxAUAAqAIAIbIBQACqAgAhAgAAANUBACASAADiAQAgC6gBAQCmAgAhqQEBAKYCACGqAQEApgIAIasBAQCmAgAhrAECAKcCACGtAQIApwIAIa4BQACoAgAhrwEBAKkCACGwAQEAqQIAIbEBQACoAgAhsgFAAKoCACECAAAA2AEAIBIAAOQBACACAAAA2AEAIBIAAOQBACADAAAA1QEAIBkAAN0BACAaAADiAQAgAQAAANUBACABAAAA2AEAIAgGAAChAgAgHwAAogIAICAAAKUCACAhAACkAgAgIgAAowIAIK8BAACgAgAgsAEAAKACACCyAQAAoAIAIA6lAQAA7gEAMKYBAADrAQAQpwEAAO4BADCoAQEA7wEAIakBAQDvAQAhqgEBAO8BACGrAQEA7wEAIawBAgDwAQAhrQECAPABACGuAUAA8QEAIa8BAQDyAQAhsAEBAPIBACGxAUAA8QEAIbIBQADzAQAhAwAAANgBACABAADqAQAwHgAA6wEAIAMAAADYAQAgAQAA2QEAMAIAANUBACAOpQEAAO4BADCmAQAA6wEAEKcBAADuAQAwqAEBAO8BACGpAQEA7wEAIaoBAQDvAQAhqwEBAO8BACGsAQIA8AEAIa0BAgDwAQAhrgFAAPEBACGvAQEA8gEAIbABAQDyAQAhsQFAAPEBACGyAUAA8wEAIQ4GAAD6AQAgIQAA_wEAICIAAP8BACCzAQEAAAABtAEBAAAABLUBAQAAAAS2AQEAAAABtwEBAAAAAbgBAQAAAAG5AQEAAAABugEBAP4BACG7AQEAAAABvAEBAAAAAb0BAQAAAAENBgAA-gEAIB8AAP0BACAgAAD6AQAgIQAA-gEAICIAAPoBACCzAQIAAAABtAECAAAABLUBAgAAAAS2AQIAAAABtwECAAAAAbgBAgAAAAG5AQIAAAABugECAPwBACELBgAA-gEAICEAAPsBACAiAAD7AQAgswFAAAAAAbQBQAAAAAS1AUAAAAAEtgFAAAAAAbcBQAAAAAG4AUAAAAABuQFAAAAAAboBQAD5AQAhDgYAAPUBACAhAAD4AQAgIgAA-AEAILMBAQAAAAG0AQEAAAAFtQEBAAAABbYBAQAAAAG3AQEAAAABuAEBAAAAAbkBAQAAAAG6AQEA9wEAIbsBAQAAAAG8AQEAAAABvQEBAAAAAQsGAAD1AQAgIQAA9gEAICIAAPYBACCzAUAAAAABtAFAAAAABbUBQAAAAAW2AUAAAAABtwFAAAAAAbgBQAAAAAG5AUAAAAABugFAAPQBACELBgAA9QEAICEAAPYBACAiAAD2AQAgswFAAAAAAbQBQAAAAAW1AUAAAAAFtgFAAAAAAbcBQAAAAAG4AUAAAAABuQFAAAAAAboBQAD0AQAhCLMBAgAAAAG0AQIAAAAFtQECAAAABbYBAgAAAAG3AQIAAAABuAECAAAAAbkBAgAAAAG6AQIA9QEAIQizAUAAAAABtAFAAAAABbUBQAAAAAW2AUAAAAABtwFAAAAAAbgBQAAAAAG5AUAAAAABugFAAPYBACEOBgAA9QEAICEAAPgBACAiAAD4AQAgswEBAAAAAbQBAQAAAAW1AQEAAAAFtgEBAAAAAbcBAQAAAAG4AQEAAAABuQEBAAAAAboBAQD3AQAhuwEBAAAAAbwBAQAAAAG9AQEAAAABC7MBAQAAAAG0AQEAAAAFtQEBAAAABbYBAQAAAAG3AQEAAAABuAEBAAAAAbkBAQAAAAG6AQEA-AEAIbsBAQAAAAG8AQEAAAABvQEBAAAAAQsGAAD6AQAgIQAA-wEAICIAAPsBACCzAUAAAAABtAFAAAAABLUBQAAAAAS2AUAAAAABtwFAAAAAAbgBQAAAAAG5AUAAAAABugFAAPkBACEIswECAAAAAbQBAgAAAAS1AQIAAAAEtgECAAAAAbcBAgAAAAG4AQIAAAABuQECAAAAAboBAgD6AQAhCLMBQAAAAAG0AUAAAAAEtQFAAAAABLYBQAAAAAG3AUAAAAABuAFAAAAAAbkBQAAAAAG6AUAA-wEAIQ0GAAD6AQAgHwAA_QEAICAAAPoBACAhAAD6AQAgIgAA-gEAILMBAgAAAAG0AQIAAAAEtQECAAAABLYBAgAAAAG3AQIAAAABuAECAAAAAbkBAgAAAAG6AQIA_AEAIQizAQgAAAABtAEIAAAABLUBCAAAAAS2AQgAAAABtwEIAAAAAbgBCAAAAAG5AQgAAAABugEIAP0BACEOBgAA-gEAICEAAP8BACAiAAD_AQAgswEBAAAAAbQBAQAAAAS1AQEAAAAEtgEBAAAAAbcBAQAAAAG4AQEAAAABuQEBAAAAAboBAQD-AQAhuwEBAAAAAbwBAQAAAAG9AQEAAAABC7MBAQAAAAG0AQEAAAAEtQEBAAAABLYBAQAAAAG3AQEAAAABuAEBAAAAAbkBAQAAAAG6AQEA_wEAIbsBAQAAAAG8AQEAAAABvQEBAAAAAQ6lAQAAgAIAMKYBAADYAQAQpwEAAIACADCoAQEAgQIAIakBAQCBAgAhqgEBAIECACGrAQEAgQIAIawBAgCCAgAhrQECAIICACGuAUAAgwIAIa8BAQCEAgAhsAEBAIQCACGxAUAAgwIAIbIBQACFAgAhC7MBAQAAAAG0AQEAAAAEtQEBAAAABLYBAQAAAAG3AQEAAAABuAEBAAAAAbkBAQAAAAG6AQEA_wEAIbsBAQAAAAG8AQEAAAABvQEBAAAAAQizAQIAAAABtAECAAAABLUBAgAAAAS2AQIAAAABtwECAAAAAbgBAgAAAAG5AQIAAAABugECAPoBACEIswFAAAAAAbQBQAAAAAS1AUAAAAAEtgFAAAAAAbcBQAAAAAG4AUAAAAABuQFAAAAAAboBQAD7AQAhC7MBAQAAAAG0AQEAAAAFtQEBAAAABbYBAQAAAAG3AQEAAAABuAEBAAAAAbkBAQAAAAG6AQEA-AEAIbsBAQAAAAG8AQEAAAABvQEBAAAAAQizAUAAAAABtAFAAAAABbUBQAAAAAW2AUAAAAABtwFAAAAAAbgBQAAAAAG5AUAAAAABugFAAPYBACEMpQEAAIYCADCmAQAA0gEAEKcBAACGAgAwqAEBAO8BACGqAQEA7wEAIasBAQDvAQAhrAECAPABACGwAQEA8gEAIbEBQADxAQAhvgEBAO8BACG_AUAA8QEAIcABQADzAQAhDKUBAACHAgAwpgEAAL8BABCnAQAAhwIAMKgBAQCBAgAhqgEBAIECACGrAQEAgQIAIawBAgCCAgAhsAEBAIQCACGxAUAAgwIAIb4BAQCBAgAhvwFAAIMCACHAAUAAhQIAIQWlAQAAiAIAMKYBAAC5AQAQpwEAAIgCADDBAQEA7wEAIcIBAQDvAQAhBaUBAACJAgAwpgEAAKMBABCnAQAAiQIAMMIBAQDvAQAhwwEBAO8BACEFpQEAAIoCADCmAQAAjQEAEKcBAACKAgAwqAEBAO8BACGpAQEA7wEAIQcKAACMAgAgCwAAjQIAIKUBAACLAgAwpgEAAHoAEKcBAACLAgAwqAEBAIECACGpAQEAgQIAIQPEAQAAFAAgxQEAABQAIMYBAAAUACADxAEAABAAIMUBAAAQACDGAQAAEAAgCaUBAACOAgAwpgEAAHQAEKcBAACOAgAwqAEBAO8BACGxAUAA8QEAIcEBAQDvAQAhxwEBAO8BACHIAUAA8QEAIckBQADzAQAhCaUBAACPAgAwpgEAAF4AEKcBAACPAgAwqAEBAO8BACGxAUAA8QEAIccBAQDvAQAhyAFAAPEBACHKAQEA7wEAIcsBQADzAQAhB6UBAACQAgAwpgEAAEgAEKcBAACQAgAwqAEBAO8BACGxAUAA8QEAIcEBAQDvAQAhzAFAAPMBACELpQEAAJECADCmAQAAMgAQpwEAAJECADCoAQEA7wEAIakBAQDyAQAhsQFAAPEBACHNAQEA7wEAIc4BAQDyAQAhzwFAAPMBACHQAQIA8AEAIdEBQADxAQAhDgcAAJMCACAIAACUAgAgDAAAjQIAIKUBAACSAgAwpgEAAB8AEKcBAACSAgAwqAEBAIECACGpAQEAhAIAIbEBQACDAgAhzQEBAIECACHOAQEAhAIAIc8BQACFAgAh0AECAIICACHRAUAAgwIAIQPEAQAAAwAgxQEAAAMAIMYBAAADACADxAEAAAwAIMUBAAAMACDGAQAADAAgAsIBAQAAAAHDAQEAAAABBgkAAJcCACClAQAAlgIAMKYBAAAUABCnAQAAlgIAMMIBAQCBAgAhwwEBAIECACEJCgAAjAIAIAsAAI0CACClAQAAiwIAMKYBAAB6ABCnAQAAiwIAMKgBAQCBAgAhqQEBAIECACHUAQAAegAg1QEAAHoAIALBAQEAAAABwgEBAAAAAQcDAACaAgAgCQAAlwIAIKUBAACZAgAwpgEAABAAEKcBAACZAgAwwQEBAIECACHCAQEAgQIAIRAHAACTAgAgCAAAlAIAIAwAAI0CACClAQAAkgIAMKYBAAAfABCnAQAAkgIAMKgBAQCBAgAhqQEBAIQCACGxAUAAgwIAIc0BAQCBAgAhzgEBAIQCACHPAUAAhQIAIdABAgCCAgAh0QFAAIMCACHUAQAAHwAg1QEAAB8AIAoDAACaAgAgpQEAAJsCADCmAQAADAAQpwEAAJsCADCoAQEAgQIAIbEBQACDAgAhwQEBAIECACHHAQEAgQIAIcgBQACDAgAhyQFAAIUCACEKBAAAnQIAIKUBAACcAgAwpgEAAAcAEKcBAACcAgAwqAEBAIECACGxAUAAgwIAIccBAQCBAgAhyAFAAIMCACHKAQEAgQIAIcsBQACFAgAhCwMAAJoCACAFAACfAgAgpQEAAJ4CADCmAQAAAwAQpwEAAJ4CADCoAQEAgQIAIbEBQACDAgAhwQEBAIECACHMAUAAhQIAIdQBAAADACDVAQAAAwAgCQMAAJoCACAFAACfAgAgpQEAAJ4CADCmAQAAAwAQpwEAAJ4CADCoAQEAgQIAIbEBQACDAgAhwQEBAIECACHMAUAAhQIAIQPEAQAABwAgxQEAAAcAIMYBAAAHACAAAAAAAAAB2QEBAAAAAQXZAQIAAAAB3wECAAAAAeABAgAAAAHhAQIAAAAB4gECAAAAAQHZAUAAAAABAdkBAQAAAAEB2QFAAAAAAQAAAAAAAAAABRkAAMgDACAaAADOAwAg1gEAAMkDACDXAQAAzQMAINwBAAABACAFGQAAxgMAIBoAAMsDACDWAQAAxwMAINcBAADKAwAg3AEAAHcAIAMZAADIAwAg1gEAAMkDACDcAQAAAQAgAxkAAMYDACDWAQAAxwMAINwBAAB3ACAAAAAFGQAAwQMAIBoAAMQDACDWAQAAwgMAINcBAADDAwAg3AEAAHcAIAMZAADBAwAg1gEAAMIDACDcAQAAdwAgAAAACxkAAM0CADAaAADSAgAw1gEAAM4CADDXAQAAzwIAMNgBAADQAgAg2QEAANECADDaAQAA0QIAMNsBAADRAgAw3AEAANECADDdAQAA0wIAMN4BAADUAgAwCxkAAMECADAaAADGAgAw1gEAAMICADDXAQAAwwIAMNgBAADEAgAg2QEAAMUCADDaAQAAxQIAMNsBAADFAgAw3AEAAMUCADDdAQAAxwIAMN4BAADIAgAwAgMAALUCACDBAQEAAAABAgAAABIAIBkAAMwCACADAAAAEgAgGQAAzAIAIBoAAMsCACABEgAAwAMAMAgDAACaAgAgCQAAlwIAIKUBAACZAgAwpgEAABAAEKcBAACZAgAwwQEBAIECACHCAQEAgQIAIdMBAACYAgAgAgAAABIAIBIAAMsCACACAAAAyQIAIBIAAMoCACAFpQEAAMgCADCmAQAAyQIAEKcBAADIAgAwwQEBAIECACHCAQEAgQIAIQWlAQAAyAIAMKYBAADJAgAQpwEAAMgCADDBAQEAgQIAIcIBAQCBAgAhAcEBAQCmAgAhAgMAALMCACDBAQEApgIAIQIDAAC1AgAgwQEBAAAAAQHDAQEAAAABAgAAABYAIBkAANgCACADAAAAFgAgGQAA2AIAIBoAANcCACABEgAAvwMAMAcJAACXAgAgpQEAAJYCADCmAQAAFAAQpwEAAJYCADDCAQEAgQIAIcMBAQCBAgAh0gEAAJUCACACAAAAFgAgEgAA1wIAIAIAAADVAgAgEgAA1gIAIAWlAQAA1AIAMKYBAADVAgAQpwEAANQCADDCAQEAgQIAIcMBAQCBAgAhBaUBAADUAgAwpgEAANUCABCnAQAA1AIAMMIBAQCBAgAhwwEBAIECACEBwwEBAKYCACEBwwEBAKYCACEBwwEBAAAAAQQZAADNAgAw1gEAAM4CADDYAQAA0AIAINwBAADRAgAwBBkAAMECADDWAQAAwgIAMNgBAADEAgAg3AEAAMUCADAAAAAAAAUZAAC6AwAgGgAAvQMAINYBAAC7AwAg1wEAALwDACDcAQAAAQAgAxkAALoDACDWAQAAuwMAINwBAAABACAAAAAFGQAAtQMAIBoAALgDACDWAQAAtgMAINcBAAC3AwAg3AEAAAUAIAMZAAC1AwAg1gEAALYDACDcAQAABQAgAAAABRkAAK8DACAaAACzAwAg1gEAALADACDXAQAAsgMAINwBAAABACALGQAA7AIAMBoAAPECADDWAQAA7QIAMNcBAADuAgAw2AEAAO8CACDZAQAA8AIAMNoBAADwAgAw2wEAAPACADDcAQAA8AIAMN0BAADyAgAw3gEAAPMCADAFqAEBAAAAAbEBQAAAAAHHAQEAAAAByAFAAAAAAcsBQAAAAAECAAAACQAgGQAA9wIAIAMAAAAJACAZAAD3AgAgGgAA9gIAIAESAACxAwAwCgQAAJ0CACClAQAAnAIAMKYBAAAHABCnAQAAnAIAMKgBAQAAAAGxAUAAgwIAIccBAQAAAAHIAUAAgwIAIcoBAQCBAgAhywFAAIUCACECAAAACQAgEgAA9gIAIAIAAAD0AgAgEgAA9QIAIAmlAQAA8wIAMKYBAAD0AgAQpwEAAPMCADCoAQEAgQIAIbEBQACDAgAhxwEBAIECACHIAUAAgwIAIcoBAQCBAgAhywFAAIUCACEJpQEAAPMCADCmAQAA9AIAEKcBAADzAgAwqAEBAIECACGxAUAAgwIAIccBAQCBAgAhyAFAAIMCACHKAQEAgQIAIcsBQACFAgAhBagBAQCmAgAhsQFAAKgCACHHAQEApgIAIcgBQACoAgAhywFAAKoCACEFqAEBAKYCACGxAUAAqAIAIccBAQCmAgAhyAFAAKgCACHLAUAAqgIAIQWoAQEAAAABsQFAAAAAAccBAQAAAAHIAUAAAAABywFAAAAAAQMZAACvAwAg1gEAALADACDcAQAAAQAgBBkAAOwCADDWAQAA7QIAMNgBAADvAgAg3AEAAPACADAAAAAAAAsZAACXAwAwGgAAnAMAMNYBAACYAwAw1wEAAJkDADDYAQAAmgMAINkBAACbAwAw2gEAAJsDADDbAQAAmwMAMNwBAACbAwAw3QEAAJ0DADDeAQAAngMAMAsZAACLAwAwGgAAkAMAMNYBAACMAwAw1wEAAI0DADDYAQAAjgMAINkBAACPAwAw2gEAAI8DADDbAQAAjwMAMNwBAACPAwAw3QEAAJEDADDeAQAAkgMAMAsZAACCAwAwGgAAhgMAMNYBAACDAwAw1wEAAIQDADDYAQAAhQMAINkBAADFAgAw2gEAAMUCADDbAQAAxQIAMNwBAADFAgAw3QEAAIcDADDeAQAAyAIAMAIJAAC2AgAgwgEBAAAAAQIAAAASACAZAACKAwAgAwAAABIAIBkAAIoDACAaAACJAwAgARIAAK4DADACAAAAEgAgEgAAiQMAIAIAAADJAgAgEgAAiAMAIAHCAQEApgIAIQIJAAC0AgAgwgEBAKYCACECCQAAtgIAIMIBAQAAAAEFqAEBAAAAAbEBQAAAAAHHAQEAAAAByAFAAAAAAckBQAAAAAECAAAADgAgGQAAlgMAIAMAAAAOACAZAACWAwAgGgAAlQMAIAESAACtAwAwCgMAAJoCACClAQAAmwIAMKYBAAAMABCnAQAAmwIAMKgBAQAAAAGxAUAAgwIAIcEBAQCBAgAhxwEBAAAAAcgBQACDAgAhyQFAAIUCACECAAAADgAgEgAAlQMAIAIAAACTAwAgEgAAlAMAIAmlAQAAkgMAMKYBAACTAwAQpwEAAJIDADCoAQEAgQIAIbEBQACDAgAhwQEBAIECACHHAQEAgQIAIcgBQACDAgAhyQFAAIUCACEJpQEAAJIDADCmAQAAkwMAEKcBAACSAwAwqAEBAIECACGxAUAAgwIAIcEBAQCBAgAhxwEBAIECACHIAUAAgwIAIckBQACFAgAhBagBAQCmAgAhsQFAAKgCACHHAQEApgIAIcgBQACoAgAhyQFAAKoCACEFqAEBAKYCACGxAUAAqAIAIccBAQCmAgAhyAFAAKgCACHJAUAAqgIAIQWoAQEAAAABsQFAAAAAAccBAQAAAAHIAUAAAAAByQFAAAAAAQQFAAD5AgAgqAEBAAAAAbEBQAAAAAHMAUAAAAABAgAAAAUAIBkAAKIDACADAAAABQAgGQAAogMAIBoAAKEDACABEgAArAMAMAkDAACaAgAgBQAAnwIAIKUBAACeAgAwpgEAAAMAEKcBAACeAgAwqAEBAAAAAbEBQACDAgAhwQEBAIECACHMAUAAhQIAIQIAAAAFACASAAChAwAgAgAAAJ8DACASAACgAwAgB6UBAACeAwAwpgEAAJ8DABCnAQAAngMAMKgBAQCBAgAhsQFAAIMCACHBAQEAgQIAIcwBQACFAgAhB6UBAACeAwAwpgEAAJ8DABCnAQAAngMAMKgBAQCBAgAhsQFAAIMCACHBAQEAgQIAIcwBQACFAgAhA6gBAQCmAgAhsQFAAKgCACHMAUAAqgIAIQQFAADrAgAgqAEBAKYCACGxAUAAqAIAIcwBQACqAgAhBAUAAPkCACCoAQEAAAABsQFAAAAAAcwBQAAAAAEEGQAAlwMAMNYBAACYAwAw2AEAAJoDACDcAQAAmwMAMAQZAACLAwAw1gEAAIwDADDYAQAAjgMAINwBAACPAwAwBBkAAIIDADDWAQAAgwMAMNgBAACFAwAg3AEAAMUCADAAAAIKAADbAgAgCwAA3AIAIAYHAACmAwAgCAAApwMAIAwAANwCACCpAQAAoAIAIM4BAACgAgAgzwEAAKACACADAwAAqQMAIAUAAKsDACDMAQAAoAIAIAADqAEBAAAAAbEBQAAAAAHMAUAAAAABBagBAQAAAAGxAUAAAAABxwEBAAAAAcgBQAAAAAHJAUAAAAABAcIBAQAAAAEKCAAApAMAIAwAAKUDACCoAQEAAAABqQEBAAAAAbEBQAAAAAHNAQEAAAABzgEBAAAAAc8BQAAAAAHQAQIAAAAB0QFAAAAAAQIAAAABACAZAACvAwAgBagBAQAAAAGxAUAAAAABxwEBAAAAAcgBQAAAAAHLAUAAAAABAwAAAB8AIBkAAK8DACAaAAC0AwAgDAAAAB8AIAgAAIADACAMAACBAwAgEgAAtAMAIKgBAQCmAgAhqQEBAKkCACGxAUAAqAIAIc0BAQCmAgAhzgEBAKkCACHPAUAAqgIAIdABAgCnAgAh0QFAAKgCACEKCAAAgAMAIAwAAIEDACCoAQEApgIAIakBAQCpAgAhsQFAAKgCACHNAQEApgIAIc4BAQCpAgAhzwFAAKoCACHQAQIApwIAIdEBQACoAgAhBQMAAPgCACCoAQEAAAABsQFAAAAAAcEBAQAAAAHMAUAAAAABAgAAAAUAIBkAALUDACADAAAAAwAgGQAAtQMAIBoAALkDACAHAAAAAwAgAwAA6gIAIBIAALkDACCoAQEApgIAIbEBQACoAgAhwQEBAKYCACHMAUAAqgIAIQUDAADqAgAgqAEBAKYCACGxAUAAqAIAIcEBAQCmAgAhzAFAAKoCACEKBwAAowMAIAwAAKUDACCoAQEAAAABqQEBAAAAAbEBQAAAAAHNAQEAAAABzgEBAAAAAc8BQAAAAAHQAQIAAAAB0QFAAAAAAQIAAAABACAZAAC6AwAgAwAAAB8AIBkAALoDACAaAAC-AwAgDAAAAB8AIAcAAP8CACAMAACBAwAgEgAAvgMAIKgBAQCmAgAhqQEBAKkCACGxAUAAqAIAIc0BAQCmAgAhzgEBAKkCACHPAUAAqgIAIdABAgCnAgAh0QFAAKgCACEKBwAA_wIAIAwAAIEDACCoAQEApgIAIakBAQCpAgAhsQFAAKgCACHNAQEApgIAIc4BAQCpAgAhzwFAAKoCACHQAQIApwIAIdEBQACoAgAhAcMBAQAAAAEBwQEBAAAAAQMLAADaAgAgqAEBAAAAAakBAQAAAAECAAAAdwAgGQAAwQMAIAMAAAB6ACAZAADBAwAgGgAAxQMAIAUAAAB6ACALAADAAgAgEgAAxQMAIKgBAQCmAgAhqQEBAKYCACEDCwAAwAIAIKgBAQCmAgAhqQEBAKYCACEDCgAA2QIAIKgBAQAAAAGpAQEAAAABAgAAAHcAIBkAAMYDACAKBwAAowMAIAgAAKQDACCoAQEAAAABqQEBAAAAAbEBQAAAAAHNAQEAAAABzgEBAAAAAc8BQAAAAAHQAQIAAAAB0QFAAAAAAQIAAAABACAZAADIAwAgAwAAAHoAIBkAAMYDACAaAADMAwAgBQAAAHoAIAoAAL8CACASAADMAwAgqAEBAKYCACGpAQEApgIAIQMKAAC_AgAgqAEBAKYCACGpAQEApgIAIQMAAAAfACAZAADIAwAgGgAAzwMAIAwAAAAfACAHAAD_AgAgCAAAgAMAIBIAAM8DACCoAQEApgIAIakBAQCpAgAhsQFAAKgCACHNAQEApgIAIc4BAQCpAgAhzwFAAKoCACHQAQIApwIAIdEBQACoAgAhCgcAAP8CACAIAACAAwAgqAEBAKYCACGpAQEAqQIAIbEBQACoAgAhzQEBAKYCACHOAQEAqQIAIc8BQACqAgAh0AECAKcCACHRAUAAqAIAIQQGAAoHBgIIDwUMEwYDAwABBQoDBgAEAQQAAgEFCwABAwABAgMAAQkABwMGAAkKFwgLGAYBCQAHAgoZAAsaAAMHGwAIHAAMHQAAAAAFBgAPHwAQIAARIQASIgATAAAAAAAFBgAPHwAQIAARIQASIgATAQMAAQEDAAEDBgAYIQAZIgAaAAAAAwYAGCEAGSIAGgEEAAIBBAACAwYAHyEAICIAIQAAAAMGAB8hACAiACEBAwABAQMAAQMGACYhACciACgAAAADBgAmIQAnIgAoAAADBgAtIQAuIgAvAAAAAwYALSEALiIALwEJAAcBCQAHAwYANCEANSIANgAAAAMGADQhADUiADYCAwABCQAHAgMAAQkABwMGADshADwiAD0AAAADBgA7IQA8IgA9AAAABQYAQx8ARCAARSEARiIARwAAAAAABQYAQx8ARCAARSEARiIARwAAAAUGAE0fAE4gAE8hAFAiAFEAAAAAAAUGAE0fAE4gAE8hAFAiAFENAgEOHgEPIQEQIgERIwETJQEUJwsVKAwWKgEXLAsYLQ0bLgEcLwEdMAsjMw4kNBQlNQImNgInNwIoOAIpOQIqOwIrPQssPhUtQAIuQgsvQxYwRAIxRQIyRgszSRc0Shs1SwM2TAM3TQM4TgM5TwM6UQM7Uws8VBw9VgM-WAs_WR1AWgNBWwNCXAtDXx5EYCJFYQVGYgVHYwVIZAVJZQVKZwVLaQtMaiNNbAVObgtPbyRQcAVRcQVScgtTdSVUdilVeAdWeQdXfAdYfQdZfgdagAEHW4IBC1yDASpdhQEHXocBC1-IAStgiQEHYYoBB2KLAQtjjgEsZI8BMGWQAQhmkQEIZ5IBCGiTAQhplAEIapYBCGuYAQtsmQExbZsBCG6dAQtvngEycJ8BCHGgAQhyoQELc6QBM3SlATd1pgEGdqcBBneoAQZ4qQEGeaoBBnqsAQZ7rgELfK8BOH2xAQZ-swELf7QBOYABtQEGgQG2AQaCAbcBC4MBugE6hAG7AT6FAb0BP4YBvgE_hwHBAT-IAcIBP4kBwwE_igHFAT-LAccBC4wByAFAjQHKAT-OAcwBC48BzQFBkAHOAT-RAc8BP5IB0AELkwHTAUKUAdQBSJUB1gFJlgHXAUmXAdoBSZgB2wFJmQHcAUmaAd4BSZsB4AELnAHhAUqdAeMBSZ4B5QELnwHmAUugAecBSaEB6AFJogHpAQujAewBTKQB7QFS',
+}
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -38,12 +49,14 @@ async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Modul
 }
 
 config.compilerWasm = {
-  getRuntime: async () => await import('@prisma/client/runtime/query_compiler_bg.sqlite.js'),
+  getRuntime: async () => await import('@prisma/client/runtime/query_compiler_fast_bg.sqlite.js'),
 
   getQueryCompilerWasmModule: async () => {
-    const { wasm } = await import('@prisma/client/runtime/query_compiler_bg.sqlite.wasm-base64.js')
+    const { wasm } = await import('@prisma/client/runtime/query_compiler_fast_bg.sqlite.wasm-base64.js')
     return await decodeBase64AsWasm(wasm)
   },
+
+  importName: './query_compiler_fast_bg.js',
 }
 
 export type LogOptions<ClientOptions extends Prisma.PrismaClientOptions> = 'log' extends keyof ClientOptions
@@ -59,7 +72,9 @@ export interface PrismaClientConstructor {
    * Type-safe database client for TypeScript
    * @example
    * ```
-   * const prisma = new PrismaClient()
+   * const prisma = new PrismaClient({
+   *   adapter: new PrismaPg({ connectionString: process.env.DATABASE_URL })
+   * })
    * // Fetch zero or more Users
    * const users = await prisma.user.findMany()
    * ```
@@ -75,7 +90,7 @@ export interface PrismaClientConstructor {
       : Prisma.PrismaClientOptions['omit'],
     ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
   >(
-    options: Prisma.Subset<Options, Prisma.PrismaClientOptions>,
+    options: Prisma.PrismaClientConstructorArgs<Options>,
   ): PrismaClient<LogOpts, OmitOpts, ExtArgs>
 }
 
@@ -85,7 +100,9 @@ export interface PrismaClientConstructor {
  * Type-safe database client for TypeScript
  * @example
  * ```
- * const prisma = new PrismaClient()
+ * const prisma = new PrismaClient({
+ *   adapter: new PrismaPg({ connectionString: process.env.DATABASE_URL })
+ * })
  * // Fetch zero or more Users
  * const users = await prisma.user.findMany()
  * ```
@@ -95,7 +112,7 @@ export interface PrismaClientConstructor {
 
 export interface PrismaClient<
   in LogOpts extends Prisma.LogLevel = never,
-  in out OmitOpts extends Prisma.PrismaClientOptions['omit'] = undefined,
+  in out OmitOpts extends Prisma.PrismaClientOptions['omit'] = Prisma.PrismaClientOptions['omit'],
   in out ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
 > {
   [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['other'] }
@@ -172,11 +189,11 @@ export interface PrismaClient<
    * ])
    * ```
    *
-   * Read more in our [docs](https://www.prisma.io/docs/concepts/components/prisma-client/transactions).
+   * Read more in our [docs](https://www.prisma.io/docs/orm/prisma-client/queries/transactions).
    */
   $transaction<P extends Prisma.PrismaPromise<any>[]>(
     arg: [...P],
-    options?: { isolationLevel?: Prisma.TransactionIsolationLevel },
+    options?: { maxWait?: number; timeout?: number; isolationLevel?: Prisma.TransactionIsolationLevel },
   ): runtime.Types.Utils.JsPromise<runtime.Types.Utils.UnwrapTuple<P>>
 
   $transaction<R>(
@@ -205,6 +222,86 @@ export interface PrismaClient<
    * ```
    */
   get user(): Prisma.UserDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.session`: Exposes CRUD operations for the **Session** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Sessions
+   * const sessions = await prisma.session.findMany()
+   * ```
+   */
+  get session(): Prisma.SessionDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.refreshToken`: Exposes CRUD operations for the **RefreshToken** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more RefreshTokens
+   * const refreshTokens = await prisma.refreshToken.findMany()
+   * ```
+   */
+  get refreshToken(): Prisma.RefreshTokenDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.passwordResetToken`: Exposes CRUD operations for the **PasswordResetToken** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more PasswordResetTokens
+   * const passwordResetTokens = await prisma.passwordResetToken.findMany()
+   * ```
+   */
+  get passwordResetToken(): Prisma.PasswordResetTokenDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.role`: Exposes CRUD operations for the **Role** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Roles
+   * const roles = await prisma.role.findMany()
+   * ```
+   */
+  get role(): Prisma.RoleDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.rolePermission`: Exposes CRUD operations for the **RolePermission** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more RolePermissions
+   * const rolePermissions = await prisma.rolePermission.findMany()
+   * ```
+   */
+  get rolePermission(): Prisma.RolePermissionDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.userRole`: Exposes CRUD operations for the **UserRole** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more UserRoles
+   * const userRoles = await prisma.userRole.findMany()
+   * ```
+   */
+  get userRole(): Prisma.UserRoleDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.outboxMessage`: Exposes CRUD operations for the **OutboxMessage** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more OutboxMessages
+   * const outboxMessages = await prisma.outboxMessage.findMany()
+   * ```
+   */
+  get outboxMessage(): Prisma.OutboxMessageDelegate<ExtArgs, { omit: OmitOpts }>
+
+  /**
+   * `prisma.job`: Exposes CRUD operations for the **Job** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Jobs
+   * const jobs = await prisma.job.findMany()
+   * ```
+   */
+  get job(): Prisma.JobDelegate<ExtArgs, { omit: OmitOpts }>
 }
 
 export function getPrismaClientClass(): PrismaClientConstructor {
@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+import { prisma } from './client'
+import { ConnectionLock } from './connection-lock'
+import { Prisma } from './generated/client/client'
+
+/**
+ * Transaction of the unit of work running in the current async context
+ */
+export const transactionStorage = new AsyncLocalStorage<Prisma.TransactionClient>()
+
+const connectionLock = new ConnectionLock()
+
+/**
+ * Global client whose queries wait for the running transaction instead of landing inside it
+ */
+const lockedClient = prisma.$extends({
+  query: {
+    $allOperations: ({ args, query }) => connectionLock.query(() => query(args)),
+  },
+}) as unknown as Prisma.TransactionClient
+
+/**
+ * Client repositories should query through: the current transaction when there is one, the global client otherwise
+ */
+export function db(): Prisma.TransactionClient {
+  return transactionStorage.getStore() ?? lockedClient
+}
+
+/**
+ * Runs `work` in a transaction, joining the current one when there is one
+ * The connection is held until it ends, so `work` should only query: no hashing, emails or other slow calls
+ * @param options - Milliseconds to wait for the transaction to start (`maxWait`) and to finish (`timeout`)
+ */
+export async function transaction<T>(
+  work: (tx: Prisma.TransactionClient) => Promise<T>,
+  options?: { maxWait?: number; timeout?: number },
+): Promise<T> {
+  const current = transactionStorage.getStore()
+  if (current) {
+    return work(current)
+  }
+
+  return connectionLock.transaction(() =>
+    prisma.$transaction((tx) => transactionStorage.run(tx, () => work(tx)), options),
+  )
+}
@@ -0,0 +1,101 @@
+import { performance } from 'node:perf_hooks'
+
+/**
+ * Probe of a dependency the application needs to serve requests, e.g. a database ping
+ * Resolves when the dependency is usable and rejects otherwise
+ */
+export type HealthCheck = () => Promise<void>
+
+/**
+ * Default time a check may take before it counts as failed
+ */
+export const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 2000
+
+/**
+ * Outcome of one check
+ */
+export interface HealthCheckResult {
+  status: 'up' | 'down'
+  latencyMs: number
+  error?: string
+}
+
+/**
+ * Outcome of every check: ready when all of them are up and the server isn't shutting down
+ */
+export interface HealthReport {
+  status: 'ready' | 'unavailable' | 'shutting_down'
+  checks: Record<string, HealthCheckResult>
+}
+
+interface HealthCheckRegistration {
+  check: HealthCheck
+  timeoutMs: number
+}
+
+/**
+ * Checks run by the readiness endpoint, filled by startup and the feature modules' registerHealthChecks
+ */
+export class HealthRegistry {
+  private readonly checks = new Map<string, HealthCheckRegistration>()
+  private shuttingDown = false
+
+  /**
+   * Register a check under a unique name
+   * @param options - `timeoutMs`: time the check may take (default: 2 seconds)
+   * @throws Error when the name is taken
+   */
+  register(name: string, check: HealthCheck, options: { timeoutMs?: number } = {}): void {
+    if (this.checks.has(name)) {
+      throw new Error(`A health check named ${name} is already registered`)
+    }
+    this.checks.set(name, { check, timeoutMs: options.timeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS })
+  }
+
+  /**
+   * Report the server as unavailable from now on, so load balancers stop routing to it while it drains
+   */
+  markShuttingDown(): void {
+    this.shuttingDown = true
+  }
+
+  /**
+   * Run every check at once
+   * A check that throws or exceeds its timeout is down; the others still run
+   * Nothing runs once shutting down: the checked connections may already be closed, and a ping would reopen them
+   */
+  async run(): Promise<HealthReport> {
+    if (this.shuttingDown) {
+      return { status: 'shutting_down', checks: {} }
+    }
+
+    const results = await Promise.all(
+      [...this.checks].map(async ([name, registration]) => [name, await runCheck(registration)] as const),
+    )
+
+    return {
+      status: results.every(([, result]) => result.status === 'up') ? 'ready' : 'unavailable',
+      checks: Object.fromEntries(results),
+    }
+  }
+}
+
+async function runCheck({ check, timeoutMs }: HealthCheckRegistration): Promise<HealthCheckResult> {
+  const startedAt = performance.now()
+  const latency = () => Math.round(performance.now() - startedAt)
+  let timer: NodeJS.Timeout | undefined
+
+  try {
+    await Promise.race([
+      check(),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs)
+      }),
+    ])
+    return { status: 'up', latencyMs: latency() }
+  } catch (error) {
+    return { status: 'down', latencyMs: latency(), error: error instanceof Error ? error.message : String(error) }
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,26 @@
+import { RequestHandler, Router } from 'express'
+
+import { HealthRegistry } from './health-registry'
+
+/**
+ * Serves the probes of the server
+ * - `/health/live`: the process answers requests; restart it when this fails
+ * - `/health/ready`: every registered check passes; route traffic to it only while this succeeds (503 otherwise)
+ * - `/health`: kept as an alias of the liveness probe
+ */
+export function healthRouter(registry: HealthRegistry): Router {
+  const router = Router()
+
+  const live: RequestHandler = (_req, res) => {
+    res.status(200).json({ status: 'ok' })
+  }
+
+  router.get('/health', live)
+  router.get('/health/live', live)
+  router.get('/health/ready', async (_req, res) => {
+    const report = await registry.run()
+    res.status(report.status === 'ready' ? 200 : 503).json(report)
+  })
+
+  return router
+}
@@ -0,0 +1,8 @@
+export {
+  DEFAULT_HEALTH_CHECK_TIMEOUT_MS,
+  HealthCheck,
+  HealthCheckResult,
+  HealthRegistry,
+  HealthReport,
+} from './health-registry'
+export { healthRouter } from './health-router'
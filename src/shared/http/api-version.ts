@@ -0,0 +1,156 @@
+import { Request, RequestHandler, Router } from 'express'
+
+import { sendError } from './send-error'
+
+import { Errors } from '@/shared/result'
+
+/**
+ * A version of the HTTP API, e.g. `v1`
+ */
+export interface ApiVersion {
+  name: string
+  /**
+   * When the version was deprecated; sent as the `Deprecation` header (RFC 9745)
+   */
+  deprecatedAt?: Date
+  /**
+   * When the version stops being served; sent as the `Sunset` header (RFC 8594)
+   */
+  sunsetAt?: Date
+  /**
+   * Page describing the deprecation or the migration to a newer version
+   */
+  link?: string
+}
+
+/**
+ * Versions served by the API
+ */
+export interface ApiVersioning {
+  /**
+   * Served versions, oldest first
+   */
+  versions: ApiVersion[]
+  /**
+   * Version of unversioned requests that don't ask for one
+   */
+  defaultVersion: string
+  /**
+   * Vendor of the `application/vnd.<vendor>.<version>+json` media type
+   */
+  vendor: string
+}
+
+/**
+ * Routes of a feature, with the API version they belong to
+ */
+export interface VersionedRoutes {
+  version: string
+  basePath: string
+  router: Router
+}
+
+const VERSION_PATTERN = /^v?(\d+)$/i
+
+/**
+ * Version asked for by the `Accept-Version` header or, failing that, by a vendor media type in `Accept`
+ * `Accept-Version: 2` and `Accept-Version: v2` both ask for `v2`
+ * @returns The requested version, or undefined when the request doesn't ask for one
+ */
+export function requestedVersion(req: Request, vendor: string): string | undefined {
+  const header = req.get('Accept-Version')?.trim()
+  if (header) {
+    const match = VERSION_PATTERN.exec(header)
+    return match ? `v${match[1]}` : header
+  }
+
+  const mediaType = new RegExp(
+    `application/vnd\\.${vendor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\.(v\\d+)\\+json`,
+    'i',
+  )
+  return mediaType.exec(req.get('Accept') ?? '')?.[1]?.toLowerCase()
+}
+
+/**
+ * Sets the headers telling clients which version answered and whether it is going away
+ */
+export function versionHeaders(version: ApiVersion): RequestHandler {
+  return (_req, res, next) => {
+    res.set('API-Version', version.name)
+
+    if (version.deprecatedAt) {
+      res.set('Deprecation', `@${Math.floor(version.deprecatedAt.getTime() / 1000)}`)
+    }
+    if (version.sunsetAt) {
+      res.set('Sunset', version.sunsetAt.toUTCString())
+    }
+    if (version.link && (version.deprecatedAt || version.sunsetAt)) {
+      res.append('Link', `<${version.link}>; rel="deprecation"`)
+    }
+
+    next()
+  }
+}
+
+/**
+ * Router serving every version under its prefix (`/v1/users`) and unversioned paths (`/users`)
+ * through the version negotiated from the request headers
+ * A version also serves the routes of older versions it doesn't redeclare, so a new version only
+ * contains the endpoints that changed
+ * @param routes - Routes of every feature module
+ * @param versioning - Served versions
+ * @throws Error when a route belongs to a version that isn't served
+ */
+export function versionedRouter(routes: VersionedRoutes[], versioning: ApiVersioning): Router {
+  const names = versioning.versions.map((version) => version.name)
+
+  for (const name of [...routes.map((route) => route.version), versioning.defaultVersion]) {
+    if (!names.includes(name)) {
+      throw new Error(`API version ${name} is not served, expected one of ${names.join(', ')}`)
+    }
+  }
+
+  const routers = new Map<string, Router>()
+
+  versioning.versions.forEach((version, index) => {
+    const router = Router()
+    router.use(versionHeaders(version))
+
+    // Newest first, so a version's own routes shadow the ones it inherits
+    names
+      .slice(0, index + 1)
+      .reverse()
+      .forEach((name) => {
+        routes.filter((route) => route.version === name).forEach((route) => router.use(route.basePath, route.router))
+      })
+
+    routers.set(version.name, router)
+  })
+
+  const root = Router()
+
+  routers.forEach((router, name) => root.use(`/${name}`, router))
+
+  root.use((req, res, next) => {
+    res.vary('Accept-Version')
+    res.vary('Accept')
+
+    const version = requestedVersion(req, versioning.vendor) ?? versioning.defaultVersion
+    const router = routers.get(version)
+
+    if (!router) {
+      sendError(
+        req,
+        res,
+        Errors.validation(`Unsupported API version ${version}`, {
+          'Accept-Version': [`Expected one of ${names.join(', ')}`],
+        }),
+      )
+      return
+    }
+
+    router(req, res, next)
+  })
+
+  return root
+}
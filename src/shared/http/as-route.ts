@@ -0,0 +1,53 @@
+import { Request, RequestHandler } from 'express'
+
+import { sendError } from './send-error'
+
+import { DomainError, map, match, Result } from '@/shared/result'
+
+/**
+ * Route options for a Result-returning action
+ */
+export interface RouteOptions {
+  /**
+   * Status code sent on success (defaults to 200, or 204 when the action returns no value)
+   */
+  status?: number
+}
+
+/**
+ * Controller action producing a Result from an HTTP request
+ */
+export type RouteAction<T> = (req: Request) => Promise<Result<T, DomainError>>
+
+/**
+ * Adapts a Result-returning action into an Express route handler
+ * Success values are sent as JSON, failures go through sendError; exceptions reach the error middleware
+ */
+export function asRoute<T>(action: RouteAction<T>, options: RouteOptions = {}): RequestHandler {
+  return async (req, res) => {
+    const result = await action(req)
+
+    match(result, {
+      onSuccess: (value) => {
+        if (value === undefined) {
+          res.status(options.status ?? 204).end()
+          return
+        }
+        res.status(options.status ?? 200).json(value)
+      },
+      onFailure: (error) => {
+        sendError(req, res, error)
+      },
+    })
+  }
+}
+
+/**
+ * Reshapes the success value of an action, leaving failures untouched
+ * Lets a newer API version reuse an older version's controller and handler with a different response body
+ * @param action - Action of the older version
+ * @param mapper - Builds the response of the newer version
+ */
+export function mapResponse<T, U>(action: RouteAction<T>, mapper: (value: T) => U): RouteAction<U> {
+  return async (req) => map(await action(req), mapper)
+}
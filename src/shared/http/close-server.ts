@@ -0,0 +1,37 @@
+import { Server } from 'node:http'
+
+/**
+ * How often connections that became idle since the server started closing are closed
+ */
+const IDLE_SWEEP_INTERVAL_MS = 50
+
+/**
+ * Stop accepting connections and wait for the requests in flight to finish
+ * Keep-alive connections are closed as soon as they are idle, and requests arriving on them
+ * meanwhile are answered with `Connection: close`
+ * @param timeoutMs - Time the requests in flight get before their connections are cut
+ * @returns Whether every request finished in time
+ */
+export function closeServer(server: Server, timeoutMs: number): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    server.on('request', (_req, res) => res.setHeader('Connection', 'close'))
+
+    const sweep = setInterval(() => server.closeIdleConnections(), IDLE_SWEEP_INTERVAL_MS)
+    const timer = setTimeout(() => {
+      clearInterval(sweep)
+      server.closeAllConnections()
+      resolve(false)
+    }, timeoutMs)
+
+    server.close((error) => {
+      clearInterval(sweep)
+      clearTimeout(timer)
+      if (error) {
+        reject(error)
+      } else {
+        resolve(true)
+      }
+    })
+    server.closeIdleConnections()
+  })
+}
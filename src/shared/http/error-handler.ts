@@ -0,0 +1,27 @@
+import { ErrorRequestHandler } from 'express'
+
+import { exceptionToDomainError } from './exception-mapping'
+import { sendError } from './send-error'
+
+import { logger } from '@/shared/logging'
+
+const log = logger.child({ component: 'ErrorHandler' })
+
+/**
+ * Express error middleware
+ * Turns any exception reaching Express into a DomainError response; must be registered after all routes
+ */
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) {
+    next(err)
+    return
+  }
+
+  const error = exceptionToDomainError(err)
+
+  if (error.code === 'INTERNAL_ERROR') {
+    log.error(`${req.method} ${req.originalUrl} failed`, { error: err })
+  }
+
+  sendError(req, res, error)
+}
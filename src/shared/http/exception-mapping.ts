@@ -0,0 +1,83 @@
+import { z } from 'zod'
+
+import { DomainError, Errors } from '@/shared/result'
+import { toValidationError } from '@/shared/validation'
+
+/**
+ * Shape of the Prisma known request errors we translate
+ * Matched structurally so this module doesn't load the generated client
+ */
+interface PrismaKnownRequestError {
+  name: 'PrismaClientKnownRequestError'
+  code: string
+  meta?: {
+    modelName?: string
+    target?: string | string[]
+    driverAdapterError?: { cause?: { constraint?: { fields?: string[] } } }
+  }
+}
+
+/**
+ * Shape of the errors raised by express.json() (body-parser), e.g. `entity.too.large` with status 413
+ */
+interface BodyParserError extends Error {
+  type: string
+  status: number
+}
+
+function isPrismaKnownRequestError(error: unknown): error is PrismaKnownRequestError {
+  return error instanceof Error && error.name === 'PrismaClientKnownRequestError' && 'code' in error
+}
+
+function isBodyParserError(error: unknown): error is BodyParserError {
+  return error instanceof Error && 'type' in error && 'status' in error
+}
+
+/**
+ * Translates a thrown exception into the matching DomainError
+ * - ZodError: ValidationError with issue details
+ * - Prisma P2002 (unique constraint): ConflictError
+ * - Prisma P2025 (record not found): NotFoundError
+ * - Malformed JSON body: ValidationError
+ * - Other body-parser errors, by their status: PayloadTooLargeError (413), UnsupportedMediaTypeError (415)
+ *   or ValidationError (other 4xx, e.g. an aborted request)
+ * - Anything else: InternalError keeping the exception as cause (never sent to clients)
+ */
+export function exceptionToDomainError(error: unknown): DomainError {
+  if (error instanceof z.ZodError) {
+    return toValidationError(error)
+  }
+
+  if (isPrismaKnownRequestError(error)) {
+    const resource = error.meta?.modelName ?? 'Resource'
+
+    if (error.code === 'P2002') {
+      // Driver adapters report the violated fields on the adapter error instead of `target`
+      const target = error.meta?.target ?? error.meta?.driverAdapterError?.cause?.constraint?.fields
+      const fields = Array.isArray(target) ? target.join(', ') : target
+      return Errors.conflict(resource, fields ? `${resource} with this ${fields} already exists` : undefined)
+    }
+
+    if (error.code === 'P2025') {
+      return Errors.notFound(resource)
+    }
+  }
+
+  if (isBodyParserError(error)) {
+    if (error.type === 'entity.parse.failed') {
+      return Errors.validation('Malformed JSON in request body')
+    }
+    // Client errors of body-parser have messages meant for the client, e.g. `unsupported content encoding "compress"`
+    if (error.status === 413) {
+      return Errors.payloadTooLarge()
+    }
+    if (error.status === 415) {
+      return Errors.unsupportedMediaType(error.message)
+    }
+    if (error.status >= 400 && error.status < 500) {
+      return Errors.validation(error.message)
+    }
+  }
+
+  return Errors.internal('An unexpected error occurred', error)
+}
@@ -0,0 +1,17 @@
+export { RequestSource, RequestSchemas, ParsedRequest, parseRequest } from './parse-request'
+export { PROBLEM_JSON, ProblemDetails, problemTypeUri, errorToProblemDetails } from './problem-details'
+export { sendError } from './send-error'
+export { exceptionToDomainError } from './exception-mapping'
+export { errorHandler } from './error-handler'
+export { RouteAction, RouteOptions, asRoute, mapResponse } from './as-route'
+export {
+  ApiVersion,
+  ApiVersioning,
+  VersionedRoutes,
+  requestedVersion,
+  versionHeaders,
+  versionedRouter,
+} from './api-version'
+export { requestContext } from './request-context'
+export { closeServer } from './close-server'
+export { REQUEST_ID_HEADER, requestId } from './request-id'
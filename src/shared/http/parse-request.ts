@@ -0,0 +1,57 @@
+import { Request } from 'express'
+import { z } from 'zod'
+
+import { Errors, failure, isFailure, Result, success, ValidationError } from '@/shared/result'
+import { validate } from '@/shared/validation'
+
+/**
+ * Parts of an HTTP request that can be validated
+ */
+export type RequestSource = 'body' | 'params' | 'query'
+
+/**
+ * Zod schemas for each part of the request to validate
+ */
+export type RequestSchemas = Partial<Record<RequestSource, z.ZodType>>
+
+/**
+ * Parsed request parts, typed from their schemas
+ */
+export type ParsedRequest<TSchemas extends RequestSchemas> = {
+  [K in keyof TSchemas]: TSchemas[K] extends z.ZodType ? z.output<TSchemas[K]> : never
+}
+
+/**
+ * Validates body, route params and query string of an Express request without throwing
+ * Issues from every source are collected into a single ValidationError, keyed by source and path
+ * (`params.id`, `body.email`) so that an `id` in the path and one in the body stay apart
+ * @param req - Express request
+ * @param schemas - Schema per request part; parts without a schema are skipped
+ */
+export function parseRequest<TSchemas extends RequestSchemas>(
+  req: Request,
+  schemas: TSchemas,
+): Result<ParsedRequest<TSchemas>, ValidationError> {
+  const parsed: Partial<Record<RequestSource, unknown>> = {}
+  const details: Record<string, string[]> = {}
+
+  for (const source of Object.keys(schemas) as RequestSource[]) {
+    const schema = schemas[source]
+    if (!schema) continue
+
+    const result = validate(schema, req[source] ?? {})
+    if (isFailure(result)) {
+      for (const [key, messages] of Object.entries(result.error.details ?? {})) {
+        details[`${source}.${key}`] = messages
+      }
+    } else {
+      parsed[source] = result.value
+    }
+  }
+
+  if (Object.keys(details).length > 0) {
+    return failure(Errors.validation('Validation failed', details))
+  }
+
+  return success(parsed as ParsedRequest<TSchemas>)
+}
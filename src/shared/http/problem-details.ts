@@ -0,0 +1,84 @@
+import { DomainError, errorToHttpStatus } from '@/shared/result'
+
+/**
+ * Media type of RFC 9457 Problem Details responses
+ */
+export const PROBLEM_JSON = 'application/problem+json'
+
+/**
+ * Base URI of the problem type identifiers
+ * Relative references are allowed by RFC 9457 and resolve against the API origin
+ */
+const PROBLEM_TYPE_BASE = '/problems'
+
+/**
+ * Problem type slug and human-readable title for every error code
+ */
+const problemTypes: Record<DomainError['code'], { slug: string; title: string }> = {
+  VALIDATION_ERROR: { slug: 'validation-error', title: 'Your request is not valid' },
+  NOT_FOUND: { slug: 'not-found', title: 'Resource not found' },
+  CONFLICT: { slug: 'conflict', title: 'Resource conflict' },
+  UNAUTHORIZED: { slug: 'unauthorized', title: 'Authentication required' },
+  FORBIDDEN: { slug: 'forbidden', title: 'Access denied' },
+  PAYLOAD_TOO_LARGE: { slug: 'payload-too-large', title: 'Request body too large' },
+  UNSUPPORTED_MEDIA_TYPE: { slug: 'unsupported-media-type', title: 'Unsupported request body' },
+  RATE_LIMITED: { slug: 'rate-limited', title: 'Too many requests' },
+  INTERNAL_ERROR: { slug: 'internal-error', title: 'Internal server error' },
+}
+
+/**
+ * RFC 9457 Problem Details object
+ * `code`, `resource`, `errors` and `retryAfter` are extension members
+ */
+export interface ProblemDetails {
+  type: string
+  title: string
+  status: number
+  detail: string
+  instance?: string
+  code: DomainError['code']
+  resource?: string
+  errors?: Record<string, string[]>
+  retryAfter?: number
+}
+
+/**
+ * Returns the problem type URI for an error code
+ */
+export function problemTypeUri(code: DomainError['code']): string {
+  return `${PROBLEM_TYPE_BASE}/${problemTypes[code].slug}`
+}
+
+/**
+ * Formats a DomainError as RFC 9457 Problem Details
+ * The cause of an InternalError is never exposed
+ * @param error - Domain error to serialize
+ * @param instance - URI reference of the occurrence, usually the request path
+ */
+export function errorToProblemDetails(error: DomainError, instance?: string): ProblemDetails {
+  const problem: ProblemDetails = {
+    type: problemTypeUri(error.code),
+    title: problemTypes[error.code].title,
+    status: errorToHttpStatus(error),
+    detail: error.message,
+    instance,
+    code: error.code,
+  }
+
+  switch (error.code) {
+    case 'NOT_FOUND':
+    case 'CONFLICT':
+      problem.resource = error.resource
+      break
+    case 'VALIDATION_ERROR':
+      if (error.details) {
+        problem.errors = error.details
+      }
+      break
+    case 'RATE_LIMITED':
+      problem.retryAfter = error.retryAfterSeconds
+      break
+  }
+
+  return problem
+}
@@ -0,0 +1,11 @@
+import { Request } from 'express'
+
+import { RequestContext } from '@/shared/cqs'
+
+/**
+ * Builds the mediator context for an HTTP request
+ * Controllers pass it along with the request so handlers can see who is calling
+ */
+export function requestContext(req: Request): RequestContext {
+  return { principal: req.principal }
+}
@@ -0,0 +1,27 @@
+import { randomUUID } from 'node:crypto'
+
+import { RequestHandler } from 'express'
+
+import { withLogContext } from '@/shared/logging'
+
+export const REQUEST_ID_HEADER = 'X-Request-Id'
+
+/**
+ * IDs accepted from clients or proxies; anything else is replaced, so logs can't be forged through the header
+ */
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/
+
+/**
+ * Middleware giving every request an ID, taken from `X-Request-Id` or generated, and echoing it in the response
+ * The rest of the request runs in a log context, so every line logged while handling it carries the ID
+ * Must come before every other middleware
+ */
+export function requestId(): RequestHandler {
+  return (req, res, next) => {
+    const header = req.get(REQUEST_ID_HEADER)
+    const id = header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID()
+
+    res.set(REQUEST_ID_HEADER, id)
+    withLogContext({ requestId: id }, () => next())
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response } from 'express'
+
+import { errorToProblemDetails, PROBLEM_JSON } from './problem-details'
+
+import { DomainError, errorToResponse } from '@/shared/result'
+
+/**
+ * Writes a DomainError to the HTTP response
+ * Clients asking for `application/problem+json` get RFC 9457 Problem Details,
+ * everyone else keeps getting the `{ code, message, details }` body
+ */
+export function sendError(req: Request, res: Response, error: DomainError): void {
+  res.vary('Accept')
+
+  if (error.code === 'RATE_LIMITED') {
+    res.set('Retry-After', String(error.retryAfterSeconds))
+  }
+
+  if (req.accepts(['application/json', PROBLEM_JSON]) === PROBLEM_JSON) {
+    const problem = errorToProblemDetails(error, req.baseUrl + req.path)
+    res.status(problem.status).type(PROBLEM_JSON).json(problem)
+    return
+  }
+
+  const { status, body } = errorToResponse(error)
+  res.status(status).json(body)
+}
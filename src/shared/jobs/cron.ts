@@ -0,0 +1,151 @@
+interface FieldRange {
+  min: number
+  max: number
+}
+
+const FIELD_RANGES: FieldRange[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 }, // day of week, 0 and 7 are Sunday
+]
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+/**
+ * Searching further than this means the expression can never match (e.g. February 31st)
+ */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+function parseField(source: string, { min, max }: FieldRange, expression: string): Set<number> {
+  const values = new Set<number>()
+  const invalid = () => new Error(`Invalid cron expression "${expression}": bad field "${source}"`)
+  const toNumber = (text: string) => {
+    const value = Number(text)
+    if (!/^\d+$/.test(text) || value < min || value > max) {
+      throw invalid()
+    }
+    return value
+  }
+
+  for (const part of source.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid()
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      ;[start, end] = [min, max]
+    } else if (range.includes('-')) {
+      ;[start, end] = range.split('-').map(toNumber)
+    } else {
+      start = toNumber(range)
+      end = stepText === undefined ? start : max
+    }
+    if (start > end) {
+      throw invalid()
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Standard five-field cron expression (minute hour day-of-month month day-of-week), evaluated in UTC
+ * Supports `*`, lists, ranges, steps and the @hourly/@daily/@weekly/@monthly/@yearly shortcuts
+ */
+export class CronExpression {
+  private constructor(
+    public readonly source: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly restrictsDayOfMonth: boolean,
+    private readonly restrictsDayOfWeek: boolean,
+  ) {}
+
+  /**
+   * @throws Error when the expression is malformed
+   */
+  static parse(expression: string): CronExpression {
+    const fields = (MACROS[expression.trim()] ?? expression).trim().split(/\s+/)
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+      parseField(field, FIELD_RANGES[index], expression),
+    )
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0)
+    }
+
+    return new CronExpression(
+      expression,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      !fields[2].startsWith('*'),
+      !fields[4].startsWith('*'),
+    )
+  }
+
+  /**
+   * First matching minute strictly after the given date
+   */
+  next(after: Date): Date {
+    const date = new Date(after)
+    date.setUTCSeconds(0, 0)
+    date.setUTCMinutes(date.getUTCMinutes() + 1)
+    const limit = after.getTime() + MAX_SEARCH_MS
+
+    while (date.getTime() <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1)
+        date.setUTCHours(0, 0, 0, 0)
+      } else if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1)
+        date.setUTCHours(0, 0, 0, 0)
+      } else if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0)
+      } else if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0)
+      } else {
+        return date
+      }
+    }
+
+    throw new Error(`Cron expression "${this.source}" never matches`)
+  }
+
+  /**
+   * Like cron, a day matches either field when both day-of-month and day-of-week are restricted
+   */
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate())
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay())
+
+    if (this.restrictsDayOfMonth && this.restrictsDayOfWeek) {
+      return dayOfMonth || dayOfWeek
+    }
+    return dayOfMonth && dayOfWeek
+  }
+}
@@ -0,0 +1,28 @@
+import { EnqueueOptions, Job } from './job'
+import { JobQueue } from './job-queue'
+
+import { Command, CommandHandler } from '@/shared/cqs'
+import { DomainError, Result, success } from '@/shared/result'
+
+/**
+ * Enqueue a background job
+ * Sent through the mediator, it runs in the unit of work of the sending handler (or its own one),
+ * so the job is only stored when the surrounding command commits
+ */
+export class EnqueueJobCommand extends Command<void> {
+  constructor(
+    public readonly job: Job,
+    public readonly options: EnqueueOptions = {},
+  ) {
+    super()
+  }
+}
+
+export class EnqueueJobCommandHandler implements CommandHandler<EnqueueJobCommand> {
+  constructor(private readonly queue: JobQueue) {}
+
+  async execute(command: EnqueueJobCommand): Promise<Result<void, DomainError>> {
+    await this.queue.enqueue(command.job, command.options)
+    return success(undefined)
+  }
+}
@@ -0,0 +1,7 @@
+export { Job, JobType, JobHandler, EnqueueOptions } from './job'
+export { QueuedJob, JobStatus, NewJob, JobRepository } from './queued-job'
+export { CronExpression } from './cron'
+export { JobRegistry, JobRegistration, RecurringJob } from './job-registry'
+export { JobQueue, DEFAULT_MAX_ATTEMPTS } from './job-queue'
+export { JobWorker, JobWorkerOptions } from './job-worker'
+export { EnqueueJobCommand, EnqueueJobCommandHandler } from './enqueue-job'
@@ -0,0 +1,35 @@
+import { EnqueueOptions, Job, JobType } from './job'
+import { JobRepository } from './queued-job'
+
+/**
+ * Attempts before a job is dead-lettered when its type doesn't set maxAttempts
+ */
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+/**
+ * Adds jobs to the queue
+ * Handlers enqueue through the mediator with EnqueueJobCommand instead, so the job is only
+ * stored if their unit of work commits
+ */
+export class JobQueue {
+  constructor(private readonly repository: JobRepository) {}
+
+  /**
+   * @returns false when a job with the same unique key already exists
+   * @throws Error when the job class has no static jobName
+   */
+  async enqueue(job: Job, options: EnqueueOptions = {}): Promise<boolean> {
+    const type = job.constructor as Partial<JobType>
+    if (!type.jobName) {
+      throw new Error(`${job.constructor.name} has no static jobName and cannot be enqueued`)
+    }
+
+    return this.repository.add({
+      name: type.jobName,
+      payload: JSON.stringify(job),
+      maxAttempts: type.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(Date.now() + (options.delayMs ?? 0)),
+      uniqueKey: options.uniqueKey ?? null,
+    })
+  }
+}
@@ -0,0 +1,66 @@
+import { CronExpression } from './cron'
+import { Job, JobHandler, JobType } from './job'
+
+/**
+ * Job type registration entry
+ */
+export interface JobRegistration {
+  type: JobType
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  handler: JobHandler<any, unknown>
+}
+
+/**
+ * Job enqueued by the worker every time its cron expression matches
+ */
+export interface RecurringJob {
+  name: string
+  cron: CronExpression
+  create: () => Job
+}
+
+/**
+ * Job types and recurring schedules known to the worker, filled by the feature modules' registerJobs
+ */
+export class JobRegistry {
+  private readonly registrations = new Map<string, JobRegistration>()
+  private readonly recurringJobs = new Map<string, RecurringJob>()
+
+  /**
+   * Register the handler running a job type
+   * @throws Error when another job type already uses the same jobName
+   */
+  register<TJob extends Job>(type: JobType<TJob>, handler: JobHandler<TJob, unknown>): void {
+    if (this.registrations.has(type.jobName)) {
+      throw new Error(`A handler is already registered for job ${type.jobName}`)
+    }
+    this.registrations.set(type.jobName, { type, handler })
+  }
+
+  /**
+   * Enqueue a job every time the cron expression matches (UTC)
+   * @param name - Unique name of the schedule
+   * @param cron - Five-field cron expression, e.g. '0 3 * * *' for every day at 03:00
+   * @param create - Builds the job to enqueue
+   * @throws Error when the name is taken, or the expression is malformed or never matches (e.g. '0 0 31 2 *')
+   */
+  schedule(name: string, cron: string, create: () => Job): void {
+    if (this.recurringJobs.has(name)) {
+      throw new Error(`A recurring job named ${name} is already scheduled`)
+    }
+
+    // Checked here, so such an expression fails at boot instead of every poll of the worker
+    const expression = CronExpression.parse(cron)
+    expression.next(new Date())
+
+    this.recurringJobs.set(name, { name, cron: expression, create })
+  }
+
+  get(jobName: string): JobRegistration | undefined {
+    return this.registrations.get(jobName)
+  }
+
+  schedules(): RecurringJob[] {
+    return [...this.recurringJobs.values()]
+  }
+}
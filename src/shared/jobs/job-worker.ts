@@ -0,0 +1,239 @@
+import { JobQueue } from './job-queue'
+import { JobRegistry } from './job-registry'
+import { JobRepository, QueuedJob } from './queued-job'
+
+import { logger } from '@/shared/logging'
+import { isFailure, tryCatch, tryCatchAsync } from '@/shared/result'
+
+const log = logger.child({ component: 'Jobs' })
+
+export interface JobWorkerOptions {
+  /**
+   * Jobs running at the same time (default: 2)
+   */
+  concurrency?: number
+  /**
+   * Delay between two polls when running in the background (default: 1 second)
+   */
+  pollIntervalMs?: number
+  /**
+   * Delay before the first retry, doubled on every further attempt (default: 5 seconds)
+   */
+  baseRetryDelayMs?: number
+  /**
+   * Upper bound of the retry delay (default: 1 hour)
+   */
+  maxRetryDelayMs?: number
+  /**
+   * How long a claimed job is hidden from other workers, it should outlast the slowest job (default: 5 minutes)
+   */
+  leaseMs?: number
+}
+
+function describe(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message
+  }
+  if (typeof error === 'object' && error !== null && 'message' in error) {
+    return String(error.message)
+  }
+  return String(error)
+}
+
+/**
+ * Runs queued jobs in the background and enqueues the recurring ones when their schedule matches
+ * Execution is at least once: a job whose worker dies mid-run is run again once its lease ends,
+ * so job handlers must tolerate duplicates
+ */
+export class JobWorker {
+  private readonly options: Required<JobWorkerOptions>
+  private readonly queue: JobQueue
+  private readonly active = new Set<Promise<void>>()
+  private readonly nextRuns = new Map<string, Date>()
+  private polling = false
+  private pollInFlight = false
+  private timer?: NodeJS.Timeout
+  private inFlight: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private readonly repository: JobRepository,
+    private readonly registry: JobRegistry,
+    options: JobWorkerOptions = {},
+  ) {
+    this.queue = new JobQueue(repository)
+    this.options = {
+      concurrency: 2,
+      pollIntervalMs: 1000,
+      baseRetryDelayMs: 5000,
+      maxRetryDelayMs: 60 * 60 * 1000,
+      leaseMs: 5 * 60 * 1000,
+      ...options,
+    }
+  }
+
+  /**
+   * Starts polling in the background
+   */
+  start(): void {
+    if (this.polling) {
+      return
+    }
+    this.polling = true
+    this.schedulePoll(0)
+  }
+
+  /**
+   * Stops taking new jobs and waits for the running ones to finish
+   * @param timeoutMs - Give up waiting after this long (default: 30 seconds)
+   * @returns false when jobs were still running at the timeout; they become due again once their lease ends
+   */
+  async stop(timeoutMs = 30_000): Promise<boolean> {
+    this.polling = false
+    clearTimeout(this.timer)
+    await this.inFlight
+
+    let timeout: NodeJS.Timeout | undefined
+    const expired = new Promise<boolean>((resolve) => {
+      timeout = setTimeout(() => resolve(false), timeoutMs)
+    })
+    const drained = await Promise.race([this.idle().then(() => true), expired])
+    clearTimeout(timeout)
+
+    return drained
+  }
+
+  /**
+   * Enqueues the recurring jobs that are due, then starts due jobs up to the concurrency limit
+   * Started jobs keep running after it returns, await idle() to wait for them
+   * @returns Number of jobs started
+   */
+  async poll(now: Date = new Date()): Promise<number> {
+    await this.enqueueRecurring(now)
+
+    const free = this.options.concurrency - this.active.size
+    if (free <= 0) {
+      return 0
+    }
+
+    let started = 0
+    for (const job of await this.repository.findDue(now, free)) {
+      const leaseUntil = new Date(now.getTime() + this.options.leaseMs)
+      if (!(await this.repository.claim(job.id, now, leaseUntil))) {
+        continue
+      }
+
+      const running: Promise<void> = this.run(job, now)
+        .catch((error) => log.error(`Could not record the outcome of ${job.name} job ${job.id}`, { error }))
+        .finally(() => {
+          this.active.delete(running)
+          // A slot is free: look for more work without waiting for the next interval
+          if (this.polling) {
+            this.schedulePoll(0)
+          }
+        })
+      this.active.add(running)
+      started++
+    }
+
+    return started
+  }
+
+  /**
+   * Waits until the jobs started so far have finished
+   */
+  async idle(): Promise<void> {
+    while (this.active.size > 0) {
+      await Promise.all(this.active)
+    }
+  }
+
+  /**
+   * Delay before the given attempt is retried
+   */
+  retryDelayMs(attempts: number): number {
+    return Math.min(this.options.maxRetryDelayMs, this.options.baseRetryDelayMs * 2 ** (attempts - 1))
+  }
+
+  private schedulePoll(delayMs: number): void {
+    clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.tick(), delayMs).unref()
+  }
+
+  private tick(): void {
+    if (!this.polling || this.pollInFlight) {
+      return
+    }
+
+    this.pollInFlight = true
+    this.inFlight = this.poll()
+      .catch((error) => log.error('Polling failed', { error }))
+      .finally(() => {
+        this.pollInFlight = false
+        if (this.polling) {
+          this.schedulePoll(this.options.pollIntervalMs)
+        }
+      })
+  }
+
+  /**
+   * Missed occurrences (e.g. while the server was down) are skipped rather than caught up;
+   * the unique key keeps several workers from enqueueing the same occurrence
+   */
+  private async enqueueRecurring(now: Date): Promise<void> {
+    for (const recurring of this.registry.schedules()) {
+      const nextRun = this.nextRuns.get(recurring.name) ?? recurring.cron.next(now)
+      if (nextRun > now) {
+        this.nextRuns.set(recurring.name, nextRun)
+        continue
+      }
+
+      await this.queue.enqueue(recurring.create(), {
+        runAt: nextRun,
+        uniqueKey: `${recurring.name}@${nextRun.toISOString()}`,
+      })
+      this.nextRuns.set(recurring.name, recurring.cron.next(now))
+    }
+  }
+
+  private async run(job: QueuedJob, now: Date): Promise<void> {
+    const error = await this.execute(job)
+    if (error === null) {
+      await this.repository.complete(job.id, new Date())
+      return
+    }
+
+    const attempts = job.attempts + 1
+    if (attempts >= job.maxAttempts) {
+      await this.repository.markDead(job.id, attempts, error)
+      log.error(`${job.name} job ${job.id} dead-lettered after ${attempts} attempts`, { error })
+      return
+    }
+
+    const runAt = new Date(now.getTime() + this.retryDelayMs(attempts))
+    await this.repository.reschedule(job.id, attempts, error, runAt)
+  }
+
+  /**
+   * Runs a job, returning why it failed or null on success
+   */
+  private async execute(job: QueuedJob): Promise<string | null> {
+    const registration = this.registry.get(job.name)
+    if (!registration) {
+      return `No handler registered for job ${job.name}`
+    }
+
+    const payload = tryCatch(
+      () => registration.type.fromPayload(JSON.parse(job.payload)),
+      (error) => `Payload of ${job.name} could not be read: ${String(error)}`,
+    )
+    if (isFailure(payload)) {
+      return payload.error
+    }
+
+    const result = await tryCatchAsync(() => registration.handler.execute(payload.value), describe)
+    if (isFailure(result)) {
+      return result.error
+    }
+    return isFailure(result.value) ? describe(result.value.error) : null
+  }
+}
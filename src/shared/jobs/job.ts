@@ -0,0 +1,50 @@
+import { DomainError, Result } from '@/shared/result'
+
+/**
+ * Base class for background jobs
+ * A job carries its payload as properties and its class declares a stable name and a factory rebuilding it
+ * from JSON: `static readonly jobName = 'send-welcome-email'` and `static fromPayload(payload) { ... }`
+ */
+export abstract class Job {
+  readonly _tag = 'Job' as const
+}
+
+/**
+ * Class token of a job, carrying its static metadata
+ */
+export interface JobType<TJob extends Job = Job> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  new (...args: any[]): TJob
+  readonly jobName: string
+  /**
+   * Attempts before the job is dead-lettered (defaults to 5)
+   */
+  readonly maxAttempts?: number
+  fromPayload(payload: unknown): TJob
+}
+
+/**
+ * Handler running a specific job type
+ * A Failure or a throw counts as a failed attempt and the job is retried with backoff
+ */
+export interface JobHandler<TJob extends Job, TError = DomainError> {
+  execute(job: TJob): Promise<Result<void, TError>>
+}
+
+/**
+ * Options for enqueueing a job
+ */
+export interface EnqueueOptions {
+  /**
+   * Run no earlier than this many milliseconds from now
+   */
+  delayMs?: number
+  /**
+   * Run no earlier than this date
+   */
+  runAt?: Date
+  /**
+   * Enqueueing a job with the key of an existing job does nothing
+   */
+  uniqueKey?: string
+}
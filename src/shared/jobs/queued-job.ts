@@ -0,0 +1,60 @@
+/**
+ * Lifecycle of a queued job: pending until it succeeds, dead once it ran out of attempts
+ */
+export type JobStatus = 'pending' | 'completed' | 'dead'
+
+/**
+ * Job stored in the queue
+ */
+export class QueuedJob {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly payload: string,
+    public readonly status: JobStatus,
+    public readonly attempts: number,
+    public readonly maxAttempts: number,
+    public readonly runAt: Date,
+    public readonly createdAt: Date,
+    public readonly uniqueKey: string | null = null,
+    public readonly lastError: string | null = null,
+    public readonly completedAt: Date | null = null,
+  ) {}
+}
+
+/**
+ * Data of a job to add to the queue
+ */
+export interface NewJob {
+  name: string
+  payload: string
+  maxAttempts: number
+  runAt: Date
+  uniqueKey: string | null
+}
+
+export interface JobRepository {
+  /**
+   * Adds a job to the queue
+   * @returns false when a job with the same unique key already exists
+   */
+  add(job: NewJob): Promise<boolean>
+  /**
+   * Pending jobs that are due, earliest first
+   */
+  findDue(now: Date, limit: number): Promise<QueuedJob[]>
+  /**
+   * Leases a due job until `leaseUntil`; false when another worker claimed it first
+   * A job whose worker crashed becomes due again once the lease ends
+   */
+  claim(id: string, now: Date, leaseUntil: Date): Promise<boolean>
+  complete(id: string, completedAt: Date): Promise<void>
+  /**
+   * Records why the last attempt failed and when to try again
+   */
+  reschedule(id: string, attempts: number, lastError: string, runAt: Date): Promise<void>
+  /**
+   * Records why the last attempt failed and stops retrying
+   */
+  markDead(id: string, attempts: number, lastError: string): Promise<void>
+}
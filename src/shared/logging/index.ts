@@ -0,0 +1,3 @@
+export { DEFAULT_REDACTED_FIELDS, JsonLogger, LogFields, Logger, LoggerOptions, LogLevel, logger } from './logger'
+export { currentLogContext, LogContext, withLogContext } from './log-context'
+export { LoggingBehavior } from './logging.behavior'
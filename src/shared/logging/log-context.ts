@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+
+/**
+ * Fields added to every line logged while handling a request
+ */
+export interface LogContext {
+  requestId: string
+}
+
+const logContextStorage = new AsyncLocalStorage<LogContext>()
+
+/**
+ * Context of the request being handled, if any
+ */
+export function currentLogContext(): LogContext | undefined {
+  return logContextStorage.getStore()
+}
+
+/**
+ * Run a function, and everything it awaits or schedules, with a log context
+ * Mediator behaviors, handlers, repositories and services called from it log with its request ID
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContextStorage.run(context, fn)
+}
@@ -0,0 +1,173 @@
+import { currentLogContext } from './log-context'
+
+/**
+ * Severity of a log line; `silent` logs nothing
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+/**
+ * Structured data attached to a log line
+ */
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  /**
+   * Logger adding the given fields to every line, e.g. `logger.child({ component: 'Jobs' })`
+   */
+  child(bindings: LogFields): Logger
+}
+
+/**
+ * Settings shared by a logger and its children
+ */
+export interface LoggerOptions {
+  /**
+   * Lines below this level are dropped (default: info)
+   */
+  level: LogLevel
+  /**
+   * Names of the fields whose value is replaced, at any depth and in any case (default: `DEFAULT_REDACTED_FIELDS`)
+   */
+  redact: string[]
+  /**
+   * Receives every line; defaults to the console method of the level, so warnings and errors go to stderr
+   */
+  write: (level: Exclude<LogLevel, 'silent'>, line: string) => void
+}
+
+/**
+ * Credentials that handlers and services may pass around in their fields
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'password',
+  'currentPassword',
+  'newPassword',
+  'passwordHash',
+  'token',
+  'accessToken',
+  'refreshToken',
+  'authorization',
+  'cookie',
+  'secret',
+]
+
+const REDACTED = '[redacted]'
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity }
+
+/**
+ * Fields nested deeper than this are cut, so a cyclic or huge object can't stall logging
+ */
+const MAX_DEPTH = 8
+
+const consoleWrite: LoggerOptions['write'] = (level, line) => {
+  const write = { debug: console.debug, info: console.log, warn: console.warn, error: console.error }[level]
+  write(line)
+}
+
+/**
+ * Logger writing one JSON object per line: time, level, message, the request ID of the current
+ * log context, the logger's bindings and the fields of the call
+ */
+export class JsonLogger implements Logger {
+  private options: LoggerOptions
+
+  constructor(
+    options: Partial<LoggerOptions> = {},
+    private readonly bindings: LogFields = {},
+  ) {
+    this.options = {
+      level: options.level ?? 'info',
+      redact: options.redact ?? DEFAULT_REDACTED_FIELDS,
+      write: options.write ?? consoleWrite,
+    }
+  }
+
+  /**
+   * Change the level or redaction rules of this logger and of every child created from it
+   */
+  configure(options: Partial<LoggerOptions>): void {
+    Object.assign(this.options, options)
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields)
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields)
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields)
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields)
+  }
+
+  child(bindings: LogFields): Logger {
+    const child = new JsonLogger({}, { ...this.bindings, ...bindings })
+    // Shared, so configuring the parent later also configures the child
+    child.options = this.options
+    return child
+  }
+
+  private log(level: Exclude<LogLevel, 'silent'>, message: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < LEVELS[this.options.level]) {
+      return
+    }
+
+    const redacted = new Set(this.options.redact.map((name) => name.toLowerCase()))
+    const line = {
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...currentLogContext(),
+      ...(toLoggable({ ...this.bindings, ...fields }, redacted, 0) as LogFields),
+    }
+
+    this.options.write(level, JSON.stringify(line))
+  }
+}
+
+/**
+ * Copy of a value that JSON can represent, with redacted fields replaced and errors expanded
+ */
+function toLoggable(value: unknown, redacted: Set<string>, depth: number): unknown {
+  if (value instanceof Error) {
+    // Own fields such as `code` are kept along with the non-enumerable name, message and stack
+    return toLoggable(
+      { ...(value as object), name: value.name, message: value.message, stack: value.stack },
+      redacted,
+      depth,
+    )
+  }
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return typeof value === 'bigint' ? value.toString() : value
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[truncated]'
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => toLoggable(item, redacted, depth + 1))
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .map(([name, field]) => [
+        name,
+        redacted.has(name.toLowerCase()) ? REDACTED : toLoggable(field, redacted, depth + 1),
+      ]),
+  )
+}
+
+/**
+ * Logger of the application, configured at startup from LOG_LEVEL and LOG_REDACT
+ */
+export const logger = new JsonLogger()
@@ -0,0 +1,44 @@
+import { performance } from 'node:perf_hooks'
+
+import { Logger } from './logger'
+
+import { NextHandler, PipelineBehavior, Request } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Pipeline behavior logging every request sent through the mediator: its name, kind, duration and Result tag
+ * Failures carry their error code; internal errors and exceptions are logged as errors
+ */
+export class LoggingBehavior implements PipelineBehavior<Request, unknown, DomainError> {
+  constructor(private readonly logger: Logger) {}
+
+  async handle(request: Request, next: NextHandler<unknown, DomainError>): Promise<Result<unknown, DomainError>> {
+    const startedAt = performance.now()
+    const fields = () => ({
+      request: request.constructor.name,
+      kind: request._tag,
+      durationMs: Math.round((performance.now() - startedAt) * 100) / 100,
+    })
+
+    let result: Result<unknown, DomainError>
+    try {
+      result = await next()
+    } catch (error) {
+      this.logger.error('Request threw', { ...fields(), error })
+      throw error
+    }
+
+    if (isFailure(result)) {
+      const failure = { ...fields(), result: result._tag, errorCode: result.error.code }
+      if (result.error.code === 'INTERNAL_ERROR') {
+        this.logger.error('Request handled', { ...failure, error: result.error })
+      } else {
+        this.logger.info('Request handled', failure)
+      }
+    } else {
+      this.logger.info('Request handled', { ...fields(), result: result._tag })
+    }
+
+    return result
+  }
+}
@@ -1,14 +1,19 @@
 import { Router } from 'express'
 
-import { Handler, InMemoryMediator } from './mediator'
+import { Handler, InMemoryMediator, RequestType } from './mediator'
+
+import { Resolver, Token } from '@/shared/container'
+import { HealthRegistry } from '@/shared/health'
+import { JobRegistry } from '@/shared/jobs'
+import { RouteOperation } from '@/shared/openapi'
 
 /**
  * Handler registration entry
  */
 export interface HandlerRegistration {
-  requestName: string
+  requestType: RequestType
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: Handler<any, any>
+  handler: Handler<any>
 }
 
 /**
@@ -23,23 +28,103 @@ export interface RouteConfig {
    * Router instance with all routes configured
    */
   router: Router
+  /**
+   * OpenAPI metadata of every route of the router
+   * Startup fails when a route is served without being documented, or documented without being served
+   */
+  operations?: RouteOperation[]
 }
 
 /**
  * Feature module interface
  * Each feature implements this to register its handlers and routes
+ * Dependencies are resolved from the container passed to each hook rather than constructed by the module
+ * Modules exported from the `index.ts` of a slice under `src/features` are discovered and instantiated at startup
  */
 export interface FeatureModule {
+  /**
+   * Name used in configuration and in other modules' `requires` (optional, defaults to the class name)
+   */
+  readonly name?: string
+
+  /**
+   * Names of the modules this one builds on (optional)
+   * They are registered and initialized before this module, and shut down after it
+   */
+  readonly requires?: string[]
+
+  /**
+   * API version the feature's routes belong to, e.g. `v1`
+   * Routes are served under the version prefix (`/v1/users`) and, when negotiated, without it
+   */
+  readonly version: string
+
+  /**
+   * Tokens this feature resolves from the container (optional)
+   * Checked at startup, so a profile missing a binding fails before any module is registered
+   */
+  readonly dependencies?: Token<unknown>[]
+
+  /**
+   * Register pipeline behaviors contributed by this feature (optional)
+   * Called for every module before any handler is registered
+   * @param mediator - Mediator instance to add behaviors to
+   * @param container - Resolver for the feature's dependencies
+   */
+  registerBehaviors?(mediator: InMemoryMediator, container: Resolver): void
+
   /**
    * Register all handlers for this feature
    * @param mediator - Mediator instance to register handlers with
+   * @param container - Resolver for the feature's dependencies
    */
-  registerHandlers(mediator: InMemoryMediator): void
+  registerHandlers(mediator: InMemoryMediator, container: Resolver): void
+
+  /**
+   * Register background job handlers and recurring schedules for this feature (optional)
+   * @param jobs - Registry read by the job worker
+   * @param container - Resolver for the feature's dependencies
+   */
+  registerJobs?(jobs: JobRegistry, container: Resolver): void
+
+  /**
+   * Register the checks of the services this feature needs to serve requests (optional)
+   * They run on every call to `/health/ready`, so keep them cheap
+   * @param health - Registry read by the readiness endpoint
+   * @param container - Resolver for the feature's dependencies
+   */
+  registerHealthChecks?(health: HealthRegistry, container: Resolver): void
 
   /**
    * Register all routes for this feature
    * @param mediator - Mediator instance to inject into controllers
+   * @param container - Resolver for the feature's dependencies
    * @returns Route configuration with base path and router
    */
-  registerRoutes(mediator: InMemoryMediator): RouteConfig
+  registerRoutes(mediator: InMemoryMediator, container: Resolver): RouteConfig
+
+  /**
+   * Prepare the feature before the server accepts connections (optional)
+   * e.g. warm a cache or check an external service; a rejection aborts startup
+   * @param container - Resolver for the feature's dependencies
+   */
+  onInit?(container: Resolver): void | Promise<void>
+
+  /**
+   * React to the server accepting connections (optional)
+   * @param container - Resolver for the feature's dependencies
+   */
+  onReady?(container: Resolver): void | Promise<void>
+
+  /**
+   * Release resources held by the feature when the server stops (optional)
+   * Called in reverse module order, after background work has stopped
+   * @param container - Resolver for the feature's dependencies
+   */
+  onShutdown?(container: Resolver): void | Promise<void>
 }
+
+/**
+ * Class of a feature module, instantiated without arguments when discovered
+ */
+export type FeatureModuleType = new () => FeatureModule
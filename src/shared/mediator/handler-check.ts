@@ -0,0 +1,85 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { FeatureModule } from './feature-module'
+import { InMemoryMediator, RequestType } from './mediator'
+import { isFeatureModuleType } from './module-loader'
+
+import { Command, Query } from '@/shared/cqs'
+
+/**
+ * Files that define Commands and Queries inside a feature slice
+ */
+const REQUEST_FILE_PATTERN = /\.(command|query)\.(ts|js)$/
+
+/**
+ * Entry file of a feature slice, exporting its module
+ */
+const MODULE_FILE_PATTERN = /^index\.(ts|js)$/
+
+/**
+ * Type guard for Command/Query classes
+ */
+export function isRequestType(value: unknown): value is RequestType {
+  return typeof value === 'function' && (value.prototype instanceof Command || value.prototype instanceof Query)
+}
+
+/**
+ * Whether the entry file of a slice exports one of the given modules, or the directory isn't a slice
+ */
+function isLoadedSlice(dir: string, modules: FeatureModule[]): boolean {
+  const entry = fs.readdirSync(dir).find((name) => MODULE_FILE_PATTERN.test(name))
+  if (!entry) {
+    return true
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const exported: Record<string, unknown> = require(path.join(dir, entry))
+  return Object.values(exported)
+    .filter(isFeatureModuleType)
+    .some((moduleType) => modules.some((module) => module instanceof moduleType))
+}
+
+/**
+ * Collect every Command/Query class exported by the request files under a features directory
+ * @param featuresDir - Root directory of the feature slices
+ * @param modules - Only collect from the slices of these modules, leaving out the disabled ones (default: every slice)
+ */
+export function collectRequestTypes(featuresDir: string, modules?: FeatureModule[]): RequestType[] {
+  const requestTypes = new Set<RequestType>()
+
+  const visit = (dir: string) => {
+    if (modules && !isLoadedSlice(dir, modules)) {
+      return
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const entryPath = path.join(dir, entry.name)
+
+      if (entry.isDirectory()) {
+        visit(entryPath)
+      } else if (REQUEST_FILE_PATTERN.test(entry.name) && !entry.name.endsWith('.d.ts')) {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const exported: Record<string, unknown> = require(entryPath)
+        Object.values(exported)
+          .filter(isRequestType)
+          .forEach((requestType) => requestTypes.add(requestType))
+      }
+    }
+  }
+
+  if (fs.existsSync(featuresDir)) {
+    visit(featuresDir)
+  }
+
+  return [...requestTypes]
+}
+
+/**
+ * Find the request types that have no handler registered in the mediator
+ * @param mediator - Mediator with all feature handlers registered
+ * @param requestTypes - Command/Query classes expected to be handled
+ */
+export function findUnhandledRequests(mediator: InMemoryMediator, requestTypes: RequestType[]): RequestType[] {
+  return requestTypes.filter((requestType) => !mediator.hasHandler(requestType))
+}
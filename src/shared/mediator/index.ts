@@ -1,2 +1,28 @@
-export { Request, Handler, Mediator, InMemoryMediator } from './mediator'
-export { FeatureModule, HandlerRegistration, RouteConfig } from './feature-module'
+export {
+  Request,
+  RequestType,
+  NotificationType,
+  Handler,
+  Mediator,
+  InMemoryMediator,
+  PublishOptions,
+  PublishStrategy,
+  DuplicateHandlerError,
+} from './mediator'
+export { FeatureModule, FeatureModuleType, HandlerRegistration, RouteConfig } from './feature-module'
+export { PipelineBehavior, NextHandler, BehaviorOptions, BehaviorRegistration } from './pipeline-behavior'
+export { isRequestType, collectRequestTypes, findUnhandledRequests } from './handler-check'
+export {
+  discoverFeatureModules,
+  findRouteConflicts,
+  isFeatureModuleType,
+  joinPaths,
+  ModuleLoadOptions,
+  moduleName,
+  MountedRoute,
+  mountFeatureRoutes,
+  registerFeatureHandlers,
+  resolveFeatureModules,
+  RouteEndpoint,
+  routeEndpoints,
+} from './module-loader'
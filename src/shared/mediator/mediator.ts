@@ -1,25 +1,100 @@
-import { Command, CommandHandler, Query, QueryHandler } from '@/shared/cqs'
-import { DomainError, Errors, failure, Result } from '@/shared/result'
+import {
+  behaviorApplies,
+  BehaviorOptions,
+  BehaviorRegistration,
+  NextHandler,
+  PipelineBehavior,
+} from './pipeline-behavior'
+
+import {
+  Command,
+  CommandHandler,
+  ErrorOf,
+  Notification,
+  NotificationHandler,
+  Query,
+  QueryHandler,
+  RequestContext,
+  ResultOf,
+} from '@/shared/cqs'
+import { logger } from '@/shared/logging'
+import {
+  combineAll,
+  DomainError,
+  Errors,
+  failure,
+  flatMap,
+  isFailure,
+  Result,
+  success,
+  tryCatchAsync,
+} from '@/shared/result'
+
+const log = logger.child({ component: 'Mediator' })
 
 /**
  * Request type that can be either a Command or Query
  */
-export type Request = Command | Query
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type Request = Command<any, any> | Query<any, any>
+
+/**
+ * Class token identifying a request type
+ * Handlers are keyed by the class itself, so lookups survive minification
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type RequestType<TRequest extends Request = Request> = abstract new (...args: any[]) => TRequest
+
+/**
+ * Class token identifying a notification type
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type NotificationType<TNotification extends Notification = Notification> = new (...args: any[]) => TNotification
 
 /**
- * Handler type that can process Commands or Queries
- * Now returns Result for functional error handling
+ * Handler type that can process a given Command or Query
+ * Result and error types are the ones declared by the request
  */
-export type Handler<TRequest extends Request, TResult, TError = DomainError> =
-  | CommandHandler<TRequest & Command, TResult, TError>
-  | QueryHandler<TRequest & Query, TResult, TError>
+export type Handler<TRequest extends Request> =
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  TRequest extends Command<any, any> ? CommandHandler<TRequest> : QueryHandler<TRequest & Query<any, any>>
 
 /**
- * Mediator interface for sending Commands and Queries
+ * How notification handlers are executed when publishing
+ * - sequential: one after another, in subscription order
+ * - parallel: all at once, waiting for every handler to settle
+ * - fire-and-forget: all at once, without waiting; failures are only logged
+ */
+export type PublishStrategy = 'sequential' | 'parallel' | 'fire-and-forget'
+
+/**
+ * Options for publishing a notification
+ */
+export interface PublishOptions {
+  strategy?: PublishStrategy
+}
+
+/**
+ * Thrown when a second handler is registered for the same request type
+ * Carries the request type so startup can name both modules registering it
+ */
+export class DuplicateHandlerError extends Error {
+  constructor(readonly requestType: RequestType) {
+    super(`Handler for ${requestType.name} is already registered`)
+    this.name = 'DuplicateHandlerError'
+  }
+}
+
+/**
+ * Mediator interface for sending Commands and Queries and publishing Notifications
  * Returns Result type for functional error handling
  */
 export interface Mediator {
-  send<TResult, TError = DomainError>(request: Request): Promise<Result<TResult, TError>>
+  send<TRequest extends Request>(
+    request: TRequest,
+    context?: RequestContext,
+  ): Promise<Result<ResultOf<TRequest>, ErrorOf<TRequest>>>
+  publish<TError = DomainError>(notification: Notification, options?: PublishOptions): Promise<Result<void, TError[]>>
 }
 
 /**
@@ -28,37 +103,140 @@ export interface Mediator {
  */
 export class InMemoryMediator implements Mediator {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private handlers = new Map<string, Handler<any, any, any>>()
+  private handlers = new Map<RequestType, Handler<any>>()
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private subscribers = new Map<NotificationType, NotificationHandler<any, any>[]>()
+  private behaviors: BehaviorRegistration[] = []
 
   /**
    * Register a handler for a specific request type
-   * @param requestName - Unique identifier for the request type
+   * @param requestType - Command or Query class the handler processes
    * @param handler - Handler instance that will process the request
    */
-  register<TRequest extends Request, TResult, TError = DomainError>(
-    requestName: string,
-    handler: Handler<TRequest, TResult, TError>,
-  ): void {
-    if (this.handlers.has(requestName)) {
-      throw new Error(`Handler for ${requestName} is already registered`)
+  register<TRequest extends Request>(requestType: RequestType<TRequest>, handler: Handler<TRequest>): void {
+    if (this.handlers.has(requestType)) {
+      throw new DuplicateHandlerError(requestType)
     }
 
-    this.handlers.set(requestName, handler)
+    this.handlers.set(requestType, handler)
+  }
+
+  /**
+   * Check whether a handler is registered for a request type
+   */
+  hasHandler(requestType: RequestType): boolean {
+    return this.handlers.has(requestType)
+  }
+
+  /**
+   * Request types with a registered handler, in registration order
+   */
+  registeredRequestTypes(): RequestType[] {
+    return [...this.handlers.keys()]
+  }
+
+  /**
+   * Subscribe a handler to a specific notification type
+   * Any number of handlers may subscribe to the same notification
+   * @param notificationType - Notification class the handler reacts to
+   * @param handler - Handler instance that will react to the notification
+   */
+  subscribe<TNotification extends Notification, TError = DomainError>(
+    notificationType: NotificationType<TNotification>,
+    handler: NotificationHandler<TNotification, TError>,
+  ): void {
+    const handlers = this.subscribers.get(notificationType) ?? []
+    this.subscribers.set(notificationType, [...handlers, handler])
+  }
+
+  /**
+   * Add a pipeline behavior wrapping request execution
+   * Behaviors run in registration order: the first one added is the outermost
+   * @param behavior - Behavior instance
+   * @param options - Restrict the behavior to a request kind or a single request type
+   */
+  addBehavior<TRequest extends Request, TResult = unknown, TError = DomainError>(
+    behavior: PipelineBehavior<TRequest, TResult, TError>,
+    options: BehaviorOptions = {},
+  ): void {
+    this.behaviors.push({ behavior, options })
   }
 
   /**
-   * Send a request to its registered handler
+   * Send a request to its registered handler through the applicable pipeline behaviors
    * @param request - Command or Query to be processed
+   * @param context - Ambient request data (e.g. the authenticated principal) handed to behaviors and the handler
    * @returns Result from the handler execution
    */
-  async send<TResult, TError = DomainError>(request: Request): Promise<Result<TResult, TError>> {
-    const requestName = request.constructor.name
-    const handler = this.handlers.get(requestName)
+  async send<TRequest extends Request>(
+    request: TRequest,
+    context: RequestContext = {},
+  ): Promise<Result<ResultOf<TRequest>, ErrorOf<TRequest>>> {
+    type SendResult = Result<ResultOf<TRequest>, ErrorOf<TRequest>>
+
+    const requestType = request.constructor as RequestType<TRequest>
+    const handler = this.handlers.get(requestType)
 
     if (!handler) {
-      return failure(Errors.internal(`No handler registered for ${requestName}`)) as Result<TResult, TError>
+      return failure(Errors.internal(`No handler registered for ${requestType.name}`)) as SendResult
+    }
+
+    const pipeline = this.behaviors
+      .filter((registration) => behaviorApplies(registration, request))
+      .reduceRight<NextHandler<ResultOf<TRequest>, ErrorOf<TRequest>>>(
+        (next, { behavior }) => {
+          return () => behavior.handle(request, next, context)
+        },
+        () => handler.execute(request, context) as Promise<SendResult>,
+      )
+
+    return pipeline()
+  }
+
+  /**
+   * Publish a notification to all of its subscribed handlers
+   * Handlers that throw are reported as InternalError failures
+   * @param notification - Notification to broadcast
+   * @param options - Execution strategy (defaults to sequential)
+   * @returns Success when every handler succeeded, otherwise Failure with all collected errors
+   */
+  async publish<TError = DomainError>(
+    notification: Notification,
+    options: PublishOptions = {},
+  ): Promise<Result<void, TError[]>> {
+    const notificationType = notification.constructor as NotificationType
+    const notificationName = notificationType.name
+    const handlers = this.subscribers.get(notificationType) ?? []
+    const strategy = options.strategy ?? 'sequential'
+
+    const run = async (handler: NotificationHandler<Notification, TError>): Promise<Result<void, TError>> => {
+      const result = await tryCatchAsync(
+        () => handler.execute(notification),
+        (error) => Errors.internal(`Notification handler for ${notificationName} threw`, error) as TError,
+      )
+      return flatMap(result, (handlerResult) => handlerResult)
+    }
+
+    if (strategy === 'fire-and-forget') {
+      Promise.all(handlers.map(run)).then((results) => {
+        const combined = combineAll(results)
+        if (isFailure(combined)) {
+          log.error(`Notification ${notificationName} failed`, { errors: combined.error })
+        }
+      })
+      return success(undefined)
+    }
+
+    const results: Result<void, TError>[] = []
+    if (strategy === 'parallel') {
+      results.push(...(await Promise.all(handlers.map(run))))
+    } else {
+      for (const handler of handlers) {
+        results.push(await run(handler))
+      }
     }
 
-    return handler.execute(request) as Promise<Result<TResult, TError>>
+    const combined = combineAll(results)
+    return isFailure(combined) ? combined : success(undefined)
   }
 }
@@ -0,0 +1,260 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { FeatureModule, FeatureModuleType, RouteConfig } from './feature-module'
+import { DuplicateHandlerError, InMemoryMediator, RequestType } from './mediator'
+
+import { Resolver } from '@/shared/container'
+
+/**
+ * Entry file of a feature slice, exporting its module
+ */
+const MODULE_FILE_PATTERN = /^index\.(ts|js)$/
+
+/**
+ * Options for selecting the feature modules to load
+ */
+export interface ModuleLoadOptions {
+  /**
+   * Names of the modules to leave out (FEATURES_DISABLED in the configuration)
+   */
+  disabled?: string[]
+}
+
+/**
+ * Route configuration of a feature, with the module that returned it and its API version
+ */
+export interface MountedRoute {
+  module: string
+  version: string
+  route: RouteConfig
+}
+
+/**
+ * Method and path, relative to the API version, of a route served by a router
+ */
+export interface RouteEndpoint {
+  method: string
+  path: string
+}
+
+/**
+ * Name of a module in configuration and diagnostics
+ */
+export function moduleName(module: FeatureModule): string {
+  return module.name ?? module.constructor.name
+}
+
+/**
+ * Type guard for feature module classes
+ * Interfaces don't exist at runtime, so a class qualifies when its prototype has the required hooks
+ */
+export function isFeatureModuleType(value: unknown): value is FeatureModuleType {
+  return (
+    typeof value === 'function' &&
+    typeof value.prototype?.registerHandlers === 'function' &&
+    typeof value.prototype?.registerRoutes === 'function'
+  )
+}
+
+/**
+ * Instantiate every feature module exported by the slice entry files under a features directory
+ * Directories are visited in alphabetical order, so discovery doesn't depend on the file system
+ * @param featuresDir - Root directory of the feature slices
+ */
+export function discoverFeatureModules(featuresDir: string): FeatureModule[] {
+  const moduleTypes = new Set<FeatureModuleType>()
+
+  const visit = (dir: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name)
+
+      if (entry.isDirectory()) {
+        visit(entryPath)
+      } else if (MODULE_FILE_PATTERN.test(entry.name)) {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const exported: Record<string, unknown> = require(entryPath)
+        Object.values(exported)
+          .filter(isFeatureModuleType)
+          .forEach((moduleType) => moduleTypes.add(moduleType))
+      }
+    }
+  }
+
+  if (fs.existsSync(featuresDir)) {
+    visit(featuresDir)
+  }
+
+  return [...moduleTypes].map((ModuleType) => new ModuleType())
+}
+
+/**
+ * Leave out the disabled modules and order the rest so every module comes after the ones it requires
+ * Modules without requirements keep their discovery order
+ * @throws Error listing every problem found: duplicate names, unknown or disabled requirements, cycles
+ */
+export function resolveFeatureModules(modules: FeatureModule[], options: ModuleLoadOptions = {}): FeatureModule[] {
+  const problems: string[] = []
+  const disabled = new Set(options.disabled ?? [])
+  const byName = new Map<string, FeatureModule>()
+
+  for (const module of modules) {
+    const name = moduleName(module)
+    if (byName.has(name)) {
+      problems.push(`${name} is declared by more than one module`)
+    }
+    byName.set(name, module)
+  }
+
+  for (const name of disabled) {
+    if (!byName.has(name)) {
+      problems.push(`${name} is disabled but no such module exists`)
+    }
+  }
+
+  const enabled = modules.filter((module) => !disabled.has(moduleName(module)))
+  const ordered: FeatureModule[] = []
+  const visiting: string[] = []
+
+  const visit = (module: FeatureModule) => {
+    const name = moduleName(module)
+    if (ordered.includes(module)) {
+      return
+    }
+    if (visiting.includes(name)) {
+      problems.push(`Circular module requirement: ${[...visiting.slice(visiting.indexOf(name)), name].join(' -> ')}`)
+      return
+    }
+
+    visiting.push(name)
+    for (const required of module.requires ?? []) {
+      const requiredModule = byName.get(required)
+      if (!requiredModule) {
+        problems.push(`${name} requires ${required}, which does not exist`)
+      } else if (disabled.has(required)) {
+        problems.push(`${name} requires ${required}, which is disabled`)
+      } else {
+        visit(requiredModule)
+      }
+    }
+    visiting.pop()
+    ordered.push(module)
+  }
+
+  enabled.forEach(visit)
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid feature modules:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`)
+  }
+
+  return ordered
+}
+
+/**
+ * Register the handlers of every module, naming both registrants when a request type is handled twice
+ * Every module is registered before failing, so all duplicates are reported at once
+ * @param mediator - Mediator to register with; handlers it already has are attributed to `Startup`
+ * @param container - Resolver for the features' dependencies
+ * @param modules - Feature modules in requirement order
+ * @throws Error listing every duplicate registration
+ */
+export function registerFeatureHandlers(
+  mediator: InMemoryMediator,
+  container: Resolver,
+  modules: FeatureModule[],
+): void {
+  const owners = new Map<RequestType, string>(mediator.registeredRequestTypes().map((type) => [type, 'Startup']))
+  const duplicates: string[] = []
+
+  for (const module of modules) {
+    try {
+      module.registerHandlers(mediator, container)
+    } catch (error) {
+      if (!(error instanceof DuplicateHandlerError)) {
+        throw error
+      }
+      duplicates.push(
+        `${error.requestType.name} is handled by both ${owners.get(error.requestType)} and ${moduleName(module)}`,
+      )
+    }
+
+    mediator
+      .registeredRequestTypes()
+      .filter((type) => !owners.has(type))
+      .forEach((type) => owners.set(type, moduleName(module)))
+  }
+
+  if (duplicates.length > 0) {
+    throw new Error(`Duplicate handler registrations:\n${duplicates.map((line) => `  - ${line}`).join('\n')}`)
+  }
+}
+
+/**
+ * Register the routes of every module, with the module name and API version they belong to
+ * @param modules - Feature modules in requirement order
+ * @param mediator - Mediator instance to inject into controllers
+ * @param container - Resolver for the features' dependencies
+ */
+export function mountFeatureRoutes(
+  modules: FeatureModule[],
+  mediator: InMemoryMediator,
+  container: Resolver,
+): MountedRoute[] {
+  return modules.map((module) => ({
+    module: moduleName(module),
+    version: module.version,
+    route: module.registerRoutes(mediator, container),
+  }))
+}
+
+/**
+ * Every method and full path served by the router of a route configuration
+ */
+export function routeEndpoints(route: RouteConfig): RouteEndpoint[] {
+  return route.router.stack.flatMap((layer) => {
+    if (!layer.route) {
+      return []
+    }
+
+    // Express sets `methods` on every route but leaves it out of its typings
+    const { methods } = layer.route as unknown as { methods: Record<string, boolean> }
+    const path = joinPaths(route.basePath, String(layer.route.path))
+
+    return Object.keys(methods).map((method) => ({ method, path }))
+  })
+}
+
+/**
+ * Joins a base path and a route path the way Express matches them: `/users` + `/` is `/users`
+ */
+export function joinPaths(basePath: string, routePath: string): string {
+  const joined = `${basePath.replace(/\/+$/, '')}/${routePath.replace(/^\/+/, '')}`.replace(/\/+$/, '')
+  return joined || '/'
+}
+
+/**
+ * Report routes declared by more than one module of the same API version
+ * Modules may share a base path (every users slice mounts on `/users`), but the same method and
+ * full path may only be declared once per version: Express would silently serve the first one
+ */
+export function findRouteConflicts(mounted: MountedRoute[]): string[] {
+  const owners = new Map<string, string>()
+  const conflicts: string[] = []
+
+  for (const { module, version, route } of mounted) {
+    for (const { method, path } of routeEndpoints(route)) {
+      const endpoint = `${method.toUpperCase()} /${version}${path}`
+      const owner = owners.get(endpoint)
+
+      if (owner) {
+        conflicts.push(`${endpoint} is declared by both ${owner} and ${module}`)
+      } else {
+        owners.set(endpoint, module)
+      }
+    }
+  }
+
+  return conflicts
+}
@@ -0,0 +1,65 @@
+import { Request, RequestType } from './mediator'
+
+import { RequestContext } from '@/shared/cqs'
+import { DomainError, Result } from '@/shared/result'
+
+/**
+ * Continuation that invokes the next behavior in the pipeline (or the handler itself)
+ */
+export type NextHandler<TResult = unknown, TError = DomainError> = () => Promise<Result<TResult, TError>>
+
+/**
+ * Pipeline behavior wrapping the execution of a request
+ * Similar to MediatR's IPipelineBehavior: a behavior may run logic before and after `next`,
+ * short-circuit by returning a Failure without calling `next`, or replace the Result on the way out
+ * @template TRequest - The request type this behavior applies to
+ * @template TResult - The success result type
+ * @template TError - The error type (defaults to DomainError)
+ */
+export interface PipelineBehavior<TRequest extends Request = Request, TResult = unknown, TError = DomainError> {
+  handle(
+    request: TRequest,
+    next: NextHandler<TResult, TError>,
+    context: RequestContext,
+  ): Promise<Result<TResult, TError>>
+}
+
+/**
+ * Options restricting which requests a behavior applies to
+ */
+export interface BehaviorOptions {
+  /**
+   * Apply only to Commands or only to Queries
+   */
+  kind?: Request['_tag']
+  /**
+   * Apply only to requests of this class
+   */
+  requestType?: RequestType
+}
+
+/**
+ * Behavior registration entry
+ */
+export interface BehaviorRegistration {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  behavior: PipelineBehavior<any, any, any>
+  options: BehaviorOptions
+}
+
+/**
+ * Checks whether a registered behavior applies to the given request
+ */
+export function behaviorApplies(registration: BehaviorRegistration, request: Request): boolean {
+  const { kind, requestType } = registration.options
+
+  if (kind && request._tag !== kind) {
+    return false
+  }
+
+  if (requestType && request.constructor !== requestType) {
+    return false
+  }
+
+  return true
+}
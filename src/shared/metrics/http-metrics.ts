@@ -0,0 +1,76 @@
+import { performance } from 'node:perf_hooks'
+
+import { Request, RequestHandler } from 'express'
+
+import { MetricsRegistry } from './metrics-registry'
+
+/**
+ * Route label of requests no route matched, so scanners can't create a series per probed path
+ */
+const UNMATCHED_ROUTE = 'unmatched'
+
+/**
+ * Track the template of the route that serves a request, e.g. `/v1/users/:id`
+ * Read when the router dispatches to the route: `req.baseUrl` is reset once an error leaves the nested routers,
+ * so reading it when the error handler has answered would drop the mount paths
+ */
+function trackRouteTemplate(req: Request): () => string {
+  let route: unknown
+  let template = UNMATCHED_ROUTE
+
+  Object.defineProperty(req, 'route', {
+    configurable: true,
+    enumerable: true,
+    get: () => route,
+    set: (value: { path?: unknown } | undefined) => {
+      route = value
+      if (typeof value?.path === 'string') {
+        template = `${req.baseUrl}${value.path === '/' && req.baseUrl ? '' : value.path}` || '/'
+      }
+    },
+  })
+
+  return () => template
+}
+
+/**
+ * Middleware counting requests and timing them by route template, method and status
+ * - `http_requests_total`: requests served
+ * - `http_request_duration_seconds`: time until the response was sent
+ * - `http_requests_in_flight`: requests being handled
+ * Must come before the routes
+ */
+export function httpMetrics(registry: MetricsRegistry): RequestHandler {
+  const labelNames = ['method', 'route', 'status']
+  const requests = registry.counter({ name: 'http_requests_total', help: 'HTTP requests served', labelNames })
+  const duration = registry.histogram({
+    name: 'http_request_duration_seconds',
+    help: 'Time to serve HTTP requests',
+    labelNames,
+  })
+  const inFlight = registry.gauge({ name: 'http_requests_in_flight', help: 'HTTP requests being served' })
+
+  return (req, res, next) => {
+    const startedAt = performance.now()
+    const route = trackRouteTemplate(req)
+    inFlight.inc()
+
+    let done = false
+    const record = () => {
+      if (done) {
+        return
+      }
+      done = true
+      inFlight.dec()
+
+      const labels = { method: req.method, route: route(), status: res.statusCode }
+      requests.inc(labels)
+      duration.observe(labels, (performance.now() - startedAt) / 1000)
+    }
+
+    // `close` alone covers clients hanging up before the response is sent
+    res.once('finish', record)
+    res.once('close', record)
+    next()
+  }
+}
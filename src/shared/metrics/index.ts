@@ -0,0 +1,13 @@
+export {
+  Counter,
+  DEFAULT_BUCKETS,
+  Gauge,
+  Histogram,
+  HistogramOptions,
+  Labels,
+  MetricOptions,
+  MetricsRegistry,
+} from './metrics-registry'
+export { httpMetrics } from './http-metrics'
+export { MetricsBehavior } from './metrics.behavior'
+export { metricsRouter, PROMETHEUS_CONTENT_TYPE } from './metrics-router'
@@ -0,0 +1,248 @@
+/**
+ * Values of the labels of one series, e.g. `{ method: 'GET', status: '200' }`
+ */
+export type Labels = Record<string, string | number>
+
+/**
+ * Upper bounds, in seconds, of the default histogram buckets: 5ms to 10s
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+/**
+ * What every metric shares: a name, a description and the names of its labels
+ */
+export interface MetricOptions {
+  name: string
+  help: string
+  labelNames?: string[]
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /**
+   * Upper bounds of the buckets, ascending (default: `DEFAULT_BUCKETS`)
+   */
+  buckets?: number[]
+}
+
+/**
+ * Series of a metric, keyed by the values of their labels
+ */
+abstract class Metric<TSeries> {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+  protected readonly series = new Map<string, { labels: Labels; value: TSeries }>()
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[],
+  ) {}
+
+  /**
+   * Lines of the metric in the Prometheus text exposition format
+   */
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`]
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value))
+    }
+    return lines
+  }
+
+  protected abstract renderSeries(labels: Labels, value: TSeries): string[]
+
+  /**
+   * Series of the given labels, created with `initial` the first time
+   * @throws Error when a label is missing or unknown, so a typo doesn't silently start a new series
+   */
+  protected seriesOf(labels: Labels, initial: () => TSeries): { labels: Labels; value: TSeries } {
+    const names = Object.keys(labels)
+    if (names.length !== this.labelNames.length || names.some((name) => !this.labelNames.includes(name))) {
+      throw new Error(`${this.name} expects the labels [${this.labelNames.join(', ')}], got [${names.join(', ')}]`)
+    }
+
+    const key = this.labelNames.map((name) => String(labels[name])).join('\u0000')
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels: { ...labels }, value: initial() }
+      this.series.set(key, entry)
+    }
+    return entry
+  }
+}
+
+/**
+ * Value that only goes up, e.g. requests served; rates are computed by Prometheus
+ */
+export class Counter extends Metric<number> {
+  readonly type = 'counter'
+
+  /**
+   * @throws Error when the amount is negative
+   */
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`${this.name} is a counter and can't be decreased`)
+    }
+    this.seriesOf(labels, () => 0).value += amount
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`]
+  }
+}
+
+/**
+ * Value that goes up and down, e.g. requests in flight
+ */
+export class Gauge extends Metric<number> {
+  readonly type = 'gauge'
+
+  set(labels: Labels, value: number): void {
+    this.seriesOf(labels, () => 0).value = value
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.seriesOf(labels, () => 0).value += amount
+  }
+
+  dec(labels: Labels = {}, amount = 1): void {
+    this.seriesOf(labels, () => 0).value -= amount
+  }
+
+  protected renderSeries(labels: Labels, value: number): string[] {
+    return [`${this.name}${formatLabels(labels)} ${value}`]
+  }
+}
+
+interface HistogramSeries {
+  counts: number[]
+  sum: number
+  count: number
+}
+
+/**
+ * Distribution of observed values, e.g. durations, counted in cumulative buckets
+ */
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram'
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    readonly buckets: number[],
+  ) {
+    super(name, help, labelNames)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesOf(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 })).value
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]++
+      }
+    })
+    series.sum += value
+    series.count++
+  }
+
+  protected renderSeries(labels: Labels, { counts, sum, count }: HistogramSeries): string[] {
+    return [
+      ...this.buckets.map(
+        (bound, index) => `${this.name}_bucket${formatLabels({ ...labels, le: bound })} ${counts[index]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${this.name}_sum${formatLabels(labels)} ${sum}`,
+      `${this.name}_count${formatLabels(labels)} ${count}`,
+    ]
+  }
+}
+
+/**
+ * Metrics of the application, exposed at `/metrics`
+ * Asking for a metric again returns the existing one, so a module registered twice (e.g. in tests) shares it
+ */
+export class MetricsRegistry {
+  private readonly metrics = new Map<string, Metric<unknown>>()
+
+  /**
+   * @throws Error when the name or a label is malformed, or another kind of metric already uses the name
+   */
+  counter(options: MetricOptions): Counter {
+    return this.getOrCreate(Counter, options, () => new Counter(options.name, options.help, options.labelNames ?? []))
+  }
+
+  /**
+   * @throws Error when the name or a label is malformed, or another kind of metric already uses the name
+   */
+  gauge(options: MetricOptions): Gauge {
+    return this.getOrCreate(Gauge, options, () => new Gauge(options.name, options.help, options.labelNames ?? []))
+  }
+
+  /**
+   * @throws Error when the name or a label is malformed, or another kind of metric already uses the name
+   */
+  histogram(options: HistogramOptions): Histogram {
+    const buckets = options.buckets ?? DEFAULT_BUCKETS
+    if (buckets.some((bound, index) => index > 0 && bound <= buckets[index - 1])) {
+      throw new Error(`Buckets of ${options.name} must be ascending`)
+    }
+
+    return this.getOrCreate(
+      Histogram,
+      options,
+      () => new Histogram(options.name, options.help, options.labelNames ?? [], buckets),
+    )
+  }
+
+  /**
+   * Every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    return [...this.metrics.values()].flatMap((metric) => metric.render()).join('\n') + '\n'
+  }
+
+  private getOrCreate<T extends Metric<unknown>>(
+    type: abstract new (...args: never[]) => T,
+    { name, labelNames = [] }: MetricOptions,
+    create: () => T,
+  ): T {
+    if (!NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid metric name ${name}`)
+    }
+    const invalidLabel = labelNames.find((label) => !LABEL_PATTERN.test(label) || label.startsWith('__'))
+    if (invalidLabel !== undefined) {
+      throw new Error(`Invalid label name ${invalidLabel} of ${name}`)
+    }
+
+    const existing = this.metrics.get(name)
+    if (existing) {
+      if (!(existing instanceof type) || existing.labelNames.join() !== labelNames.join()) {
+        throw new Error(
+          `Metric ${name} is already registered as a ${existing.type} labelled [${existing.labelNames.join(', ')}]`,
+        )
+      }
+      return existing
+    }
+
+    const metric = create()
+    this.metrics.set(name, metric)
+    return metric
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`)
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')
+}
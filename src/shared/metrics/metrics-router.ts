@@ -0,0 +1,17 @@
+import { Router } from 'express'
+
+import { MetricsRegistry } from './metrics-registry'
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * Serves the metrics of the registry at `/metrics`, for Prometheus to scrape
+ */
+export function metricsRouter(registry: MetricsRegistry): Router {
+  return Router().get('/metrics', (_req, res) => {
+    res.type(PROMETHEUS_CONTENT_TYPE).send(registry.render())
+  })
+}
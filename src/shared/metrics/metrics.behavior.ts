@@ -0,0 +1,48 @@
+import { performance } from 'node:perf_hooks'
+
+import { MetricsRegistry } from './metrics-registry'
+
+import { NextHandler, PipelineBehavior, Request } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Pipeline behavior counting and timing every request sent through the mediator
+ * - `mediator_requests_total`: requests by name, outcome (`success` or `failure`) and DomainError code
+ * - `mediator_request_duration_seconds`: handling time by name and outcome
+ * An exception counts as an INTERNAL_ERROR failure, the way the error handler answers it
+ */
+export class MetricsBehavior implements PipelineBehavior<Request, unknown, DomainError> {
+  private readonly requests
+  private readonly duration
+
+  constructor(registry: MetricsRegistry) {
+    this.requests = registry.counter({
+      name: 'mediator_requests_total',
+      help: 'Commands and queries handled',
+      labelNames: ['request', 'outcome', 'error_code'],
+    })
+    this.duration = registry.histogram({
+      name: 'mediator_request_duration_seconds',
+      help: 'Time to handle commands and queries',
+      labelNames: ['request', 'outcome'],
+    })
+  }
+
+  async handle(request: Request, next: NextHandler<unknown, DomainError>): Promise<Result<unknown, DomainError>> {
+    const startedAt = performance.now()
+    const record = (errorCode: DomainError['code'] | null) => {
+      const labels = { request: request.constructor.name, outcome: errorCode ? 'failure' : 'success' }
+      this.requests.inc({ ...labels, error_code: errorCode ?? 'none' })
+      this.duration.observe(labels, (performance.now() - startedAt) / 1000)
+    }
+
+    try {
+      const result = await next()
+      record(isFailure(result) ? result.error.code : null)
+      return result
+    } catch (error) {
+      record('INTERNAL_ERROR')
+      throw error
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import path from 'node:path'
+
+import express, { Router } from 'express'
+
+import { OpenApiDocument } from './openapi-document'
+
+/**
+ * Swagger UI assets, served from node_modules so the docs page works without access to a CDN
+ */
+const SWAGGER_UI_DIR = path.dirname(require.resolve('swagger-ui-dist/package.json'))
+
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>API documentation</title>
+    <link rel="stylesheet" href="/docs/assets/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="/docs/assets/swagger-ui-bundle.js"></script>
+    <script>
+      SwaggerUIBundle({ url: '/openapi.json', dom_id: '#docs' })
+    </script>
+  </body>
+</html>
+`
+
+/**
+ * Serves the OpenAPI document at `/openapi.json` and a Swagger UI page rendering it at `/docs`
+ * @param document - Document generated from the feature modules
+ */
+export function openApiRouter(document: OpenApiDocument): Router {
+  const router = Router()
+
+  router.get('/openapi.json', (_req, res) => {
+    res.json(document)
+  })
+  router.get('/docs', (_req, res) => {
+    res.type('html').send(DOCS_PAGE)
+  })
+  router.use('/docs/assets', express.static(SWAGGER_UI_DIR, { index: false }))
+
+  return router
+}
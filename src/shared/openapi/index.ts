@@ -0,0 +1,12 @@
+export { HttpMethod, RouteOperation } from './route-operation'
+export {
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiOperation,
+  OpenApiOptions,
+  OpenApiResponse,
+  findUndocumentedRoutes,
+  generateOpenApiDocument,
+  toJsonSchema,
+} from './openapi-document'
+export { openApiRouter } from './docs-router'
@@ -0,0 +1,318 @@
+import { STATUS_CODES } from 'node:http'
+
+import { z } from 'zod'
+
+import { HttpMethod, RouteOperation } from './route-operation'
+
+import { ApiVersioning, PROBLEM_JSON } from '@/shared/http'
+import { joinPaths, MountedRoute, routeEndpoints } from '@/shared/mediator'
+import { DomainError, errorToHttpStatus } from '@/shared/result'
+import { SchemaCarrier } from '@/shared/validation'
+
+/**
+ * JSON Schema (draft 2020-12, the dialect of OpenAPI 3.1)
+ */
+export type JsonSchema = Record<string, unknown>
+
+/**
+ * OpenAPI 3.1 operation object
+ */
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  description?: string
+  tags: string[]
+  deprecated?: boolean
+  security?: Record<string, string[]>[]
+  parameters?: { name: string; in: 'path' | 'query'; required: boolean; schema: JsonSchema }[]
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> }
+  responses: Record<string, OpenApiResponse | { $ref: string }>
+}
+
+/**
+ * OpenAPI 3.1 response object
+ */
+export interface OpenApiResponse {
+  description: string
+  headers?: Record<string, unknown>
+  content?: Record<string, { schema: JsonSchema }>
+}
+
+/**
+ * OpenAPI 3.1 document
+ */
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description?: string }
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>
+  components: {
+    schemas: Record<string, JsonSchema>
+    responses: Record<string, OpenApiResponse>
+    securitySchemes: Record<string, unknown>
+  }
+}
+
+/**
+ * Document metadata and the served API versions
+ */
+export interface OpenApiOptions {
+  title: string
+  version: string
+  description?: string
+  versioning: ApiVersioning
+}
+
+/**
+ * Every DomainError code; the Record makes the compiler flag codes added to DomainError but not here
+ */
+const ERROR_CODES = Object.keys({
+  VALIDATION_ERROR: true,
+  NOT_FOUND: true,
+  CONFLICT: true,
+  UNAUTHORIZED: true,
+  FORBIDDEN: true,
+  PAYLOAD_TOO_LARGE: true,
+  UNSUPPORTED_MEDIA_TYPE: true,
+  RATE_LIMITED: true,
+  INTERNAL_ERROR: true,
+} satisfies Record<DomainError['code'], true>) as DomainError['code'][]
+
+const errorDetails: JsonSchema = { type: 'object', additionalProperties: { type: 'array', items: { type: 'string' } } }
+
+/**
+ * Schemas of the two error bodies sent by sendError
+ */
+const errorSchemas: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    properties: {
+      code: { type: 'string', enum: ERROR_CODES },
+      message: { type: 'string' },
+      details: errorDetails,
+    },
+    required: ['code', 'message'],
+  },
+  ProblemDetails: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', format: 'uri-reference' },
+      title: { type: 'string' },
+      status: { type: 'integer' },
+      detail: { type: 'string' },
+      instance: { type: 'string', format: 'uri-reference' },
+      code: { type: 'string', enum: ERROR_CODES },
+      resource: { type: 'string' },
+      errors: errorDetails,
+      retryAfter: { type: 'integer' },
+    },
+    required: ['type', 'title', 'status', 'detail', 'code'],
+  },
+}
+
+/**
+ * One response per error code, referenced by the operations that may answer with it
+ * Both bodies are offered since sendError picks one from the Accept header
+ */
+const errorResponses: Record<string, OpenApiResponse> = Object.fromEntries(
+  ERROR_CODES.map((code) => {
+    const status = errorToHttpStatus({ code } as DomainError)
+    const response: OpenApiResponse = {
+      description: `${STATUS_CODES[status]} (${code})`,
+      content: {
+        'application/json': { schema: { $ref: '#/components/schemas/Error' } },
+        [PROBLEM_JSON]: { schema: { $ref: '#/components/schemas/ProblemDetails' } },
+      },
+    }
+
+    if (code === 'RATE_LIMITED') {
+      response.headers = {
+        'Retry-After': { description: 'Seconds to wait before retrying', schema: { type: 'integer' } },
+      }
+    }
+
+    return [code, response]
+  }),
+)
+
+/**
+ * Converts a Zod schema to JSON Schema
+ * Dates are sent as ISO 8601 strings, so they are documented as `date-time` strings
+ * @param io - `input` for parameters (defaults make properties optional), `output` for responses
+ */
+export function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, {
+    io,
+    unrepresentable: 'any',
+    override: (ctx) => {
+      if (ctx.zodSchema._zod.def.type === 'date') {
+        ctx.jsonSchema.type = 'string'
+        ctx.jsonSchema.format = 'date-time'
+      }
+    },
+  })
+
+  return jsonSchema
+}
+
+/**
+ * Report routes served without being documented and operations documented without being served
+ */
+export function findUndocumentedRoutes(mounted: MountedRoute[]): string[] {
+  return mounted.flatMap(({ module, version, route }) => {
+    const served = routeEndpoints(route).map(({ method, path }) => `${method.toUpperCase()} /${version}${path}`)
+    const documented = (route.operations ?? []).map(
+      ({ method, path }) => `${method.toUpperCase()} /${version}${joinPaths(route.basePath, path)}`,
+    )
+
+    return [
+      ...served.filter((endpoint) => !documented.includes(endpoint)).map((e) => `${e} of ${module} is not documented`),
+      ...documented.filter((endpoint) => !served.includes(endpoint)).map((e) => `${e} of ${module} is not served`),
+    ]
+  })
+}
+
+/**
+ * Build the OpenAPI document of the routes of every feature module
+ * Like the versioned router, a version also lists the operations it inherits from older versions
+ * @param mounted - Routes of every feature module
+ * @param options - Document metadata and served versions
+ * @throws Error when a route isn't documented, or an operation isn't served, or two operations share an id
+ */
+export function generateOpenApiDocument(mounted: MountedRoute[], options: OpenApiOptions): OpenApiDocument {
+  const undocumented = findUndocumentedRoutes(mounted)
+  if (undocumented.length > 0) {
+    throw new Error(`OpenAPI metadata out of date:\n${undocumented.map((line) => `  - ${line}`).join('\n')}`)
+  }
+
+  const names = options.versioning.versions.map((version) => version.name)
+  const paths: OpenApiDocument['paths'] = {}
+  const operationIds = new Set<string>()
+
+  options.versioning.versions.forEach((version, index) => {
+    const seen = new Set<string>()
+
+    // Newest first, so a version's own operations shadow the ones it inherits
+    for (const name of names.slice(0, index + 1).reverse()) {
+      for (const { route } of mounted.filter((entry) => entry.version === name)) {
+        for (const operation of route.operations ?? []) {
+          const path = joinPaths(route.basePath, operation.path)
+          const key = `${operation.method} ${path}`
+          if (seen.has(key)) {
+            continue
+          }
+          seen.add(key)
+
+          const built = buildOperation(operation, route.basePath, path, version.name)
+          if (operationIds.has(built.operationId)) {
+            throw new Error(`Duplicate OpenAPI operationId ${built.operationId}`)
+          }
+          operationIds.add(built.operationId)
+
+          if (version.deprecatedAt) {
+            built.deprecated = true
+          }
+
+          const openApiPath = `/${version.name}${path.replace(/:(\w+)/g, '{$1}')}`
+          paths[openApiPath] = { ...paths[openApiPath], [operation.method]: built }
+        }
+      }
+    }
+  })
+
+  return {
+    openapi: '3.1.0',
+    info: { title: options.title, version: options.version, description: options.description },
+    paths,
+    components: {
+      schemas: errorSchemas,
+      responses: errorResponses,
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' } },
+    },
+  }
+}
+
+function buildOperation(operation: RouteOperation, basePath: string, path: string, version: string): OpenApiOperation {
+  const requestSchema = (operation.request as SchemaCarrier | undefined)?.schema
+  const jsonSchema = requestSchema ? toJsonSchema(requestSchema, 'input') : {}
+  const properties = (jsonSchema.properties ?? {}) as Record<string, JsonSchema>
+  const required = (jsonSchema.required ?? []) as string[]
+
+  const pathNames = [...path.matchAll(/:(\w+)/g)].map((match) => match[1])
+  const otherNames = Object.keys(properties).filter((name) => !pathNames.includes(name))
+  const inQuery = operation.method === 'get' || operation.method === 'delete'
+
+  const parameters: NonNullable<OpenApiOperation['parameters']> = [
+    ...pathNames.map((name) => ({
+      name,
+      in: 'path' as const,
+      required: true,
+      schema: properties[name] ?? { type: 'string' },
+    })),
+    ...(inQuery ? otherNames : []).map((name) => ({
+      name,
+      in: 'query' as const,
+      required: required.includes(name),
+      schema: properties[name],
+    })),
+  ]
+
+  const bodyRequired = required.filter((name) => otherNames.includes(name))
+  const requestBody: OpenApiOperation['requestBody'] =
+    !inQuery && otherNames.length > 0
+      ? {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: Object.fromEntries(otherNames.map((name) => [name, properties[name]])),
+                ...(bodyRequired.length > 0 ? { required: bodyRequired } : {}),
+              },
+            },
+          },
+        }
+      : undefined
+
+  const status = operation.status ?? (operation.response ? 200 : 204)
+  const responses: OpenApiOperation['responses'] = {
+    [status]: {
+      description: STATUS_CODES[status] ?? 'Success',
+      ...(operation.response
+        ? { content: { 'application/json': { schema: toJsonSchema(operation.response, 'output') } } }
+        : {}),
+    },
+  }
+
+  const errorCodes = new Set<DomainError['code']>([
+    ...(parameters.length > 0 || requestBody ? (['VALIDATION_ERROR'] as const) : []),
+    ...(requestBody ? (['PAYLOAD_TOO_LARGE', 'UNSUPPORTED_MEDIA_TYPE'] as const) : []),
+    ...(operation.authenticated ? (['UNAUTHORIZED'] as const) : []),
+    ...(operation.errors ?? []),
+    'INTERNAL_ERROR',
+  ])
+
+  for (const code of errorCodes) {
+    responses[errorToHttpStatus({ code } as DomainError)] = { $ref: `#/components/responses/${code}` }
+  }
+
+  const baseId = operation.operationId ?? lowerFirst(operation.request?.name.replace(/(Command|Query)$/, '') ?? '')
+  if (!baseId) {
+    throw new Error(`${operation.method.toUpperCase()} ${path} needs a request or an operationId`)
+  }
+
+  return {
+    operationId: `${baseId}${version.toUpperCase()}`,
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    tags: [basePath.split('/').find((segment) => segment.length > 0) ?? 'default'],
+    ...(operation.authenticated ? { security: [{ bearerAuth: [] }] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(requestBody ? { requestBody } : {}),
+    responses,
+  }
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1)
+}
@@ -0,0 +1,50 @@
+import { z } from 'zod'
+
+import { RequestType } from '@/shared/mediator'
+import { DomainError } from '@/shared/result'
+
+/**
+ * HTTP methods a route may be documented with
+ */
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+/**
+ * OpenAPI metadata of a route declared by a feature's router
+ * Path, query and body parameters are taken from the schema of the Command/Query the route sends
+ */
+export interface RouteOperation {
+  method: HttpMethod
+  /**
+   * Express path relative to the base path, e.g. `/:id`
+   */
+  path: string
+  summary: string
+  description?: string
+  /**
+   * Command/Query sent by the route; its static `schema` documents the parameters
+   * Properties named in the path are path parameters, the others go in the query string of GET and DELETE
+   * routes and in the JSON body of the other methods
+   */
+  request?: RequestType
+  /**
+   * Schema of the success response body, omitted when the route answers without a body
+   */
+  response?: z.ZodType
+  /**
+   * Success status code (defaults to 200, or 204 without a response schema)
+   */
+  status?: number
+  /**
+   * Error codes the route may answer with, besides VALIDATION_ERROR for routes with parameters,
+   * UNAUTHORIZED for authenticated routes and INTERNAL_ERROR for every route
+   */
+  errors?: DomainError['code'][]
+  /**
+   * Whether the route requires a bearer access token
+   */
+  authenticated?: boolean
+  /**
+   * Defaults to the request class name without its Command/Query suffix, followed by the API version
+   */
+  operationId?: string
+}
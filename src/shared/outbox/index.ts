@@ -0,0 +1,3 @@
+export { OutboxMessage, OutboxRepository, OutboxStatus } from './outbox-message'
+export { OutboxEntry, OutboxEventType, toOutboxEntry } from './outbox-event'
+export { OutboxDispatcher, OutboxDispatcherOptions } from './outbox-dispatcher'
@@ -0,0 +1,161 @@
+import { OutboxEventType } from './outbox-event'
+import { OutboxMessage, OutboxRepository } from './outbox-message'
+
+import { logger } from '@/shared/logging'
+import { Mediator } from '@/shared/mediator'
+import { isFailure, tryCatch } from '@/shared/result'
+
+const log = logger.child({ component: 'Outbox' })
+
+export interface OutboxDispatcherOptions {
+  /**
+   * Delay between two polls when running in the background (default: 1 second)
+   */
+  pollIntervalMs?: number
+  /**
+   * Messages handled per poll (default: 20)
+   */
+  batchSize?: number
+  /**
+   * Attempts before a message is dead-lettered (default: 5)
+   */
+  maxAttempts?: number
+  /**
+   * Delay before the first retry, doubled on every further attempt (default: 1 second)
+   */
+  baseRetryDelayMs?: number
+  /**
+   * Upper bound of the retry delay (default: 5 minutes)
+   */
+  maxRetryDelayMs?: number
+  /**
+   * How long a claimed message is hidden from other dispatchers (default: 1 minute)
+   */
+  leaseMs?: number
+}
+
+/**
+ * Polls the outbox and publishes due messages through the mediator
+ * Delivery is at least once: a failed message is published again, so every subscriber runs again,
+ * and notification handlers must tolerate duplicates
+ */
+export class OutboxDispatcher {
+  private readonly eventTypes: Map<string, OutboxEventType>
+  private readonly options: Required<OutboxDispatcherOptions>
+  private polling = false
+  private timer?: NodeJS.Timeout
+  private inFlight: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    private readonly repository: OutboxRepository,
+    private readonly mediator: Mediator,
+    eventTypes: OutboxEventType[],
+    options: OutboxDispatcherOptions = {},
+  ) {
+    this.eventTypes = new Map(eventTypes.map((eventType) => [eventType.eventType, eventType]))
+    this.options = {
+      pollIntervalMs: 1000,
+      batchSize: 20,
+      maxAttempts: 5,
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 5 * 60 * 1000,
+      leaseMs: 60 * 1000,
+      ...options,
+    }
+  }
+
+  /**
+   * Starts polling in the background
+   */
+  start(): void {
+    if (this.polling) {
+      return
+    }
+    this.polling = true
+
+    const poll = async () => {
+      this.inFlight = this.dispatchPending().catch((error) => log.error('Polling failed', { error }))
+      await this.inFlight
+      if (this.polling) {
+        this.timer = setTimeout(poll, this.options.pollIntervalMs).unref()
+      }
+    }
+    this.timer = setTimeout(poll, 0).unref()
+  }
+
+  /**
+   * Stops polling and waits for the current batch to finish
+   */
+  async stop(): Promise<void> {
+    this.polling = false
+    clearTimeout(this.timer)
+    await this.inFlight
+  }
+
+  /**
+   * Publishes every due message once
+   * @returns Number of messages published successfully
+   */
+  async dispatchPending(now: Date = new Date()): Promise<number> {
+    const due = await this.repository.findDue(now, this.options.batchSize)
+
+    let dispatched = 0
+    for (const message of due) {
+      const leaseUntil = new Date(now.getTime() + this.options.leaseMs)
+      if (!(await this.repository.claim(message.id, now, leaseUntil))) {
+        continue
+      }
+
+      const error = await this.publish(message)
+      if (error === null) {
+        await this.repository.markDispatched(message.id, new Date())
+        dispatched++
+      } else {
+        await this.fail(message, error, now)
+      }
+    }
+
+    return dispatched
+  }
+
+  /**
+   * Delay before the given attempt is retried
+   */
+  retryDelayMs(attempts: number): number {
+    return Math.min(this.options.maxRetryDelayMs, this.options.baseRetryDelayMs * 2 ** (attempts - 1))
+  }
+
+  /**
+   * Publishes a message, returning why it failed or null on success
+   */
+  private async publish(message: OutboxMessage): Promise<string | null> {
+    const eventType = this.eventTypes.get(message.type)
+    if (!eventType) {
+      return `No outbox event registered for type ${message.type}`
+    }
+
+    const notification = tryCatch(
+      () => eventType.fromPayload(JSON.parse(message.payload)),
+      (error) => `Payload of ${message.type} could not be read: ${String(error)}`,
+    )
+    if (isFailure(notification)) {
+      return notification.error
+    }
+
+    const result = await this.mediator.publish(notification.value)
+    return isFailure(result) ? result.error.map((error) => error.message).join('; ') : null
+  }
+
+  private async fail(message: OutboxMessage, error: string, now: Date): Promise<void> {
+    const attempts = message.attempts + 1
+
+    if (attempts >= this.options.maxAttempts) {
+      await this.repository.markDead(message.id, attempts, error)
+      log.error(`${message.type} message ${message.id} dead-lettered after ${attempts} attempts`, { error })
+      return
+    }
+
+    const availableAt = new Date(now.getTime() + this.retryDelayMs(attempts))
+    await this.repository.reschedule(message.id, attempts, error, availableAt)
+  }
+}
@@ -0,0 +1,35 @@
+import { Notification } from '@/shared/cqs'
+import { NotificationType } from '@/shared/mediator'
+
+/**
+ * Notification class that can travel through the outbox
+ * Attach a stable name and a factory rebuilding the notification from its JSON:
+ * `static readonly eventType = 'user.created'` and `static fromPayload(payload) { ... }`
+ */
+export interface OutboxEventType<
+  TNotification extends Notification = Notification,
+> extends NotificationType<TNotification> {
+  readonly eventType: string
+  fromPayload(payload: unknown): TNotification
+}
+
+/**
+ * Row data of a notification written to the outbox
+ */
+export interface OutboxEntry {
+  type: string
+  payload: string
+}
+
+/**
+ * Serializes a notification for the outbox
+ * @throws Error when the notification class has no static eventType
+ */
+export function toOutboxEntry(notification: Notification): OutboxEntry {
+  const notificationType = notification.constructor as Partial<OutboxEventType>
+  if (!notificationType.eventType) {
+    throw new Error(`${notification.constructor.name} has no static eventType and cannot be written to the outbox`)
+  }
+
+  return { type: notificationType.eventType, payload: JSON.stringify(notification) }
+}
@@ -0,0 +1,48 @@
+import { Notification } from '@/shared/cqs'
+
+/**
+ * Lifecycle of an outbox message: pending until published, dead once it ran out of attempts
+ */
+export type OutboxStatus = 'pending' | 'dispatched' | 'dead'
+
+/**
+ * Notification persisted in the same transaction as the change that raised it
+ */
+export class OutboxMessage {
+  constructor(
+    public readonly id: string,
+    public readonly type: string,
+    public readonly payload: string,
+    public readonly status: OutboxStatus,
+    public readonly attempts: number,
+    public readonly availableAt: Date,
+    public readonly createdAt: Date,
+    public readonly lastError: string | null = null,
+    public readonly dispatchedAt: Date | null = null,
+  ) {}
+}
+
+export interface OutboxRepository {
+  /**
+   * Writes notifications outside of an aggregate's transaction
+   */
+  add(notifications: Notification[]): Promise<void>
+  /**
+   * Pending messages that are due, oldest first
+   */
+  findDue(now: Date, limit: number): Promise<OutboxMessage[]>
+  /**
+   * Leases a due message until `leaseUntil`; false when another dispatcher claimed it first
+   * A message whose dispatcher crashed becomes due again once the lease ends
+   */
+  claim(id: string, now: Date, leaseUntil: Date): Promise<boolean>
+  markDispatched(id: string, dispatchedAt: Date): Promise<void>
+  /**
+   * Records a failed attempt and schedules the next one
+   */
+  reschedule(id: string, attempts: number, lastError: string, availableAt: Date): Promise<void>
+  /**
+   * Records the last failed attempt and stops retrying
+   */
+  markDead(id: string, attempts: number, lastError: string): Promise<void>
+}
@@ -49,6 +49,28 @@ export interface ForbiddenError extends ApplicationError {
   readonly code: 'FORBIDDEN'
 }
 
+/**
+ * Payload too large error - request body over the accepted size
+ */
+export interface PayloadTooLargeError extends ApplicationError {
+  readonly code: 'PAYLOAD_TOO_LARGE'
+}
+
+/**
+ * Unsupported media type error - request body in an encoding or charset the API can't read
+ */
+export interface UnsupportedMediaTypeError extends ApplicationError {
+  readonly code: 'UNSUPPORTED_MEDIA_TYPE'
+}
+
+/**
+ * Rate limited error - too many attempts, retry later
+ */
+export interface RateLimitedError extends ApplicationError {
+  readonly code: 'RATE_LIMITED'
+  readonly retryAfterSeconds: number
+}
+
 /**
  * Internal error - unexpected system error
  */
@@ -66,6 +88,9 @@ export type DomainError =
   | ConflictError
   | UnauthorizedError
   | ForbiddenError
+  | PayloadTooLargeError
+  | UnsupportedMediaTypeError
+  | RateLimitedError
   | InternalError
 
 /**
@@ -100,6 +125,18 @@ export const Errors = {
     return { code: 'FORBIDDEN', message }
   },
 
+  payloadTooLarge(message = 'Request body is too large'): PayloadTooLargeError {
+    return { code: 'PAYLOAD_TOO_LARGE', message }
+  },
+
+  unsupportedMediaType(message: string): UnsupportedMediaTypeError {
+    return { code: 'UNSUPPORTED_MEDIA_TYPE', message }
+  },
+
+  rateLimited(retryAfterSeconds: number, message = 'Too many requests, try again later'): RateLimitedError {
+    return { code: 'RATE_LIMITED', message, retryAfterSeconds }
+  },
+
   internal(message: string, cause?: unknown): InternalError {
     return { code: 'INTERNAL_ERROR', message, cause }
   },
@@ -120,6 +157,12 @@ export function errorToHttpStatus(error: DomainError): number {
       return 404
     case 'CONFLICT':
       return 409
+    case 'PAYLOAD_TOO_LARGE':
+      return 413
+    case 'UNSUPPORTED_MEDIA_TYPE':
+      return 415
+    case 'RATE_LIMITED':
+      return 429
     case 'INTERNAL_ERROR':
       return 500
     default:
@@ -26,6 +26,9 @@ export {
   ConflictError,
   UnauthorizedError,
   ForbiddenError,
+  PayloadTooLargeError,
+  UnsupportedMediaTypeError,
+  RateLimitedError,
   InternalError,
   Errors,
   errorToHttpStatus,
@@ -0,0 +1,2 @@
+export { UnitOfWork } from './unit-of-work'
+export { TransactionalCarrier, UnitOfWorkBehavior } from './unit-of-work.behavior'
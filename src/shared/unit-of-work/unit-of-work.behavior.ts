@@ -0,0 +1,29 @@
+import { UnitOfWork } from './unit-of-work'
+
+import { NextHandler, PipelineBehavior, Request } from '@/shared/mediator'
+import { DomainError, Result } from '@/shared/result'
+
+/**
+ * Command class opting out of the unit of work of the pipeline
+ * Attach it as a static member: `static readonly transactional = false`
+ * For commands whose handler must keep some writes of a failure, and runs its own unit of work around the rest
+ */
+export interface TransactionalCarrier {
+  readonly transactional?: boolean
+}
+
+/**
+ * Pipeline behavior running every Command in a unit of work
+ * Queries only read, so they bypass it, as do Commands declaring `transactional = false`
+ */
+export class UnitOfWorkBehavior implements PipelineBehavior<Request, unknown, DomainError> {
+  constructor(private readonly unitOfWork: UnitOfWork) {}
+
+  async handle(request: Request, next: NextHandler<unknown, DomainError>): Promise<Result<unknown, DomainError>> {
+    if (request._tag !== 'Command' || (request.constructor as TransactionalCarrier).transactional === false) {
+      return next()
+    }
+
+    return this.unitOfWork.run(next)
+  }
+}
@@ -0,0 +1,12 @@
+import { Result } from '@/shared/result'
+
+/**
+ * Runs the work of a Command atomically
+ */
+export interface UnitOfWork {
+  /**
+   * Commits when `work` returns a Success and rolls back when it returns a Failure or throws
+   * Joins the surrounding unit of work when there already is one
+   */
+  run<T, E>(work: () => Promise<Result<T, E>>): Promise<Result<T, E>>
+}
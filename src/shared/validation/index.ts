@@ -0,0 +1,3 @@
+export { toValidationError, validate } from './validate'
+export { SchemaCarrier, requestSchema } from './request-schema'
+export { ValidationBehavior } from './validation.behavior'
@@ -0,0 +1,18 @@
+import { z } from 'zod'
+
+import { Request } from '@/shared/mediator'
+
+/**
+ * Command/Query class carrying a Zod schema for its own properties
+ * Attach it as a static member: `static readonly schema = createUserSchema`
+ */
+export interface SchemaCarrier {
+  readonly schema?: z.ZodType
+}
+
+/**
+ * Returns the schema attached to the class of a request, if any
+ */
+export function requestSchema(request: Request): z.ZodType | undefined {
+  return (request.constructor as SchemaCarrier).schema
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+
+import { Errors, failure, Result, success, ValidationError } from '@/shared/result'
+
+/**
+ * Detail key used for issues that are not tied to a specific field
+ */
+const ROOT_KEY = '_root'
+
+/**
+ * Converts a ZodError into a ValidationError
+ * Issues are grouped by their dotted path (e.g. `address.street`, `tags.0`)
+ */
+export function toValidationError(error: z.ZodError, message = 'Validation failed'): ValidationError {
+  const details: Record<string, string[]> = {}
+
+  for (const issue of error.issues) {
+    const key = issue.path.map(String).join('.') || ROOT_KEY
+    details[key] = [...(details[key] ?? []), issue.message]
+  }
+
+  return Errors.validation(message, details)
+}
+
+/**
+ * Validates input against a Zod schema without throwing
+ * @returns Success with the parsed (and possibly transformed) value, or Failure with a ValidationError
+ */
+export function validate<T>(schema: z.ZodType<T>, input: unknown): Result<T, ValidationError> {
+  const parsed = schema.safeParse(input)
+
+  if (!parsed.success) {
+    return failure(toValidationError(parsed.error))
+  }
+
+  return success(parsed.data)
+}
@@ -0,0 +1,24 @@
+import { requestSchema } from './request-schema'
+import { validate } from './validate'
+
+import { NextHandler, PipelineBehavior, Request } from '@/shared/mediator'
+import { DomainError, isFailure, Result } from '@/shared/result'
+
+/**
+ * Pipeline behavior validating requests against the schema attached to their class
+ * Short-circuits with a ValidationError before the handler runs; requests without a schema pass through
+ */
+export class ValidationBehavior implements PipelineBehavior<Request, unknown, DomainError> {
+  async handle(request: Request, next: NextHandler<unknown, DomainError>): Promise<Result<unknown, DomainError>> {
+    const schema = requestSchema(request)
+
+    if (schema) {
+      const validated = validate(schema, request)
+      if (isFailure(validated)) {
+        return validated
+      }
+    }
+
+    return next()
+  }
+}
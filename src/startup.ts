@@ -1,56 +1,334 @@
+import path from 'node:path'
+
 import { Application } from 'express'
 
-import { FeatureModule, InMemoryMediator, RouteConfig } from '@/shared/mediator'
-import { CreateUserModule } from '@/features/v1/auth/create-user'
+import {
+  collectRequestTypes,
+  discoverFeatureModules,
+  FeatureModule,
+  findRouteConflicts,
+  findUnhandledRequests,
+  InMemoryMediator,
+  moduleName,
+  mountFeatureRoutes,
+  MountedRoute,
+  PipelineBehavior,
+  registerFeatureHandlers,
+  resolveFeatureModules,
+} from '@/shared/mediator'
+import { apiVersioning, createOpenApiDocument } from '@/api'
+import { config } from '@/config'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { createContainer } from '@/infrastructure/container/profiles'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { AuthorizationBehavior } from '@/shared/auth'
+import { Container, Resolver, ScopeBehavior } from '@/shared/container'
+import { HealthRegistry } from '@/shared/health'
+import { DEFAULT_REDACTED_FIELDS, logger, LoggingBehavior } from '@/shared/logging'
+import { MetricsBehavior } from '@/shared/metrics'
+import { versionedRouter } from '@/shared/http'
+import { EnqueueJobCommand, EnqueueJobCommandHandler, JobRegistry, JobWorker } from '@/shared/jobs'
+import { OpenApiDocument, openApiRouter } from '@/shared/openapi'
+import { OutboxDispatcher, OutboxEventType } from '@/shared/outbox'
+import { UnitOfWorkBehavior } from '@/shared/unit-of-work'
+import { ValidationBehavior } from '@/shared/validation'
+
+const FEATURES_DIR = path.join(__dirname, 'features')
+
+const log = logger.child({ component: 'Startup' })
 
 /**
- * All feature modules in the application
+ * Feature modules found under `src/features`, without the disabled ones and in requirement order
+ * @param disabled - Names of the modules to leave out
  */
-export const featureModules: FeatureModule[] = [new CreateUserModule()]
+export function loadFeatureModules(disabled: string[] = config.FEATURES_DISABLED): FeatureModule[] {
+  return resolveFeatureModules(discoverFeatureModules(FEATURES_DIR), { disabled })
+}
+
+/**
+ * Application-wide pipeline behaviors, applied to every request in this order
+ * Feature-specific behaviors are added by each module's registerBehaviors
+ * Logging wraps everything so that the duration covers the whole pipeline;
+ * the container scope wraps the rest so that scoped services live for the whole request;
+ * authorization runs before validation so that callers without access learn nothing from validation errors;
+ * the unit of work is innermost so that only the handler runs inside the transaction
+ */
+export function createPipelineBehaviors(container: Container): PipelineBehavior[] {
+  return [
+    new LoggingBehavior(container.resolve(Tokens.Logger).child({ component: 'Mediator' })),
+    new MetricsBehavior(container.resolve(Tokens.Metrics)),
+    new ScopeBehavior(container),
+    new AuthorizationBehavior(),
+    new ValidationBehavior(),
+    new UnitOfWorkBehavior(container.resolve(Tokens.UnitOfWork)),
+  ]
+}
+
+/**
+ * Notifications that may be written to the outbox, so the dispatcher can rebuild them
+ */
+export const outboxEvents: OutboxEventType[] = [UserCreated]
+
+/**
+ * Fail when a feature module depends on a token the container doesn't bind
+ */
+export function verifyDependencies(container: Container, modules: FeatureModule[]): void {
+  const missing = modules.flatMap((module) =>
+    (module.dependencies ?? [])
+      .filter((token) => !container.has(token))
+      .map((token) => `${moduleName(module)} needs ${token.name}`),
+  )
+
+  if (missing.length > 0) {
+    throw new Error(`Missing container bindings: ${missing.join(', ')}`)
+  }
+}
 
 /**
  * Composition Root
  * Responsible for bootstrapping the mediator with all feature modules
+ * @param container - Services for the current environment profile
+ * @param modules - Feature modules to register, in requirement order
  */
-export function createMediator(): InMemoryMediator {
+export function createMediator(
+  container: Container = createContainer(),
+  modules: FeatureModule[] = loadFeatureModules(),
+): InMemoryMediator {
+  verifyDependencies(container, modules)
+
   const mediator = new InMemoryMediator()
 
-  featureModules.forEach((module) => module.registerHandlers(mediator))
+  createPipelineBehaviors(container).forEach((behavior) => mediator.addBehavior(behavior))
+  modules.forEach((module) => module.registerBehaviors?.(mediator, container))
+  mediator.register(EnqueueJobCommand, new EnqueueJobCommandHandler(container.resolve(Tokens.JobQueue)))
+  registerFeatureHandlers(mediator, container, modules)
 
   return mediator
 }
 
+/**
+ * Collect the job handlers and recurring schedules of every feature module
+ */
+export function createJobRegistry(container: Resolver, modules: FeatureModule[]): JobRegistry {
+  const registry = new JobRegistry()
+
+  modules.forEach((module) => module.registerJobs?.(registry, container))
+
+  return registry
+}
+
+/**
+ * Collect the readiness checks: the database, then the checks of every feature module
+ */
+export function createHealthRegistry(container: Resolver, modules: FeatureModule[]): HealthRegistry {
+  const registry = new HealthRegistry()
+  const database = container.resolve(Tokens.Database)
+
+  registry.register('database', () => database.ping())
+  modules.forEach((module) => module.registerHealthChecks?.(registry, container))
+
+  return registry
+}
+
+/**
+ * Fail when a Command/Query exported by a loaded feature has no registered handler
+ * Sending one of them would only fail at request time, so surface it at boot instead
+ * @param modules - Loaded feature modules; the requests of disabled slices aren't expected to be handled
+ * @throws Error listing every request without a handler
+ */
+export function verifyHandlers(mediator: InMemoryMediator, modules: FeatureModule[]): void {
+  const requestTypes = collectRequestTypes(FEATURES_DIR, modules)
+  const unhandled = findUnhandledRequests(mediator, requestTypes)
+
+  if (unhandled.length > 0) {
+    throw new Error(`No handler registered for:\n${unhandled.map((type) => `  - ${type.name}`).join('\n')}`)
+  }
+}
+
 /**
  * Application startup configuration
  * Initializes all core services and feature modules
  */
 export class Startup {
+  private static containerInstance: Container | null = null
   private static mediatorInstance: InMemoryMediator | null = null
+  private static modules: FeatureModule[] = []
+  private static healthRegistry: HealthRegistry | null = null
+  private static outboxDispatcher: OutboxDispatcher | null = null
+  private static jobWorker: JobWorker | null = null
 
   /**
    * Initialize the application
-   * Sets up the mediator with all registered feature modules
+   * Sets up the mediator with all discovered feature modules
+   * @param container - Services to use instead of the ones of the NODE_ENV profile (e.g. in tests)
+   * @param modules - Feature modules to use instead of the discovered ones
+   * @throws Error when a request of a loaded feature has no handler, or is handled twice
    */
-  static initialize(): InMemoryMediator {
+  static initialize(
+    container: Container = createContainer(),
+    modules: FeatureModule[] = loadFeatureModules(),
+  ): InMemoryMediator {
     if (!this.mediatorInstance) {
-      this.mediatorInstance = createMediator()
+      const { LOG_LEVEL, LOG_REDACT } = container.resolve(Tokens.Config)
+      logger.configure({ level: LOG_LEVEL, redact: [...DEFAULT_REDACTED_FIELDS, ...LOG_REDACT] })
+
+      this.containerInstance = container
+      this.modules = modules
+      this.mediatorInstance = createMediator(container, modules)
+      this.healthRegistry = createHealthRegistry(container, modules)
+      verifyHandlers(this.mediatorInstance, modules)
     }
 
     return this.mediatorInstance
   }
 
   /**
-   * Register all routes from feature modules
+   * Register all routes from feature modules under their API version, and their OpenAPI document
    * @param app - Express application instance
+   * @throws Error when two modules declare the same method and path in a version, or a route isn't documented
    */
   static registerRoutes(app: Application): void {
-    const mediator = this.getMediator()
+    const mounted = this.mountRoutes()
 
-    const routes: RouteConfig[] = featureModules.map((module) => module.registerRoutes(mediator))
+    const conflicts = findRouteConflicts(mounted)
+    if (conflicts.length > 0) {
+      throw new Error(`Conflicting routes:\n${conflicts.map((line) => `  - ${line}`).join('\n')}`)
+    }
+
+    app.use(openApiRouter(createOpenApiDocument(mounted)))
+    app.use(
+      versionedRouter(
+        mounted.map(({ version, route }) => ({ version, ...route })),
+        apiVersioning,
+      ),
+    )
+  }
+
+  /**
+   * OpenAPI document of the routes of every feature module
+   */
+  static openApiDocument(): OpenApiDocument {
+    return createOpenApiDocument(this.mountRoutes())
+  }
+
+  /**
+   * Run the onInit hook of every module, one at a time in module order
+   * Call it before accepting connections; a failing hook aborts startup
+   */
+  static async start(): Promise<void> {
+    const container = this.getContainer()
+
+    for (const module of this.modules) {
+      await module.onInit?.(container)
+    }
+  }
+
+  /**
+   * Run the onReady hook of every module once the server accepts connections
+   */
+  static async ready(): Promise<void> {
+    const container = this.getContainer()
+
+    for (const module of this.modules) {
+      await module.onReady?.(container)
+    }
+  }
+
+  /**
+   * Stop the background work, run the onShutdown hook of every module in reverse module order,
+   * then disconnect from the database
+   * Call it once the server has stopped serving requests
+   * A failing hook is logged and doesn't keep the remaining modules from shutting down
+   */
+  static async shutdown(): Promise<void> {
+    await this.stopBackgroundWork()
+
+    const container = this.getContainer()
+
+    for (const module of [...this.modules].reverse()) {
+      try {
+        await module.onShutdown?.(container)
+      } catch (error) {
+        log.error(`${moduleName(module)} failed to shut down`, { error })
+      }
+    }
+
+    try {
+      await container.resolve(Tokens.Database).disconnect()
+    } catch (error) {
+      log.error('Failed to disconnect from the database', { error })
+    }
+  }
+
+  /**
+   * Start publishing outbox messages in the background
+   * Only the server process does this, so tests and scripts importing the app don't poll the database
+   */
+  static startOutboxDispatcher(): OutboxDispatcher {
+    if (!this.outboxDispatcher) {
+      this.outboxDispatcher = new OutboxDispatcher(
+        this.getContainer().resolve(Tokens.OutboxRepository),
+        this.getMediator(),
+        outboxEvents,
+      )
+      this.outboxDispatcher.start()
+    }
+
+    return this.outboxDispatcher
+  }
+
+  /**
+   * Start running background jobs
+   * Like the outbox dispatcher, only the server process does this
+   */
+  static startJobWorker(): JobWorker {
+    if (!this.jobWorker) {
+      const container = this.getContainer()
+      this.jobWorker = new JobWorker(
+        container.resolve(Tokens.JobRepository),
+        createJobRegistry(container, this.modules),
+      )
+      this.jobWorker.start()
+    }
+
+    return this.jobWorker
+  }
+
+  /**
+   * Stop the background workers, letting running jobs and the current outbox batch finish
+   */
+  static async stopBackgroundWork(): Promise<void> {
+    await Promise.all([this.outboxDispatcher?.stop(), this.jobWorker?.stop()])
+    this.outboxDispatcher = null
+    this.jobWorker = null
+  }
+
+  private static mountRoutes(): MountedRoute[] {
+    return mountFeatureRoutes(this.modules, this.getMediator(), this.getContainer())
+  }
+
+  /**
+   * Get the container the application was initialized with
+   * Throws if not initialized
+   */
+  static getContainer(): Container {
+    if (!this.containerInstance) {
+      throw new Error('Application not initialized. Call Startup.initialize() first.')
+    }
+
+    return this.containerInstance
+  }
+
+  /**
+   * Get the readiness checks of the application
+   * Throws if not initialized
+   */
+  static getHealthRegistry(): HealthRegistry {
+    if (!this.healthRegistry) {
+      throw new Error('Application not initialized. Call Startup.initialize() first.')
+    }
 
-    routes.forEach((route) => {
-      app.use(route.basePath, route.router)
-    })
+    return this.healthRegistry
   }
 
   /**
@@ -67,8 +345,13 @@ export class Startup {
 
   /**
    * Reset the application state (useful for testing)
+   * Waits for the background work to stop, so no job or outbox batch runs against the next application
    */
-  static reset(): void {
+  static async reset(): Promise<void> {
+    await this.stopBackgroundWork()
     this.mediatorInstance = null
+    this.containerInstance = null
+    this.healthRegistry = null
+    this.modules = []
   }
 }
@@ -0,0 +1,30 @@
+import fs from 'node:fs'
+import path from 'node:path'
+
+import { createOpenApiDocument } from '@/api'
+import { Tokens } from '@/infrastructure/container/tokens'
+import { Container } from '@/shared/container'
+import { discoverFeatureModules, InMemoryMediator, mountFeatureRoutes, resolveFeatureModules } from '@/shared/mediator'
+import { Errors, failure } from '@/shared/result'
+
+const SPEC_FILE = path.join(__dirname, '../openapi.json')
+
+/**
+ * Builds the document the way Startup does, with a container binding only what the routers resolve
+ */
+function currentDocument() {
+  const modules = resolveFeatureModules(discoverFeatureModules(path.join(__dirname, '../src/features')))
+  const container = Container.create().value(Tokens.AccessTokenVerifier, {
+    verify: async () => failure(Errors.unauthorized()),
+  })
+
+  return JSON.parse(
+    JSON.stringify(createOpenApiDocument(mountFeatureRoutes(modules, new InMemoryMediator(), container))),
+  )
+}
+
+describe('OpenAPI document', () => {
+  it('should match the committed openapi.json (run `pnpm openapi:generate` after changing a route)', () => {
+    expect(currentDocument()).toEqual(JSON.parse(fs.readFileSync(SPEC_FILE, 'utf8')))
+  })
+})
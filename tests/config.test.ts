@@ -0,0 +1,32 @@
+import os from 'node:os'
+
+import { configSchema } from '@/config'
+import { loadConfig } from '@/shared/config'
+
+describe('configSchema', () => {
+  const load = (env: NodeJS.ProcessEnv) => () => loadConfig(configSchema, { dir: os.tmpdir(), env })
+  const production = {
+    NODE_ENV: 'production',
+    JWT_SECRET: 'a-jwt-secret-of-at-least-32-chars',
+    TOKEN_SIGNING_SECRET: 'signing-secret',
+  }
+
+  it('should refuse the console email transport in production', () => {
+    expect(load(production)).toThrow(/ {2}- EMAIL_TRANSPORT: console only logs emails/)
+    expect(load({ ...production, EMAIL_TRANSPORT: 'outbox' })).not.toThrow()
+    expect(load({ NODE_ENV: 'development' })).not.toThrow()
+  })
+
+  it('should refuse a JWT_SECRET shorter than the secrets of JWT_KEYS', () => {
+    expect(load({ JWT_SECRET: 'short' })).toThrow(/ {2}- JWT_SECRET: /)
+  })
+
+  it('should parse JWT_KEYS, reporting malformed keys without their value', () => {
+    const key = { kid: '2026-01', alg: 'HS256', secret: 'a'.repeat(32) }
+
+    expect(load({ JWT_KEYS: JSON.stringify([key]) })().JWT_KEYS).toEqual([key])
+    expect(load({ JWT_KEYS: '[{"kid": "2026-01",' })).toThrow(/ {2}- JWT_KEYS: Invalid JSON \(from environment\)/)
+    expect(load({ JWT_KEYS: JSON.stringify([{ ...key, secret: 'short' }]) })).toThrow(/ {2}- JWT_KEYS\.0\.secret: /)
+    expect(load({ JWT_KEYS: JSON.stringify([key]), JWT_ACTIVE_KID: '2025-12' })).toThrow(/ {2}- JWT_ACTIVE_KID: /)
+  })
+})
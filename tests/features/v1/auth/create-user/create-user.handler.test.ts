@@ -1,33 +1,91 @@
 import { CreateUserCommandHandler } from '@/features/v1/auth/create-user/create-user.handler'
 import { CreateUserCommand } from '@/features/v1/auth/create-user/create-user.command'
-import { User } from '@/domain/user/user'
-import { EmailService } from '@/infrastructure/messaging/interfaces/email-service'
-import { success } from '@/shared/result'
+import { User, UserRepository } from '@/domain/user/user'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { InMemoryOutboxRepository } from '@/infrastructure/persistence/in-memory/outbox-repository'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { PasswordHasher } from '@/infrastructure/security/interfaces/password-hasher'
+import { MetricsRegistry } from '@/shared/metrics'
+import { Errors, failure, success } from '@/shared/result'
 
 describe('CreateUserCommandHandler', () => {
-  it('should create a new user', async () => {
-    const userRepository = {
-      findByEmail: jest.fn().mockResolvedValue(null),
-      save: jest.fn().mockResolvedValue(User.create('test@test.com', 'Test User')),
-    }
-    const emailService: EmailService = {
-      sendWelcomeEmail: jest.fn(),
-    }
-    const handler = new CreateUserCommandHandler(userRepository, emailService)
-    const command = new CreateUserCommand('test@test.com', 'Test User')
+  const createUserRepository = (overrides: Partial<UserRepository>): UserRepository => ({
+    save: jest.fn(),
+    findById: jest.fn(),
+    findByEmail: jest.fn(),
+    findAll: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    ...overrides,
+  })
+
+  const passwordHasher: PasswordHasher = {
+    hash: jest.fn().mockResolvedValue('hashed'),
+    verify: jest.fn(),
+    needsRehash: jest.fn(),
+  }
+
+  it('should create a new user and record UserCreated in the outbox', async () => {
+    const outbox = new InMemoryOutboxRepository()
+    const userRepository = new InMemoryUserRepository(outbox)
+    const usersCreated = new MetricsRegistry().counter({ name: 'users_created_total', help: 'Users created' })
+    const handler = new CreateUserCommandHandler(userRepository, passwordHasher, undefined, usersCreated)
+    const command = new CreateUserCommand('test@test.com', 'Str0ngPassword', 'Test User')
 
     const result = await handler.execute(command)
 
-    expect(userRepository.findByEmail).toHaveBeenCalledWith('test@test.com')
-    expect(userRepository.save).toHaveBeenCalled()
-    expect(emailService.sendWelcomeEmail).toHaveBeenCalled()
+    expect(await userRepository.findByEmail('test@test.com')).toMatchObject({ passwordHash: 'hashed' })
+    expect(outbox.messages).toEqual([expect.objectContaining({ type: UserCreated.eventType, status: 'pending' })])
+    expect(usersCreated.render()).toContain('users_created_total 1')
+    expect(UserCreated.fromPayload(JSON.parse(outbox.messages[0].payload))).toEqual(
+      new UserCreated('1', 'test@test.com', 'Test User', expect.any(Date)),
+    )
     expect(result).toEqual(
       success({
-        id: expect.any(String),
+        id: '1',
         email: 'test@test.com',
         name: 'Test User',
         createdAt: expect.any(Date),
       }),
     )
   })
+
+  it('should return a conflict without saving when the email is taken', async () => {
+    const userRepository = createUserRepository({
+      findByEmail: jest.fn().mockResolvedValue(User.create('test@test.com', 'Test User')),
+    })
+    const handler = new CreateUserCommandHandler(userRepository, passwordHasher)
+
+    const result = await handler.execute(new CreateUserCommand('test@test.com', 'Str0ngPassword'))
+
+    expect(result).toEqual(failure(Errors.conflict('User', 'User with this email already exists')))
+    expect(userRepository.save).not.toHaveBeenCalled()
+  })
+
+  it('should reject passwords that do not meet the policy', async () => {
+    const userRepository = createUserRepository({ findByEmail: jest.fn().mockResolvedValue(null) })
+    const handler = new CreateUserCommandHandler(userRepository, passwordHasher, {
+      minLength: 8,
+      maxLength: 64,
+      requireLowercase: true,
+      requireUppercase: true,
+      requireDigit: true,
+      requireSymbol: false,
+    })
+
+    const result = await handler.execute(new CreateUserCommand('test@test.com', 'weak'))
+
+    expect(result).toEqual(
+      failure(
+        Errors.validation('Password does not meet the password policy', {
+          password: [
+            'Password must be at least 8 characters long',
+            'Password must contain an uppercase letter',
+            'Password must contain a digit',
+          ],
+        }),
+      ),
+    )
+    expect(userRepository.save).not.toHaveBeenCalled()
+  })
 })
@@ -0,0 +1,26 @@
+import { SendVerificationEmailHandler } from '@/features/v1/auth/create-user/send-verification-email.handler'
+import { SendVerificationEmailJob } from '@/features/v1/auth/send-verification-email.job'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { EnqueueJobCommand } from '@/shared/jobs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { success } from '@/shared/result'
+
+describe('SendVerificationEmailHandler', () => {
+  it('should enqueue the verification email once per user', async () => {
+    const mediator = new InMemoryMediator()
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    mediator.register(EnqueueJobCommand, { execute })
+
+    const result = await new SendVerificationEmailHandler(mediator).execute(
+      new UserCreated('1', 'test@test.com', null, new Date()),
+    )
+
+    expect(execute).toHaveBeenCalledWith(
+      new EnqueueJobCommand(new SendVerificationEmailJob('1', 'test@test.com'), {
+        uniqueKey: 'send-verification-email:1',
+      }),
+      {},
+    )
+    expect(result).toEqual(success(undefined))
+  })
+})
@@ -0,0 +1,50 @@
+import { SendWelcomeEmailHandler } from '@/features/v1/auth/create-user/send-welcome-email.handler'
+import { SendWelcomeEmailJob, SendWelcomeEmailJobHandler } from '@/features/v1/auth/create-user/send-welcome-email.job'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { InMemoryEmailService } from '@/infrastructure/messaging/email-service/in-memory-email-service'
+import { EnqueueJobCommand } from '@/shared/jobs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { success } from '@/shared/result'
+
+describe('SendWelcomeEmailHandler', () => {
+  const setup = () => {
+    const mediator = new InMemoryMediator()
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    mediator.register(EnqueueJobCommand, { execute })
+    return { handler: new SendWelcomeEmailHandler(mediator), execute }
+  }
+
+  it('should enqueue the welcome email for named users', async () => {
+    const { handler, execute } = setup()
+
+    const result = await handler.execute(new UserCreated('1', 'test@test.com', 'Test User', new Date()))
+
+    expect(execute).toHaveBeenCalledWith(
+      new EnqueueJobCommand(new SendWelcomeEmailJob('test@test.com', 'Test User'), {
+        uniqueKey: 'send-welcome-email:1',
+      }),
+      {},
+    )
+    expect(result).toEqual(success(undefined))
+  })
+
+  it('should skip users without a name', async () => {
+    const { handler, execute } = setup()
+
+    await handler.execute(new UserCreated('1', 'test@test.com', null, new Date()))
+
+    expect(execute).not.toHaveBeenCalled()
+  })
+})
+
+describe('SendWelcomeEmailJobHandler', () => {
+  it('should send the welcome email', async () => {
+    const emailService = new InMemoryEmailService()
+    const handler = new SendWelcomeEmailJobHandler(emailService)
+
+    const result = await handler.execute(SendWelcomeEmailJob.fromPayload({ email: 'test@test.com', name: 'Test User' }))
+
+    expect(emailService.sent).toEqual([{ type: 'welcome', to: 'test@test.com', name: 'Test User' }])
+    expect(result).toEqual(success(undefined))
+  })
+})
@@ -0,0 +1,79 @@
+import { LoginCommandHandler } from '@/features/v1/auth/login/login.handler'
+import { LoginCommand } from '@/features/v1/auth/login/login.command'
+import { User } from '@/domain/user/user'
+import { SessionTokenIssuer } from '@/features/v1/auth/session-tokens'
+import { InMemorySessionRepository } from '@/infrastructure/persistence/in-memory/session-repository'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { ScryptPasswordHasher } from '@/infrastructure/security/password-hasher/scrypt-password-hasher'
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { Errors, failure, isSuccess, success } from '@/shared/result'
+
+describe('LoginCommandHandler', () => {
+  // Cheap parameters keep the test fast
+  const passwordHasher = new ScryptPasswordHasher({ logN: 10, blockSize: 8, parallelization: 1 })
+  const tokenService = new JwtTokenService({
+    keys: [{ kid: 'k1', alg: 'HS256', secret: 'a-test-secret-that-is-long-enough!' }],
+    activeKid: 'k1',
+  })
+  const sessionTokens = () => new SessionTokenIssuer(new InMemorySessionRepository(), tokenService)
+
+  const setup = async (hasher = passwordHasher) => {
+    const userRepository = new InMemoryUserRepository()
+    const user = await userRepository.save(
+      User.create('test@test.com', 'Test User', await hasher.hash('Str0ngPassword')),
+    )
+    return { userRepository, user }
+  }
+
+  it('should start a session for valid credentials', async () => {
+    const { userRepository, user } = await setup()
+    const handler = new LoginCommandHandler(userRepository, passwordHasher, sessionTokens())
+
+    const result = await handler.execute(new LoginCommand('test@test.com', 'Str0ngPassword'))
+
+    expect(result).toEqual(
+      success({
+        accessToken: expect.any(String),
+        tokenType: 'Bearer',
+        expiresIn: 900,
+        refreshToken: expect.any(String),
+        refreshTokenExpiresIn: 30 * 24 * 60 * 60,
+        user: { id: user.id, email: 'test@test.com', name: 'Test User' },
+      }),
+    )
+    if (isSuccess(result)) {
+      expect(tokenService.verify(result.value.accessToken)).toEqual(
+        success({ userId: user.id, email: 'test@test.com', credentialVersion: 0 }),
+      )
+    }
+  })
+
+  it('should reject a wrong password', async () => {
+    const { userRepository } = await setup()
+    const handler = new LoginCommandHandler(userRepository, passwordHasher, sessionTokens())
+
+    const result = await handler.execute(new LoginCommand('test@test.com', 'WrongPassword1'))
+
+    expect(result).toEqual(failure(Errors.unauthorized('Invalid email or password')))
+  })
+
+  it('should reject an unknown email with the same error', async () => {
+    const handler = new LoginCommandHandler(new InMemoryUserRepository(), passwordHasher, sessionTokens())
+
+    const result = await handler.execute(new LoginCommand('nobody@test.com', 'Str0ngPassword'))
+
+    expect(result).toEqual(failure(Errors.unauthorized('Invalid email or password')))
+  })
+
+  it('should rehash passwords created with outdated parameters', async () => {
+    const outdatedHasher = new ScryptPasswordHasher({ logN: 9, blockSize: 8, parallelization: 1 })
+    const { userRepository, user } = await setup(outdatedHasher)
+    const handler = new LoginCommandHandler(userRepository, passwordHasher, sessionTokens())
+
+    await handler.execute(new LoginCommand('test@test.com', 'Str0ngPassword'))
+
+    const rehashed = await userRepository.findById(user.id)
+    expect(rehashed?.passwordHash).toContain('ln=10')
+    expect(await passwordHasher.verify('Str0ngPassword', rehashed?.passwordHash ?? '')).toBe(true)
+  })
+})
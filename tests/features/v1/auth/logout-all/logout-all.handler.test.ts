@@ -0,0 +1,30 @@
+import { LogoutAllCommandHandler } from '@/features/v1/auth/logout-all/logout-all.handler'
+import { LogoutAllCommand } from '@/features/v1/auth/logout-all/logout-all.command'
+import { Session } from '@/domain/session/session'
+import { InMemorySessionRepository } from '@/infrastructure/persistence/in-memory/session-repository'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('LogoutAllCommandHandler', () => {
+  it('should revoke every session of the authenticated user', async () => {
+    const sessionRepository = new InMemorySessionRepository()
+    await sessionRepository.save(Session.start('1'))
+    await sessionRepository.save(Session.start('1'))
+    const other = await sessionRepository.save(Session.start('2'))
+    const handler = new LogoutAllCommandHandler(sessionRepository)
+
+    const result = await handler.execute(new LogoutAllCommand(), {
+      principal: { userId: '1', email: 'test@test.com', roles: [], permissions: [] },
+    })
+
+    expect(result).toEqual(success({ revokedSessions: 2 }))
+    expect((await sessionRepository.findById(other.id))?.isRevoked).toBe(false)
+  })
+
+  it('should require an authenticated principal', async () => {
+    const handler = new LogoutAllCommandHandler(new InMemorySessionRepository())
+
+    const result = await handler.execute(new LogoutAllCommand(), {})
+
+    expect(result).toEqual(failure(Errors.unauthorized()))
+  })
+})
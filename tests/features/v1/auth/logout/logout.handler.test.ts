@@ -0,0 +1,35 @@
+import { LogoutCommandHandler } from '@/features/v1/auth/logout/logout.handler'
+import { LogoutCommand } from '@/features/v1/auth/logout/logout.command'
+import { SessionTokenIssuer } from '@/features/v1/auth/session-tokens'
+import { InMemorySessionRepository } from '@/infrastructure/persistence/in-memory/session-repository'
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { success } from '@/shared/result'
+
+describe('LogoutCommandHandler', () => {
+  const tokenService = new JwtTokenService({
+    keys: [{ kid: 'k1', alg: 'HS256', secret: 'a-test-secret-that-is-long-enough!' }],
+    activeKid: 'k1',
+  })
+
+  it('should revoke only the session of the refresh token', async () => {
+    const sessionRepository = new InMemorySessionRepository()
+    const sessionTokens = new SessionTokenIssuer(sessionRepository, tokenService)
+    const subject = { userId: '1', email: 'test@test.com', credentialVersion: 0 }
+    const phone = await sessionTokens.start(subject)
+    await sessionTokens.start(subject)
+    const handler = new LogoutCommandHandler(sessionRepository)
+
+    const result = await handler.execute(new LogoutCommand(phone.refreshToken))
+
+    expect(result).toEqual(success(undefined))
+    expect(await sessionRepository.revokeAllForUser('1')).toBe(1)
+  })
+
+  it('should succeed for unknown refresh tokens', async () => {
+    const handler = new LogoutCommandHandler(new InMemorySessionRepository())
+
+    const result = await handler.execute(new LogoutCommand('unknown'))
+
+    expect(result).toEqual(success(undefined))
+  })
+})
@@ -0,0 +1,114 @@
+import { RefreshTokenCommandHandler } from '@/features/v1/auth/refresh-token/refresh-token.handler'
+import { RefreshTokenCommand } from '@/features/v1/auth/refresh-token/refresh-token.command'
+import { SessionTokenIssuer, SessionTokens } from '@/features/v1/auth/session-tokens'
+import { User } from '@/domain/user/user'
+import { InMemorySessionRepository } from '@/infrastructure/persistence/in-memory/session-repository'
+import { InMemoryUnitOfWork } from '@/infrastructure/persistence/in-memory/unit-of-work'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, isSuccess, Result, success } from '@/shared/result'
+import { UnitOfWorkBehavior } from '@/shared/unit-of-work'
+
+describe('RefreshTokenCommandHandler', () => {
+  const tokenService = new JwtTokenService({
+    keys: [{ kid: 'k1', alg: 'HS256', secret: 'a-test-secret-that-is-long-enough!' }],
+    activeKid: 'k1',
+  })
+
+  const setup = async (refreshTokenTtlSeconds?: number) => {
+    const sessionRepository = new InMemorySessionRepository()
+    const userRepository = new InMemoryUserRepository()
+    const sessionTokens = new SessionTokenIssuer(sessionRepository, tokenService, refreshTokenTtlSeconds)
+    const user = await userRepository.save(User.create('test@test.com', 'Test User'))
+    const tokens = await sessionTokens.start({ userId: user.id, email: user.email, credentialVersion: 0 })
+    const unitOfWork = new InMemoryUnitOfWork([sessionRepository, userRepository])
+    const handler = new RefreshTokenCommandHandler(sessionRepository, userRepository, sessionTokens, unitOfWork)
+    const mediator = new InMemoryMediator()
+    mediator.addBehavior(new UnitOfWorkBehavior(unitOfWork))
+    mediator.register(RefreshTokenCommand, handler)
+    return { handler, mediator, sessionRepository, user, tokens }
+  }
+
+  const valueOf = (result: Result<SessionTokens, unknown>): SessionTokens => {
+    if (!isSuccess(result)) throw new Error('Expected a Success')
+    return result.value
+  }
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should rotate the refresh token and issue a new access token', async () => {
+    const { handler, user, tokens } = await setup()
+
+    const refreshed = valueOf(await handler.execute(new RefreshTokenCommand(tokens.refreshToken)))
+
+    expect(refreshed.refreshToken).not.toBe(tokens.refreshToken)
+    expect(tokenService.verify(refreshed.accessToken)).toEqual(
+      success({ userId: user.id, email: user.email, credentialVersion: 0 }),
+    )
+    expect(isSuccess(await handler.execute(new RefreshTokenCommand(refreshed.refreshToken)))).toBe(true)
+  })
+
+  it('should revoke the whole token family when a rotated token is reused', async () => {
+    const { handler, sessionRepository, tokens } = await setup()
+    const refreshed = valueOf(await handler.execute(new RefreshTokenCommand(tokens.refreshToken)))
+
+    const reused = await handler.execute(new RefreshTokenCommand(tokens.refreshToken))
+
+    expect(reused).toEqual(failure(Errors.unauthorized('Invalid refresh token')))
+    expect(await handler.execute(new RefreshTokenCommand(refreshed.refreshToken))).toEqual(
+      failure(Errors.unauthorized('Invalid refresh token')),
+    )
+    expect((await sessionRepository.findById('1'))?.isRevoked).toBe(true)
+  })
+
+  it('should keep the revocation when a reused token is sent through the mediator', async () => {
+    const { mediator, sessionRepository, tokens } = await setup()
+    const refreshed = valueOf(await mediator.send(new RefreshTokenCommand(tokens.refreshToken)))
+
+    const reused = await mediator.send(new RefreshTokenCommand(tokens.refreshToken))
+
+    expect(reused).toEqual(failure(Errors.unauthorized('Invalid refresh token')))
+    expect((await sessionRepository.findById('1'))?.isRevoked).toBe(true)
+    expect(await mediator.send(new RefreshTokenCommand(refreshed.refreshToken))).toEqual(
+      failure(Errors.unauthorized('Invalid refresh token')),
+    )
+  })
+
+  it('should let only one of two concurrent refreshes win', async () => {
+    const { handler, tokens } = await setup()
+
+    const results = await Promise.all([
+      handler.execute(new RefreshTokenCommand(tokens.refreshToken)),
+      handler.execute(new RefreshTokenCommand(tokens.refreshToken)),
+    ])
+
+    expect(results.filter(isSuccess)).toHaveLength(1)
+  })
+
+  it('should reject expired refresh tokens', async () => {
+    const { handler, tokens } = await setup(-1)
+
+    const result = await handler.execute(new RefreshTokenCommand(tokens.refreshToken))
+
+    expect(result).toEqual(failure(Errors.unauthorized('Refresh token expired')))
+  })
+
+  it('should reject tokens of revoked sessions and unknown tokens', async () => {
+    const { handler, sessionRepository, user, tokens } = await setup()
+    await sessionRepository.revokeAllForUser(user.id)
+
+    expect(await handler.execute(new RefreshTokenCommand(tokens.refreshToken))).toEqual(
+      failure(Errors.unauthorized('Invalid refresh token')),
+    )
+    expect(await handler.execute(new RefreshTokenCommand('unknown'))).toEqual(
+      failure(Errors.unauthorized('Invalid refresh token')),
+    )
+  })
+})
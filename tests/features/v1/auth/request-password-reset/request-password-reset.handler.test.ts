@@ -0,0 +1,79 @@
+import { RequestPasswordResetCommandHandler } from '@/features/v1/auth/request-password-reset/request-password-reset.handler'
+import { RequestPasswordResetCommand } from '@/features/v1/auth/request-password-reset/request-password-reset.command'
+import {
+  SendPasswordResetEmailJob,
+  SendPasswordResetEmailJobHandler,
+} from '@/features/v1/auth/request-password-reset/send-password-reset-email.job'
+import { User } from '@/domain/user/user'
+import { InMemoryEmailService } from '@/infrastructure/messaging/email-service/in-memory-email-service'
+import { InMemoryJobRepository } from '@/infrastructure/persistence/in-memory/job-repository'
+import { InMemoryPasswordResetTokenRepository } from '@/infrastructure/persistence/in-memory/password-reset-token-repository'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { InMemoryRateLimiter } from '@/infrastructure/security/rate-limiter/in-memory-rate-limiter'
+import { hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+import { EnqueueJobCommand, EnqueueJobCommandHandler, JobQueue } from '@/shared/jobs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('RequestPasswordResetCommandHandler', () => {
+  const setup = async () => {
+    const userRepository = new InMemoryUserRepository()
+    const jobRepository = new InMemoryJobRepository()
+    const mediator = new InMemoryMediator()
+    mediator.register(EnqueueJobCommand, new EnqueueJobCommandHandler(new JobQueue(jobRepository)))
+    const handler = new RequestPasswordResetCommandHandler(
+      userRepository,
+      mediator,
+      new InMemoryRateLimiter({ limit: 1, windowSeconds: 60 }),
+    )
+    await userRepository.save(User.create('test@test.com', 'Test User'))
+    return { handler, jobRepository }
+  }
+
+  it('should enqueue the reset email of known addresses', async () => {
+    const { handler, jobRepository } = await setup()
+
+    const result = await handler.execute(new RequestPasswordResetCommand('test@test.com'))
+
+    expect(result).toEqual(success(undefined))
+    expect(jobRepository.jobs).toEqual([
+      expect.objectContaining({
+        name: 'send-password-reset-email',
+        payload: JSON.stringify(new SendPasswordResetEmailJob('1', 'test@test.com')),
+      }),
+    ])
+  })
+
+  it('should answer the same for unknown addresses without enqueueing anything', async () => {
+    const { handler, jobRepository } = await setup()
+
+    const result = await handler.execute(new RequestPasswordResetCommand('nobody@test.com'))
+
+    expect(result).toEqual(success(undefined))
+    expect(jobRepository.jobs).toEqual([])
+  })
+
+  it('should rate-limit requests per address', async () => {
+    const { handler } = await setup()
+    await handler.execute(new RequestPasswordResetCommand('test@test.com'))
+
+    const result = await handler.execute(new RequestPasswordResetCommand('test@test.com'))
+
+    expect(result).toEqual(failure(Errors.rateLimited(60)))
+  })
+})
+
+describe('SendPasswordResetEmailJobHandler', () => {
+  it('should email a reset token and store only its hash', async () => {
+    const resetTokenRepository = new InMemoryPasswordResetTokenRepository()
+    const emailService = new InMemoryEmailService()
+    const handler = new SendPasswordResetEmailJobHandler(resetTokenRepository, emailService)
+
+    const result = await handler.execute(SendPasswordResetEmailJob.fromPayload({ userId: '1', email: 'test@test.com' }))
+
+    const token = emailService.lastToken('test@test.com', 'password-reset') ?? ''
+    expect(result).toEqual(success(undefined))
+    expect(await resetTokenRepository.findByHash(token)).toBeNull()
+    expect(await resetTokenRepository.findByHash(hashOpaqueToken(token))).toMatchObject({ userId: '1', usedAt: null })
+  })
+})
@@ -0,0 +1,62 @@
+import { ResendVerificationCommandHandler } from '@/features/v1/auth/resend-verification/resend-verification.handler'
+import { ResendVerificationCommand } from '@/features/v1/auth/resend-verification/resend-verification.command'
+import { SendVerificationEmailJob } from '@/features/v1/auth/send-verification-email.job'
+import { User } from '@/domain/user/user'
+import { InMemoryJobRepository } from '@/infrastructure/persistence/in-memory/job-repository'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { InMemoryRateLimiter } from '@/infrastructure/security/rate-limiter/in-memory-rate-limiter'
+import { EnqueueJobCommand, EnqueueJobCommandHandler, JobQueue } from '@/shared/jobs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('ResendVerificationCommandHandler', () => {
+  const setup = async () => {
+    const userRepository = new InMemoryUserRepository()
+    const jobRepository = new InMemoryJobRepository()
+    const mediator = new InMemoryMediator()
+    mediator.register(EnqueueJobCommand, new EnqueueJobCommandHandler(new JobQueue(jobRepository)))
+    const handler = new ResendVerificationCommandHandler(
+      userRepository,
+      mediator,
+      new InMemoryRateLimiter({ limit: 2, windowSeconds: 60 }),
+    )
+    return { handler, userRepository, jobRepository }
+  }
+
+  it('should enqueue a new verification email for unverified users', async () => {
+    const { handler, userRepository, jobRepository } = await setup()
+    await userRepository.save(User.create('test@test.com', 'Test User'))
+
+    const result = await handler.execute(new ResendVerificationCommand('test@test.com'))
+
+    expect(result).toEqual(success(undefined))
+    expect(jobRepository.jobs).toEqual([
+      expect.objectContaining({
+        name: 'send-verification-email',
+        payload: JSON.stringify(new SendVerificationEmailJob('1', 'test@test.com')),
+      }),
+    ])
+  })
+
+  it('should answer the same for unknown and verified addresses without enqueueing anything', async () => {
+    const { handler, userRepository, jobRepository } = await setup()
+    const user = await userRepository.save(User.create('verified@test.com', 'Test User'))
+    await userRepository.update(user.verifyEmail())
+
+    expect(await handler.execute(new ResendVerificationCommand('verified@test.com'))).toEqual(success(undefined))
+    expect(await handler.execute(new ResendVerificationCommand('nobody@test.com'))).toEqual(success(undefined))
+    expect(jobRepository.jobs).toEqual([])
+  })
+
+  it('should rate-limit attempts per address', async () => {
+    const { handler } = await setup()
+    await handler.execute(new ResendVerificationCommand('test@test.com'))
+    await handler.execute(new ResendVerificationCommand('TEST@test.com'))
+
+    const limited = await handler.execute(new ResendVerificationCommand('test@test.com'))
+    const other = await handler.execute(new ResendVerificationCommand('other@test.com'))
+
+    expect(limited).toEqual(failure(Errors.rateLimited(60)))
+    expect(other).toEqual(success(undefined))
+  })
+})
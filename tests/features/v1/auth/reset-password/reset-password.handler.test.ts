@@ -0,0 +1,83 @@
+import { ResetPasswordCommandHandler } from '@/features/v1/auth/reset-password/reset-password.handler'
+import { ResetPasswordCommand } from '@/features/v1/auth/reset-password/reset-password.command'
+import { PasswordResetToken } from '@/domain/user/password-reset-token'
+import { Session } from '@/domain/session/session'
+import { User } from '@/domain/user/user'
+import { InMemoryPasswordResetTokenRepository } from '@/infrastructure/persistence/in-memory/password-reset-token-repository'
+import { InMemorySessionRepository } from '@/infrastructure/persistence/in-memory/session-repository'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { ScryptPasswordHasher } from '@/infrastructure/security/password-hasher/scrypt-password-hasher'
+import { hashOpaqueToken } from '@/infrastructure/security/token-service/opaque-token'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('ResetPasswordCommandHandler', () => {
+  // Cheap parameters keep the test fast
+  const passwordHasher = new ScryptPasswordHasher({ logN: 10, blockSize: 8, parallelization: 1 })
+
+  const setup = async (ttlSeconds = 60) => {
+    const userRepository = new InMemoryUserRepository()
+    const resetTokenRepository = new InMemoryPasswordResetTokenRepository()
+    const sessionRepository = new InMemorySessionRepository()
+    const user = await userRepository.save(
+      User.create('test@test.com', 'Test User', await passwordHasher.hash('Old-Passw0rd!')),
+    )
+    await resetTokenRepository.save(PasswordResetToken.issue(user.id, hashOpaqueToken('reset-token'), ttlSeconds))
+    await sessionRepository.save(Session.start(user.id))
+    const handler = new ResetPasswordCommandHandler(
+      userRepository,
+      resetTokenRepository,
+      sessionRepository,
+      passwordHasher,
+    )
+    return { handler, userRepository, sessionRepository, user }
+  }
+
+  it('should set the new password and bump the credential version', async () => {
+    const { handler, userRepository, user } = await setup()
+
+    const result = await handler.execute(new ResetPasswordCommand('reset-token', 'New-Passw0rd!'))
+
+    const updated = await userRepository.findById(user.id)
+    expect(result).toEqual(success(undefined))
+    expect(updated?.credentialVersion).toBe(1)
+    expect(await passwordHasher.verify('New-Passw0rd!', updated?.passwordHash ?? '')).toBe(true)
+  })
+
+  it('should revoke every session of the user', async () => {
+    const { handler, sessionRepository, user } = await setup()
+
+    await handler.execute(new ResetPasswordCommand('reset-token', 'New-Passw0rd!'))
+
+    expect(await sessionRepository.revokeAllForUser(user.id)).toBe(0)
+  })
+
+  it('should accept a token only once', async () => {
+    const { handler } = await setup()
+    await handler.execute(new ResetPasswordCommand('reset-token', 'New-Passw0rd!'))
+
+    const result = await handler.execute(new ResetPasswordCommand('reset-token', 'Other-Passw0rd!'))
+
+    expect(result).toEqual(failure(Errors.validation('Password reset token is invalid or has expired')))
+  })
+
+  it('should reject expired and unknown tokens', async () => {
+    const { handler } = await setup(-1)
+
+    expect(await handler.execute(new ResetPasswordCommand('reset-token', 'New-Passw0rd!'))).toEqual(
+      failure(Errors.validation('Password reset token is invalid or has expired')),
+    )
+    expect(await handler.execute(new ResetPasswordCommand('unknown', 'New-Passw0rd!'))).toEqual(
+      failure(Errors.validation('Password reset token is invalid or has expired')),
+    )
+  })
+
+  it('should enforce the password policy before spending the token', async () => {
+    const { handler } = await setup()
+
+    const weak = await handler.execute(new ResetPasswordCommand('reset-token', 'weak'))
+    const strong = await handler.execute(new ResetPasswordCommand('reset-token', 'New-Passw0rd!'))
+
+    expect(weak).toEqual(failure(expect.objectContaining({ code: 'VALIDATION_ERROR', details: expect.any(Object) })))
+    expect(strong).toEqual(success(undefined))
+  })
+})
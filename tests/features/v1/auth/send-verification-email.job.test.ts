@@ -0,0 +1,22 @@
+import { EmailVerificationTokens } from '@/features/v1/auth/email-verification-tokens'
+import {
+  SendVerificationEmailJob,
+  SendVerificationEmailJobHandler,
+} from '@/features/v1/auth/send-verification-email.job'
+import { InMemoryEmailService } from '@/infrastructure/messaging/email-service/in-memory-email-service'
+import { HmacTokenSigner } from '@/infrastructure/security/token-service/hmac-token-signer'
+import { success } from '@/shared/result'
+
+describe('SendVerificationEmailJobHandler', () => {
+  it('should email a verification token for the user and address', async () => {
+    const emailService = new InMemoryEmailService()
+    const verificationTokens = new EmailVerificationTokens(new HmacTokenSigner('test-secret'))
+    const handler = new SendVerificationEmailJobHandler(emailService, verificationTokens)
+
+    const result = await handler.execute(SendVerificationEmailJob.fromPayload({ userId: '1', email: 'test@test.com' }))
+
+    const token = emailService.lastToken('test@test.com', 'verification') ?? ''
+    expect(result).toEqual(success(undefined))
+    expect(verificationTokens.verify(token)).toEqual(success({ userId: '1', email: 'test@test.com' }))
+  })
+})
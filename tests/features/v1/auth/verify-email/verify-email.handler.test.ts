@@ -0,0 +1,68 @@
+import { VerifyEmailCommandHandler } from '@/features/v1/auth/verify-email/verify-email.handler'
+import { VerifyEmailCommand } from '@/features/v1/auth/verify-email/verify-email.command'
+import { EmailVerificationTokens } from '@/features/v1/auth/email-verification-tokens'
+import {
+  SendVerificationEmailJob,
+  SendVerificationEmailJobHandler,
+} from '@/features/v1/auth/send-verification-email.job'
+import { User } from '@/domain/user/user'
+import { InMemoryEmailService } from '@/infrastructure/messaging/email-service/in-memory-email-service'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { HmacTokenSigner } from '@/infrastructure/security/token-service/hmac-token-signer'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('VerifyEmailCommandHandler', () => {
+  const setup = async (ttlSeconds?: number) => {
+    const userRepository = new InMemoryUserRepository()
+    const emailService = new InMemoryEmailService()
+    const verificationTokens = new EmailVerificationTokens(new HmacTokenSigner('test-secret'), ttlSeconds)
+    const user = await userRepository.save(User.create('test@test.com', 'Test User'))
+
+    // Signing up sends the first verification email
+    await new SendVerificationEmailJobHandler(emailService, verificationTokens).execute(
+      new SendVerificationEmailJob(user.id, user.email),
+    )
+    const token = emailService.lastToken('test@test.com', 'verification') ?? ''
+
+    const handler = new VerifyEmailCommandHandler(userRepository, verificationTokens)
+    return { handler, userRepository, user, token }
+  }
+
+  it('should verify the email address with the emailed token', async () => {
+    const { handler, userRepository, user, token } = await setup()
+
+    const result = await handler.execute(new VerifyEmailCommand(token))
+
+    expect(result).toEqual(success(undefined))
+    expect((await userRepository.findById(user.id))?.emailVerifiedAt).toEqual(expect.any(Date))
+  })
+
+  it('should accept a token only once', async () => {
+    const { handler, token } = await setup()
+    await handler.execute(new VerifyEmailCommand(token))
+
+    const result = await handler.execute(new VerifyEmailCommand(token))
+
+    expect(result).toEqual(failure(Errors.validation('Verification token has already been used')))
+  })
+
+  it('should reject tokens for an address the user no longer has', async () => {
+    const { handler, userRepository, user, token } = await setup()
+    await userRepository.update(user.update({ email: 'new@test.com' }))
+
+    const result = await handler.execute(new VerifyEmailCommand(token))
+
+    expect(result).toEqual(failure(Errors.validation('Verification token is invalid')))
+  })
+
+  it('should reject expired and forged tokens', async () => {
+    const { handler, token } = await setup(-1)
+
+    expect(await handler.execute(new VerifyEmailCommand(token))).toEqual(
+      failure(Errors.validation('Verification token has expired')),
+    )
+    expect(await handler.execute(new VerifyEmailCommand(`${token}x`))).toEqual(
+      failure(Errors.validation('Verification token is invalid')),
+    )
+  })
+})
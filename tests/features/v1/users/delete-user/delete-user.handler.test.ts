@@ -0,0 +1,26 @@
+import { DeleteUserCommandHandler } from '@/features/v1/users/delete-user/delete-user.handler'
+import { DeleteUserCommand } from '@/features/v1/users/delete-user/delete-user.command'
+import { User } from '@/domain/user/user'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('DeleteUserCommandHandler', () => {
+  it('should delete the user', async () => {
+    const userRepository = new InMemoryUserRepository()
+    const saved = await userRepository.save(User.create('test@test.com', 'Test User'))
+    const handler = new DeleteUserCommandHandler(userRepository)
+
+    const result = await handler.execute(new DeleteUserCommand(saved.id))
+
+    expect(result).toEqual(success(undefined))
+    expect(await userRepository.findById(saved.id)).toBeNull()
+  })
+
+  it('should return not found for an unknown ID', async () => {
+    const handler = new DeleteUserCommandHandler(new InMemoryUserRepository())
+
+    const result = await handler.execute(new DeleteUserCommand('42'))
+
+    expect(result).toEqual(failure(Errors.notFound('User', 'User with ID 42 not found')))
+  })
+})
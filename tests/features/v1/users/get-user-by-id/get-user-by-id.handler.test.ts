@@ -0,0 +1,34 @@
+import { GetUserByIdQueryHandler } from '@/features/v1/users/get-user-by-id/get-user-by-id.handler'
+import { GetUserByIdQuery } from '@/features/v1/users/get-user-by-id/get-user-by-id.query'
+import { User } from '@/domain/user/user'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('GetUserByIdQueryHandler', () => {
+  it('should return the user', async () => {
+    const userRepository = new InMemoryUserRepository()
+    const saved = await userRepository.save(User.create('test@test.com', 'Test User'))
+    const handler = new GetUserByIdQueryHandler(userRepository)
+
+    const result = await handler.execute(new GetUserByIdQuery(saved.id))
+
+    expect(result).toEqual(
+      success({
+        id: saved.id,
+        email: 'test@test.com',
+        name: 'Test User',
+        createdAt: expect.any(Date),
+        updatedAt: expect.any(Date),
+        emailVerifiedAt: null,
+      }),
+    )
+  })
+
+  it('should return not found for an unknown ID', async () => {
+    const handler = new GetUserByIdQueryHandler(new InMemoryUserRepository())
+
+    const result = await handler.execute(new GetUserByIdQuery('42'))
+
+    expect(result).toEqual(failure(Errors.notFound('User', 'User with ID 42 not found')))
+  })
+})
@@ -0,0 +1,30 @@
+import { ListUsersQueryHandler } from '@/features/v1/users/list-users/list-users.handler'
+import { ListUsersQuery } from '@/features/v1/users/list-users/list-users.query'
+import { User } from '@/domain/user/user'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { isSuccess } from '@/shared/result'
+
+describe('ListUsersQueryHandler', () => {
+  it('should return the requested page with the total count', async () => {
+    const userRepository = new InMemoryUserRepository()
+    for (const email of ['a@test.com', 'b@test.com', 'c@test.com']) {
+      await userRepository.save(User.create(email, null))
+    }
+    const handler = new ListUsersQueryHandler(userRepository)
+
+    const result = await handler.execute(new ListUsersQuery(2, 2))
+
+    expect(isSuccess(result) && result.value).toEqual({
+      items: [{ id: '3', email: 'c@test.com', name: null, createdAt: expect.any(Date) }],
+      page: 2,
+      pageSize: 2,
+      total: 3,
+    })
+  })
+
+  it('should apply paging defaults from query string input', () => {
+    const query = ListUsersQuery.fromInput({})
+
+    expect(isSuccess(query) && query.value).toMatchObject({ page: 1, pageSize: 20 })
+  })
+})
@@ -0,0 +1,45 @@
+import { UpdateUserCommandHandler } from '@/features/v1/users/update-user/update-user.handler'
+import { UpdateUserCommand } from '@/features/v1/users/update-user/update-user.command'
+import { User } from '@/domain/user/user'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { Errors, failure, isFailure, success } from '@/shared/result'
+
+describe('UpdateUserCommandHandler', () => {
+  it('should update the provided fields only', async () => {
+    const userRepository = new InMemoryUserRepository()
+    const saved = await userRepository.save(User.create('test@test.com', 'Test User'))
+    const handler = new UpdateUserCommandHandler(userRepository)
+
+    const result = await handler.execute(new UpdateUserCommand(saved.id, undefined, 'Renamed'))
+
+    expect(result).toEqual(
+      success({ id: saved.id, email: 'test@test.com', name: 'Renamed', updatedAt: expect.any(Date) }),
+    )
+    expect(await userRepository.findById(saved.id)).toMatchObject({ name: 'Renamed' })
+  })
+
+  it('should reject an email already used by another user', async () => {
+    const userRepository = new InMemoryUserRepository()
+    await userRepository.save(User.create('taken@test.com', null))
+    const saved = await userRepository.save(User.create('test@test.com', null))
+    const handler = new UpdateUserCommandHandler(userRepository)
+
+    const result = await handler.execute(new UpdateUserCommand(saved.id, 'taken@test.com'))
+
+    expect(result).toEqual(failure(Errors.conflict('User', 'User with this email already exists')))
+  })
+
+  it('should return not found for an unknown ID', async () => {
+    const handler = new UpdateUserCommandHandler(new InMemoryUserRepository())
+
+    const result = await handler.execute(new UpdateUserCommand('42', undefined, 'Renamed'))
+
+    expect(result).toEqual(failure(Errors.notFound('User', 'User with ID 42 not found')))
+  })
+
+  it('should require at least one field to update', () => {
+    const command = UpdateUserCommand.fromInput({ id: '1' })
+
+    expect(isFailure(command) && command.error.code).toBe('VALIDATION_ERROR')
+  })
+})
@@ -0,0 +1,20 @@
+import { ConsoleEmailService } from '@/infrastructure/messaging/email-service/console-email-service'
+import { JsonLogger } from '@/shared/logging'
+
+describe('ConsoleEmailService', () => {
+  it('should log the same links as the emails sent for real', async () => {
+    const lines: Record<string, unknown>[] = []
+    const service = new ConsoleEmailService(
+      'https://app.example.com/',
+      new JsonLogger({ write: (_level, line) => lines.push(JSON.parse(line)) }),
+    )
+
+    await service.sendVerificationEmail('jane@example.com', 'a+b')
+    await service.sendPasswordResetEmail('jane@example.com', 'c/d')
+
+    expect(lines.map((line) => line.link)).toEqual([
+      'https://app.example.com/verify-email?token=a%2Bb',
+      'https://app.example.com/reset-password?token=c%2Fd',
+    ])
+  })
+})
@@ -0,0 +1,76 @@
+import { TemplatedEmailService } from '@/infrastructure/messaging/email-service/templated-email-service'
+import { EmailMessage, EmailTransport } from '@/infrastructure/messaging/interfaces/email-transport'
+import { resolveLocale } from '@/infrastructure/messaging/templates/template'
+
+class RecordingTransport implements EmailTransport {
+  readonly sent: EmailMessage[] = []
+
+  async send(message: EmailMessage): Promise<void> {
+    this.sent.push(message)
+  }
+}
+
+describe('TemplatedEmailService', () => {
+  const setup = (defaultLocale?: string) => {
+    const transport = new RecordingTransport()
+    const service = new TemplatedEmailService(transport, {
+      from: 'App <app@example.com>',
+      appUrl: 'https://app.example.com/',
+      defaultLocale,
+    })
+    return { transport, service }
+  }
+
+  it('should render the text and HTML of a template from its variables', async () => {
+    const { transport, service } = setup()
+
+    await service.sendPasswordResetEmail('jane@example.com', 'a+b')
+
+    const [message] = transport.sent
+    expect(message).toMatchObject({
+      from: 'App <app@example.com>',
+      to: 'jane@example.com',
+      subject: 'Reset your password',
+    })
+    expect(message.text).toContain('https://app.example.com/reset-password?token=a%2Bb')
+    expect(message.html).toContain('href="https://app.example.com/reset-password?token=a%2Bb"')
+  })
+
+  it('should link the verification email to the verify-email page of the web app', async () => {
+    const { transport, service } = setup()
+
+    await service.sendVerificationEmail('jane@example.com', 'a+b')
+
+    expect(transport.sent[0].html).toContain('href="https://app.example.com/verify-email?token=a%2Bb"')
+  })
+
+  it('should escape variables in the HTML but not in the text', async () => {
+    const { transport, service } = setup()
+
+    await service.sendWelcomeEmail('jane@example.com', '<Jane & co>')
+
+    expect(transport.sent[0].html).toContain('Hi &lt;Jane &amp; co&gt;,')
+    expect(transport.sent[0].text).toContain('Hi <Jane & co>,')
+  })
+
+  it('should render the requested locale and fall back to the default one', async () => {
+    const { transport, service } = setup('pt-BR')
+
+    await service.sendVerificationEmail('jane@example.com', 'token')
+    await service.sendVerificationEmail('jane@example.com', 'token', 'fr')
+
+    expect(transport.sent.map((message) => message.subject)).toEqual([
+      'Confirme seu endereço de email',
+      'Verify your email address',
+    ])
+  })
+})
+
+describe('resolveLocale', () => {
+  it('should prefer an exact match, then the same language, then the default locale', () => {
+    expect(resolveLocale('pt-br', ['en', 'pt-BR'])).toBe('pt-BR')
+    expect(resolveLocale('pt-PT', ['en', 'pt-BR'])).toBe('pt-BR')
+    expect(resolveLocale('de', ['en', 'pt-BR'])).toBe('en')
+    expect(resolveLocale(undefined, ['en', 'pt-BR'])).toBe('en')
+  })
+})
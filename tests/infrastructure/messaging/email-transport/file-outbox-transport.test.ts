@@ -0,0 +1,38 @@
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+
+import { FileOutboxTransport } from '@/infrastructure/messaging/email-transport/file-outbox-transport'
+
+describe('FileOutboxTransport', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), 'outbox-'))
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should write every email as an .eml file', async () => {
+    const transport = new FileOutboxTransport(path.join(directory, 'nested'))
+
+    await transport.send({
+      from: 'App <app@example.com>',
+      to: 'jane@example.com',
+      subject: 'Welcome',
+      text: 'Hello Jane',
+      html: '<p>Hello Jane</p>',
+    })
+
+    const files = await readdir(path.join(directory, 'nested'))
+    expect(files).toEqual([expect.stringMatching(/\.eml$/)])
+
+    const eml = await readFile(path.join(directory, 'nested', files[0]), 'utf8')
+    expect(eml).toMatch(/^From: "App" <app@example\.com>\r\nTo: jane@example\.com\r\nSubject: Welcome\r\n/)
+    expect(eml).toContain(Buffer.from('Hello Jane').toString('base64'))
+  })
+})
@@ -0,0 +1,216 @@
+import net from 'node:net'
+
+import { SmtpClient, SmtpError } from '@/infrastructure/messaging/email-transport/smtp-client'
+import { SmtpEmailTransport } from '@/infrastructure/messaging/email-transport/smtp-email-transport'
+
+interface StandInOptions {
+  extensions?: string[]
+  rejectRecipient?: string
+  /**
+   * Clear text sent right after the 220 reply to STARTTLS, as a man in the middle would
+   */
+  afterStartTls?: string
+}
+
+/**
+ * In-process SMTP server speaking just enough of the protocol to record what a client sends
+ */
+async function startSmtpStandIn(options: StandInOptions = {}) {
+  const commands: string[] = []
+  const messages: string[] = []
+  const extensions = options.extensions ?? ['AUTH PLAIN LOGIN', '8BITMIME']
+
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let data: string[] | null = null
+    let authLogin = 0
+    const reply = (...lines: string[]) =>
+      socket.write(
+        lines.map((line, index) => line.replace(' ', index < lines.length - 1 ? '-' : ' ')).join('\r\n') + '\r\n',
+      )
+
+    const handle = (line: string) => {
+      if (data) {
+        if (line === '.') {
+          messages.push(data.join('\r\n'))
+          data = null
+          reply('250 2.0.0 Queued')
+        } else {
+          data.push(line)
+        }
+        return
+      }
+
+      commands.push(line)
+      if (authLogin > 0) {
+        authLogin = authLogin === 1 ? 2 : 0
+        return reply(authLogin ? '334 UGFzc3dvcmQ6' : '235 2.7.0 Authenticated')
+      }
+
+      const [verb, argument] = line.split(' ')
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          return reply('250 stand-in greets you', ...extensions.map((extension) => `250 ${extension}`))
+        case 'AUTH':
+          if (argument === 'LOGIN') {
+            authLogin = 1
+            return reply('334 VXNlcm5hbWU6')
+          }
+          return reply('235 2.7.0 Authenticated')
+        case 'STARTTLS':
+          return socket.write(`220 2.0.0 Ready to start TLS\r\n${options.afterStartTls ?? ''}`)
+        case 'RCPT':
+          return line.includes(`<${options.rejectRecipient}>`) ? reply('550 5.1.1 No such user') : reply('250 OK')
+        case 'DATA':
+          data = []
+          return reply('354 End data with <CR><LF>.<CR><LF>')
+        case 'QUIT':
+          reply('221 Bye')
+          return socket.end()
+        default:
+          return reply('250 OK')
+      }
+    }
+
+    reply('220 stand-in ESMTP ready')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      let newline = buffer.indexOf('\r\n')
+      while (newline >= 0) {
+        handle(buffer.slice(0, newline))
+        buffer = buffer.slice(newline + 2)
+        newline = buffer.indexOf('\r\n')
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as net.AddressInfo
+
+  return {
+    port,
+    commands,
+    messages,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  }
+}
+
+describe('SmtpClient', () => {
+  let standIn: Awaited<ReturnType<typeof startSmtpStandIn>>
+
+  afterEach(() => standIn.close())
+
+  it('should authenticate with AUTH PLAIN and deliver a dot-stuffed message', async () => {
+    standIn = await startSmtpStandIn()
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: standIn.port,
+      clientName: 'tests',
+      auth: { user: 'mailer', password: 'secret' },
+      allowInsecureAuth: true,
+    })
+
+    await client.send({ from: 'App <app@example.com>', to: ['jane@example.com'] }, 'Subject: Hi\r\n\r\n.hidden\nline')
+
+    expect(standIn.commands).toEqual([
+      'EHLO tests',
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+      'MAIL FROM:<app@example.com>',
+      'RCPT TO:<jane@example.com>',
+      'DATA',
+      'QUIT',
+    ])
+    expect(standIn.messages).toEqual(['Subject: Hi\r\n\r\n..hidden\r\nline'])
+  })
+
+  it('should fall back to AUTH LOGIN when PLAIN is not offered', async () => {
+    standIn = await startSmtpStandIn({ extensions: ['AUTH LOGIN'] })
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: standIn.port,
+      clientName: 'tests',
+      auth: { user: 'mailer', password: 'secret' },
+      allowInsecureAuth: true,
+    })
+
+    await client.send({ from: 'app@example.com', to: ['jane@example.com'] }, 'Subject: Hi\r\n\r\nBody')
+
+    expect(standIn.commands.slice(1, 4)).toEqual([
+      'AUTH LOGIN',
+      Buffer.from('mailer').toString('base64'),
+      Buffer.from('secret').toString('base64'),
+    ])
+  })
+
+  it('should reject with the server reply when a recipient is refused', async () => {
+    standIn = await startSmtpStandIn({ rejectRecipient: 'ghost@example.com' })
+    const client = new SmtpClient({ host: '127.0.0.1', port: standIn.port })
+
+    const sending = client.send({ from: 'app@example.com', to: ['ghost@example.com'] }, 'Body')
+
+    await expect(sending).rejects.toThrow(new SmtpError('Unexpected SMTP reply to RCPT: 550 5.1.1 No such user'))
+    expect(standIn.messages).toEqual([])
+  })
+
+  it('should refuse to send credentials in clear text unless allowed', async () => {
+    standIn = await startSmtpStandIn()
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: standIn.port,
+      auth: { user: 'mailer', password: 'secret' },
+    })
+
+    await expect(client.send({ from: 'app@example.com', to: ['jane@example.com'] }, 'Body')).rejects.toThrow(
+      'refusing to send credentials in clear text',
+    )
+    expect(standIn.commands.some((command) => command.startsWith('AUTH'))).toBe(false)
+  })
+
+  it('should refuse to send in clear text when TLS is required but not offered', async () => {
+    standIn = await startSmtpStandIn()
+    const client = new SmtpClient({ host: '127.0.0.1', port: standIn.port, requireTls: true })
+
+    await expect(client.send({ from: 'app@example.com', to: ['jane@example.com'] }, 'Body')).rejects.toThrow(
+      'SMTP server does not offer STARTTLS',
+    )
+  })
+
+  it('should refuse replies injected in clear text before the TLS handshake', async () => {
+    standIn = await startSmtpStandIn({
+      extensions: ['STARTTLS', 'AUTH PLAIN'],
+      afterStartTls: '250-injected\r\n250 AUTH PLAIN\r\n',
+    })
+    const client = new SmtpClient({
+      host: '127.0.0.1',
+      port: standIn.port,
+      auth: { user: 'mailer', password: 'secret' },
+      timeoutMs: 1_000,
+    })
+
+    await expect(client.send({ from: 'app@example.com', to: ['jane@example.com'] }, 'Body')).rejects.toThrow(
+      new SmtpError('SMTP server sent data after STARTTLS before the TLS handshake'),
+    )
+    expect(standIn.commands.some((command) => command.startsWith('AUTH'))).toBe(false)
+  })
+})
+
+describe('SmtpEmailTransport', () => {
+  it('should send a multipart message with text and HTML alternatives', async () => {
+    const standIn = await startSmtpStandIn({ extensions: [] })
+    const transport = new SmtpEmailTransport(new SmtpClient({ host: '127.0.0.1', port: standIn.port }))
+
+    await transport.send({
+      from: 'App <app@example.com>',
+      to: 'jane@example.com',
+      subject: 'Olá, Jane',
+      text: 'Hello',
+      html: '<p>Hello</p>',
+    })
+    await standIn.close()
+
+    const [message] = standIn.messages
+    expect(message).toContain(`Subject: =?UTF-8?B?${Buffer.from('Olá, Jane').toString('base64')}?=`)
+    expect(message).toContain('Content-Type: multipart/alternative')
+    expect(message).toContain(Buffer.from('<p>Hello</p>').toString('base64'))
+  })
+})
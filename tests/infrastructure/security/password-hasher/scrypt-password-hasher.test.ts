@@ -0,0 +1,29 @@
+import { ScryptPasswordHasher } from '@/infrastructure/security/password-hasher/scrypt-password-hasher'
+
+describe('ScryptPasswordHasher', () => {
+  const hasher = new ScryptPasswordHasher({ logN: 10, blockSize: 8, parallelization: 1 })
+
+  it('should produce salted, versioned hashes', async () => {
+    const first = await hasher.hash('Str0ngPassword')
+    const second = await hasher.hash('Str0ngPassword')
+
+    expect(first).toMatch(/^\$scrypt\$v=1\$ln=10,r=8,p=1\$[\w-]+\$[\w-]+$/)
+    expect(first).not.toEqual(second)
+  })
+
+  it('should verify only the original password', async () => {
+    const passwordHash = await hasher.hash('Str0ngPassword')
+
+    expect(await hasher.verify('Str0ngPassword', passwordHash)).toBe(true)
+    expect(await hasher.verify('Str0ngPassword!', passwordHash)).toBe(false)
+    expect(await hasher.verify('Str0ngPassword', 'not-a-hash')).toBe(false)
+  })
+
+  it('should ask for a rehash when parameters changed', async () => {
+    const passwordHash = await hasher.hash('Str0ngPassword')
+    const stronger = new ScryptPasswordHasher({ logN: 11, blockSize: 8, parallelization: 1 })
+
+    expect(hasher.needsRehash(passwordHash)).toBe(false)
+    expect(stronger.needsRehash(passwordHash)).toBe(true)
+  })
+})
@@ -0,0 +1,41 @@
+import { InMemoryRateLimiter } from '@/infrastructure/security/rate-limiter/in-memory-rate-limiter'
+
+describe('InMemoryRateLimiter', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should allow attempts up to the limit within the window', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    const limiter = new InMemoryRateLimiter({ limit: 2, windowSeconds: 60 })
+
+    await limiter.consume('key')
+    jest.setSystemTime(new Date('2026-01-01T00:00:20Z'))
+    await limiter.consume('key')
+
+    expect(await limiter.consume('key')).toEqual({ allowed: false, retryAfterSeconds: 40 })
+    expect(await limiter.consume('other')).toEqual({ allowed: true, retryAfterSeconds: 0 })
+  })
+
+  it('should allow attempts again once old ones leave the window', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    const limiter = new InMemoryRateLimiter({ limit: 1, windowSeconds: 60 })
+    await limiter.consume('key')
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'))
+
+    expect(await limiter.consume('key')).toEqual({ allowed: true, retryAfterSeconds: 0 })
+  })
+
+  it('should forget keys without attempts in the window', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    const limiter = new InMemoryRateLimiter({ limit: 1, windowSeconds: 60 })
+    await limiter.consume('first')
+    await limiter.consume('second')
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'))
+    await limiter.consume('second')
+
+    expect(limiter.size).toBe(1)
+  })
+})
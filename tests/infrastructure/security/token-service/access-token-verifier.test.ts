@@ -0,0 +1,62 @@
+import { Role } from '@/domain/user/role'
+import { User } from '@/domain/user/user'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { CredentialCheckingVerifier } from '@/infrastructure/security/token-service/access-token-verifier'
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('CredentialCheckingVerifier', () => {
+  const tokenService = new JwtTokenService({
+    keys: [{ kid: 'k1', alg: 'HS256', secret: 'a-test-secret-that-is-long-enough!' }],
+    activeKid: 'k1',
+  })
+
+  const setup = async () => {
+    const userRepository = new InMemoryUserRepository()
+    const user = await userRepository.save(User.create('test@test.com', 'Test User', 'hash'))
+    const { token } = tokenService.issue({ userId: user.id, email: user.email, credentialVersion: 0 })
+    return { verifier: new CredentialCheckingVerifier(tokenService, userRepository), userRepository, user, token }
+  }
+
+  it('should accept tokens issued for the current credentials', async () => {
+    const { verifier, user, token } = await setup()
+
+    expect(await verifier.verify(token)).toEqual(
+      success({ userId: user.id, email: 'test@test.com', roles: [], permissions: [] }),
+    )
+  })
+
+  it('should read the roles and permissions from the user', async () => {
+    const userRepository = new InMemoryUserRepository()
+    const admin = new Role('admin', ['users:read', 'users:delete'])
+    const auditor = new Role('auditor', ['users:read'])
+    const user = await userRepository.save(
+      new User('', 'admin@test.com', null, new Date(), new Date(), 'hash', null, 0, [admin, auditor]),
+    )
+    const { token } = tokenService.issue({ userId: user.id, email: user.email, credentialVersion: 0 })
+    const verifier = new CredentialCheckingVerifier(tokenService, userRepository)
+
+    expect(await verifier.verify(token)).toEqual(
+      success({
+        userId: user.id,
+        email: 'admin@test.com',
+        roles: ['admin', 'auditor'],
+        permissions: ['users:read', 'users:delete'],
+      }),
+    )
+  })
+
+  it('should reject tokens issued before a password reset', async () => {
+    const { verifier, userRepository, user, token } = await setup()
+    await userRepository.update(user.resetPassword('new-hash'))
+
+    expect(await verifier.verify(token)).toEqual(failure(Errors.unauthorized('Access token has been revoked')))
+  })
+
+  it('should reject tokens of deleted users', async () => {
+    const { verifier, userRepository, user, token } = await setup()
+    await userRepository.delete(user.id)
+
+    expect(await verifier.verify(token)).toEqual(failure(Errors.unauthorized('Access token has been revoked')))
+  })
+})
@@ -0,0 +1,33 @@
+import { HmacTokenSigner } from '@/infrastructure/security/token-service/hmac-token-signer'
+import { failure, success } from '@/shared/result'
+
+describe('HmacTokenSigner', () => {
+  const signer = new HmacTokenSigner('test-secret')
+
+  it('should verify its own tokens and return the payload', () => {
+    const token = signer.sign('email-verification', { sub: '1' }, 60)
+
+    expect(signer.verify('email-verification', token)).toEqual(success({ sub: '1' }))
+  })
+
+  it('should not accept a token for another purpose', () => {
+    const token = signer.sign('email-verification', { sub: '1' }, 60)
+
+    expect(signer.verify('password-reset', token)).toEqual(failure('invalid'))
+  })
+
+  it('should reject tokens signed with another secret or tampered with', () => {
+    const token = new HmacTokenSigner('other-secret').sign('email-verification', { sub: '1' }, 60)
+    const [, signature] = signer.sign('email-verification', { sub: '1' }, 60).split('.')
+    const forged = `${Buffer.from(JSON.stringify({ sub: '2', purpose: 'email-verification', exp: 9999999999 })).toString('base64url')}.${signature}`
+
+    expect(signer.verify('email-verification', token)).toEqual(failure('invalid'))
+    expect(signer.verify('email-verification', forged)).toEqual(failure('invalid'))
+  })
+
+  it('should reject expired tokens', () => {
+    const token = signer.sign('email-verification', { sub: '1' }, -1)
+
+    expect(signer.verify('email-verification', token)).toEqual(failure('expired'))
+  })
+})
@@ -0,0 +1,138 @@
+import { createHmac, generateKeyPairSync } from 'node:crypto'
+
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('JwtTokenService', () => {
+  const subject = { userId: '1', email: 'test@test.com', credentialVersion: 0 }
+  const secret = 'a-test-secret-that-is-long-enough!'
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+  const resign = (token: string, claims: Record<string, unknown>) => {
+    const [header] = token.split('.')
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url')
+    const signature = createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')
+    return `${header}.${payload}.${signature}`
+  }
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should issue and verify HS256 tokens', () => {
+    const service = new JwtTokenService({ keys: [{ kid: 'k1', alg: 'HS256', secret }], activeKid: 'k1' })
+
+    const { token, expiresIn } = service.issue(subject)
+
+    expect(expiresIn).toBe(900)
+    expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toEqual({
+      alg: 'HS256',
+      typ: 'JWT',
+      kid: 'k1',
+    })
+    expect(service.verify(token)).toEqual(success(subject))
+  })
+
+  it('should issue RS256 tokens verifiable with the public key only', () => {
+    const issuer = new JwtTokenService({
+      keys: [{ kid: 'rsa', alg: 'RS256', publicKey, privateKey }],
+      activeKid: 'rsa',
+    })
+    const verifier = new JwtTokenService({
+      keys: [
+        { kid: 'rsa', alg: 'RS256', publicKey },
+        { kid: 'hmac', alg: 'HS256', secret },
+      ],
+      activeKid: 'hmac',
+    })
+
+    expect(verifier.verify(issuer.issue(subject).token)).toEqual(success(subject))
+  })
+
+  it('should keep verifying tokens signed with a rotated-out key', () => {
+    const before = new JwtTokenService({ keys: [{ kid: 'old', alg: 'HS256', secret }], activeKid: 'old' })
+    const after = new JwtTokenService({
+      keys: [
+        { kid: 'old', alg: 'HS256', secret },
+        { kid: 'new', alg: 'HS256', secret: 'another-secret-that-is-long-enough' },
+      ],
+      activeKid: 'new',
+    })
+
+    const oldToken = before.issue(subject).token
+    const newToken = after.issue(subject).token
+
+    expect(after.verify(oldToken)).toEqual(success(subject))
+    expect(after.verify(newToken)).toEqual(success(subject))
+    expect(before.verify(newToken)).toEqual(failure(Errors.unauthorized('Invalid access token')))
+  })
+
+  it('should reject tampered tokens', () => {
+    const service = new JwtTokenService({ keys: [{ kid: 'k1', alg: 'HS256', secret }], activeKid: 'k1' })
+    const [header, , signature] = service.issue(subject).token.split('.')
+    const forgedClaims = Buffer.from(
+      JSON.stringify({ sub: '2', email: 'admin@test.com', cv: 0, exp: 9999999999 }),
+    ).toString('base64url')
+
+    expect(service.verify(`${header}.${forgedClaims}.${signature}`)).toEqual(
+      failure(Errors.unauthorized('Invalid access token')),
+    )
+    expect(service.verify('not-a-token')).toEqual(failure(Errors.unauthorized('Invalid access token')))
+  })
+
+  it('should not let a token choose HS256 for an RS256 key', () => {
+    const service = new JwtTokenService({
+      keys: [{ kid: 'rsa', alg: 'RS256', publicKey, privateKey }],
+      activeKid: 'rsa',
+    })
+    const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT', kid: 'rsa' })).toString('base64url')
+    const claims = Buffer.from(JSON.stringify({ sub: '1', email: 'test@test.com', cv: 0, exp: 9999999999 })).toString(
+      'base64url',
+    )
+    const pem = publicKey.export({ type: 'spki', format: 'pem' })
+    const signature = createHmac('sha256', pem).update(`${header}.${claims}`).digest('base64url')
+
+    expect(service.verify(`${header}.${claims}.${signature}`)).toEqual(
+      failure(Errors.unauthorized('Invalid access token')),
+    )
+  })
+
+  it('should reject expired tokens', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') })
+    const service = new JwtTokenService({
+      keys: [{ kid: 'k1', alg: 'HS256', secret }],
+      activeKid: 'k1',
+      ttlSeconds: 60,
+      clockToleranceSeconds: 0,
+    })
+    const { token } = service.issue(subject)
+
+    jest.setSystemTime(new Date('2026-01-01T00:01:00Z'))
+
+    expect(service.verify(token)).toEqual(failure(Errors.unauthorized('Access token expired')))
+  })
+
+  it('should check the issuer and audience when configured', () => {
+    const options = { keys: [{ kid: 'k1', alg: 'HS256' as const, secret }], activeKid: 'k1' }
+    const service = new JwtTokenService({ ...options, issuer: 'api', audience: 'web' })
+    const { token } = service.issue(subject)
+    const claims = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString())
+
+    expect(service.verify(token)).toEqual(success(subject))
+    expect(service.verify(resign(token, { ...claims, aud: 'mobile' }))).toEqual(
+      failure(Errors.unauthorized('Invalid access token')),
+    )
+    expect(service.verify(resign(token, { ...claims, iss: 'elsewhere' }))).toEqual(
+      failure(Errors.unauthorized('Invalid access token')),
+    )
+  })
+
+  it('should refuse an active key it cannot sign with', () => {
+    expect(() => new JwtTokenService({ keys: [{ kid: 'rsa', alg: 'RS256', publicKey }], activeKid: 'rsa' })).toThrow(
+      'Active JWT key rsa has no private key',
+    )
+    expect(() => new JwtTokenService({ keys: [], activeKid: 'missing' })).toThrow(
+      'Active JWT key missing is not among the configured keys',
+    )
+  })
+})
@@ -0,0 +1,98 @@
+import { AddressInfo } from 'node:net'
+
+import express from 'express'
+
+import { JwtTokenService } from '@/infrastructure/security/token-service/jwt-token-service'
+import { AccessTokenVerifier, authenticate } from '@/shared/auth'
+import { Query } from '@/shared/cqs'
+import { asRoute, requestContext } from '@/shared/http'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, map, success } from '@/shared/result'
+
+class WhoAmIQuery extends Query<{ userId: string }> {}
+
+describe('authenticate', () => {
+  const tokenService = new JwtTokenService({
+    keys: [{ kid: 'k1', alg: 'HS256', secret: 'a-test-secret-that-is-long-enough!' }],
+    activeKid: 'k1',
+  })
+  const verifier: AccessTokenVerifier = {
+    verify: async (token) =>
+      map(tokenService.verify(token), ({ userId, email }) => ({
+        userId,
+        email,
+        roles: [],
+        permissions: [],
+      })),
+  }
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+
+  beforeAll((done) => {
+    const mediator = new InMemoryMediator()
+    mediator.register(WhoAmIQuery, {
+      execute: async (_query, context) =>
+        context.principal ? success({ userId: context.principal.userId }) : failure(Errors.unauthorized()),
+    })
+
+    const app = express()
+    app.get(
+      '/me',
+      authenticate(verifier),
+      asRoute((req) => mediator.send(new WhoAmIQuery(), requestContext(req))),
+    )
+    app.get(
+      '/maybe',
+      authenticate(verifier, { optional: true }),
+      asRoute(async (req) => success({ authenticated: req.principal !== undefined })),
+    )
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll((done) => {
+    server.close(done)
+  })
+
+  it('should hand the principal to the handler through the mediator', async () => {
+    const { token } = tokenService.issue({ userId: '42', email: 'test@test.com', credentialVersion: 0 })
+
+    const response = await fetch(`${baseUrl}/me`, { headers: { Authorization: `Bearer ${token}` } })
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ userId: '42' })
+  })
+
+  it('should reject requests without a token', async () => {
+    const response = await fetch(`${baseUrl}/me`)
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('www-authenticate')).toBe('Bearer')
+    expect(await response.json()).toEqual({ code: 'UNAUTHORIZED', message: 'Missing access token' })
+  })
+
+  it('should reject invalid tokens', async () => {
+    const response = await fetch(`${baseUrl}/me`, { headers: { Authorization: 'Bearer a.b.c' } })
+
+    expect(response.status).toBe(401)
+    expect(response.headers.get('www-authenticate')).toBe('Bearer error="invalid_token"')
+    expect(await response.json()).toEqual({ code: 'UNAUTHORIZED', message: 'Invalid access token' })
+  })
+
+  it('should reject other authorization schemes', async () => {
+    const response = await fetch(`${baseUrl}/me`, { headers: { Authorization: 'Basic dXNlcjpwYXNz' } })
+
+    expect(response.status).toBe(401)
+    expect(await response.json()).toEqual({ code: 'UNAUTHORIZED', message: 'Malformed Authorization header' })
+  })
+
+  it('should let anonymous requests through when optional', async () => {
+    const anonymous = await fetch(`${baseUrl}/maybe`)
+    const invalid = await fetch(`${baseUrl}/maybe`, { headers: { Authorization: 'Bearer a.b.c' } })
+
+    expect(await anonymous.json()).toEqual({ authenticated: false })
+    expect(invalid.status).toBe(401)
+  })
+})
@@ -0,0 +1,87 @@
+import { allOf, anyOf, AuthorizationBehavior, hasPermission, hasRole, isOwner, Policy, Principal } from '@/shared/auth'
+import { Command } from '@/shared/cqs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, success } from '@/shared/result'
+
+class RenameCommand extends Command<string> {
+  static readonly policy: Policy<RenameCommand> = anyOf(
+    hasPermission('things:rename'),
+    isOwner((command: RenameCommand) => command.ownerId),
+  )
+
+  constructor(public readonly ownerId: string) {
+    super()
+  }
+}
+
+class PublicCommand extends Command<string> {}
+
+const principal = (overrides: Partial<Principal> = {}): Principal => ({
+  userId: '1',
+  email: 'test@test.com',
+  roles: [],
+  permissions: [],
+  ...overrides,
+})
+
+describe('policies', () => {
+  it('should check the roles and permissions of the principal', () => {
+    const admin = principal({ roles: ['admin'], permissions: ['things:rename'] })
+
+    expect(hasRole('admin')(admin, undefined)).toBe(true)
+    expect(hasRole('admin')(principal(), undefined)).toBe(false)
+    expect(hasPermission('things:rename')(admin, undefined)).toBe(true)
+    expect(allOf(hasRole('admin'), hasPermission('things:delete'))(admin, undefined)).toBe(false)
+  })
+
+  it('should compare the owner of the resource with the principal', () => {
+    expect(RenameCommand.policy(principal(), new RenameCommand('1'))).toBe(true)
+    expect(RenameCommand.policy(principal(), new RenameCommand('2'))).toBe(false)
+    expect(RenameCommand.policy(principal({ permissions: ['things:rename'] }), new RenameCommand('2'))).toBe(true)
+  })
+})
+
+describe('AuthorizationBehavior', () => {
+  const setup = () => {
+    const mediator = new InMemoryMediator()
+    const execute = jest.fn(async () => success('renamed'))
+    mediator.addBehavior(new AuthorizationBehavior())
+    mediator.register(RenameCommand, { execute })
+    mediator.register(PublicCommand, { execute: async () => success('public') })
+    return { mediator, execute }
+  }
+
+  it('should reject protected requests without a principal', async () => {
+    const { mediator, execute } = setup()
+
+    const result = await mediator.send(new RenameCommand('1'))
+
+    expect(result).toEqual(failure(Errors.unauthorized()))
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it('should forbid requests the policy denies before the handler runs', async () => {
+    const { mediator, execute } = setup()
+
+    const result = await mediator.send(new RenameCommand('2'), { principal: principal() })
+
+    expect(result).toEqual(failure(Errors.forbidden()))
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it('should pass allowed requests through to the handler', async () => {
+    const { mediator } = setup()
+
+    const result = await mediator.send(new RenameCommand('1'), { principal: principal() })
+
+    expect(result).toEqual(success('renamed'))
+  })
+
+  it('should let requests without a policy through', async () => {
+    const { mediator } = setup()
+
+    const result = await mediator.send(new PublicCommand())
+
+    expect(result).toEqual(success('public'))
+  })
+})
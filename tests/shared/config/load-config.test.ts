@@ -0,0 +1,77 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+import { z } from 'zod'
+
+import { commaSeparated, ConfigError, loadConfig, REDACTED, redactConfig, secret } from '@/shared/config'
+
+const schema = z.object({
+  NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+  PORT: z.coerce.number().int().positive().default(3000),
+  APP_URL: z.url().default('http://localhost:3000'),
+  API_KEY: secret(z.string().optional()),
+  FEATURES_DISABLED: commaSeparated(),
+})
+
+describe('loadConfig', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const writeEnv = (name: string, content: string) => fs.writeFileSync(path.join(dir, name), content)
+
+  it('should fall back to the defaults of the schema', () => {
+    expect(loadConfig(schema, { dir, env: {} })).toEqual({
+      NODE_ENV: 'development',
+      PORT: 3000,
+      APP_URL: 'http://localhost:3000',
+      API_KEY: undefined,
+      FEATURES_DISABLED: [],
+    })
+  })
+
+  it('should layer .env, .env.<NODE_ENV> and the environment, later sources winning', () => {
+    writeEnv('.env', 'NODE_ENV=test\nPORT=4000\nAPP_URL=http://base.example\nAPI_KEY=from-base')
+    writeEnv('.env.test', 'PORT=5000\nAPI_KEY=from-test\nFEATURES_DISABLED=LoginModule, ,LogoutModule')
+    writeEnv('.env.production', 'PORT=6000')
+
+    const config = loadConfig(schema, { dir, env: { API_KEY: 'from-env', APP_URL: '' } })
+
+    expect(config).toEqual({
+      NODE_ENV: 'test',
+      PORT: 5000,
+      APP_URL: 'http://base.example',
+      API_KEY: 'from-env',
+      FEATURES_DISABLED: ['LoginModule', 'LogoutModule'],
+    })
+  })
+
+  it('should report every invalid setting with its source but not its value', () => {
+    writeEnv('.env', 'PORT=eighty')
+
+    const load = () => loadConfig(schema, { dir, env: { APP_URL: 'not a url', NODE_ENV: 'staging' } })
+
+    expect(load).toThrow(ConfigError)
+    expect(load).toThrow(/^Invalid configuration:\n/)
+    expect(load).toThrow(/ {2}- PORT: .* \(from \.env\)/)
+    expect(load).toThrow(/ {2}- APP_URL: .* \(from environment\)/)
+    expect(load).toThrow(/ {2}- NODE_ENV: /)
+    expect(load).not.toThrow(/eighty|not a url/)
+  })
+})
+
+describe('redactConfig', () => {
+  it('should hide the values of secret settings that are set', () => {
+    const config = loadConfig(schema, { dir: os.tmpdir(), env: { API_KEY: 'hunter2' } })
+
+    expect(redactConfig(schema, config)).toMatchObject({ API_KEY: REDACTED, PORT: 3000 })
+    expect(redactConfig(schema, { ...config, API_KEY: undefined }).API_KEY).toBeUndefined()
+  })
+})
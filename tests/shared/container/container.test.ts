@@ -0,0 +1,82 @@
+import { Container, ScopeBehavior, scopedHandler, Token } from '@/shared/container'
+import { Command } from '@/shared/cqs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { success } from '@/shared/result'
+
+class Counter {
+  private static created = 0
+  readonly id = ++Counter.created
+}
+
+const CounterToken = new Token<Counter>('Counter')
+
+describe('Container', () => {
+  it('should share singletons between the container and its scopes', () => {
+    const container = Container.create().singleton(CounterToken, () => new Counter())
+
+    const fromRoot = container.resolve(CounterToken)
+
+    expect(container.resolve(CounterToken)).toBe(fromRoot)
+    expect(container.createScope().resolve(CounterToken)).toBe(fromRoot)
+  })
+
+  it('should create scoped instances once per scope', () => {
+    const container = Container.create().scoped(CounterToken, () => new Counter())
+    const first = container.createScope()
+    const second = container.createScope()
+
+    expect(first.resolve(CounterToken)).toBe(first.resolve(CounterToken))
+    expect(first.resolve(CounterToken)).not.toBe(second.resolve(CounterToken))
+    expect(() => container.resolve(CounterToken)).toThrow('Counter is scoped and can only be resolved inside a scope')
+  })
+
+  it('should create transient instances on every resolve', () => {
+    const container = Container.create().transient(CounterToken, () => new Counter())
+
+    expect(container.resolve(CounterToken)).not.toBe(container.resolve(CounterToken))
+  })
+
+  it('should resolve dependencies through the factory and let later bindings override earlier ones', () => {
+    const Greeting = new Token<string>('Greeting')
+    const Name = new Token<string>('Name')
+    const container = Container.create()
+      .value(Name, 'world')
+      .singleton(Greeting, (c) => `hello ${c.resolve(Name)}`)
+      .value(Name, 'tests')
+
+    expect(container.resolve(Greeting)).toBe('hello tests')
+  })
+
+  it('should report missing bindings and circular dependencies', () => {
+    const A = new Token<unknown>('A')
+    const B = new Token<unknown>('B')
+    const container = Container.create()
+      .singleton(A, (c) => c.resolve(B))
+      .singleton(B, (c) => c.resolve(A))
+
+    expect(() => Container.create().resolve(A)).toThrow('No binding for A')
+    expect(() => container.resolve(A)).toThrow('Circular dependency: A -> B -> A')
+  })
+})
+
+class PingCommand extends Command<number> {}
+
+describe('ScopeBehavior', () => {
+  it('should build scoped handlers from a new scope for every request', async () => {
+    const container = Container.create().scoped(CounterToken, () => new Counter())
+    const mediator = new InMemoryMediator()
+    mediator.addBehavior(new ScopeBehavior(container))
+    mediator.register(
+      PingCommand,
+      scopedHandler((scope) => {
+        const counter = scope.resolve(CounterToken)
+        return { execute: async () => success(counter.id) }
+      }),
+    )
+
+    const first = await mediator.send(new PingCommand())
+    const second = await mediator.send(new PingCommand())
+
+    expect(first).not.toEqual(second)
+  })
+})
@@ -0,0 +1,74 @@
+import { ConnectionLock } from '@/shared/db/connection-lock'
+
+describe('ConnectionLock', () => {
+  const deferred = () => {
+    let resolve!: () => void
+    const promise = new Promise<void>((done) => (resolve = done))
+    return { promise, resolve }
+  }
+
+  it('should hold queries back until the running transaction ends', async () => {
+    const lock = new ConnectionLock()
+    const events: string[] = []
+    const commit = deferred()
+
+    const transaction = lock.transaction(async () => {
+      events.push('begin')
+      await commit.promise
+      events.push('commit')
+    })
+    await Promise.resolve()
+    const query = lock.query(async () => events.push('query'))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    commit.resolve()
+    await Promise.all([transaction, query])
+
+    expect(events).toEqual(['begin', 'commit', 'query'])
+  })
+
+  it('should start a transaction once the running queries are done', async () => {
+    const lock = new ConnectionLock()
+    const events: string[] = []
+    const reply = deferred()
+
+    const query = lock.query(async () => {
+      await reply.promise
+      events.push('query')
+    })
+    const transaction = lock.transaction(async () => events.push('transaction'))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    reply.resolve()
+    await Promise.all([query, transaction])
+
+    expect(events).toEqual(['query', 'transaction'])
+  })
+
+  it('should run transactions one at a time and release the connection when one fails', async () => {
+    const lock = new ConnectionLock()
+    const events: string[] = []
+
+    const failing = lock.transaction(async () => {
+      events.push('first')
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      throw new Error('rollback')
+    })
+    const next = lock.transaction(async () => events.push('second'))
+
+    await expect(failing).rejects.toThrow('rollback')
+    await next
+    await lock.query(async () => events.push('query'))
+    expect(events).toEqual(['first', 'second', 'query'])
+  })
+
+  it('should let queries run side by side', async () => {
+    const lock = new ConnectionLock()
+    const reply = deferred()
+
+    const first = lock.query(() => reply.promise.then(() => 'first'))
+    const second = lock.query(async () => 'second')
+
+    expect(await second).toBe('second')
+    reply.resolve()
+    expect(await first).toBe('first')
+  })
+})
@@ -0,0 +1,87 @@
+import { AddressInfo } from 'node:net'
+
+import express from 'express'
+
+import { HealthRegistry, healthRouter } from '@/shared/health'
+
+describe('HealthRegistry', () => {
+  it('should be ready when every check passes, reporting the latency of each', async () => {
+    const registry = new HealthRegistry()
+    registry.register('database', async () => {})
+    registry.register('cache', () => new Promise((resolve) => setTimeout(resolve, 20)))
+
+    const report = await registry.run()
+
+    expect(report.status).toBe('ready')
+    expect(report.checks.database).toEqual({ status: 'up', latencyMs: expect.any(Number) })
+    expect(report.checks.cache.latencyMs).toBeGreaterThanOrEqual(15)
+  })
+
+  it('should report failing and slow checks as down without stopping the others', async () => {
+    const registry = new HealthRegistry()
+    registry.register('database', async () => {
+      throw new Error('connection refused')
+    })
+    registry.register('smtp', () => new Promise(() => {}), { timeoutMs: 20 })
+    registry.register('cache', async () => {})
+
+    const report = await registry.run()
+
+    expect(report.status).toBe('unavailable')
+    expect(report.checks.database).toMatchObject({ status: 'down', error: 'connection refused' })
+    expect(report.checks.smtp).toMatchObject({ status: 'down', error: 'Timed out after 20ms' })
+    expect(report.checks.cache.status).toBe('up')
+  })
+
+  it('should stop running checks once shutting down', async () => {
+    const registry = new HealthRegistry()
+    const check = jest.fn(async () => {})
+    registry.register('database', check)
+
+    registry.markShuttingDown()
+
+    expect(await registry.run()).toEqual({ status: 'shutting_down', checks: {} })
+    expect(check).not.toHaveBeenCalled()
+  })
+
+  it('should reject two checks with the same name', () => {
+    const registry = new HealthRegistry()
+    registry.register('database', async () => {})
+
+    expect(() => registry.register('database', async () => {})).toThrow(
+      'A health check named database is already registered',
+    )
+  })
+})
+
+describe('healthRouter', () => {
+  it('should answer liveness always and readiness with 503 while a check is down', async () => {
+    let healthy = true
+    const registry = new HealthRegistry()
+    registry.register('database', async () => {
+      if (!healthy) {
+        throw new Error('connection refused')
+      }
+    })
+
+    const server = express().use(healthRouter(registry)).listen(0)
+    const url = (path: string) => `http://127.0.0.1:${(server.address() as AddressInfo).port}${path}`
+
+    try {
+      const ready = await fetch(url('/health/ready'))
+      expect(ready.status).toBe(200)
+      expect(await ready.json()).toMatchObject({ status: 'ready', checks: { database: { status: 'up' } } })
+
+      healthy = false
+      const unavailable = await fetch(url('/health/ready'))
+      expect(unavailable.status).toBe(503)
+      expect(await unavailable.json()).toMatchObject({ status: 'unavailable' })
+
+      const live = await fetch(url('/health/live'))
+      expect(live.status).toBe(200)
+      expect(await live.json()).toEqual({ status: 'ok' })
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  })
+})
@@ -0,0 +1,121 @@
+import { AddressInfo } from 'node:net'
+
+import express, { Router } from 'express'
+
+import { asRoute, mapResponse, versionedRouter } from '@/shared/http'
+import { success } from '@/shared/result'
+
+describe('versionedRouter', () => {
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+
+  beforeAll((done) => {
+    const getUser = asRoute(async () => success({ id: '1', emailVerifiedAt: null }))
+    const v1 = Router().get('/:id', getUser)
+    const v1List = Router().get(
+      '/',
+      asRoute(async () => success([{ id: '1' }])),
+    )
+    const v2 = Router().get(
+      '/:id',
+      asRoute(
+        mapResponse(
+          async () => success({ id: '1', emailVerifiedAt: null }),
+          (user) => ({
+            id: user.id,
+            emailVerified: user.emailVerifiedAt !== null,
+          }),
+        ),
+      ),
+    )
+
+    const app = express()
+    app.use(
+      versionedRouter(
+        [
+          { version: 'v1', basePath: '/users', router: v1List },
+          { version: 'v1', basePath: '/users', router: v1 },
+          { version: 'v2', basePath: '/users', router: v2 },
+        ],
+        {
+          versions: [
+            {
+              name: 'v1',
+              deprecatedAt: new Date('2026-01-01T00:00:00Z'),
+              sunsetAt: new Date('2027-01-01T00:00:00Z'),
+              link: 'https://example.com/migrate-to-v2',
+            },
+            { name: 'v2' },
+          ],
+          defaultVersion: 'v1',
+          vendor: 'acme',
+        },
+      ),
+    )
+
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll((done) => {
+    server.close(done)
+  })
+
+  it('should serve each version under its prefix', async () => {
+    const v1 = await fetch(`${baseUrl}/v1/users/1`)
+    const v2 = await fetch(`${baseUrl}/v2/users/1`)
+
+    expect(await v1.json()).toEqual({ id: '1', emailVerifiedAt: null })
+    expect(v1.headers.get('api-version')).toBe('v1')
+    expect(await v2.json()).toEqual({ id: '1', emailVerified: false })
+    expect(v2.headers.get('api-version')).toBe('v2')
+  })
+
+  it('should let a version inherit the routes it does not redeclare', async () => {
+    const response = await fetch(`${baseUrl}/v2/users`)
+
+    expect(await response.json()).toEqual([{ id: '1' }])
+    expect(response.headers.get('api-version')).toBe('v2')
+  })
+
+  it('should negotiate unversioned paths from the headers, falling back to the default version', async () => {
+    const byDefault = await fetch(`${baseUrl}/users/1`)
+    const byHeader = await fetch(`${baseUrl}/users/1`, { headers: { 'Accept-Version': '2' } })
+    const byMediaType = await fetch(`${baseUrl}/users/1`, { headers: { Accept: 'application/vnd.acme.v2+json' } })
+
+    expect(byDefault.headers.get('api-version')).toBe('v1')
+    expect(byDefault.headers.get('vary')).toContain('Accept-Version')
+    expect(byHeader.headers.get('api-version')).toBe('v2')
+    expect(byMediaType.headers.get('api-version')).toBe('v2')
+  })
+
+  it('should announce the deprecation and sunset of old versions', async () => {
+    const response = await fetch(`${baseUrl}/v1/users/1`)
+
+    expect(response.headers.get('deprecation')).toBe('@1767225600')
+    expect(response.headers.get('sunset')).toBe('Fri, 01 Jan 2027 00:00:00 GMT')
+    expect(response.headers.get('link')).toBe('<https://example.com/migrate-to-v2>; rel="deprecation"')
+    expect((await fetch(`${baseUrl}/v2/users/1`)).headers.get('deprecation')).toBeNull()
+  })
+
+  it('should reject a version that is not served', async () => {
+    const response = await fetch(`${baseUrl}/users/1`, { headers: { 'Accept-Version': 'v9' } })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({
+      code: 'VALIDATION_ERROR',
+      message: 'Unsupported API version v9',
+      details: { 'Accept-Version': ['Expected one of v1, v2'] },
+    })
+  })
+
+  it('should refuse routes of a version that is not served', () => {
+    const routes = [{ version: 'v3', basePath: '/users', router: Router() }]
+
+    expect(() => versionedRouter(routes, { versions: [{ name: 'v1' }], defaultVersion: 'v1', vendor: 'acme' })).toThrow(
+      'API version v3 is not served, expected one of v1',
+    )
+  })
+})
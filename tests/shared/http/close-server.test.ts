@@ -0,0 +1,38 @@
+import { AddressInfo } from 'node:net'
+
+import express from 'express'
+
+import { closeServer } from '@/shared/http'
+
+describe('closeServer', () => {
+  const startServer = (delayMs: number) => {
+    const app = express()
+    app.get('/slow', (_req, res) => {
+      setTimeout(() => res.json({ done: true }), delayMs)
+    })
+    const server = app.listen(0)
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/slow` }
+  }
+
+  it('should let a request in flight finish before closing', async () => {
+    const { server, url } = startServer(100)
+
+    const response = fetch(url)
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    const closed = closeServer(server, 1000)
+
+    expect(await (await response).json()).toEqual({ done: true })
+    expect(await closed).toBe(true)
+    expect(server.listening).toBe(false)
+  })
+
+  it('should cut requests still running after the timeout', async () => {
+    const { server, url } = startServer(1000)
+
+    const response = fetch(url)
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(await closeServer(server, 50)).toBe(false)
+    await expect(response).rejects.toThrow()
+  })
+})
@@ -0,0 +1,129 @@
+import { AddressInfo } from 'node:net'
+
+import express from 'express'
+import { z } from 'zod'
+
+import { asRoute, errorHandler, exceptionToDomainError } from '@/shared/http'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('exceptionToDomainError', () => {
+  it('should map a ZodError to a ValidationError', () => {
+    const parsed = z.object({ email: z.string() }).safeParse({})
+
+    expect(exceptionToDomainError(parsed.error)).toEqual(
+      Errors.validation('Validation failed', { email: [expect.any(String)] }),
+    )
+  })
+
+  it('should map a Prisma unique constraint violation to a ConflictError', () => {
+    const error = Object.assign(new Error('Unique constraint failed'), {
+      name: 'PrismaClientKnownRequestError',
+      code: 'P2002',
+      meta: { modelName: 'User', target: ['email'] },
+    })
+
+    expect(exceptionToDomainError(error)).toEqual(Errors.conflict('User', 'User with this email already exists'))
+  })
+
+  it('should map unknown exceptions to an InternalError keeping the cause', () => {
+    const cause = new Error('boom')
+
+    expect(exceptionToDomainError(cause)).toEqual(Errors.internal('An unexpected error occurred', cause))
+  })
+})
+
+describe('errorHandler and asRoute', () => {
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+
+  beforeAll((done) => {
+    const app = express()
+    app.use(express.json({ limit: '1kb' }))
+    app.post(
+      '/echo',
+      asRoute(async (req) => success(req.body), { status: 201 }),
+    )
+    app.get(
+      '/missing',
+      asRoute(async () => failure(Errors.notFound('Thing'))),
+    )
+    app.delete(
+      '/things/1',
+      asRoute(async () => success(undefined)),
+    )
+    app.get('/crash', () => {
+      throw new Error('database password is hunter2')
+    })
+    app.use(errorHandler)
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll((done) => {
+    server.close(done)
+  })
+
+  it('should send success values with the configured status', async () => {
+    const response = await fetch(`${baseUrl}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hello: 'world' }),
+    })
+
+    expect(response.status).toBe(201)
+    expect(await response.json()).toEqual({ hello: 'world' })
+  })
+
+  it('should send failures as error responses', async () => {
+    const response = await fetch(`${baseUrl}/missing`)
+
+    expect(response.status).toBe(404)
+    expect(await response.json()).toEqual({ code: 'NOT_FOUND', message: 'Thing not found' })
+  })
+
+  it('should send 204 when the action has no value', async () => {
+    const response = await fetch(`${baseUrl}/things/1`, { method: 'DELETE' })
+
+    expect(response.status).toBe(204)
+  })
+
+  it('should turn malformed JSON into a validation error', async () => {
+    const response = await fetch(`${baseUrl}/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"hello":',
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ code: 'VALIDATION_ERROR', message: 'Malformed JSON in request body' })
+  })
+
+  it('should answer body-parser errors with their status', async () => {
+    const post = (body: string, headers: Record<string, string> = {}) =>
+      fetch(`${baseUrl}/echo`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body })
+
+    const tooLarge = await post(JSON.stringify({ text: 'a'.repeat(2048) }))
+    const unsupported = await post('{}', { 'Content-Encoding': 'compress' })
+
+    expect(tooLarge.status).toBe(413)
+    expect(await tooLarge.json()).toEqual({ code: 'PAYLOAD_TOO_LARGE', message: 'Request body is too large' })
+    expect(unsupported.status).toBe(415)
+    expect(await unsupported.json()).toEqual({
+      code: 'UNSUPPORTED_MEDIA_TYPE',
+      message: 'unsupported content encoding "compress"',
+    })
+  })
+
+  it('should hide unknown exceptions behind an internal error', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    const response = await fetch(`${baseUrl}/crash`)
+    const body = await response.text()
+
+    expect(response.status).toBe(500)
+    expect(body).not.toContain('hunter2')
+    expect(JSON.parse(body)).toEqual({ code: 'INTERNAL_ERROR', message: 'An unexpected error occurred' })
+  })
+})
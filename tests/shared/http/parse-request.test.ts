@@ -0,0 +1,64 @@
+import { Request } from 'express'
+import { z } from 'zod'
+
+import { parseRequest } from '@/shared/http'
+import { Errors, failure, success } from '@/shared/result'
+
+const schemas = {
+  params: z.object({ id: z.string().uuid() }),
+  query: z.object({ page: z.coerce.number().int().positive() }),
+  body: z.object({ name: z.string() }),
+}
+
+const fakeRequest = (parts: Partial<Pick<Request, 'body' | 'params' | 'query'>>) => parts as Request
+
+describe('parseRequest', () => {
+  it('should parse and coerce every request part', () => {
+    const req = fakeRequest({
+      params: { id: '3f1c9a7e-2b4d-4c8e-9f0a-1b2c3d4e5f60' },
+      query: { page: '2' },
+      body: { name: 'Alice' },
+    })
+
+    const result = parseRequest(req, schemas)
+
+    expect(result).toEqual(
+      success({
+        params: { id: '3f1c9a7e-2b4d-4c8e-9f0a-1b2c3d4e5f60' },
+        query: { page: 2 },
+        body: { name: 'Alice' },
+      }),
+    )
+  })
+
+  it('should collect issues from all parts into one ValidationError', () => {
+    const req = fakeRequest({ params: { id: 'nope' }, query: { page: '0' }, body: undefined })
+
+    const result = parseRequest(req, schemas)
+
+    expect(result).toEqual(
+      failure(
+        Errors.validation('Validation failed', {
+          'params.id': [expect.any(String)],
+          'query.page': [expect.any(String)],
+          'body.name': [expect.any(String)],
+        }),
+      ),
+    )
+  })
+
+  it('should keep issues of the same key in different parts apart', () => {
+    const req = fakeRequest({ params: { id: 'nope' }, body: { id: 42 } })
+
+    const result = parseRequest(req, { params: z.object({ id: z.uuid() }), body: z.object({ id: z.string() }) })
+
+    expect(result).toEqual(
+      failure(
+        Errors.validation('Validation failed', {
+          'params.id': [expect.any(String)],
+          'body.id': [expect.any(String)],
+        }),
+      ),
+    )
+  })
+})
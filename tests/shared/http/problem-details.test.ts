@@ -0,0 +1,93 @@
+import { AddressInfo } from 'node:net'
+
+import express from 'express'
+
+import { errorToProblemDetails, PROBLEM_JSON, sendError } from '@/shared/http'
+import { DomainError, Errors } from '@/shared/result'
+
+describe('errorToProblemDetails', () => {
+  it('should expose validation details as errors', () => {
+    const problem = errorToProblemDetails(Errors.validation('Invalid', { email: ['Invalid email'] }), '/users')
+
+    expect(problem).toEqual({
+      type: '/problems/validation-error',
+      title: 'Your request is not valid',
+      status: 400,
+      detail: 'Invalid',
+      instance: '/users',
+      code: 'VALIDATION_ERROR',
+      errors: { email: ['Invalid email'] },
+    })
+  })
+
+  it('should expose the resource of not found and conflict errors', () => {
+    expect(errorToProblemDetails(Errors.notFound('User'))).toMatchObject({
+      type: '/problems/not-found',
+      status: 404,
+      resource: 'User',
+    })
+    expect(errorToProblemDetails(Errors.conflict('User'))).toMatchObject({
+      type: '/problems/conflict',
+      status: 409,
+      resource: 'User',
+    })
+  })
+
+  it('should expose when rate limited clients may retry', () => {
+    expect(errorToProblemDetails(Errors.rateLimited(30))).toMatchObject({
+      type: '/problems/rate-limited',
+      status: 429,
+      retryAfter: 30,
+    })
+  })
+
+  it('should never leak the cause of internal errors', () => {
+    const problem = errorToProblemDetails(Errors.internal('Boom', new Error('secret')))
+
+    expect(problem).not.toHaveProperty('cause')
+    expect(JSON.stringify(problem)).not.toContain('secret')
+  })
+})
+
+describe('sendError', () => {
+  const error: DomainError = Errors.notFound('User', 'User 42 not found')
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+
+  beforeAll((done) => {
+    const app = express()
+    app.get('/users/:id', (req, res) => sendError(req, res, error))
+    app.post('/throttled', (req, res) => sendError(req, res, Errors.rateLimited(30)))
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll((done) => {
+    server.close(done)
+  })
+
+  it('should send Problem Details when the client asks for them', async () => {
+    const response = await fetch(`${baseUrl}/users/42?verbose=1`, { headers: { Accept: PROBLEM_JSON } })
+
+    expect(response.status).toBe(404)
+    expect(response.headers.get('content-type')).toContain(PROBLEM_JSON)
+    expect(await response.json()).toMatchObject({ type: '/problems/not-found', instance: '/users/42' })
+  })
+
+  it('should keep the legacy JSON body for other clients', async () => {
+    const response = await fetch(`${baseUrl}/users/42`, { headers: { Accept: 'application/json' } })
+
+    expect(response.status).toBe(404)
+    expect(response.headers.get('content-type')).toContain('application/json')
+    expect(await response.json()).toEqual({ code: 'NOT_FOUND', message: 'User 42 not found' })
+  })
+
+  it('should send a Retry-After header when rate limited', async () => {
+    const response = await fetch(`${baseUrl}/throttled`, { method: 'POST' })
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('retry-after')).toBe('30')
+  })
+})
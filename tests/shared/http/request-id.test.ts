@@ -0,0 +1,41 @@
+import { AddressInfo } from 'node:net'
+
+import express from 'express'
+
+import { requestId } from '@/shared/http'
+import { currentLogContext } from '@/shared/logging'
+
+describe('requestId', () => {
+  const app = express()
+  app.use(requestId())
+  app.use(express.json())
+  app.post('/echo', async (_req, res) => {
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    res.json({ requestId: currentLogContext()?.requestId })
+  })
+
+  const server = app.listen(0)
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/echo`
+  const post = (headers: Record<string, string> = {}) =>
+    fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: '{"a":1}' })
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)))
+
+  it('should carry the ID sent by the client through the request and echo it', async () => {
+    const response = await post({ 'X-Request-Id': 'abc-123' })
+
+    expect(response.headers.get('X-Request-Id')).toBe('abc-123')
+    expect(await response.json()).toEqual({ requestId: 'abc-123' })
+  })
+
+  it('should generate an ID when the header is missing or malformed', async () => {
+    const missing = await post()
+    const malformed = await post({ 'X-Request-Id': 'forged" id' })
+
+    const generated = missing.headers.get('X-Request-Id')
+    expect(generated).toMatch(/^[0-9a-f-]{36}$/)
+    expect(await missing.json()).toEqual({ requestId: generated })
+    expect(malformed.headers.get('X-Request-Id')).not.toContain('forged')
+    await malformed.body?.cancel()
+  })
+})
@@ -0,0 +1,31 @@
+import { CronExpression } from '@/shared/jobs'
+
+describe('CronExpression', () => {
+  const next = (expression: string, after: string) =>
+    CronExpression.parse(expression).next(new Date(after)).toISOString()
+
+  it('should find the next matching minute strictly after the given date', () => {
+    expect(next('* * * * *', '2026-10-19T09:00:00Z')).toBe('2026-10-19T09:01:00.000Z')
+    expect(next('*/15 * * * *', '2026-10-19T09:07:30Z')).toBe('2026-10-19T09:15:00.000Z')
+    expect(next('0 3 * * *', '2026-10-19T03:00:00Z')).toBe('2026-10-20T03:00:00.000Z')
+  })
+
+  it('should support lists, ranges and shortcuts', () => {
+    expect(next('0 9-17/4 * * *', '2026-10-19T13:00:00Z')).toBe('2026-10-19T17:00:00.000Z')
+    expect(next('30 8 1,15 * *', '2026-10-02T00:00:00Z')).toBe('2026-10-15T08:30:00.000Z')
+    expect(next('@monthly', '2026-12-15T00:00:00Z')).toBe('2027-01-01T00:00:00.000Z')
+  })
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-10-19 is a Monday; 7 is Sunday like 0
+    expect(next('0 0 1 * 7', '2026-10-19T00:00:00Z')).toBe('2026-10-25T00:00:00.000Z')
+    expect(next('0 0 * * 1-5', '2026-10-23T12:00:00Z')).toBe('2026-10-26T00:00:00.000Z')
+  })
+
+  it('should reject malformed expressions', () => {
+    expect(() => CronExpression.parse('* * * *')).toThrow('expected 5 fields')
+    expect(() => CronExpression.parse('60 * * * *')).toThrow('bad field "60"')
+    expect(() => CronExpression.parse('*/0 * * * *')).toThrow('bad field')
+    expect(() => CronExpression.parse('0 0 31 2 *').next(new Date())).toThrow('never matches')
+  })
+})
@@ -0,0 +1,174 @@
+import { InMemoryJobRepository } from '@/infrastructure/persistence/in-memory/job-repository'
+import { InMemoryUnitOfWork } from '@/infrastructure/persistence/in-memory/unit-of-work'
+import {
+  EnqueueJobCommand,
+  EnqueueJobCommandHandler,
+  Job,
+  JobQueue,
+  JobRegistry,
+  JobWorker,
+  JobWorkerOptions,
+} from '@/shared/jobs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, success } from '@/shared/result'
+
+class PingJob extends Job {
+  static readonly jobName = 'ping'
+  static readonly maxAttempts = 3
+
+  constructor(public readonly message: string) {
+    super()
+  }
+
+  static fromPayload(payload: { message: string }): PingJob {
+    return new PingJob(payload.message)
+  }
+}
+
+describe('JobWorker', () => {
+  const setup = (execute: jest.Mock, options: JobWorkerOptions = {}) => {
+    const repository = new InMemoryJobRepository()
+    const registry = new JobRegistry()
+    registry.register(PingJob, { execute })
+    const worker = new JobWorker(repository, registry, { baseRetryDelayMs: 1000, ...options })
+    return { repository, registry, worker, queue: new JobQueue(repository) }
+  }
+
+  const runDue = async (worker: JobWorker, now?: Date) => {
+    const started = await worker.poll(now)
+    await worker.idle()
+    return started
+  }
+
+  it('should run due jobs and mark them completed', async () => {
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    const { repository, worker, queue } = setup(execute)
+    await queue.enqueue(new PingJob('hello'))
+
+    expect(await runDue(worker)).toBe(1)
+    expect(execute).toHaveBeenCalledWith(new PingJob('hello'))
+    expect(repository.jobs[0]).toMatchObject({ name: 'ping', status: 'completed', completedAt: expect.any(Date) })
+
+    expect(await runDue(worker, new Date(Date.now() + 60_000))).toBe(0)
+  })
+
+  it('should wait for delayed jobs', async () => {
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    const { worker, queue } = setup(execute)
+    await queue.enqueue(new PingJob('later'), { delayMs: 10_000 })
+
+    expect(await runDue(worker)).toBe(0)
+    expect(await runDue(worker, new Date(Date.now() + 10_000))).toBe(1)
+  })
+
+  it('should ignore jobs enqueued again with the same unique key', async () => {
+    const { repository, queue } = setup(jest.fn())
+
+    expect(await queue.enqueue(new PingJob('once'), { uniqueKey: 'ping:1' })).toBe(true)
+    expect(await queue.enqueue(new PingJob('twice'), { uniqueKey: 'ping:1' })).toBe(false)
+    expect(repository.jobs).toHaveLength(1)
+  })
+
+  it('should retry failed jobs with exponential backoff and dead-letter them', async () => {
+    const execute = jest
+      .fn()
+      .mockResolvedValueOnce(failure(Errors.internal('SMTP down')))
+      .mockRejectedValue(new Error('boom'))
+    const { repository, worker, queue } = setup(execute)
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    await queue.enqueue(new PingJob('flaky'))
+
+    const first = new Date()
+    await runDue(worker, first)
+    expect(repository.jobs[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'SMTP down' })
+    expect(repository.jobs[0].runAt).toEqual(new Date(first.getTime() + 1000))
+
+    const second = new Date(first.getTime() + 1000)
+    await runDue(worker, second)
+    expect(repository.jobs[0]).toMatchObject({ attempts: 2, lastError: 'boom' })
+    expect(repository.jobs[0].runAt).toEqual(new Date(second.getTime() + 2000))
+
+    await runDue(worker, new Date(second.getTime() + 2000))
+    expect(repository.jobs[0]).toMatchObject({ status: 'dead', attempts: 3 })
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('dead-lettered after 3 attempts'))
+    error.mockRestore()
+  })
+
+  it('should not start more jobs than the concurrency allows', async () => {
+    const releases: (() => void)[] = []
+    const execute = jest.fn(() => new Promise((resolve) => releases.push(() => resolve(success(undefined)))))
+    const { repository, worker, queue } = setup(execute, { concurrency: 2 })
+    await Promise.all(['a', 'b', 'c'].map((message) => queue.enqueue(new PingJob(message))))
+
+    expect(await worker.poll()).toBe(2)
+    expect(await worker.poll()).toBe(0)
+
+    releases.splice(0).forEach((release) => release())
+    await worker.idle()
+    expect(await worker.poll()).toBe(1)
+    releases.splice(0).forEach((release) => release())
+    await worker.idle()
+    expect(repository.jobs.every((job) => job.status === 'completed')).toBe(true)
+  })
+
+  it('should let running jobs finish when stopped', async () => {
+    let release: () => void = () => undefined
+    const execute = jest.fn(() => new Promise((resolve) => (release = () => resolve(success(undefined)))))
+    const { repository, worker, queue } = setup(execute)
+    await queue.enqueue(new PingJob('slow'))
+    await worker.poll()
+
+    const stopped = worker.stop()
+    release()
+
+    expect(await stopped).toBe(true)
+    expect(repository.jobs[0].status).toBe('completed')
+  })
+
+  it('should enqueue recurring jobs when their schedule matches', async () => {
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    const { repository, registry, worker } = setup(execute)
+    registry.schedule('hourly-ping', '0 * * * *', () => new PingJob('tick'))
+
+    await runDue(worker, new Date('2026-10-19T09:30:00Z'))
+    expect(repository.jobs).toHaveLength(0)
+
+    await runDue(worker, new Date('2026-10-19T10:00:05Z'))
+    expect(repository.jobs).toEqual([
+      expect.objectContaining({ uniqueKey: 'hourly-ping@2026-10-19T10:00:00.000Z', status: 'completed' }),
+    ])
+    expect(execute).toHaveBeenCalledWith(new PingJob('tick'))
+  })
+})
+
+describe('EnqueueJobCommand', () => {
+  it('should only store the job when the unit of work commits', async () => {
+    const repository = new InMemoryJobRepository()
+    const unitOfWork = new InMemoryUnitOfWork([repository])
+    const mediator = new InMemoryMediator()
+    mediator.register(EnqueueJobCommand, new EnqueueJobCommandHandler(new JobQueue(repository)))
+    const enqueue = (message: string) => mediator.send(new EnqueueJobCommand(new PingJob(message), { delayMs: 1000 }))
+
+    const result = await unitOfWork.run(() => enqueue('hello'))
+    await unitOfWork.run(async () => {
+      await enqueue('rolled back')
+      return failure(Errors.conflict('Job'))
+    })
+
+    expect(result).toEqual(success(undefined))
+    expect(repository.jobs).toEqual([
+      expect.objectContaining({ name: 'ping', payload: JSON.stringify(new PingJob('hello')), maxAttempts: 3 }),
+    ])
+  })
+})
+
+describe('JobRegistry', () => {
+  it('should refuse to schedule a cron expression that never matches', () => {
+    const registry = new JobRegistry()
+
+    expect(() => registry.schedule('never', '0 0 31 2 *', () => new PingJob('never'))).toThrow(
+      'Cron expression "0 0 31 2 *" never matches',
+    )
+    expect(registry.schedules()).toEqual([])
+  })
+})
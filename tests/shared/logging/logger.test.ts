@@ -0,0 +1,54 @@
+import { JsonLogger, LoggerOptions, withLogContext } from '@/shared/logging'
+
+describe('JsonLogger', () => {
+  const capture = (options: Partial<LoggerOptions> = {}) => {
+    const lines: Record<string, unknown>[] = []
+    const logger = new JsonLogger({ ...options, write: (_level, line) => lines.push(JSON.parse(line)) })
+    return { logger, lines }
+  }
+
+  it('should write one JSON object per line with the time, level, message and fields', () => {
+    const { logger, lines } = capture()
+
+    logger.info('User created', { userId: '1' })
+
+    expect(lines).toEqual([{ time: expect.any(String), level: 'info', message: 'User created', userId: '1' }])
+  })
+
+  it('should drop lines below the configured level, including those of children', () => {
+    const { logger, lines } = capture({ level: 'warn' })
+    const child = logger.child({ component: 'Jobs' })
+
+    logger.info('ignored')
+    child.warn('kept')
+    logger.configure({ level: 'error' })
+    child.warn('ignored after reconfiguring')
+
+    expect(lines).toEqual([expect.objectContaining({ message: 'kept', component: 'Jobs' })])
+  })
+
+  it('should redact sensitive fields at any depth and in any case', () => {
+    const { logger, lines } = capture({ redact: ['password', 'authorization'] })
+
+    logger.info('Request', {
+      body: { email: 'jane@example.com', Password: 'hunter2' },
+      headers: [{ authorization: 'x' }],
+    })
+
+    expect(lines[0]).toMatchObject({
+      body: { email: 'jane@example.com', Password: '[redacted]' },
+      headers: [{ authorization: '[redacted]' }],
+    })
+  })
+
+  it('should expand errors and add the request ID of the log context', () => {
+    const { logger, lines } = capture()
+
+    withLogContext({ requestId: 'req-1' }, () => logger.error('Failed', { error: new Error('boom') }))
+
+    expect(lines[0]).toMatchObject({
+      requestId: 'req-1',
+      error: { name: 'Error', message: 'boom', stack: expect.stringContaining('boom') },
+    })
+  })
+})
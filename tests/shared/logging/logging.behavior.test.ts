@@ -0,0 +1,44 @@
+import { Command } from '@/shared/cqs'
+import { JsonLogger, LoggingBehavior } from '@/shared/logging'
+import { InMemoryMediator } from '@/shared/mediator'
+import { DomainError, Errors, failure, Result, success } from '@/shared/result'
+
+class PingCommand extends Command<string> {}
+
+describe('LoggingBehavior', () => {
+  const setup = (execute: () => Promise<Result<string, DomainError>>) => {
+    const lines: Record<string, unknown>[] = []
+    const mediator = new InMemoryMediator()
+    mediator.addBehavior(new LoggingBehavior(new JsonLogger({ write: (_level, line) => lines.push(JSON.parse(line)) })))
+    mediator.register(PingCommand, { execute })
+    return { mediator, lines }
+  }
+
+  it('should log the request name, duration and Result tag', async () => {
+    const { mediator, lines } = setup(async () => success('pong'))
+
+    await mediator.send(new PingCommand())
+
+    expect(lines).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        message: 'Request handled',
+        request: 'PingCommand',
+        kind: 'Command',
+        durationMs: expect.any(Number),
+        result: 'Success',
+      }),
+    ])
+  })
+
+  it('should log the error code of failures, and internal errors as errors', async () => {
+    const notFound = setup(async () => failure(Errors.notFound('User', '1')))
+    const internal = setup(async () => failure(Errors.internal('Database down')))
+
+    await notFound.mediator.send(new PingCommand())
+    await internal.mediator.send(new PingCommand())
+
+    expect(notFound.lines[0]).toMatchObject({ level: 'info', result: 'Failure', errorCode: 'NOT_FOUND' })
+    expect(internal.lines[0]).toMatchObject({ level: 'error', result: 'Failure', errorCode: 'INTERNAL_ERROR' })
+  })
+})
@@ -0,0 +1,208 @@
+import path from 'node:path'
+
+import {
+  collectRequestTypes,
+  discoverFeatureModules,
+  findUnhandledRequests,
+  InMemoryMediator,
+  PipelineBehavior,
+  resolveFeatureModules,
+} from '@/shared/mediator'
+import { LoginCommand } from '@/features/v1/auth/login/login.command'
+import { VerifyEmailCommand } from '@/features/v1/auth/verify-email/verify-email.command'
+import { Command, Notification, NotificationHandler, Query } from '@/shared/cqs'
+import { Errors, failure, map, success } from '@/shared/result'
+
+class PingCommand extends Command<string> {}
+
+class PingQuery extends Query<string> {}
+
+describe('InMemoryMediator', () => {
+  it('should run behaviors in registration order around the handler', async () => {
+    const calls: string[] = []
+    const mediator = new InMemoryMediator()
+    const tracing = (name: string): PipelineBehavior => ({
+      handle: async (_request, next) => {
+        calls.push(`${name}:before`)
+        const result = await next()
+        calls.push(`${name}:after`)
+        return result
+      },
+    })
+    mediator.addBehavior(tracing('outer'))
+    mediator.addBehavior(tracing('inner'))
+    mediator.register(PingCommand, {
+      execute: async () => {
+        calls.push('handler')
+        return success('pong')
+      },
+    })
+
+    const result = await mediator.send(new PingCommand())
+
+    expect(result).toEqual(success('pong'))
+    expect(calls).toEqual(['outer:before', 'inner:before', 'handler', 'inner:after', 'outer:after'])
+  })
+
+  it('should short-circuit with a Failure without calling the handler', async () => {
+    const mediator = new InMemoryMediator()
+    const execute = jest.fn()
+    mediator.addBehavior({ handle: async () => failure(Errors.forbidden()) })
+    mediator.register(PingCommand, { execute })
+
+    const result = await mediator.send(new PingCommand())
+
+    expect(result).toEqual(failure(Errors.forbidden()))
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it('should let behaviors change the Result on the way out', async () => {
+    const mediator = new InMemoryMediator()
+    const upperCase: PipelineBehavior<PingQuery, string> = {
+      handle: async (_request, next) => map(await next(), (value: string) => value.toUpperCase()),
+    }
+    mediator.addBehavior(upperCase)
+    mediator.register(PingQuery, { execute: async () => success('pong') })
+
+    const result = await mediator.send(new PingQuery())
+
+    expect(result).toEqual(success('PONG'))
+  })
+
+  it('should only apply behaviors matching the request kind or name', async () => {
+    const mediator = new InMemoryMediator()
+    const commandsOnly = jest.fn((_request, next) => next())
+    const queriesOnly = jest.fn((_request, next) => next())
+    const pingQueryOnly = jest.fn((_request, next) => next())
+    mediator.addBehavior({ handle: commandsOnly }, { kind: 'Command' })
+    mediator.addBehavior({ handle: queriesOnly }, { kind: 'Query' })
+    mediator.addBehavior({ handle: pingQueryOnly }, { requestType: PingQuery })
+    mediator.register(PingCommand, { execute: async () => success('pong') })
+
+    await mediator.send(new PingCommand())
+
+    expect(commandsOnly).toHaveBeenCalledTimes(1)
+    expect(queriesOnly).not.toHaveBeenCalled()
+    expect(pingQueryOnly).not.toHaveBeenCalled()
+  })
+
+  it('should key handlers by class rather than by class name', async () => {
+    const mediator = new InMemoryMediator()
+    const Minified = class extends Command<string> {}
+    const AlsoMinified = class extends Command<string> {}
+    Object.defineProperty(AlsoMinified, 'name', { value: Minified.name })
+    mediator.register(Minified, { execute: async () => success('first') })
+    mediator.register(AlsoMinified, { execute: async () => success('second') })
+
+    const result = await mediator.send(new AlsoMinified())
+
+    expect(result).toEqual(success('second'))
+  })
+
+  it('should pass the request context to behaviors and the handler', async () => {
+    const mediator = new InMemoryMediator()
+    const context = { principal: { userId: '1', email: 'test@test.com', roles: [], permissions: [] } }
+    const behavior = jest.fn((_request, next) => next())
+    const execute = jest.fn(async () => success('pong'))
+    mediator.addBehavior({ handle: behavior })
+    mediator.register(PingQuery, { execute })
+
+    const request = new PingQuery()
+    await mediator.send(request, context)
+
+    expect(behavior).toHaveBeenCalledWith(request, expect.any(Function), context)
+    expect(execute).toHaveBeenCalledWith(request, context)
+  })
+
+  it('should fail when no handler is registered', async () => {
+    const mediator = new InMemoryMediator()
+
+    const result = await mediator.send(new PingCommand())
+
+    expect(result).toEqual(failure(Errors.internal('No handler registered for PingCommand')))
+  })
+})
+
+describe('findUnhandledRequests', () => {
+  it('should report request types without a registered handler', () => {
+    const mediator = new InMemoryMediator()
+    mediator.register(PingCommand, { execute: async () => success('pong') })
+
+    const unhandled = findUnhandledRequests(mediator, [PingCommand, PingQuery])
+
+    expect(unhandled).toEqual([PingQuery])
+  })
+})
+
+describe('collectRequestTypes', () => {
+  it('should leave out the requests of disabled slices', () => {
+    const featuresDir = path.join(__dirname, '../../../src/features')
+    const modules = resolveFeatureModules(discoverFeatureModules(featuresDir), { disabled: ['LoginModule'] })
+
+    const requestTypes = collectRequestTypes(featuresDir, modules)
+
+    expect(requestTypes).toContain(VerifyEmailCommand)
+    expect(requestTypes).not.toContain(LoginCommand)
+    expect(collectRequestTypes(featuresDir)).toContain(LoginCommand)
+  })
+})
+
+class Pinged implements Notification {
+  readonly _tag = 'Notification' as const
+}
+
+describe('InMemoryMediator.publish', () => {
+  it('should succeed when nobody subscribed', async () => {
+    const mediator = new InMemoryMediator()
+
+    const result = await mediator.publish(new Pinged())
+
+    expect(result).toEqual(success(undefined))
+  })
+
+  it('should run subscribers sequentially in subscription order', async () => {
+    const calls: string[] = []
+    const mediator = new InMemoryMediator()
+    const handler = (name: string): NotificationHandler<Pinged> => ({
+      execute: async () => {
+        calls.push(name)
+        return success(undefined)
+      },
+    })
+    mediator.subscribe(Pinged, handler('first'))
+    mediator.subscribe(Pinged, handler('second'))
+
+    const result = await mediator.publish(new Pinged())
+
+    expect(result).toEqual(success(undefined))
+    expect(calls).toEqual(['first', 'second'])
+  })
+
+  it('should collect every failure, including thrown errors, when run in parallel', async () => {
+    const mediator = new InMemoryMediator()
+    mediator.subscribe(Pinged, { execute: async () => failure(Errors.forbidden()) })
+    mediator.subscribe(Pinged, { execute: async () => success(undefined) })
+    mediator.subscribe(Pinged, {
+      execute: async () => {
+        throw new Error('boom')
+      },
+    })
+
+    const result = await mediator.publish(new Pinged(), { strategy: 'parallel' })
+
+    expect(result).toEqual(
+      failure([Errors.forbidden(), expect.objectContaining({ code: 'INTERNAL_ERROR', cause: new Error('boom') })]),
+    )
+  })
+
+  it('should not wait for subscribers when fired and forgotten', async () => {
+    const mediator = new InMemoryMediator()
+    const execute = jest.fn(() => new Promise<never>(() => undefined))
+    mediator.subscribe(Pinged, { execute })
+
+    const result = await mediator.publish(new Pinged(), { strategy: 'fire-and-forget' })
+
+    expect(result).toEqual(success(undefined))
+    expect(execute).toHaveBeenCalled()
+  })
+})
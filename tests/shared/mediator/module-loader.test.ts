@@ -0,0 +1,108 @@
+import path from 'node:path'
+
+import { Router } from 'express'
+
+import {
+  discoverFeatureModules,
+  FeatureModule,
+  findRouteConflicts,
+  InMemoryMediator,
+  moduleName,
+  registerFeatureHandlers,
+  resolveFeatureModules,
+} from '@/shared/mediator'
+import { Container } from '@/shared/container'
+import { Command } from '@/shared/cqs'
+import { success } from '@/shared/result'
+
+class PingCommand extends Command<string> {}
+
+const fakeModule = (name: string, requires?: string[]): FeatureModule => ({
+  name,
+  requires,
+  version: 'v1',
+  registerHandlers: () => {},
+  registerRoutes: () => ({ basePath: '/', router: Router() }),
+})
+
+const names = (modules: FeatureModule[]) => modules.map(moduleName)
+
+describe('discoverFeatureModules', () => {
+  it('should instantiate the module exported by every slice', () => {
+    const modules = discoverFeatureModules(path.join(__dirname, '../../../src/features'))
+
+    expect(names(modules)).toContain('CreateUserModule')
+    expect(names(modules)).toContain('GetUserByIdV2Module')
+    expect(modules).toHaveLength(14)
+  })
+})
+
+describe('resolveFeatureModules', () => {
+  it('should order modules after the ones they require and keep the others in place', () => {
+    const modules = [fakeModule('Orders', ['Users']), fakeModule('Audit'), fakeModule('Users')]
+
+    expect(names(resolveFeatureModules(modules))).toEqual(['Users', 'Orders', 'Audit'])
+  })
+
+  it('should leave out disabled modules', () => {
+    const modules = [fakeModule('Orders'), fakeModule('Users')]
+
+    expect(names(resolveFeatureModules(modules, { disabled: ['Orders'] }))).toEqual(['Users'])
+  })
+
+  it('should report every problem at once', () => {
+    const modules = [
+      fakeModule('Orders', ['Users']),
+      fakeModule('Users'),
+      fakeModule('Users'),
+      fakeModule('Invoices', ['Payments']),
+      fakeModule('Payments', ['Invoices']),
+      fakeModule('Reports', ['Missing']),
+    ]
+
+    const resolve = () => resolveFeatureModules(modules, { disabled: ['Users', 'Unknown'] })
+
+    expect(resolve).toThrow('Users is declared by more than one module')
+    expect(resolve).toThrow('Unknown is disabled but no such module exists')
+    expect(resolve).toThrow('Orders requires Users, which is disabled')
+    expect(resolve).toThrow('Circular module requirement: Invoices -> Payments -> Invoices')
+    expect(resolve).toThrow('Reports requires Missing, which does not exist')
+  })
+})
+
+describe('findRouteConflicts', () => {
+  it('should allow a shared base path but report the same method and path declared twice in a version', () => {
+    const list = Router().get('/', () => {})
+    const create = Router().post('/', () => {})
+    const duplicate = Router().get('', () => {})
+    const newer = Router().get('/', () => {})
+
+    const conflicts = findRouteConflicts([
+      { module: 'ListUsers', version: 'v1', route: { basePath: '/users', router: list } },
+      { module: 'CreateUser', version: 'v1', route: { basePath: '/users/', router: create } },
+      { module: 'Other', version: 'v1', route: { basePath: '/users', router: duplicate } },
+      { module: 'ListUsersV2', version: 'v2', route: { basePath: '/users', router: newer } },
+    ])
+
+    expect(conflicts).toEqual(['GET /v1/users is declared by both ListUsers and Other'])
+  })
+})
+
+describe('registerFeatureHandlers', () => {
+  it('should name both modules registering a handler for the same request', () => {
+    const registering = (name: string): FeatureModule => ({
+      ...fakeModule(name),
+      registerHandlers: (mediator) => mediator.register(PingCommand, { execute: async () => success('pong') }),
+    })
+
+    const register = () =>
+      registerFeatureHandlers(new InMemoryMediator(), Container.create(), [
+        registering('First'),
+        registering('Second'),
+        registering('Third'),
+      ])
+
+    expect(register).toThrow('PingCommand is handled by both First and Second')
+    expect(register).toThrow('PingCommand is handled by both First and Third')
+  })
+})
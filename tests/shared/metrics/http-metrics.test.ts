@@ -0,0 +1,50 @@
+import { AddressInfo } from 'node:net'
+
+import express, { Router } from 'express'
+
+import { httpMetrics, metricsRouter, MetricsRegistry } from '@/shared/metrics'
+
+describe('httpMetrics', () => {
+  const registry = new MetricsRegistry()
+  const users = Router()
+  users.get('/:id', (req, res) => {
+    if (req.params.id === 'broken') {
+      throw new Error('Database down')
+    }
+    res.json({ id: req.params.id })
+  })
+
+  const app = express()
+  app.use(httpMetrics(registry))
+  app.use(metricsRouter(registry))
+  app.use('/v1/users', users)
+  app.use((_error: unknown, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(500).end()
+  })
+
+  const server = app.listen(0)
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  const get = async (path: string) => {
+    const response = await fetch(`${baseUrl}${path}`)
+    return { response, body: await response.text() }
+  }
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)))
+
+  it('should count requests by route template, method and status', async () => {
+    await get('/v1/users/1')
+    await get('/v1/users/2')
+    await get('/v1/users/broken')
+    await get('/wp-login.php')
+
+    const { response, body } = await get('/metrics')
+
+    expect(response.headers.get('Content-Type')).toMatch(/^text\/plain;.*version=0\.0\.4/)
+    expect(body).toContain('http_requests_total{method="GET",route="/v1/users/:id",status="200"} 2')
+    expect(body).toContain('http_requests_total{method="GET",route="/v1/users/:id",status="500"} 1')
+    expect(body).toContain('http_requests_total{method="GET",route="unmatched",status="404"} 1')
+    expect(body).toContain('http_request_duration_seconds_count{method="GET",route="/v1/users/:id",status="200"} 2')
+    // The scrape itself is still being served
+    expect(body).toContain('http_requests_in_flight 1')
+  })
+})
@@ -0,0 +1,58 @@
+import { MetricsRegistry } from '@/shared/metrics'
+
+describe('MetricsRegistry', () => {
+  it('should render counters, gauges and histograms in the Prometheus text format', () => {
+    const registry = new MetricsRegistry()
+    registry.counter({ name: 'jobs_total', help: 'Jobs run', labelNames: ['type'] }).inc({ type: 'email' }, 2)
+    registry.gauge({ name: 'queue_depth', help: 'Jobs waiting' }).set({}, 3)
+    const duration = registry.histogram({ name: 'job_seconds', help: 'Job duration', buckets: [0.1, 1] })
+    duration.observe({}, 0.05)
+    duration.observe({}, 0.5)
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP jobs_total Jobs run',
+        '# TYPE jobs_total counter',
+        'jobs_total{type="email"} 2',
+        '# HELP queue_depth Jobs waiting',
+        '# TYPE queue_depth gauge',
+        'queue_depth 3',
+        '# HELP job_seconds Job duration',
+        '# TYPE job_seconds histogram',
+        'job_seconds_bucket{le="0.1"} 1',
+        'job_seconds_bucket{le="1"} 2',
+        'job_seconds_bucket{le="+Inf"} 2',
+        'job_seconds_sum 0.55',
+        'job_seconds_count 2',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry()
+    registry.counter({ name: 'paths_total', help: 'Paths', labelNames: ['path'] }).inc({ path: 'a"b\\c\nd' })
+
+    expect(registry.render()).toContain('paths_total{path="a\\"b\\\\c\\nd"} 1')
+  })
+
+  it('should return the metric already registered under a name', () => {
+    const registry = new MetricsRegistry()
+    const options = { name: 'users_created_total', help: 'Users created' }
+
+    expect(registry.counter(options)).toBe(registry.counter(options))
+    expect(() => registry.gauge(options)).toThrow('Metric users_created_total is already registered as a counter')
+    expect(() => registry.counter({ ...options, labelNames: ['source'] })).toThrow(/already registered/)
+  })
+
+  it('should reject malformed names, missing labels and decreasing counters', () => {
+    const registry = new MetricsRegistry()
+    const counter = registry.counter({ name: 'requests_total', help: 'Requests', labelNames: ['method'] })
+
+    expect(() => registry.counter({ name: 'requests-total', help: 'Requests' })).toThrow('Invalid metric name')
+    expect(() => registry.counter({ name: 'ok_total', help: 'Ok', labelNames: ['__name'] })).toThrow('Invalid label')
+    expect(() => registry.histogram({ name: 'h', help: 'H', buckets: [1, 0.5] })).toThrow('must be ascending')
+    expect(() => counter.inc({ path: '/' })).toThrow('requests_total expects the labels [method], got [path]')
+    expect(() => counter.inc({ method: 'GET' }, -1)).toThrow("can't be decreased")
+  })
+})
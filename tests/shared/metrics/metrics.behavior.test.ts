@@ -0,0 +1,32 @@
+import { Command } from '@/shared/cqs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { MetricsBehavior, MetricsRegistry } from '@/shared/metrics'
+import { Errors, failure, success } from '@/shared/result'
+
+class PingCommand extends Command<string> {}
+
+describe('MetricsBehavior', () => {
+  it('should count requests by name, outcome and error code', async () => {
+    const registry = new MetricsRegistry()
+    const execute = jest
+      .fn()
+      .mockResolvedValueOnce(success('pong'))
+      .mockResolvedValueOnce(failure(Errors.notFound('User', '1')))
+      .mockRejectedValueOnce(new Error('Database down'))
+    const mediator = new InMemoryMediator()
+    mediator.addBehavior(new MetricsBehavior(registry))
+    mediator.register(PingCommand, { execute })
+
+    await mediator.send(new PingCommand())
+    await mediator.send(new PingCommand())
+    await expect(mediator.send(new PingCommand())).rejects.toThrow('Database down')
+
+    const body = registry.render()
+    expect(body).toContain('mediator_requests_total{request="PingCommand",outcome="success",error_code="none"} 1')
+    expect(body).toContain('mediator_requests_total{request="PingCommand",outcome="failure",error_code="NOT_FOUND"} 1')
+    expect(body).toContain(
+      'mediator_requests_total{request="PingCommand",outcome="failure",error_code="INTERNAL_ERROR"} 1',
+    )
+    expect(body).toContain('mediator_request_duration_seconds_count{request="PingCommand",outcome="failure"} 2')
+  })
+})
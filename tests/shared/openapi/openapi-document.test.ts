@@ -0,0 +1,161 @@
+import { AddressInfo } from 'node:net'
+
+import express, { Router } from 'express'
+import { z } from 'zod'
+
+import { Command, Query } from '@/shared/cqs'
+import { MountedRoute } from '@/shared/mediator'
+import { generateOpenApiDocument, openApiRouter, OpenApiOptions } from '@/shared/openapi'
+
+class RenameThingCommand extends Command<{ id: string }> {
+  static readonly schema = z.object({ id: z.string(), name: z.string(), note: z.string().optional() })
+}
+
+class ListThingsQuery extends Query<{ id: string }[]> {
+  static readonly schema = z.object({ page: z.coerce.number().int().default(1) })
+}
+
+const thingSchema = z.object({ id: z.string(), renamedAt: z.date() })
+
+const options: OpenApiOptions = {
+  title: 'Things',
+  version: '1.0.0',
+  versioning: {
+    versions: [{ name: 'v1', deprecatedAt: new Date('2026-01-01T00:00:00Z') }, { name: 'v2' }],
+    defaultVersion: 'v1',
+    vendor: 'acme',
+  },
+}
+
+const mounted = (): MountedRoute[] => [
+  {
+    module: 'RenameThingModule',
+    version: 'v1',
+    route: {
+      basePath: '/things',
+      router: Router().patch('/:id', () => {}),
+      operations: [
+        {
+          method: 'patch',
+          path: '/:id',
+          summary: 'Rename a thing',
+          request: RenameThingCommand,
+          response: thingSchema,
+          authenticated: true,
+          errors: ['NOT_FOUND'],
+        },
+      ],
+    },
+  },
+  {
+    module: 'ListThingsModule',
+    version: 'v1',
+    route: {
+      basePath: '/things',
+      router: Router().get('/', () => {}),
+      operations: [{ method: 'get', path: '/', summary: 'List things', request: ListThingsQuery }],
+    },
+  },
+  {
+    module: 'ListThingsV2Module',
+    version: 'v2',
+    route: {
+      basePath: '/things',
+      router: Router().get('/', () => {}),
+      operations: [{ method: 'get', path: '/', summary: 'List things, v2', request: ListThingsQuery }],
+    },
+  },
+]
+
+describe('generateOpenApiDocument', () => {
+  it('should split the request schema into path parameters and body, and document responses', () => {
+    const operation = generateOpenApiDocument(mounted(), options).paths['/v1/things/{id}']?.patch
+
+    expect(operation).toMatchObject({
+      operationId: 'renameThingV1',
+      tags: ['things'],
+      deprecated: true,
+      security: [{ bearerAuth: [] }],
+      parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+      requestBody: {
+        content: {
+          'application/json': {
+            schema: { properties: { name: { type: 'string' }, note: { type: 'string' } }, required: ['name'] },
+          },
+        },
+      },
+    })
+    expect(operation?.responses['200']).toMatchObject({
+      content: {
+        'application/json': { schema: { properties: { renamedAt: { type: 'string', format: 'date-time' } } } },
+      },
+    })
+    expect(Object.keys(operation?.responses ?? {})).toEqual(['200', '400', '401', '404', '413', '415', '500'])
+    expect(operation?.responses['404']).toEqual({ $ref: '#/components/responses/NOT_FOUND' })
+  })
+
+  it('should put the parameters of GET routes in the query string', () => {
+    const operation = generateOpenApiDocument(mounted(), options).paths['/v1/things']?.get
+
+    expect(operation?.parameters).toEqual([
+      { name: 'page', in: 'query', required: false, schema: expect.objectContaining({ type: 'integer', default: 1 }) },
+    ])
+    expect(operation?.responses['204']).toEqual({ description: 'No Content' })
+  })
+
+  it('should list inherited operations under newer versions unless they redeclare them', () => {
+    const { paths } = generateOpenApiDocument(mounted(), options)
+
+    expect(paths['/v2/things']?.get?.summary).toBe('List things, v2')
+    expect(paths['/v2/things/{id}']?.patch?.operationId).toBe('renameThingV2')
+    expect(paths['/v2/things/{id}']?.patch?.deprecated).toBeUndefined()
+  })
+
+  it('should fail when routes and their metadata drift apart', () => {
+    const routes = mounted()
+    routes[0].route.router.get('/:id', () => {})
+    routes[1].route.operations?.push({
+      method: 'post',
+      path: '/',
+      summary: 'Create a thing',
+      operationId: 'createThing',
+    })
+
+    expect(() => generateOpenApiDocument(routes, options)).toThrow(
+      [
+        'OpenAPI metadata out of date:',
+        '  - GET /v1/things/:id of RenameThingModule is not documented',
+        '  - POST /v1/things of ListThingsModule is not served',
+      ].join('\n'),
+    )
+  })
+})
+
+describe('openApiRouter', () => {
+  let server: ReturnType<express.Application['listen']>
+  let baseUrl: string
+
+  beforeAll((done) => {
+    const app = express()
+    app.use(openApiRouter(generateOpenApiDocument(mounted(), options)))
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+      done()
+    })
+  })
+
+  afterAll((done) => {
+    server.close(done)
+  })
+
+  it('should serve the document and a self-hosted docs page', async () => {
+    const document = await fetch(`${baseUrl}/openapi.json`)
+    const page = await fetch(`${baseUrl}/docs`)
+    const assets = await fetch(`${baseUrl}/docs/assets/swagger-ui-bundle.js`)
+
+    expect(await document.json()).toMatchObject({ openapi: '3.1.0', info: { title: 'Things' } })
+    expect(await page.text()).toContain('/docs/assets/swagger-ui-bundle.js')
+    expect(assets.status).toBe(200)
+    expect(await assets.text()).toContain('SwaggerUIBundle')
+  })
+})
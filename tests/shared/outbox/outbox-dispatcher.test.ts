@@ -0,0 +1,105 @@
+import { UserCreated } from '@/domain/user/user-created.event'
+import { InMemoryOutboxRepository } from '@/infrastructure/persistence/in-memory/outbox-repository'
+import { InMemoryMediator } from '@/shared/mediator'
+import { OutboxDispatcher } from '@/shared/outbox'
+import { Errors, failure, success } from '@/shared/result'
+
+describe('OutboxDispatcher', () => {
+  const event = new UserCreated('1', 'test@test.com', 'Test User', new Date('2026-10-19T09:00:00Z'))
+
+  const setup = async (execute: jest.Mock) => {
+    const outbox = new InMemoryOutboxRepository()
+    const mediator = new InMemoryMediator()
+    mediator.subscribe(UserCreated, { execute })
+    await outbox.add([event])
+    const dispatcher = new OutboxDispatcher(outbox, mediator, [UserCreated], {
+      maxAttempts: 3,
+      baseRetryDelayMs: 1000,
+    })
+    return { outbox, dispatcher }
+  }
+
+  const later = (ms: number) => new Date(Date.now() + ms)
+
+  it('should publish due messages and mark them dispatched', async () => {
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    const { outbox, dispatcher } = await setup(execute)
+
+    expect(await dispatcher.dispatchPending()).toBe(1)
+    expect(execute).toHaveBeenCalledWith(event)
+    expect(outbox.messages[0]).toMatchObject({ status: 'dispatched', dispatchedAt: expect.any(Date) })
+
+    expect(await dispatcher.dispatchPending(later(60_000))).toBe(0)
+    expect(execute).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry failed messages with exponential backoff', async () => {
+    const execute = jest
+      .fn()
+      .mockResolvedValueOnce(failure(Errors.internal('SMTP down')))
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValue(success(undefined))
+    const { outbox, dispatcher } = await setup(execute)
+
+    const first = new Date()
+    await dispatcher.dispatchPending(first)
+    expect(outbox.messages[0]).toMatchObject({ status: 'pending', attempts: 1, lastError: 'SMTP down' })
+    expect(outbox.messages[0].availableAt).toEqual(new Date(first.getTime() + 1000))
+
+    expect(await dispatcher.dispatchPending(new Date(first.getTime() + 999))).toBe(0)
+
+    const second = new Date(first.getTime() + 1000)
+    await dispatcher.dispatchPending(second)
+    expect(outbox.messages[0]).toMatchObject({ attempts: 2, lastError: 'Notification handler for UserCreated threw' })
+    expect(outbox.messages[0].availableAt).toEqual(new Date(second.getTime() + 2000))
+
+    expect(await dispatcher.dispatchPending(new Date(second.getTime() + 2000))).toBe(1)
+    expect(outbox.messages[0].status).toBe('dispatched')
+  })
+
+  it('should dead-letter a message after the maximum number of attempts', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const execute = jest.fn().mockResolvedValue(failure(Errors.internal('SMTP down')))
+    const { outbox, dispatcher } = await setup(execute)
+
+    for (const delay of [0, 1000, 3000, 10_000]) {
+      await dispatcher.dispatchPending(later(delay))
+    }
+
+    expect(execute).toHaveBeenCalledTimes(3)
+    expect(outbox.messages[0]).toMatchObject({ status: 'dead', attempts: 3, lastError: 'SMTP down' })
+    jest.restoreAllMocks()
+  })
+
+  it('should not publish a message claimed by another dispatcher', async () => {
+    const execute = jest.fn().mockResolvedValue(success(undefined))
+    const { outbox, dispatcher } = await setup(execute)
+    const now = new Date()
+    await outbox.claim(outbox.messages[0].id, now, later(60_000))
+
+    expect(await dispatcher.dispatchPending(now)).toBe(0)
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it('should fail messages of unknown types', async () => {
+    const outbox = new InMemoryOutboxRepository()
+    await outbox.add([event])
+    const dispatcher = new OutboxDispatcher(outbox, new InMemoryMediator(), [])
+
+    await dispatcher.dispatchPending()
+
+    expect(outbox.messages[0]).toMatchObject({
+      attempts: 1,
+      lastError: 'No outbox event registered for type user.created',
+    })
+  })
+
+  it('should cap the retry delay', () => {
+    const dispatcher = new OutboxDispatcher(new InMemoryOutboxRepository(), new InMemoryMediator(), [], {
+      baseRetryDelayMs: 1000,
+      maxRetryDelayMs: 5000,
+    })
+
+    expect([1, 2, 3, 4, 5].map((attempts) => dispatcher.retryDelayMs(attempts))).toEqual([1000, 2000, 4000, 5000, 5000])
+  })
+})
@@ -0,0 +1,104 @@
+import { User } from '@/domain/user/user'
+import { UserCreated } from '@/domain/user/user-created.event'
+import { InMemoryOutboxRepository } from '@/infrastructure/persistence/in-memory/outbox-repository'
+import { InMemoryUnitOfWork } from '@/infrastructure/persistence/in-memory/unit-of-work'
+import { InMemoryUserRepository } from '@/infrastructure/persistence/in-memory/user-repository'
+import { Command, Query } from '@/shared/cqs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, success } from '@/shared/result'
+import { UnitOfWorkBehavior } from '@/shared/unit-of-work'
+
+class SignUpCommand extends Command<string> {
+  constructor(public readonly outcome: 'commit' | 'fail' | 'throw') {
+    super()
+  }
+}
+
+class CountUsersQuery extends Query<number> {}
+
+class ImportUsersCommand extends Command<void> {
+  static readonly transactional = false
+}
+
+describe('UnitOfWorkBehavior', () => {
+  const setup = () => {
+    const outbox = new InMemoryOutboxRepository()
+    const userRepository = new InMemoryUserRepository(outbox)
+    const unitOfWork = new InMemoryUnitOfWork([userRepository, outbox])
+    const mediator = new InMemoryMediator()
+    mediator.addBehavior(new UnitOfWorkBehavior(unitOfWork))
+    mediator.register(SignUpCommand, {
+      execute: async (command) => {
+        const user = await userRepository.save(User.create('test@test.com', null), (saved) => [
+          UserCreated.fromUser(saved),
+        ])
+        if (command.outcome === 'throw') {
+          throw new Error('boom')
+        }
+        return command.outcome === 'fail' ? failure(Errors.conflict('User')) : success(user.id)
+      },
+    })
+    return { mediator, userRepository, outbox, unitOfWork }
+  }
+
+  it('should keep the changes of a successful command', async () => {
+    const { mediator, userRepository, outbox } = setup()
+
+    const result = await mediator.send(new SignUpCommand('commit'))
+
+    expect(result).toEqual(success('1'))
+    expect(await userRepository.findById('1')).not.toBeNull()
+    expect(outbox.messages).toHaveLength(1)
+  })
+
+  it('should roll back every repository when the command fails', async () => {
+    const { mediator, userRepository, outbox } = setup()
+
+    const result = await mediator.send(new SignUpCommand('fail'))
+
+    expect(result).toEqual(failure(Errors.conflict('User')))
+    expect(await userRepository.findByEmail('test@test.com')).toBeNull()
+    expect(outbox.messages).toEqual([])
+  })
+
+  it('should roll back when the command throws', async () => {
+    const { mediator, userRepository } = setup()
+
+    await expect(mediator.send(new SignUpCommand('throw'))).rejects.toThrow('boom')
+    expect(await userRepository.findByEmail('test@test.com')).toBeNull()
+    expect((await userRepository.save(User.create('next@test.com', null))).id).toBe('1')
+  })
+
+  it('should let queries bypass the unit of work', async () => {
+    const { mediator, unitOfWork } = setup()
+    const run = jest.spyOn(unitOfWork, 'run')
+    mediator.register(CountUsersQuery, { execute: async () => success(0) })
+
+    await mediator.send(new CountUsersQuery())
+
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it('should let commands opting out run their own units of work', async () => {
+    const { mediator, unitOfWork } = setup()
+    const run = jest.spyOn(unitOfWork, 'run')
+    mediator.register(ImportUsersCommand, { execute: async () => success(undefined) })
+
+    await mediator.send(new ImportUsersCommand())
+
+    expect(run).not.toHaveBeenCalled()
+  })
+
+  it('should join an outer unit of work instead of rolling back on its own', async () => {
+    const { mediator, userRepository, unitOfWork } = setup()
+
+    const result = await unitOfWork.run(async () => {
+      await mediator.send(new SignUpCommand('fail'))
+      expect(await userRepository.findByEmail('test@test.com')).not.toBeNull()
+      return failure(Errors.conflict('User'))
+    })
+
+    expect(result).toEqual(failure(Errors.conflict('User')))
+    expect(await userRepository.findByEmail('test@test.com')).toBeNull()
+  })
+})
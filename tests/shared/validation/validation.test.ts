@@ -0,0 +1,74 @@
+import { z } from 'zod'
+
+import { Command } from '@/shared/cqs'
+import { InMemoryMediator } from '@/shared/mediator'
+import { Errors, failure, success } from '@/shared/result'
+import { validate, ValidationBehavior } from '@/shared/validation'
+
+const renameSchema = z.object({
+  name: z.string().min(3),
+  tags: z.array(z.string()).max(1),
+})
+
+class RenameCommand extends Command<string> {
+  static readonly schema = renameSchema
+
+  constructor(
+    public readonly name: string,
+    public readonly tags: string[] = [],
+  ) {
+    super()
+  }
+}
+
+describe('validate', () => {
+  it('should return the parsed value on success', () => {
+    const result = validate(renameSchema, { name: 'Alice', tags: [] })
+
+    expect(result).toEqual(success({ name: 'Alice', tags: [] }))
+  })
+
+  it('should group issues by their dotted path instead of throwing', () => {
+    const result = validate(renameSchema, { name: 'Al', tags: [1, 'b'] })
+
+    expect(result).toEqual(
+      failure(
+        Errors.validation('Validation failed', {
+          name: [expect.any(String)],
+          'tags.0': [expect.any(String)],
+          tags: [expect.any(String)],
+        }),
+      ),
+    )
+  })
+
+  it('should report non-field issues under the root key', () => {
+    const result = validate(renameSchema, undefined)
+
+    expect(result).toEqual(failure(Errors.validation('Validation failed', { _root: [expect.any(String)] })))
+  })
+})
+
+describe('ValidationBehavior', () => {
+  it('should short-circuit invalid requests before the handler runs', async () => {
+    const mediator = new InMemoryMediator()
+    const execute = jest.fn()
+    mediator.addBehavior(new ValidationBehavior())
+    mediator.register(RenameCommand, { execute })
+
+    const result = await mediator.send(new RenameCommand('Al'))
+
+    expect(result).toEqual(failure(Errors.validation('Validation failed', { name: [expect.any(String)] })))
+    expect(execute).not.toHaveBeenCalled()
+  })
+
+  it('should pass valid requests through to the handler', async () => {
+    const mediator = new InMemoryMediator()
+    mediator.addBehavior(new ValidationBehavior())
+    mediator.register(RenameCommand, { execute: async (command) => success(command.name) })
+
+    const result = await mediator.send(new RenameCommand('Alice'))
+
+    expect(result).toEqual(success('Alice'))
+  })
+})